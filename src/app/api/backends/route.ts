@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { getBackends, toBackendInfo } from '@/lib/cli-backends'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/backends - 获取已配置的 cc-agent 后端列表
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: getBackends().map(toBackendInfo)
+    })
+  } catch (error) {
+    console.error('获取后端列表失败:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取后端列表失败'
+    }, { status: 500 })
+  }
+}
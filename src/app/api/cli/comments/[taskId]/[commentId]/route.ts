@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteTaskComment, taskCommentErrorResponse } from '@/lib/task-comments'
+import { getRequestUsername } from '@/lib/auth-config'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+
+export const dynamic = 'force-dynamic'
+
+// DELETE /api/cli/comments/[taskId]/[commentId] - 删除自己的评论
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string; commentId: string }> }
+) {
+  const { taskId, commentId } = await params
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  const username = await getRequestUsername(request)
+  if (!username) {
+    return NextResponse.json({ success: false, error: '未登录' }, { status: 401 })
+  }
+
+  try {
+    await deleteTaskComment(backend.id, taskId, commentId, username)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return taskCommentErrorResponse(error)
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { addTaskComment, listTaskComments, taskCommentErrorResponse } from '@/lib/task-comments'
+import { getRequestUsername } from '@/lib/auth-config'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/comments/[taskId] - 获取任务的评论
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await params
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await listTaskComments(backend.id, taskId, await getRequestUsername(request))
+    })
+  } catch (error) {
+    return taskCommentErrorResponse(error)
+  }
+}
+
+// POST /api/cli/comments/[taskId] - 以当前用户的身份发表评论
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await params
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  const username = await getRequestUsername(request)
+  if (!username) {
+    return NextResponse.json({ success: false, error: '未登录' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: '请求格式无效' }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await addTaskComment(backend.id, taskId, username, body)
+    })
+  } catch (error) {
+    return taskCommentErrorResponse(error)
+  }
+}
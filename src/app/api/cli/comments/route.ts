@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTaskCommentCounts, taskCommentErrorResponse } from '@/lib/task-comments'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/comments - 获取当前后端每个任务的评论数
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await getTaskCommentCounts(backend.id)
+    })
+  } catch (error) {
+    return taskCommentErrorResponse(error)
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCLISnapshot } from '@/lib/cli-snapshot'
+import { CLIContractError } from '@/lib/cli-schemas'
+import { filterTasks, TaskQueryError } from '@/lib/task-query'
+import { createTaskExportStream, isTaskExportFormat, TASK_EXPORT_FORMATS } from '@/lib/task-export'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+import { proxyToBackend } from '@/lib/cli-remote'
+
+export const dynamic = 'force-dynamic'
+
+// 导出文件名中的时间，例如 20261019-083000
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15)
+}
+
+// GET /api/cli/export?format=csv|json|ndjson&q=<查询>&ids=<任务ID,...>&logs=1 - 导出任务，logs=1 时连同日志打包成 zip
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  if (backend.type === 'remote') {
+    return proxyToBackend(backend, request, '/api/cli/export')
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const format = searchParams.get('format') ?? 'csv'
+  if (!isTaskExportFormat(format)) {
+    return NextResponse.json({ success: false, error: `不支持的导出格式: ${format}` }, { status: 400 })
+  }
+  const withLogs = ['1', 'true'].includes(searchParams.get('logs') ?? '')
+  const ids = searchParams.get('ids')?.split(',').filter(Boolean)
+
+  try {
+    const snapshot = await getCLISnapshot(backend)
+    let tasks = filterTasks(snapshot.tasks, searchParams.get('q') ?? '')
+    if (ids) {
+      tasks = tasks.filter(task => ids.includes(task.id))
+    }
+
+    const { contentType, extension } = TASK_EXPORT_FORMATS[format]
+    // 只有一个合法任务 ID 时用它命名，避免把任意参数写进响应头
+    const basename = ids?.length === 1 && /^[A-Za-z0-9_-]+$/.test(ids[0]) ? `task-${ids[0]}` : `tasks-${formatTimestamp(new Date())}`
+    const filename = `${basename}.${withLogs ? 'zip' : extension}`
+
+    return new Response(createTaskExportStream(backend, tasks, format, withLogs), {
+      headers: {
+        'Content-Type': withLogs ? 'application/zip' : contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-cache, no-transform'
+      }
+    })
+  } catch (error) {
+    if (error instanceof TaskQueryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+
+    console.error('导出任务失败:', error)
+
+    if (error instanceof CLIContractError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        contract: error.toJSON()
+      }, { status: 502 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '导出任务失败'
+    }, { status: 500 })
+  }
+}
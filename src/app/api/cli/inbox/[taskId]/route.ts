@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { assignInboxItem, inboxErrorResponse } from '@/lib/inbox'
+import { getRequestUsername } from '@/lib/auth-config'
+import { beginAudit } from '@/lib/audit-log'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+
+export const dynamic = 'force-dynamic'
+
+const assignSchema = z.object({
+  assignee: z.string().min(1).nullable()
+})
+
+// PATCH /api/cli/inbox/[taskId] - 指派或取消指派审批项
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await params
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  let body: z.infer<typeof assignSchema>
+  try {
+    body = assignSchema.parse(await request.json())
+  } catch {
+    return NextResponse.json({ success: false, error: '请求格式无效' }, { status: 400 })
+  }
+
+  const audit = await beginAudit(request, 'cli_command', 'inbox.assign', { taskId, ...body }, backend.id)
+
+  try {
+    await assignInboxItem(backend, request, taskId, body.assignee, await getRequestUsername(request))
+    await audit.finish({ success: true })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    await audit.finish({ success: false, error: error instanceof Error ? error.message : '指派失败' })
+    return inboxErrorResponse(error)
+  }
+}
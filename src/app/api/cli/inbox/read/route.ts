@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { markInboxRead, inboxErrorResponse } from '@/lib/inbox'
+import { getRequestUsername } from '@/lib/auth-config'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+
+export const dynamic = 'force-dynamic'
+
+const readSchema = z.object({
+  taskIds: z.array(z.string().min(1)).max(500)
+})
+
+// POST /api/cli/inbox/read - 把审批项标记为当前用户已读
+export async function POST(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  let body: z.infer<typeof readSchema>
+  try {
+    body = readSchema.parse(await request.json())
+  } catch {
+    return NextResponse.json({ success: false, error: '请求格式无效' }, { status: 400 })
+  }
+
+  const username = await getRequestUsername(request)
+  if (!username) {
+    return NextResponse.json({ success: false, error: '未登录' }, { status: 401 })
+  }
+
+  try {
+    await markInboxRead(backend, request, body.taskIds, username)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return inboxErrorResponse(error)
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listInbox, inboxErrorResponse } from '@/lib/inbox'
+import { getRequestUsername } from '@/lib/auth-config'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/inbox - 获取当前后端等待确认或需要人工审核的任务
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await listInbox(backend, request, await getRequestUsername(request))
+    })
+  } catch (error) {
+    return inboxErrorResponse(error)
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import { getExecutionMetrics } from '@/lib/cli-runner'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/metrics - 获取执行池的并发、排队和耗时指标
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    data: getExecutionMetrics()
+  })
+}
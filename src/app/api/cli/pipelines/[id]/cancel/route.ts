@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cancelPipeline, pipelineErrorResponse } from '@/lib/pipeline-runner'
+import { beginAudit } from '@/lib/audit-log'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+import { proxyToBackend } from '@/lib/cli-remote'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/cli/pipelines/[id]/cancel - 取消流水线，已提交的任务一并取消
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  const audit = await beginAudit(request, 'cli_command', 'pipeline.cancel', { pipelineId: id }, backend.id)
+
+  if (backend.type === 'remote') {
+    const response = await proxyToBackend(backend, request, `/api/cli/pipelines/${encodeURIComponent(id)}/cancel`, '{}')
+    await audit.finish(response.ok
+      ? { success: true }
+      : { success: false, error: `远程后端返回 ${response.status}` })
+    return response
+  }
+
+  try {
+    const pipeline = await cancelPipeline(backend, id)
+    await audit.finish({ success: true })
+
+    return NextResponse.json({
+      success: true,
+      data: pipeline
+    })
+  } catch (error) {
+    await audit.finish({ success: false, error: error instanceof Error ? error.message : '取消流水线失败' })
+    return pipelineErrorResponse(error)
+  }
+}
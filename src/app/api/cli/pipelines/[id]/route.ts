@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPipeline, deletePipeline, pipelineErrorResponse } from '@/lib/pipeline-runner'
+import { beginAudit } from '@/lib/audit-log'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+import { proxyToBackend } from '@/lib/cli-remote'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/pipelines/[id] - 获取单个流水线
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  if (backend.type === 'remote') {
+    return proxyToBackend(backend, request, `/api/cli/pipelines/${encodeURIComponent(id)}`)
+  }
+
+  try {
+    const pipeline = await getPipeline(backend.id, id)
+    if (!pipeline) {
+      return NextResponse.json({ success: false, error: '流水线不存在' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: pipeline
+    })
+  } catch (error) {
+    return pipelineErrorResponse(error)
+  }
+}
+
+// DELETE /api/cli/pipelines/[id] - 删除已结束的流水线
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  const audit = await beginAudit(request, 'cli_command', 'pipeline.delete', { pipelineId: id }, backend.id)
+
+  if (backend.type === 'remote') {
+    const response = await proxyToBackend(backend, request, `/api/cli/pipelines/${encodeURIComponent(id)}`)
+    await audit.finish(response.ok
+      ? { success: true }
+      : { success: false, error: `远程后端返回 ${response.status}` })
+    return response
+  }
+
+  try {
+    await deletePipeline(backend.id, id)
+    await audit.finish({ success: true })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    await audit.finish({ success: false, error: error instanceof Error ? error.message : '删除流水线失败' })
+    return pipelineErrorResponse(error)
+  }
+}
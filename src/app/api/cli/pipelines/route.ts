@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listPipelines, createPipeline, pipelineErrorResponse } from '@/lib/pipeline-runner'
+import { beginAudit } from '@/lib/audit-log'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+import { proxyToBackend } from '@/lib/cli-remote'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/pipelines - 获取当前后端的流水线
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  if (backend.type === 'remote') {
+    return proxyToBackend(backend, request, '/api/cli/pipelines')
+  }
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await listPipelines(backend.id)
+    })
+  } catch (error) {
+    return pipelineErrorResponse(error)
+  }
+}
+
+// POST /api/cli/pipelines - 创建流水线并提交没有依赖的步骤
+export async function POST(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: '请求格式无效' }, { status: 400 })
+  }
+
+  const audit = await beginAudit(request, 'cli_command', 'pipeline.create', body, backend.id)
+
+  if (backend.type === 'remote') {
+    const response = await proxyToBackend(backend, request, '/api/cli/pipelines', JSON.stringify(body))
+    await audit.finish(response.ok
+      ? { success: true }
+      : { success: false, error: `远程后端返回 ${response.status}` })
+    return response
+  }
+
+  try {
+    const pipeline = await createPipeline(backend, body)
+    await audit.finish({ success: true, output: pipeline.id })
+
+    return NextResponse.json({
+      success: true,
+      data: pipeline
+    })
+  } catch (error) {
+    await audit.finish({ success: false, error: error instanceof Error ? error.message : '创建流水线失败' })
+    return pipelineErrorResponse(error)
+  }
+}
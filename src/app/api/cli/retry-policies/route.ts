@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRetryPolicies, saveRetryPolicies, retryPolicyErrorResponse } from '@/lib/retry-policies'
+import { beginAudit } from '@/lib/audit-log'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/retry-policies - 获取各任务类型的默认重试策略
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await getRetryPolicies(backend.id)
+    })
+  } catch (error) {
+    return retryPolicyErrorResponse(error)
+  }
+}
+
+// PUT /api/cli/retry-policies - 保存各任务类型的默认重试策略
+export async function PUT(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: '请求格式无效' }, { status: 400 })
+  }
+
+  const audit = await beginAudit(request, 'system_change', 'retry_policies.update', body, backend.id)
+
+  try {
+    const data = await saveRetryPolicies(backend.id, body)
+    await audit.finish({ success: true })
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    await audit.finish({ success: false, error: error instanceof Error ? error.message : '保存重试策略失败' })
+    return retryPolicyErrorResponse(error)
+  }
+}
@@ -1,69 +1,164 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { exec } from 'child_process'
-import { promisify } from 'util'
+import { buildCommandArgv, parseCommandArgs, isMutatingOperation, getCommandTimeout, getCommandWorkingDir, CLICommandError, type CLIOperation, type CLICommandArgs } from '@/lib/cli-commands'
+import { runTaskctl, validateTaskctlOutput, assertWorkingDirExists } from '@/lib/cli-runner'
+import { parseCommandOutput, CLIContractError } from '@/lib/cli-schemas'
+import { CLIExecutionError, EXECUTION_ERROR_STATUS } from '@/lib/cli-pool'
+import { invalidateCLISnapshot } from '@/lib/cli-snapshot'
+import { beginAudit } from '@/lib/audit-log'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+import { proxyToBackend } from '@/lib/cli-remote'
+import { withDefaultRetryPolicy, retryPolicyErrorResponse } from '@/lib/retry-policies'
 
-const execAsync = promisify(exec)
+export async function POST(request: NextRequest) {
+  let backend: CLIBackendConfig
+  let operation: CLIOperation
+  let args: CLICommandArgs<CLIOperation>
+  let argv: string[]
 
-// 从环境变量读取配置，如果未设置则使用默认值
-const CC_AGENT_PATH = process.env.CC_AGENT_PATH || '/root/agent-platform/cc-agent'
-const PYTHON_CMD = process.env.PYTHON_CMD || 'python3.11'
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
 
-export async function POST(request: NextRequest) {
   try {
-    const { command } = await request.json()
+    const body = await request.json()
 
-    if (!command) {
-      return NextResponse.json({ error: '命令不能为空' }, { status: 400 })
+    if (!body.operation) {
+      return NextResponse.json({ success: false, output: '', error: '操作不能为空' }, { status: 400 })
     }
 
-    // 安全检查：只允许执行taskctl.py相关命令
-    if (!command.startsWith('taskctl.py')) {
-      return NextResponse.json({ error: '只允许执行taskctl.py命令' }, { status: 400 })
+    // 安全检查：只允许注册表中的子命令和参数
+    argv = buildCommandArgv(body.operation, body.args)
+    operation = body.operation
+    args = body.args ?? {}
+  } catch (error) {
+    const message = error instanceof CLICommandError ? error.message : '请求格式无效'
+    return NextResponse.json({ success: false, output: '', error: message }, { status: 400 })
+  }
+
+  // 没有指定重试策略的任务使用该任务类型保存过的策略，远程后端也按本前端的设置转发
+  if (operation === 'task.create') {
+    try {
+      args = await withDefaultRetryPolicy(backend.id, args as CLICommandArgs<'task.create'>)
+      argv = buildCommandArgv(operation, args)
+    } catch (error) {
+      return retryPolicyErrorResponse(error)
     }
+  }
+
+  // 工作目录必须在本地后端所在的主机上存在；远程后端由远程前端检查
+  if (backend.type === 'local') {
+    try {
+      await assertWorkingDirExists(getCommandWorkingDir(operation, args))
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        output: '',
+        error: error instanceof Error ? error.message : '参数 workingDir 无效'
+      }, { status: 400 })
+    }
+  }
+
+  // 写操作记录审计日志，记录校验后的参数而不是原始请求体
+  const audit = isMutatingOperation(operation)
+    ? await beginAudit(request, 'cli_command', operation, parseCommandArgs(operation, args), backend.id)
+    : null
+
+  // 远程后端：参数在本地校验后转发，由远程前端执行和校验输出
+  if (backend.type === 'remote') {
+    const response = await proxyToBackend(backend, request, '/api/cli', JSON.stringify({ operation, args }))
+    await audit?.finish(response.ok
+      ? { success: true }
+      : { success: false, error: `远程后端返回 ${response.status}` })
+    return response
+  }
 
-    console.log(`执行命令: ${PYTHON_CMD} ${command} (路径: ${CC_AGENT_PATH})`)
+  try {
+    console.log(`执行命令 [${backend.id}]: ${backend.pythonCmd} ${JSON.stringify(argv)} (路径: ${backend.ccAgentPath})`)
+
+    // 客户端断开时从执行队列中移除，只读命令同时终止子进程
+    const { stdout, stderr } = await runTaskctl(backend, argv, {
+      signal: request.signal,
+      timeoutMs: getCommandTimeout(operation),
+      killOnAbort: !isMutatingOperation(operation)
+    })
 
-    const { stdout, stderr } = await execAsync(`cd ${CC_AGENT_PATH} && ${PYTHON_CMD} ${command}`)
+    if (isMutatingOperation(operation)) {
+      invalidateCLISnapshot(backend.id)
+    }
 
     if (stderr) {
       console.warn('Command stderr:', stderr)
     }
 
+    // 有约定格式的操作在服务端校验，返回结构化数据；审计日志在校验之后记录，
+    // 输出不符合约定时只由下面的 catch 记录一次失败
+    const data = await validateTaskctlOutput(backend, () => parseCommandOutput(operation, args, stdout))
+    await audit?.finish({ success: true, output: stdout.trim() })
+
     return NextResponse.json({
       success: true,
       output: stdout.trim(),
+      data,
       error: stderr || null
     })
 
   } catch (error) {
     console.error('命令执行失败:', error)
+    await audit?.finish({ success: false, error: error instanceof Error ? error.message : '命令执行失败' })
+
+    if (error instanceof CLIContractError) {
+      return NextResponse.json({
+        success: false,
+        output: '',
+        error: error.message,
+        contract: error.toJSON()
+      }, { status: 502 })
+    }
 
     return NextResponse.json({
       success: false,
       output: '',
       error: error instanceof Error ? error.message : '命令执行失败'
-    }, { status: 500 })
+    }, { status: error instanceof CLIExecutionError ? EXECUTION_ERROR_STATUS[error.reason] : 500 })
   }
 }
 
 // 健康检查端点
-export async function GET() {
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  if (backend.type === 'remote') {
+    return proxyToBackend(backend, request, '/api/cli')
+  }
+
+  const details = {
+    backend: backend.id,
+    ccAgentPath: backend.ccAgentPath,
+    pythonCmd: backend.pythonCmd,
+    executor: backend.executor
+  }
+
   try {
-    await execAsync(`cd ${CC_AGENT_PATH} && ${PYTHON_CMD} taskctl.py --help`)
+    await runTaskctl(backend, ['taskctl.py', '--help'], { timeoutMs: 10_000 })
 
     return NextResponse.json({
       success: true,
       message: 'CLI service is running',
-      ccAgentPath: CC_AGENT_PATH,
-      pythonCmd: PYTHON_CMD,
+      ...details,
       available: true
     })
   } catch (error) {
     return NextResponse.json({
       success: false,
       message: 'CLI service is not available',
-      ccAgentPath: CC_AGENT_PATH,
-      pythonCmd: PYTHON_CMD,
+      ...details,
       error: error instanceof Error ? error.message : '未知错误',
       available: false
     }, { status: 503 })
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readServiceLog } from '@/lib/cli-runner'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+import { proxyToBackend } from '@/lib/cli-remote'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/service-log - 获取 auto_claude.py 的服务日志
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  if (backend.type === 'remote') {
+    return proxyToBackend(backend, request, '/api/cli/service-log')
+  }
+
+  try {
+    const log = await readServiceLog(backend)
+
+    return NextResponse.json({
+      success: true,
+      data: log
+    })
+  } catch (error) {
+    console.error('获取服务日志失败:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取服务日志失败'
+    }, { status: 500 })
+  }
+}
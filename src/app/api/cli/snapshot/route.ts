@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCLISnapshot } from '@/lib/cli-snapshot'
+import { CLIContractError } from '@/lib/cli-schemas'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+import { proxyToBackend } from '@/lib/cli-remote'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/snapshot - 获取任务、统计、工作器和定时任务的聚合快照
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  if (backend.type === 'remote') {
+    return proxyToBackend(backend, request, '/api/cli/snapshot')
+  }
+
+  try {
+    const snapshot = await getCLISnapshot(backend)
+
+    return NextResponse.json({
+      success: true,
+      data: snapshot
+    })
+  } catch (error) {
+    console.error('获取快照失败:', error)
+
+    if (error instanceof CLIContractError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        contract: error.toJSON()
+      }, { status: 502 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取快照失败'
+    }, { status: 500 })
+  }
+}
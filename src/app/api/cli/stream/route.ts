@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createInterface } from 'readline'
+import { buildCommandArgv, isMutatingOperation, CLICommandError, type CLIOperation } from '@/lib/cli-commands'
+import { spawnTaskctl, type TaskctlProcess } from '@/lib/cli-runner'
+import { CLIExecutionError, EXECUTION_ERROR_STATUS } from '@/lib/cli-pool'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+import { proxyToBackend } from '@/lib/cli-remote'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/stream?operation=...&args=... - 以 Server-Sent Events 逐行推送命令输出
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  let argv: string[]
+
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  const operation = request.nextUrl.searchParams.get('operation')
+  const rawArgs = request.nextUrl.searchParams.get('args')
+
+  let args: unknown = {}
+  if (rawArgs) {
+    try {
+      args = JSON.parse(rawArgs)
+    } catch {
+      return NextResponse.json({ success: false, error: '参数 args 不是有效的 JSON' }, { status: 400 })
+    }
+  }
+
+  try {
+    argv = buildCommandArgv(operation, args)
+  } catch (error) {
+    const message = error instanceof CLICommandError ? error.message : '请求格式无效'
+    return NextResponse.json({ success: false, error: message }, { status: 400 })
+  }
+
+  // GET 请求可以被其他页面跨站触发，只允许只读命令；写操作必须走 POST /api/cli（审计、快照失效、默认策略）
+  if (isMutatingOperation(operation as CLIOperation)) {
+    return NextResponse.json({ success: false, error: `操作 ${operation} 会修改状态，不能流式执行` }, { status: 400 })
+  }
+
+  // 远程后端的事件流直接透传
+  if (backend.type === 'remote') {
+    return proxyToBackend(backend, request, '/api/cli/stream')
+  }
+
+  // 客户端在校验期间已经断开时不再启动进程，abort 事件已经触发过，后面监听不到
+  if (request.signal.aborted) {
+    return new Response(null, { status: 499 })
+  }
+
+  console.log(`流式执行命令 [${backend.id}]: ${backend.pythonCmd} ${JSON.stringify(argv)} (路径: ${backend.ccAgentPath})`)
+
+  const encoder = new TextEncoder()
+  let timeoutMessage: string | null = null
+  let child: TaskctlProcess
+  try {
+    child = spawnTaskctl(backend, argv, { onTimeout: message => { timeoutMessage = message } })
+  } catch (error) {
+    if (error instanceof CLIExecutionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: EXECUTION_ERROR_STATUS[error.reason] })
+    }
+    throw error
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+
+      const send = (event: string, data: string) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${data}\n\n`))
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        controller.close()
+      }
+
+      createInterface({ input: child.stdout }).on('line', line => send('stdout', line))
+      createInterface({ input: child.stderr }).on('line', line => send('stderr', line))
+
+      child.on('error', (error) => {
+        console.error('流式命令执行失败:', error)
+        send('error', JSON.stringify({ message: error.message }))
+        close()
+      })
+
+      child.on('close', (code, signal) => {
+        if (timeoutMessage) {
+          send('error', JSON.stringify({ message: timeoutMessage }))
+        }
+        send('exit', JSON.stringify({ code, signal }))
+        close()
+      })
+
+      // 客户端断开时终止子进程
+      request.signal.addEventListener('abort', () => {
+        child.kill()
+        close()
+      })
+    },
+    cancel() {
+      child.kill()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCLISnapshot } from '@/lib/cli-snapshot'
+import { CLIContractError } from '@/lib/cli-schemas'
+import { filterTasks, TaskQueryError } from '@/lib/task-query'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+import { proxyToBackend } from '@/lib/cli-remote'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/tasks?q=<查询> - 按查询语言过滤快照中的任务
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  if (backend.type === 'remote') {
+    return proxyToBackend(backend, request, '/api/cli/tasks')
+  }
+
+  try {
+    const snapshot = await getCLISnapshot(backend)
+
+    return NextResponse.json({
+      success: true,
+      data: filterTasks(snapshot.tasks, request.nextUrl.searchParams.get('q') ?? '')
+    })
+  } catch (error) {
+    if (error instanceof TaskQueryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+
+    console.error('查询任务失败:', error)
+
+    if (error instanceof CLIContractError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        contract: error.toJSON()
+      }, { status: 502 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '查询任务失败'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUsageReport, DEFAULT_USAGE_REPORT_DAYS, MAX_USAGE_REPORT_DAYS } from '@/lib/usage-report'
+import { CLIContractError } from '@/lib/cli-schemas'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+import { proxyToBackend } from '@/lib/cli-remote'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cli/usage?days= - 获取最近一段时间内已结束任务的 token 用量和费用
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  if (backend.type === 'remote') {
+    return proxyToBackend(backend, request, '/api/cli/usage')
+  }
+
+  const days = Number(request.nextUrl.searchParams.get('days') ?? DEFAULT_USAGE_REPORT_DAYS)
+  if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_REPORT_DAYS) {
+    return NextResponse.json({ success: false, error: `参数 days 无效: 应为 1 到 ${MAX_USAGE_REPORT_DAYS} 之间的整数` }, { status: 400 })
+  }
+
+  try {
+    const entries = await getUsageReport(backend, days)
+
+    return NextResponse.json({
+      success: true,
+      data: entries
+    })
+  } catch (error) {
+    console.error('获取用量失败:', error)
+
+    if (error instanceof CLIContractError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        contract: error.toJSON()
+      }, { status: 502 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取用量失败'
+    }, { status: 500 })
+  }
+}
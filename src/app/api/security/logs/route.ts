@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { queryAuditLog } from '@/lib/audit-log'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_LIMIT = 200
+
+// GET /api/security/logs?type=&user=&action=&success=&from=&to=&limit=&offset= - 分页查询审计日志
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const success = params.get('success')
+  const limit = Number(params.get('limit') ?? 50)
+  const offset = Number(params.get('offset') ?? 0)
+
+  if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ success: false, error: '分页参数无效' }, { status: 400 })
+  }
+
+  const from = params.get('from') || undefined
+  const to = params.get('to') || undefined
+  for (const [name, value] of [['from', from], ['to', to]]) {
+    if (value && Number.isNaN(new Date(value).getTime())) {
+      return NextResponse.json({ success: false, error: `参数 ${name} 不是有效的时间: ${value}` }, { status: 400 })
+    }
+  }
+
+  try {
+    const data = await queryAuditLog({
+      type: params.get('type') || undefined,
+      user: params.get('user') || undefined,
+      action: params.get('action') || undefined,
+      success: success === null || success === '' ? undefined : success === 'true',
+      from,
+      to,
+      limit: Math.min(limit, MAX_LIMIT),
+      offset
+    })
+
+    return NextResponse.json({
+      success: true,
+      data
+    })
+  } catch (error) {
+    console.error('读取审计日志失败:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '读取审计日志失败'
+    }, { status: 500 })
+  }
+}
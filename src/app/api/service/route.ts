@@ -1,32 +1,55 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { exec } from 'child_process'
-import { promisify } from 'util'
-
-const execAsync = promisify(exec)
-
-// 从环境变量读取配置
-const CC_AGENT_PATH = process.env.CC_AGENT_PATH || '/root/agent-platform/cc-agent'
-const PYTHON_CMD = process.env.PYTHON_CMD || 'python3.11'
+import { buildCommandArgv, getCommandTimeout, isMutatingOperation } from '@/lib/cli-commands'
+import { runTaskctl, startAutoClaude, validateTaskctlOutput } from '@/lib/cli-runner'
+import { parseSystemStatus } from '@/lib/cli-schemas'
+import { invalidateCLISnapshot } from '@/lib/cli-snapshot'
+import { beginAudit } from '@/lib/audit-log'
+import { resolveRequestBackend, backendErrorResponse, type CLIBackendConfig } from '@/lib/cli-backends'
+import { proxyToBackend } from '@/lib/cli-remote'
 
 export async function POST(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
   try {
     const { action } = await request.json()
+    const runOptions = (operation: 'system.status' | 'system.stop') => ({
+      signal: request.signal,
+      timeoutMs: getCommandTimeout(operation),
+      killOnAbort: !isMutatingOperation(operation)
+    })
 
     if (!action || !['start', 'stop', 'status'].includes(action)) {
       return NextResponse.json({ error: '无效的操作' }, { status: 400 })
     }
 
+    // 启动和停止服务记录审计日志
+    const audit = action === 'status'
+      ? null
+      : await beginAudit(request, 'system_change', `service.${action}`, { action }, backend.id)
+
+    if (backend.type === 'remote') {
+      const response = await proxyToBackend(backend, request, '/api/service', JSON.stringify({ action }))
+      await audit?.finish(response.ok
+        ? { success: true }
+        : { success: false, error: `远程后端返回 ${response.status}` })
+      return response
+    }
+
     let result = { success: false, message: '', status: 'unknown' }
 
     switch (action) {
       case 'start':
         try {
           // 检查是否已经在运行
-          const { stdout: checkOutput } = await execAsync(
-            `cd ${CC_AGENT_PATH} && ${PYTHON_CMD} taskctl.py system status`
-          )
+          const { stdout: checkOutput } = await runTaskctl(backend, buildCommandArgv('system.status', {}), runOptions('system.status'))
+          const { auto_claude_running } = await validateTaskctlOutput(backend, () => parseSystemStatus(checkOutput.trim()))
 
-          if (checkOutput.includes('Running')) {
+          if (auto_claude_running) {
             result = {
               success: true,
               message: '服务已在运行',
@@ -34,9 +57,7 @@ export async function POST(request: NextRequest) {
             }
           } else {
             // 启动服务
-            await execAsync(
-              `cd ${CC_AGENT_PATH} && nohup ${PYTHON_CMD} auto_claude.py > /tmp/auto_claude.log 2>&1 &`
-            )
+            startAutoClaude(backend)
             result = {
               success: true,
               message: '服务启动成功',
@@ -54,7 +75,8 @@ export async function POST(request: NextRequest) {
 
       case 'stop':
         try {
-          await execAsync(`cd ${CC_AGENT_PATH} && ${PYTHON_CMD} taskctl.py system stop`)
+          await runTaskctl(backend, buildCommandArgv('system.stop', {}), runOptions('system.stop'))
+          invalidateCLISnapshot(backend.id)
           result = {
             success: true,
             message: '服务停止成功',
@@ -71,14 +93,12 @@ export async function POST(request: NextRequest) {
 
       case 'status':
         try {
-          const { stdout } = await execAsync(
-            `cd ${CC_AGENT_PATH} && ${PYTHON_CMD} taskctl.py system status`
-          )
-          const isRunning = stdout.includes('Running')
+          const { stdout } = await runTaskctl(backend, buildCommandArgv('system.status', {}), runOptions('system.status'))
+          const { auto_claude_running } = await validateTaskctlOutput(backend, () => parseSystemStatus(stdout.trim()))
           result = {
             success: true,
             message: stdout.trim(),
-            status: isRunning ? 'running' : 'stopped'
+            status: auto_claude_running ? 'running' : 'stopped'
           }
         } catch (error) {
           result = {
@@ -90,6 +110,10 @@ export async function POST(request: NextRequest) {
         break
     }
 
+    await audit?.finish(result.success
+      ? { success: true, output: result.message }
+      : { success: false, error: result.message })
+
     return NextResponse.json(result)
 
   } catch (error) {
@@ -103,17 +127,28 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  let backend: CLIBackendConfig
+  try {
+    backend = resolveRequestBackend(request)
+  } catch (error) {
+    return backendErrorResponse(error)
+  }
+
+  if (backend.type === 'remote') {
+    return proxyToBackend(backend, request, '/api/service')
+  }
+
   try {
-    const { stdout } = await execAsync(
-      `cd ${CC_AGENT_PATH} && ${PYTHON_CMD} taskctl.py system status`
-    )
+    const { stdout } = await runTaskctl(backend, buildCommandArgv('system.status', {}), { timeoutMs: getCommandTimeout('system.status') })
 
     return NextResponse.json({
       success: true,
       message: 'Service API is available',
-      ccAgentPath: CC_AGENT_PATH,
-      pythonCmd: PYTHON_CMD,
+      backend: backend.id,
+      ccAgentPath: backend.ccAgentPath,
+      pythonCmd: backend.pythonCmd,
+      executor: backend.executor,
       status: stdout.trim()
     })
   } catch (error) {
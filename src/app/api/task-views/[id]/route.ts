@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteSavedView, savedViewErrorResponse } from '@/lib/saved-views'
+import { getRequestUsername } from '@/lib/auth-config'
+
+export const dynamic = 'force-dynamic'
+
+// DELETE /api/task-views/[id] - 删除当前用户的任务视图
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const username = await getRequestUsername(request)
+  if (!username) {
+    return NextResponse.json({ success: false, error: '未登录' }, { status: 401 })
+  }
+
+  try {
+    await deleteSavedView(username, id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return savedViewErrorResponse(error)
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listSavedViews, saveView, savedViewErrorResponse } from '@/lib/saved-views'
+import { getRequestUsername } from '@/lib/auth-config'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/task-views - 获取当前用户保存的任务视图
+export async function GET(request: NextRequest) {
+  const username = await getRequestUsername(request)
+  if (!username) {
+    return NextResponse.json({ success: false, error: '未登录' }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await listSavedViews(username)
+    })
+  } catch (error) {
+    return savedViewErrorResponse(error)
+  }
+}
+
+// POST /api/task-views - 保存任务视图（同名时覆盖）
+export async function POST(request: NextRequest) {
+  const username = await getRequestUsername(request)
+  if (!username) {
+    return NextResponse.json({ success: false, error: '未登录' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: '请求格式无效' }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await saveView(username, body)
+    })
+  } catch (error) {
+    return savedViewErrorResponse(error)
+  }
+}
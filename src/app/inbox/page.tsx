@@ -0,0 +1,232 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Inbox, Check, X, MessageSquare, RefreshCw, CheckCheck, UserRound } from 'lucide-react'
+import { cn, formatBeijingDateTimeSimple } from '@/lib/utils'
+import {
+  useCLIInbox,
+  useCLIReviewAction,
+  useAssignCLIInboxItem,
+  useMarkCLIInboxRead
+} from '@/hooks/use-cli-tasks'
+import type { InboxItem } from '@/lib/inbox'
+import { toast } from '@/components/ui/sonner'
+
+const REVIEW_STATE_BADGES: Record<string, { label: string; variant: 'warning' | 'info' }> = {
+  awaiting_confirmation: { label: '等待确认', variant: 'info' },
+  needs_human_review: { label: '需要审核', variant: 'warning' }
+}
+
+type InboxFilter = 'all' | 'mine' | 'unassigned'
+
+const FILTERS: Array<{ value: InboxFilter; label: string }> = [
+  { value: 'all', label: '全部' },
+  { value: 'mine', label: '分配给我' },
+  { value: 'unassigned', label: '未指派' }
+]
+
+// Select 不支持空字符串作为取值
+const UNASSIGNED = '__unassigned__'
+
+export default function InboxPage() {
+  const [filter, setFilter] = useState<InboxFilter>('all')
+  // 每个审批项的说明、原因或回复内容
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const { data: inbox, isLoading, error, refetch, isFetching } = useCLIInbox()
+  const reviewAction = useCLIReviewAction()
+  const assignItem = useAssignCLIInboxItem()
+  const markRead = useMarkCLIInboxRead()
+
+  const items = (inbox?.items ?? []).filter(item =>
+    filter === 'mine' ? item.assignee === inbox?.username
+      : filter === 'unassigned' ? !item.assignee
+        : true
+  )
+  const unreadIds = (inbox?.items ?? []).filter(item => item.unread).map(item => item.task.id)
+
+  const handleReview = async (item: InboxItem, action: 'approve' | 'reject' | 'reply') => {
+    const text = drafts[item.task.id]?.trim()
+    if (action === 'reply' && !text) {
+      toast.error('请先填写给 agent 的补充说明')
+      return
+    }
+    if (action === 'reject' && !window.confirm(`确定要拒绝任务 "${item.task.name}" 吗？任务将标记为失败。`)) {
+      return
+    }
+
+    const result = await reviewAction.mutateAsync({ taskId: item.task.id, action, text })
+    if (result.success) {
+      toast.success(action === 'approve' ? '已批准，任务继续执行' : action === 'reject' ? '已拒绝任务' : '已回复，任务继续执行')
+      setDrafts(prev => {
+        const next = { ...prev }
+        delete next[item.task.id]
+        return next
+      })
+    } else {
+      toast.error(result.message || '操作失败')
+    }
+  }
+
+  const handleAssign = async (item: InboxItem, value: string) => {
+    try {
+      await assignItem.mutateAsync({ taskId: item.task.id, assignee: value === UNASSIGNED ? null : value })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '指派失败')
+    }
+  }
+
+  const handleMarkRead = async (taskIds: string[]) => {
+    try {
+      await markRead.mutateAsync(taskIds)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '标记已读失败')
+    }
+  }
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">审批收件箱</h1>
+          <p className="text-muted-foreground">等待确认或需要人工审核的任务，批准、拒绝或回复说明后继续执行</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={() => handleMarkRead(unreadIds)} disabled={unreadIds.length === 0 || markRead.isPending}>
+            <CheckCheck className="h-4 w-4 mr-2" />
+            全部标为已读
+          </Button>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            刷新
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center space-x-2">
+        {FILTERS.map(option => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant={filter === option.value ? 'default' : 'outline'}
+            onClick={() => setFilter(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading && (
+        <Card>
+          <CardContent className="pt-6 text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">加载审批项...</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {error && (
+        <Card className="border-destructive/50 bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">
+            加载审批收件箱失败: {error.message}
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && !error && items.length === 0 && (
+        <Card>
+          <CardContent className="pt-6 text-center py-12">
+            <Inbox className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">没有需要处理的任务</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {items.map(item => {
+        const { task } = item
+        const badge = REVIEW_STATE_BADGES[task.task_state]
+        const isPending = reviewAction.isPending && reviewAction.variables?.taskId === task.id
+
+        return (
+          <Card key={task.id} className={cn(item.unread && 'border-primary/50')}>
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <CardTitle className="flex items-center space-x-2">
+                    {item.unread && <span className="h-2 w-2 rounded-full bg-primary flex-shrink-0" title="未读" />}
+                    <Link href={`/tasks/${task.id}`} className="truncate hover:underline">{task.name}</Link>
+                    {badge && <Badge variant={badge.variant}>{badge.label}</Badge>}
+                  </CardTitle>
+                  <CardDescription>
+                    <span className="font-mono">{task.id}</span> · 创建于 {formatBeijingDateTimeSimple(task.created_at)}
+                    {item.assignee && item.assigned_by && ` · 由 ${item.assigned_by} 指派给 ${item.assignee}`}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  <UserRound className="h-4 w-4 text-muted-foreground" />
+                  <Select
+                    value={item.assignee ?? UNASSIGNED}
+                    onValueChange={(value) => handleAssign(item, value)}
+                    disabled={assignItem.isPending}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>未指派</SelectItem>
+                      {(inbox?.users ?? []).map(user => (
+                        <SelectItem key={user} value={user}>
+                          {user}{user === inbox?.username ? '（我）' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {item.unread && (
+                    <Button size="sm" variant="ghost" onClick={() => handleMarkRead([task.id])} disabled={markRead.isPending}>
+                      标为已读
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <div className="text-xs font-medium text-muted-foreground mb-1">Agent 的问题</div>
+                <div className="text-sm whitespace-pre-wrap bg-muted p-3 rounded">
+                  {task.confirmation_prompt || task.last_error || '（taskctl 没有返回具体问题，请查看任务日志）'}
+                </div>
+              </div>
+              <Textarea
+                rows={2}
+                placeholder="批准说明、拒绝原因，或给 agent 的补充说明（回复时必填）"
+                value={drafts[task.id] ?? ''}
+                onChange={(e) => setDrafts({ ...drafts, [task.id]: e.target.value })}
+              />
+              <div className="flex items-center justify-end space-x-2">
+                <Button size="sm" variant="outline" onClick={() => handleReview(item, 'reject')} disabled={isPending}>
+                  <X className="h-3 w-3 mr-1" />
+                  拒绝
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleReview(item, 'reply')} disabled={isPending}>
+                  <MessageSquare className="h-3 w-3 mr-1" />
+                  回复并继续
+                </Button>
+                <Button size="sm" onClick={() => handleReview(item, 'approve')} disabled={isPending}>
+                  <Check className="h-3 w-3 mr-1" />
+                  批准
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
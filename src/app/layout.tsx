@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { ReactQueryProvider } from '@/lib/react-query'
+import { CLIBackendProvider } from '@/lib/cli-backend-context'
 import Sidebar from '@/components/sidebar'
 import { Toaster } from '@/components/ui/sonner'
 
@@ -31,13 +32,15 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <ReactQueryProvider>
-          <div className="flex h-screen bg-background">
-            <Sidebar />
-            <main className="flex-1 overflow-y-auto">
-              {children}
-            </main>
-          </div>
-          <Toaster />
+          <CLIBackendProvider>
+            <div className="flex h-screen bg-background">
+              <Sidebar />
+              <main className="flex-1 overflow-y-auto">
+                {children}
+              </main>
+            </div>
+            <Toaster />
+          </CLIBackendProvider>
         </ReactQueryProvider>
       </body>
     </html>
@@ -0,0 +1,76 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, RefreshCw, ScrollText } from 'lucide-react'
+import { LogViewer } from '@/components/log-viewer'
+import { useCLIServiceLog } from '@/hooks/use-cli-tasks'
+import { useCLIBackend } from '@/lib/cli-backend-context'
+
+const EMPTY_LINES: string[] = []
+
+export default function ServiceLogPage() {
+  const { backend } = useCLIBackend()
+  const [autoRefresh, setAutoRefresh] = useState(true)
+  const { data, isLoading, error, refetch, isFetching } = useCLIServiceLog(autoRefresh)
+  const lines = data?.lines ?? EMPTY_LINES
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Link href="/monitoring">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              返回
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">服务日志</h1>
+            <p className="text-muted-foreground">auto_claude.py 的运行日志，包含所有工作器的输出</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setAutoRefresh(!autoRefresh)}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${autoRefresh ? 'text-green-600' : 'text-muted-foreground'}`} />
+            {autoRefresh ? '自动刷新中' : '自动刷新已暂停'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            刷新
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ScrollText className="h-5 w-5" />
+            <span>auto_claude.log</span>
+          </CardTitle>
+          <CardDescription>
+            共 {lines.length} 行
+            {data?.truncated && '，日志文件过大，只显示末尾部分'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <div className="text-center text-sm text-destructive p-8">
+              {error instanceof Error ? error.message : '获取服务日志失败'}
+            </div>
+          ) : (
+            <LogViewer
+              lines={lines}
+              fileName={`auto_claude${backend ? `_${backend}` : ''}.log`}
+              emptyText={isLoading ? '加载中...' : '服务还没有输出日志'}
+              className="h-[calc(100vh-20rem)] min-h-96"
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -21,13 +22,17 @@ import {
   Zap,
   Wifi,
   WifiOff,
-  Loader2
+  Loader2,
+  Layers,
+  ScrollText
 } from 'lucide-react'
 import { formatDateTime } from '@/lib/utils'
 import { Alert, AlertLevel, SystemMetrics } from '@/types'
 import { useAlerts, useSystemMetrics, useResolveAlert } from '@/hooks/use-system'
+import { useCLIExecutionMetrics } from '@/hooks/use-cli-tasks'
 import { useWebSocket, useSystemMetrics as useRealtimeMetrics, useAlerts as useRealtimeAlerts } from '@/hooks/use-websocket'
 import { ConnectionStatus } from '@/services/websocket'
+import { RateLimitPanel } from '@/components/rate-limit-panel'
 
 // 模拟告警数据
 const mockAlerts: Alert[] = [
@@ -109,6 +114,9 @@ export default function MonitoringPage() {
   const { data: staticMetrics } = useSystemMetrics(24)
   const resolveAlertMutation = useResolveAlert()
 
+  // taskctl 执行池指标
+  const { data: executionMetrics } = useCLIExecutionMetrics()
+
   // 合并实时数据和静态数据
   const alerts = realtimeAlerts.length > 0 ? realtimeAlerts.map(alert => ({
     id: alert.id,
@@ -318,6 +326,13 @@ export default function MonitoringPage() {
             </Badge>
           )}
           
+          <Link href="/monitoring/logs">
+            <Button variant="outline" size="sm">
+              <ScrollText className="h-4 w-4 mr-2" />
+              服务日志
+            </Button>
+          </Link>
+
           <Button variant="outline" size="sm" onClick={() => window.location.reload()}>
             <RefreshCw className="h-4 w-4 mr-2" />
             刷新数据
@@ -477,6 +492,79 @@ export default function MonitoringPage() {
         </CardContent>
       </Card>
 
+      {/* CLI Execution Pool */}
+      {executionMetrics && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Layers className="h-5 w-5 text-blue-600" />
+              <span>命令执行池</span>
+            </CardTitle>
+            <CardDescription>
+              taskctl.py 进程的并发、排队和耗时统计（最近 {executionMetrics.run.count} 次执行）
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <div className="space-y-1">
+                <div className="text-sm font-medium text-muted-foreground">运行中</div>
+                <div className="text-2xl font-bold">
+                  {executionMetrics.active} / {executionMetrics.max_concurrency}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  流式连接 {executionMetrics.active_streams} / {executionMetrics.max_streams} 个
+                </div>
+              </div>
+              <div className="space-y-1">
+                <div className="text-sm font-medium text-muted-foreground">排队</div>
+                <div className={`text-2xl font-bold ${executionMetrics.queued > 0 ? 'text-orange-600' : ''}`}>
+                  {executionMetrics.queued} / {executionMetrics.max_queue}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  等待 P95: {executionMetrics.wait.p95_ms}ms
+                </div>
+              </div>
+              <div className="space-y-1">
+                <div className="text-sm font-medium text-muted-foreground">执行耗时</div>
+                <div className="text-2xl font-bold">{executionMetrics.run.p50_ms}ms</div>
+                <div className="text-xs text-muted-foreground">
+                  P95: {executionMetrics.run.p95_ms}ms | 最长: {executionMetrics.run.max_ms}ms
+                </div>
+              </div>
+              <div className="space-y-1">
+                <div className="text-sm font-medium text-muted-foreground">执行结果</div>
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="outline" className="text-green-600">完成 {executionMetrics.totals.completed}</Badge>
+                  <Badge variant="outline" className="text-red-600">失败 {executionMetrics.totals.failed}</Badge>
+                  <Badge variant="outline" className="text-orange-600">超时 {executionMetrics.totals.timed_out}</Badge>
+                  <Badge variant="outline">取消 {executionMetrics.totals.aborted}</Badge>
+                  <Badge variant="outline" className="text-red-600">拒绝 {executionMetrics.totals.rejected}</Badge>
+                </div>
+              </div>
+            </div>
+
+            {executionMetrics.by_command.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">按命令统计</div>
+                <div className="divide-y rounded-md border">
+                  {executionMetrics.by_command.map(command => (
+                    <div key={command.command} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span className="font-mono">{command.command}</span>
+                      <span className="text-muted-foreground">
+                        {command.count} 次 | 平均 {command.avg_ms}ms | 最长 {command.max_ms}ms
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 用量限制 */}
+      <RateLimitPanel />
+
       {/* 告警列表 - 使用Table组件 */}
       <Card>
         <CardHeader>
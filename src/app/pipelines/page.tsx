@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { PipelineDag } from '@/components/pipeline-dag'
+import { PipelineForm } from '@/components/pipeline-form'
+import { Plus, Workflow, Square, Trash2, RefreshCw } from 'lucide-react'
+import { formatBeijingDateTimeSimple } from '@/lib/utils'
+import {
+  useCLIPipelines,
+  useCancelCLIPipeline,
+  useDeleteCLIPipeline,
+  useCLISnapshot,
+  useCLIAvailability
+} from '@/hooks/use-cli-tasks'
+import type { Pipeline } from '@/lib/pipelines'
+import { toast } from '@/components/ui/sonner'
+
+const PIPELINE_STATUS_BADGES: Record<Pipeline['status'], { label: string; variant: 'info' | 'success' | 'destructive' | 'secondary' }> = {
+  running: { label: '运行中', variant: 'info' },
+  succeeded: { label: '已完成', variant: 'success' },
+  failed: { label: '失败', variant: 'destructive' },
+  cancelled: { label: '已取消', variant: 'secondary' }
+}
+
+export default function PipelinesPage() {
+  const [showForm, setShowForm] = useState(false)
+  const { data: isCliAvailable } = useCLIAvailability()
+  const { data: pipelines = [], isLoading, error, refetch, isFetching } = useCLIPipelines()
+  // 节点颜色使用快照中的最新任务状态
+  const { data: snapshot } = useCLISnapshot(isCliAvailable === true)
+  const cancelPipeline = useCancelCLIPipeline()
+  const deletePipeline = useDeleteCLIPipeline()
+
+  const taskStates = Object.fromEntries((snapshot?.tasks ?? []).map(task => [task.id, task.task_state]))
+
+  const handleCancel = async (pipeline: Pipeline) => {
+    if (!window.confirm(`确定要取消流水线 "${pipeline.name}" 吗？已提交的任务也会被取消。`)) return
+    try {
+      await cancelPipeline.mutateAsync(pipeline.id)
+      toast.success('流水线已取消')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '取消流水线失败')
+    }
+  }
+
+  const handleDelete = async (pipeline: Pipeline) => {
+    if (!window.confirm(`确定要删除流水线 "${pipeline.name}" 吗？已创建的任务不受影响。`)) return
+    try {
+      await deletePipeline.mutateAsync(pipeline.id)
+      toast.success('流水线已删除')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '删除流水线失败')
+    }
+  }
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">流水线</h1>
+          <p className="text-muted-foreground">按依赖关系串联多个任务，上游结束后自动提交下游步骤</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            刷新
+          </Button>
+          <Button onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            创建流水线
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && (
+        <Card>
+          <CardContent className="pt-6 text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">加载流水线...</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {error && (
+        <Card className="border-destructive/50 bg-destructive/10">
+          <CardContent className="pt-6 text-sm text-destructive">
+            加载流水线失败: {error.message}
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && !error && pipelines.length === 0 && (
+        <Card>
+          <CardContent className="pt-6 text-center py-12">
+            <Workflow className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">还没有流水线</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {pipelines.map(pipeline => {
+        const badge = PIPELINE_STATUS_BADGES[pipeline.status]
+        const finishedSteps = pipeline.steps.filter(step => ['completed', 'failed', 'skipped'].includes(pipeline.runs[step.id]?.status)).length
+
+        return (
+          <Card key={pipeline.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <CardTitle className="flex items-center space-x-2">
+                    <span className="truncate">{pipeline.name}</span>
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    {pipeline.description && <span className="mr-2">{pipeline.description}</span>}
+                    步骤 {finishedSteps}/{pipeline.steps.length} · 创建于 {formatBeijingDateTimeSimple(pipeline.created_at)}
+                    {pipeline.finished_at && ` · 结束于 ${formatBeijingDateTimeSimple(pipeline.finished_at)}`}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  {pipeline.status === 'running' ? (
+                    <Button size="sm" variant="outline" onClick={() => handleCancel(pipeline)} disabled={cancelPipeline.isPending}>
+                      <Square className="h-3 w-3 mr-1" />
+                      取消
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(pipeline)} disabled={deletePipeline.isPending}>
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      删除
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <PipelineDag pipeline={pipeline} taskStates={taskStates} />
+              {pipeline.steps.some(step => pipeline.runs[step.id]?.error) && (
+                <div className="space-y-1">
+                  {pipeline.steps.filter(step => pipeline.runs[step.id]?.error).map(step => (
+                    <div key={step.id} className="text-xs text-destructive bg-destructive/10 p-2 rounded">
+                      {step.name}: {pipeline.runs[step.id].error}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      <PipelineForm isOpen={showForm} onClose={() => setShowForm(false)} />
+    </div>
+  )
+}
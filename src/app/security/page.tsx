@@ -21,23 +21,14 @@ import {
   Activity,
   Clock,
   Globe,
-  Server
+  Server,
+  Terminal
 } from 'lucide-react'
 import { formatDateTime } from '@/lib/utils'
 import { useSecurityReport, useSecurityLogs, useSecurityUsers, useApiKeys } from '@/hooks/use-security'
+import type { SecurityLog } from '@/services/security'
 
-// 安全审计日志数据类型
-interface SecurityLog {
-  id: string
-  type: 'login' | 'logout' | 'permission_change' | 'api_access' | 'failed_login' | 'system_change'
-  user: string
-  action: string
-  ip_address: string
-  user_agent: string
-  timestamp: string
-  success: boolean
-  details?: Record<string, unknown>
-}
+const AUDIT_PAGE_SIZE = 20
 
 // 用户权限数据类型
 interface UserPermission {
@@ -64,51 +55,6 @@ interface ApiKey {
 }
 
 // 模拟数据
-const mockSecurityLogs: SecurityLog[] = [
-  {
-    id: 'log_001',
-    type: 'login',
-    user: 'admin',
-    action: '用户登录',
-    ip_address: '192.168.1.100',
-    user_agent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
-    timestamp: new Date(Date.now() - 300000).toISOString(),
-    success: true
-  },
-  {
-    id: 'log_002', 
-    type: 'failed_login',
-    user: 'unknown',
-    action: '登录失败',
-    ip_address: '203.0.113.45',
-    user_agent: 'curl/7.68.0',
-    timestamp: new Date(Date.now() - 600000).toISOString(),
-    success: false,
-    details: { reason: 'Invalid credentials' }
-  },
-  {
-    id: 'log_003',
-    type: 'api_access',
-    user: 'api_user',
-    action: 'API调用: /api/tasks',
-    ip_address: '10.0.0.50',
-    user_agent: 'Python/3.9 requests/2.25.1',
-    timestamp: new Date(Date.now() - 900000).toISOString(),
-    success: true
-  },
-  {
-    id: 'log_004',
-    type: 'permission_change',
-    user: 'admin',
-    action: '修改用户权限',
-    ip_address: '192.168.1.100',
-    user_agent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
-    timestamp: new Date(Date.now() - 1800000).toISOString(),
-    success: true,
-    details: { target_user: 'operator1', changes: ['task_create', 'task_delete'] }
-  }
-]
-
 const mockUsers: UserPermission[] = [
   {
     id: 'user_001',
@@ -180,13 +126,26 @@ export default function SecurityPage() {
 
   // 使用真实数据 hooks
   const { data: securityReportResponse } = useSecurityReport()
-  const { data: securityLogsResponse, isLoading: logsLoading } = useSecurityLogs({ limit: 50 })
+  // 审计日志筛选和分页
+  const [logType, setLogType] = useState('')
+  const [logUser, setLogUser] = useState('')
+  const [logResult, setLogResult] = useState<'' | 'true' | 'false'>('')
+  const [logPage, setLogPage] = useState(1)
+  const { data: securityLogsResponse, isLoading: logsLoading, error: logsError } = useSecurityLogs({
+    type: logType || undefined,
+    user: logUser.trim() || undefined,
+    success: logResult === '' ? undefined : logResult === 'true',
+    limit: AUDIT_PAGE_SIZE,
+    offset: (logPage - 1) * AUDIT_PAGE_SIZE
+  })
   const { data: usersResponse, isLoading: usersLoading } = useSecurityUsers()
   const { data: apiKeysResponse, isLoading: keysLoading } = useApiKeys()
   
   // 使用真实数据或回退到模拟数据
   const securityReport = securityReportResponse?.data
-  const securityLogs = securityLogsResponse?.data?.items || mockSecurityLogs
+  const securityLogs = securityLogsResponse?.data?.items ?? []
+  const securityLogsTotal = securityLogsResponse?.data?.total ?? 0
+  const logPageCount = Math.max(1, Math.ceil(securityLogsTotal / AUDIT_PAGE_SIZE))
   const users = usersResponse?.data || mockUsers
   const apiKeys = apiKeysResponse?.data || mockApiKeys
 
@@ -197,7 +156,8 @@ export default function SecurityPage() {
       failed_login: <XCircle className="h-4 w-4 text-red-600" />,
       api_access: <Key className="h-4 w-4 text-blue-600" />,
       permission_change: <Settings className="h-4 w-4 text-orange-600" />,
-      system_change: <Server className="h-4 w-4 text-purple-600" />
+      system_change: <Server className="h-4 w-4 text-purple-600" />,
+      cli_command: <Terminal className="h-4 w-4 text-blue-600" />
     }
     return icons[type] || <Activity className="h-4 w-4 text-gray-600" />
   }
@@ -209,7 +169,8 @@ export default function SecurityPage() {
       failed_login: '登录失败',
       api_access: 'API访问',
       permission_change: '权限变更',
-      system_change: '系统变更'
+      system_change: '系统变更',
+      cli_command: 'CLI操作'
     }
     return labels[type] || type
   }
@@ -348,14 +309,47 @@ export default function SecurityPage() {
         <Card>
           <CardHeader>
             <CardTitle>安全审计日志</CardTitle>
-            <CardDescription>系统安全事件和访问记录</CardDescription>
+            <CardDescription>任务、工作器、定时任务和服务的操作记录，共 {securityLogsTotal} 条</CardDescription>
           </CardHeader>
           <CardContent>
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              <select
+                value={logType}
+                onChange={(e) => { setLogType(e.target.value); setLogPage(1) }}
+                className="text-sm border border-input rounded px-2 py-1 h-9"
+              >
+                <option value="">全部类型</option>
+                <option value="cli_command">CLI操作</option>
+                <option value="system_change">系统变更</option>
+              </select>
+              <select
+                value={logResult}
+                onChange={(e) => { setLogResult(e.target.value as '' | 'true' | 'false'); setLogPage(1) }}
+                className="text-sm border border-input rounded px-2 py-1 h-9"
+              >
+                <option value="">全部结果</option>
+                <option value="true">成功</option>
+                <option value="false">失败</option>
+              </select>
+              <Input
+                value={logUser}
+                onChange={(e) => { setLogUser(e.target.value); setLogPage(1) }}
+                placeholder="按用户名筛选"
+                className="w-48"
+              />
+            </div>
+
             {logsLoading ? (
               <div className="flex items-center justify-center p-8">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mr-4"></div>
                 <span className="text-muted-foreground">加载安全日志...</span>
               </div>
+            ) : logsError ? (
+              <div className="text-center p-8 text-destructive">
+                加载审计日志失败: {(logsError as Error).message}
+              </div>
+            ) : securityLogs.length === 0 ? (
+              <div className="text-center p-8 text-muted-foreground">暂无审计记录</div>
             ) : (
               <div className="space-y-4">
                 {securityLogs.map((log) => (
@@ -369,7 +363,7 @@ export default function SecurityPage() {
                         <Badge variant={log.success ? 'default' : 'destructive'}>
                           {getLogTypeLabel(log.type)}
                         </Badge>
-                        <span className="font-medium">{log.action}</span>
+                        <span className="font-medium font-mono">{log.action}</span>
                       </div>
                       <span className="text-sm text-muted-foreground">
                         {formatDateTime(log.timestamp)}
@@ -381,15 +375,39 @@ export default function SecurityPage() {
                         <Globe className="h-3 w-3" />
                         <span>{log.ip_address}</span>
                       </span>
-                      {log.details && (
-                        <span>详情: {JSON.stringify(log.details)}</span>
+                      {log.duration_ms !== undefined && (
+                        <span className="flex items-center space-x-1">
+                          <Clock className="h-3 w-3" />
+                          <span>{log.duration_ms}ms</span>
+                        </span>
                       )}
                     </div>
+                    {log.details && (
+                      <div className="mt-1 text-xs text-muted-foreground font-mono break-all">
+                        {JSON.stringify(log.details)}
+                      </div>
+                    )}
                   </div>
                 </div>
                 ))}
               </div>
             )}
+
+            {securityLogsTotal > AUDIT_PAGE_SIZE && (
+              <div className="flex items-center justify-between mt-4">
+                <span className="text-sm text-muted-foreground">
+                  第 {logPage} / {logPageCount} 页
+                </span>
+                <div className="flex items-center space-x-2">
+                  <Button variant="outline" size="sm" disabled={logPage <= 1} onClick={() => setLogPage(page => page - 1)}>
+                    上一页
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={logPage >= logPageCount} onClick={() => setLogPage(page => page + 1)}>
+                    下一页
+                  </Button>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Textarea } from '@/components/ui/textarea'
+import { RetryPolicySettings } from '@/components/retry-policy-settings'
 import { 
   Settings, 
   Bell, 
@@ -16,7 +17,8 @@ import {
   Download,
   Upload,
   TestTube,
-  Loader2
+  Loader2,
+  RotateCw
 } from 'lucide-react'
 import { useSettings, useSettingsForm } from '@/hooks/use-settings'
 import { useNotificationSettings } from '@/hooks/use-settings'
@@ -136,7 +138,8 @@ export default function SettingsPage() {
     { id: 'system', name: '系统参数', icon: Settings },
     { id: 'notifications', name: '通知设置', icon: Bell },
     { id: 'backup', name: '备份配置', icon: Database },
-    { id: 'logging', name: '日志配置', icon: FileText }
+    { id: 'logging', name: '日志配置', icon: FileText },
+    { id: 'retry', name: '重试策略', icon: RotateCw }
   ]
 
   return (
@@ -600,6 +603,9 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
         )}
+
+        {/* 重试策略：按后端保存，有单独的保存按钮 */}
+        {activeTab === 'retry' && <RetryPolicySettings />}
       </div>
     </div>
   )
@@ -1,38 +1,59 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { useParams } from 'next/navigation'
+import { useState, useEffect, useMemo } from 'react'
+import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { CLIContractAlert } from '@/components/cli-contract-alert'
+import { TaskExportMenu } from '@/components/task-export-menu'
+import { LogViewer } from '@/components/log-viewer'
+import { TranscriptView } from '@/components/transcript-view'
+import { TaskComments } from '@/components/task-comments'
+import { TaskAttemptHistory } from '@/components/task-attempt-history'
 import { 
   ArrowLeft,
   Play,
   Pause,
   Square,
   RotateCcw,
-  Download,
   Copy,
   RefreshCw,
   Terminal,
   Clock,
   Settings,
-  Activity,
   AlertTriangle,
   Wifi,
   WifiOff,
-  Loader2
+  Loader2,
+  CopyPlus,
+  Repeat,
+  GitBranch,
+  Coins,
+  MessageSquare,
+  MessagesSquare,
+  History
 } from 'lucide-react'
 import { formatDateTime, formatRelativeTime, formatDuration, getTaskStateColor, getPriorityColor } from '@/lib/utils'
 import { TaskState } from '@/types'
-import { useCLITask, useCLITaskLogs, useCLITaskAction } from '@/hooks/use-cli-tasks'
+import { CLIContractError } from '@/lib/cli-schemas'
+import { parseTaskUsage, getCacheHitRate, formatCost, formatTokens } from '@/lib/task-usage'
+import { parseTranscript } from '@/lib/transcript'
+import { useCLITask, useCLITaskLogs, useCLITaskLogStream, useCLITaskAction, useRerunCLITask, useCLISnapshot } from '@/hooks/use-cli-tasks'
 import type { CLITask } from '@/services/cli-service'
 import { useWebSocket, useTaskStatus, useTaskLogs as useRealtimeTaskLogs } from '@/hooks/use-websocket'
 import { ConnectionStatus } from '@/services/websocket'
+import { toast } from '@/components/ui/sonner'
+
+// 与另一次运行对比：来源任务在左侧
+function compareHref(a: string, b: string): string {
+  return `/tasks/compare?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}`
+}
 
 export default function TaskDetailPage() {
   const params = useParams()
+  const router = useRouter()
   const taskId = params.id as string
 
   // WebSocket连接状态
@@ -41,17 +62,32 @@ export default function TaskDetailPage() {
   // 获取任务基础数据 (使用 CLI hook)
   const { data: cliTask, isLoading, error } = useCLITask(taskId)
 
+  // 执行中的任务通过 SSE 跟踪日志，其余情况读取一次性快照
+  const isTaskRunning = cliTask?.task_state === TaskState.PROCESSING || cliTask?.task_state === TaskState.RETRYING
+  const {
+    lines: streamedLogs,
+    isStreaming,
+    clearLines: clearStreamedLogs
+  } = useCLITaskLogStream(taskId, isTaskRunning)
+
   // 获取任务日志 (使用 CLI hook)
-  const { data: cliLogs = [] } = useCLITaskLogs(taskId)
+  const { data: cliLogs = [] } = useCLITaskLogs(taskId, !isTaskRunning)
 
   // 实时任务状态
   const { taskStatus: realtimeStatus } = useTaskStatus(taskId)
 
   // 实时日志流
-  const { logs: realtimeLogs, isAutoScroll, clearLogs, toggleAutoScroll } = useRealtimeTaskLogs(taskId)
+  const { logs: realtimeLogs, clearLogs } = useRealtimeTaskLogs(taskId)
 
   // 任务操作 (使用 CLI hook)
   const taskActionMutation = useCLITaskAction()
+  const rerunMutation = useRerunCLITask()
+
+  // 从这个任务复制出的运行记录
+  const { data: snapshot } = useCLISnapshot()
+  const clonedRuns = (snapshot?.tasks ?? [])
+    .filter(item => item.cloned_from === taskId)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
 
   // 合并 CLI 数据和实时数据
   const task: CLITask | null = cliTask ? {
@@ -63,13 +99,29 @@ export default function TaskDetailPage() {
     } : {})
   } : null
 
-  // 使用 CLI 日志或实时日志
-  const logs = cliLogs.length > 0 ? cliLogs :
-               realtimeLogs.length > 0 ? realtimeLogs.map(log =>
-                 `[${new Date(log.timestamp).toLocaleString()}] ${log.message}`
-               ) : []
+  // 优先使用流式日志，其次是 CLI 日志或实时日志
+  const logs = useMemo(
+    () => streamedLogs.length > 0 ? streamedLogs :
+          cliLogs.length > 0 ? cliLogs :
+          realtimeLogs.map(log => `[${new Date(log.timestamp).toLocaleString()}] ${log.message}`),
+    [streamedLogs, cliLogs, realtimeLogs]
+  )
+
+  // 从日志中的 claude 执行结果统计用量，重试过的任务累加每次执行；实时日志只有消息文本，不包含执行结果
+  const usage = useMemo(
+    () => parseTaskUsage(streamedLogs.length > 0 ? streamedLogs : cliLogs),
+    [streamedLogs, cliLogs]
+  )
+
+  // 从同一份日志解析 claude 的对话过程
+  const transcript = useMemo(
+    () => parseTranscript(streamedLogs.length > 0 ? streamedLogs : cliLogs),
+    [streamedLogs, cliLogs]
+  )
 
   const [isLogsVisible, setIsLogsVisible] = useState(true)
+  // 在日志中选中的行，发表评论时关联到这一行
+  const [selectedLogLine, setSelectedLogLine] = useState<number | null>(null)
 
   // 自动连接WebSocket
   useEffect(() => {
@@ -77,16 +129,6 @@ export default function TaskDetailPage() {
       connect()
     }
   }, [isConnected, connectionStatus, connect])
-  
-  useEffect(() => {
-    // 自动滚动到日志底部
-    if (isAutoScroll) {
-      const logsContainer = document.getElementById('logs-container')
-      if (logsContainer) {
-        logsContainer.scrollTop = logsContainer.scrollHeight
-      }
-    }
-  }, [logs, isAutoScroll])
 
   const handleTaskAction = async (action: 'cancel' | 'retry' | 'pause' | 'resume') => {
     try {
@@ -99,6 +141,17 @@ export default function TaskDetailPage() {
     }
   }
 
+  const handleRerun = async () => {
+    if (!cliTask) return
+    const result = await rerunMutation.mutateAsync(cliTask)
+    if (result.success) {
+      toast.success('已使用相同输入创建新任务')
+      if (result.taskId) router.push(`/tasks/${result.taskId}`)
+    } else {
+      toast.error(`重新运行失败: ${result.error}`)
+    }
+  }
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text)
     // 这里可以添加toast通知
@@ -148,6 +201,18 @@ export default function TaskDetailPage() {
     )
   }
 
+  // 输出格式不符合约定
+  if (error instanceof CLIContractError) {
+    return (
+      <div className="flex-1 space-y-4 p-6">
+        <CLIContractAlert error={error} />
+        <Link href="/tasks">
+          <Button variant="outline">返回任务列表</Button>
+        </Link>
+      </div>
+    )
+  }
+
   // 错误或任务不存在
   if (error || !task) {
     return (
@@ -221,6 +286,25 @@ export default function TaskDetailPage() {
             <RefreshCw className="h-4 w-4 mr-2" />
             刷新
           </Button>
+
+          <Link href={`/tasks/create?clone=${encodeURIComponent(task.id)}`}>
+            <Button variant="outline" size="sm">
+              <CopyPlus className="h-4 w-4 mr-2" />
+              复制并编辑
+            </Button>
+          </Link>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRerun}
+            disabled={rerunMutation.isPending}
+          >
+            <Repeat className="h-4 w-4 mr-2" />
+            重新运行
+          </Button>
+
+          <TaskExportMenu taskIds={[task.id]} size="sm" />
           
           {task.task_state === TaskState.PROCESSING && (
             <Button 
@@ -374,30 +458,175 @@ export default function TaskDetailPage() {
                 <div className="pt-3 border-t">
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-muted-foreground">重试次数</span>
-                    <span className="text-sm font-medium">{task.retry_count}</span>
+                    <span className="text-sm font-medium">
+                      {task.retry_count}
+                      {task.max_retries !== undefined && ` / ${task.max_retries}`}
+                    </span>
                   </div>
                 </div>
               )}
             </CardContent>
           </Card>
 
-          {/* Tags */}
-          {task.tags && task.tags.length > 0 && (
+          {/* Attempts */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <History className="h-4 w-4" />
+                <span>尝试记录</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TaskAttemptHistory task={task} />
+            </CardContent>
+          </Card>
+
+          {/* Usage */}
+          {usage && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
-                  <Settings className="h-4 w-4" />
-                  <span>标签</span>
+                  <Coins className="h-4 w-4" />
+                  <span>用量</span>
                 </CardTitle>
               </CardHeader>
-              <CardContent>
-                <div className="flex flex-wrap gap-1">
-                  {task.tags.map((tag, index) => (
-                    <Badge key={index} variant="outline" className="text-xs">
-                      {tag}
-                    </Badge>
-                  ))}
+              <CardContent className="space-y-3">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="text-muted-foreground">输入 token</div>
+                    <div className="font-medium">{formatTokens(usage.input_tokens)}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">输出 token</div>
+                    <div className="font-medium">{formatTokens(usage.output_tokens)}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">缓存读取</div>
+                    <div className="font-medium">
+                      {formatTokens(usage.cache_read_input_tokens)}
+                      <span className="text-xs text-muted-foreground ml-1">
+                        ({(getCacheHitRate(usage) * 100).toFixed(0)}%)
+                      </span>
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">缓存写入</div>
+                    <div className="font-medium">{formatTokens(usage.cache_creation_input_tokens)}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">对话轮数</div>
+                    <div className="font-medium">{usage.num_turns}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">总费用</div>
+                    <div className="font-medium">{formatCost(usage.total_cost_usd)}</div>
+                  </div>
                 </div>
+
+                {usage.runs > 1 && (
+                  <div className="pt-3 border-t text-xs text-muted-foreground">
+                    共 {usage.runs} 次执行的合计
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Execution Config */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Settings className="h-4 w-4" />
+                <span>执行配置</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">自动执行</span>
+                <Badge variant="outline">
+                  {task.auto_execute === undefined ? '未知' : task.auto_execute ? '是' : '否'}
+                </Badge>
+              </div>
+
+              <div>
+                <div className="text-muted-foreground mb-1">工作目录</div>
+                <div className="font-mono text-xs break-all">{task.working_dir || '默认'}</div>
+              </div>
+
+              {task.environment && Object.keys(task.environment).length > 0 && (
+                <div>
+                  <div className="text-muted-foreground mb-1">环境变量</div>
+                  <div className="space-y-1">
+                    {Object.entries(task.environment).map(([key, value]) => (
+                      <div key={key} className="p-2 bg-muted rounded font-mono text-xs break-all">
+                        {key}={value}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {task.tags && task.tags.length > 0 && (
+                <div>
+                  <div className="text-muted-foreground mb-1">标签</div>
+                  <div className="flex flex-wrap gap-1">
+                    {task.tags.map((tag, index) => (
+                      <Badge key={index} variant="outline" className="text-xs">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Lineage */}
+          {(task.cloned_from || clonedRuns.length > 0) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <GitBranch className="h-4 w-4" />
+                  <span>运行记录</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {task.cloned_from && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">复制自</span>
+                    <span className="flex items-center space-x-2">
+                      <Link href={`/tasks/${task.cloned_from}`} className="font-mono text-xs hover:text-primary">
+                        {task.cloned_from}
+                      </Link>
+                      <Link href={compareHref(task.cloned_from, task.id)} className="text-xs text-muted-foreground hover:text-primary">
+                        对比
+                      </Link>
+                    </span>
+                  </div>
+                )}
+
+                {clonedRuns.length > 0 && (
+                  <div>
+                    <div className="text-muted-foreground mb-1">后续运行</div>
+                    <div className="space-y-1">
+                      {clonedRuns.map(run => (
+                        <div key={run.id} className="flex items-center justify-between p-2 bg-muted rounded">
+                          <Link href={`/tasks/${run.id}`} className="font-mono text-xs hover:text-primary">
+                            {run.id}
+                          </Link>
+                          <span className="flex items-center space-x-2">
+                            <Link href={compareHref(task.id, run.id)} className="text-xs text-muted-foreground hover:text-primary">
+                              对比
+                            </Link>
+                            <Badge className={getTaskStateColor(run.task_state)}>
+                              {getTaskStateLabel(run.task_state)}
+                            </Badge>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -460,6 +689,26 @@ export default function TaskDetailPage() {
             </Card>
           )}
 
+          {/* Transcript */}
+          {transcript.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <MessageSquare className="h-4 w-4" />
+                  <span>执行记录</span>
+                  {transcript.length > 1 && (
+                    <Badge variant="outline" className="ml-2">
+                      {transcript.length} 次执行
+                    </Badge>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TranscriptView runs={transcript} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Real-time Logs */}
           <Card>
             <CardHeader>
@@ -472,19 +721,11 @@ export default function TaskDetailPage() {
                   </Badge>
                 </CardTitle>
                 <div className="flex items-center space-x-2">
-                  {isConnected && (
+                  {(isConnected || isStreaming) && (
                     <Badge variant="outline" className="text-green-600 border-green-200">
-                      实时数据
+                      {isStreaming ? '日志流' : '实时数据'}
                     </Badge>
                   )}
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={toggleAutoScroll}
-                  >
-                    <Activity className={`h-4 w-4 mr-1 ${isAutoScroll ? 'text-green-600' : 'text-muted-foreground'}`} />
-                    自动滚动
-                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -495,68 +736,63 @@ export default function TaskDetailPage() {
                   <Button 
                     variant="outline" 
                     size="sm"
-                    onClick={clearLogs}
+                    onClick={() => {
+                      clearLogs()
+                      clearStreamedLogs()
+                    }}
                     disabled={logs.length === 0}
                   >
                     清空日志
                   </Button>
-                  <Button variant="outline" size="sm">
-                    <Download className="h-4 w-4 mr-1" />
-                    下载
-                  </Button>
                 </div>
               </div>
             </CardHeader>
             {isLogsVisible && (
-              <CardContent>
-                <div
-                  id="logs-container"
-                  className="bg-black text-green-400 p-4 rounded-lg h-96 overflow-auto font-mono text-sm"
-                >
-                  {logs.length === 0 ? (
-                    <div className="flex items-center justify-center h-full text-gray-500">
-                      {isConnected ? '等待日志数据...' : '请等待WebSocket连接'}
-                    </div>
-                  ) : (
-                    logs.map((log, index) => {
-                      // 解析日志级别和颜色
-                      const getLogColor = (logText: string) => {
-                        if (logText.includes('ERROR') || logText.includes('错误')) return 'text-red-400'
-                        if (logText.includes('WARN') || logText.includes('警告')) return 'text-yellow-400'
-                        if (logText.includes('INFO') || logText.includes('信息')) return 'text-blue-400'
-                        if (logText.includes('DEBUG') || logText.includes('调试')) return 'text-gray-400'
-                        if (logText.includes('成功') || logText.includes('SUCCESS')) return 'text-green-400'
-                        return 'text-green-400'
-                      }
-                      
-                      return (
-                        <div key={index} className={`mb-1 hover:bg-gray-800 px-1 rounded ${getLogColor(log)}`}>
-                          {log}
-                        </div>
-                      )
-                    })
-                  )}
-                  {task.task_state === TaskState.PROCESSING && isConnected && (
-                    <div className="flex items-center mt-2 text-yellow-400">
-                      <div className="animate-pulse mr-2">●</div>
-                      正在执行中...
-                      {realtimeStatus?.progress && (
-                        <span className="ml-2">
-                          (进度: {Math.round(realtimeStatus.progress * 100)}%)
-                        </span>
-                      )}
-                    </div>
-                  )}
-                  {!isConnected && (
-                    <div className="flex items-center mt-2 text-red-400">
-                      <WifiOff className="h-4 w-4 mr-2" />
-                      实时连接已断开，日志可能不是最新数据
-                    </div>
-                  )}
-                </div>
+              <CardContent className="space-y-2">
+                <LogViewer
+                  lines={logs}
+                  fileName={`task-${task.id}.log`}
+                  onSelectLine={setSelectedLogLine}
+                  emptyText={isConnected ? '等待日志数据...' : '请等待WebSocket连接'}
+                />
+                {task.task_state === TaskState.PROCESSING && isConnected && (
+                  <div className="flex items-center text-sm text-yellow-600">
+                    <div className="animate-pulse mr-2">●</div>
+                    正在执行中...
+                    {realtimeStatus?.progress && (
+                      <span className="ml-2">
+                        (进度: {Math.round(realtimeStatus.progress * 100)}%)
+                      </span>
+                    )}
+                  </div>
+                )}
+                {!isConnected && (
+                  <div className="flex items-center text-sm text-red-600">
+                    <WifiOff className="h-4 w-4 mr-2" />
+                    实时连接已断开，日志可能不是最新数据
+                  </div>
+                )}
               </CardContent>
             )}
           </Card>
+
+          {/* Comments */}
+          <Card id="comments">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <MessagesSquare className="h-4 w-4" />
+                <span>评论</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TaskComments
+                taskId={task.id}
+                logs={logs}
+                selectedLine={selectedLogLine}
+                onClearSelectedLine={() => setSelectedLogLine(null)}
+              />
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
@@ -0,0 +1,324 @@
+'use client'
+
+import { Suspense, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { ArrowLeft, ArrowLeftRight, GitCompare } from 'lucide-react'
+import { cn, formatBeijingDateTimeSimple, formatDuration, getTaskStateColor } from '@/lib/utils'
+import { diffLines } from '@/lib/text-diff'
+import { TextDiffView } from '@/components/text-diff-view'
+import { useCLITask, useCLITaskLogs } from '@/hooks/use-cli-tasks'
+import type { CLITask } from '@/services/cli-service'
+
+const STATE_LABELS: Record<string, string> = {
+  pending: '等待中',
+  processing: '处理中',
+  completed: '已完成',
+  failed: '失败',
+  paused: '暂停',
+  waiting_unban: '等待解封',
+  retrying: '重试中',
+  needs_human_review: '需要审核',
+  awaiting_confirmation: '等待确认'
+}
+
+// 最终输出取日志的最后几行
+const OUTPUT_LINES = 20
+// 差异附近保留的相同行数
+const DIFF_CONTEXT = 3
+
+// 日志行开头的时间戳，比较时忽略
+const LOG_TIMESTAMP_PATTERN = /^\[[^\]]*\]\s*/
+
+function getDuration(task: CLITask): string {
+  if (!task.started_at) return '-'
+  const end = task.completed_at ? Date.parse(task.completed_at) : Date.now()
+  const seconds = Math.max(0, Math.round((end - Date.parse(task.started_at)) / 1000))
+  return `${formatDuration(seconds)}${task.completed_at ? '' : '（进行中）'}`
+}
+
+function formatTime(value?: string): string {
+  return value ? formatBeijingDateTimeSimple(value) : '-'
+}
+
+// 对比表中的字段
+const FIELDS: Array<{ label: string; value: (task: CLITask) => string }> = [
+  { label: '名称', value: task => task.name },
+  { label: '状态', value: task => STATE_LABELS[task.task_state] || task.task_state },
+  { label: '类型', value: task => task.task_type },
+  { label: '优先级', value: task => task.priority },
+  { label: '耗时', value: getDuration },
+  { label: '重试次数', value: task => String(task.retry_count) },
+  { label: '创建时间', value: task => formatTime(task.created_at) },
+  { label: '开始时间', value: task => formatTime(task.started_at) },
+  { label: '完成时间', value: task => formatTime(task.completed_at) },
+  { label: '工作器', value: task => task.assigned_worker || '-' },
+  { label: '工作目录', value: task => task.working_dir || '-' },
+  { label: '标签', value: task => (task.tags ?? []).join(', ') || '-' },
+  { label: '环境变量', value: task => Object.keys(task.environment ?? {}).sort().join(', ') || '-' },
+  { label: '自动执行', value: task => task.auto_execute === false ? '否' : '是' },
+  { label: '复制自', value: task => task.cloned_from || '-' }
+]
+
+function TaskHeader({ label, task }: { label: string; task: CLITask }) {
+  return (
+    <div className="min-w-0">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <Link href={`/tasks/${task.id}`} className="font-medium hover:text-primary truncate block">
+        {task.name}
+      </Link>
+      <div className="flex items-center space-x-2 mt-1">
+        <span className="font-mono text-xs text-muted-foreground">{task.id}</span>
+        <Badge className={getTaskStateColor(task.task_state)}>{STATE_LABELS[task.task_state] || task.task_state}</Badge>
+      </div>
+    </div>
+  )
+}
+
+function ErrorList({ task }: { task: CLITask }) {
+  const history = task.error_history ?? []
+  if (!task.last_error && history.length === 0) {
+    return <div className="text-sm text-muted-foreground">没有错误</div>
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      {task.last_error && (
+        <div className="text-destructive bg-destructive/10 p-2 rounded break-all">{task.last_error}</div>
+      )}
+      {history.map((entry, index) => (
+        <div key={index} className="flex items-start space-x-2 p-1">
+          <span className="text-muted-foreground flex-shrink-0">{formatTime(entry.timestamp)}</span>
+          <Badge variant="outline" className="flex-shrink-0">{entry.type}</Badge>
+          <span className="break-all">{entry.message}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function ComparePicker({ initialA, initialB }: { initialA: string; initialB: string }) {
+  const router = useRouter()
+  const [a, setA] = useState(initialA)
+  const [b, setB] = useState(initialB)
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <form
+          className="flex flex-wrap items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            router.push(`/tasks/compare?a=${encodeURIComponent(a.trim())}&b=${encodeURIComponent(b.trim())}`)
+          }}
+        >
+          <Input className="w-56 font-mono" placeholder="任务 A 的 ID" value={a} onChange={(e) => setA(e.target.value)} />
+          <Input className="w-56 font-mono" placeholder="任务 B 的 ID" value={b} onChange={(e) => setB(e.target.value)} />
+          <Button type="submit" disabled={!a.trim() || !b.trim()}>
+            <GitCompare className="h-4 w-4 mr-2" />
+            对比
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
+
+function CompareTasksContent() {
+  const searchParams = useSearchParams()
+  const idA = searchParams.get('a') || ''
+  const idB = searchParams.get('b') || ''
+  const [ignoreTimestamps, setIgnoreTimestamps] = useState(true)
+  const [onlyChanges, setOnlyChanges] = useState(true)
+
+  const { data: taskA, isLoading: loadingA } = useCLITask(idA, !!idA)
+  const { data: taskB, isLoading: loadingB } = useCLITask(idB, !!idB)
+  const { data: logsA = [] } = useCLITaskLogs(idA, !!taskA)
+  const { data: logsB = [] } = useCLITaskLogs(idB, !!taskB)
+
+  const descriptionDiff = useMemo(
+    () => diffLines((taskA?.description ?? '').split('\n'), (taskB?.description ?? '').split('\n')),
+    [taskA?.description, taskB?.description]
+  )
+  const commandDiff = useMemo(
+    () => diffLines((taskA?.command ?? '').split('\n'), (taskB?.command ?? '').split('\n')),
+    [taskA?.command, taskB?.command]
+  )
+  const logDiff = useMemo(
+    () => diffLines(logsA, logsB, ignoreTimestamps ? { normalize: line => line.replace(LOG_TIMESTAMP_PATTERN, '') } : {}),
+    [logsA, logsB, ignoreTimestamps]
+  )
+
+  const missing = [
+    !idA || (!loadingA && !taskA) ? idA || 'A' : null,
+    !idB || (!loadingB && !taskB) ? idB || 'B' : null
+  ].filter(Boolean)
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Link href="/tasks">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              返回任务列表
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">对比任务</h1>
+            <p className="text-muted-foreground">并排比较两次运行的输入、执行情况和日志</p>
+          </div>
+        </div>
+        {idA && idB && (
+          <Link href={`/tasks/compare?a=${encodeURIComponent(idB)}&b=${encodeURIComponent(idA)}`}>
+            <Button variant="outline" size="sm">
+              <ArrowLeftRight className="h-4 w-4 mr-2" />
+              交换左右
+            </Button>
+          </Link>
+        )}
+      </div>
+
+      {(missing.length > 0 || loadingA || loadingB) && (
+        <>
+          {!loadingA && !loadingB && (idA || idB) && (
+            <div className="text-sm text-destructive">未找到任务: {missing.join(', ')}</div>
+          )}
+          {(loadingA || loadingB) ? (
+            <div className="text-sm text-muted-foreground">正在加载任务...</div>
+          ) : (
+            <ComparePicker initialA={idA} initialB={idB} />
+          )}
+        </>
+      )}
+
+      {taskA && taskB && (
+        <>
+          {/* 执行情况 */}
+          <Card>
+            <CardHeader>
+              <div className="grid grid-cols-[8rem_1fr_1fr] gap-4">
+                <CardTitle className="text-base">执行情况</CardTitle>
+                <TaskHeader label="A" task={taskA} />
+                <TaskHeader label="B" task={taskB} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y rounded-md border text-sm">
+                {FIELDS.map(field => {
+                  const valueA = field.value(taskA)
+                  const valueB = field.value(taskB)
+                  return (
+                    <div
+                      key={field.label}
+                      className={cn('grid grid-cols-[8rem_1fr_1fr] gap-4 px-3 py-2', valueA !== valueB && 'bg-warning/10')}
+                    >
+                      <span className="text-muted-foreground">{field.label}</span>
+                      <span className="break-all">{valueA}</span>
+                      <span className="break-all">{valueB}</span>
+                    </div>
+                  )
+                })}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* 输入 */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">任务描述</CardTitle>
+              <CardDescription>
+                {descriptionDiff.added + descriptionDiff.removed === 0
+                  ? '两次运行的描述相同'
+                  : `删除 ${descriptionDiff.removed} 行，新增 ${descriptionDiff.added} 行`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TextDiffView diff={descriptionDiff} />
+            </CardContent>
+          </Card>
+
+          {(taskA.command || taskB.command) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">执行命令</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TextDiffView diff={commandDiff} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* 错误和输出 */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {[taskA, taskB].map((task, index) => (
+              <Card key={task.id}>
+                <CardHeader>
+                  <CardTitle className="text-base">{index === 0 ? 'A' : 'B'} 的错误记录</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ErrorList task={task} />
+                </CardContent>
+              </Card>
+            ))}
+            {[logsA, logsB].map((logs, index) => (
+              <Card key={index}>
+                <CardHeader>
+                  <CardTitle className="text-base">{index === 0 ? 'A' : 'B'} 的最终输出</CardTitle>
+                  <CardDescription>日志的最后 {OUTPUT_LINES} 行</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <pre className="font-mono text-xs bg-muted p-3 rounded max-h-80 overflow-auto whitespace-pre-wrap break-all">
+                    {logs.length > 0 ? logs.slice(-OUTPUT_LINES).join('\n') : '暂无日志'}
+                  </pre>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* 日志差异 */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-base">日志差异</CardTitle>
+                  <CardDescription>
+                    A {logsA.length} 行，B {logsB.length} 行；删除 {logDiff.removed} 行，新增 {logDiff.added} 行
+                    {logDiff.approximate && '（差异过多，未逐行对齐）'}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center space-x-4 text-sm">
+                  <label className="flex items-center space-x-2">
+                    <Switch checked={ignoreTimestamps} onCheckedChange={setIgnoreTimestamps} />
+                    <span>忽略时间戳</span>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <Switch checked={onlyChanges} onCheckedChange={setOnlyChanges} />
+                    <span>只看差异</span>
+                  </label>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <TextDiffView diff={logDiff} context={onlyChanges ? DIFF_CONTEXT : undefined} className="max-h-[40rem] overflow-y-auto" />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default function CompareTasksPage() {
+  return (
+    <Suspense fallback={null}>
+      <CompareTasksContent />
+    </Suspense>
+  )
+}
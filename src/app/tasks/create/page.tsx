@@ -1,7 +1,7 @@
 'use client'
 
-import { useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { useState, useEffect, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -10,6 +10,7 @@ import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { TemplateSelector } from '@/components/templates/template-selector'
 import { VariableForm } from '@/components/templates/variable-form'
+import { RetryPolicyFields, describeRetryPolicy } from '@/components/retry-policy-fields'
 import { 
   ArrowLeft,
   Wand2,
@@ -22,7 +23,8 @@ import {
   FileText
 } from 'lucide-react'
 import { TaskType, TaskPriority, CreateTaskRequest, TaskTemplate } from '@/types'
-import { useCreateCLITask, useAddCLIScheduledTask } from '@/hooks/use-cli-tasks'
+import { useCreateCLITask, useAddCLIScheduledTask, useCLITask, useCLIRetryPolicies } from '@/hooks/use-cli-tasks'
+import { retryPolicySchema, type RetryPolicy } from '@/lib/retry-policy'
 
 const TASK_TYPES = [
   {
@@ -135,11 +137,17 @@ function validateCronExpression(cronExpr: string): { valid: boolean; error?: str
   return { valid: true }
 }
 
-export default function CreateTaskPage() {
+function CreateTaskForm() {
   const router = useRouter()
+  const searchParams = useSearchParams()
   const createTaskMutation = useCreateCLITask()
   const addScheduledTaskMutation = useAddCLIScheduledTask()
 
+  // 从已有任务复制：?clone=<任务ID>
+  const cloneFrom = searchParams.get('clone') || ''
+  const { data: sourceTask, isLoading: sourceTaskLoading } = useCLITask(cloneFrom, !!cloneFrom)
+  const [prefilled, setPrefilled] = useState(false)
+
   const [formData, setFormData] = useState<CreateTaskRequest>({
     name: '',
     description: '',
@@ -158,11 +166,40 @@ export default function CreateTaskPage() {
   const [tagInput, setTagInput] = useState('')
   const [envKey, setEnvKey] = useState('')
   const [envValue, setEnvValue] = useState('')
+  // 覆盖任务类型默认值的重试策略，null 表示使用默认策略
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy | null>(null)
+  const { data: retryPolicies } = useCLIRetryPolicies()
   
   // 模版相关状态
   const [showTemplateSelector, setShowTemplateSelector] = useState(false)
   const [showVariableForm, setShowVariableForm] = useState(false)
   const [selectedTemplate, setSelectedTemplate] = useState<TaskTemplate | null>(null)
+  // 描述来自哪个模版，创建任务时一并记录
+  const [appliedTemplateId, setAppliedTemplateId] = useState<string | undefined>(undefined)
+
+  // 来源任务加载后填入表单（只填一次，之后由用户编辑）
+  useEffect(() => {
+    if (!sourceTask || prefilled) return
+
+    setFormData(current => ({
+      ...current,
+      name: sourceTask.name,
+      description: sourceTask.description || '',
+      task_type: sourceTask.task_type as TaskType,
+      priority: sourceTask.priority as TaskPriority,
+      auto_execute: sourceTask.auto_execute ?? true,
+      working_dir: sourceTask.working_dir || '',
+      environment: sourceTask.environment || {},
+      tags: sourceTask.tags || []
+    }))
+    // 复制时沿用来源任务的重试策略和模版
+    setRetryPolicy(sourceTask.retry_policy ?? null)
+    setAppliedTemplateId(sourceTask.template_id)
+    if (sourceTask.working_dir || Object.keys(sourceTask.environment || {}).length > 0 || (sourceTask.tags || []).length > 0 || sourceTask.retry_policy) {
+      setShowAdvanced(true)
+    }
+    setPrefilled(true)
+  }, [sourceTask, prefilled])
 
   // 生成Claude命令或定时任务信息
   const generateCommand = () => {
@@ -216,6 +253,22 @@ provide specific instructions for manual completion instead of asking for confir
       }
     }
 
+    if (!formData.is_scheduled && retryPolicy) {
+      const parsed = retryPolicySchema.safeParse(retryPolicy)
+      if (!parsed.success) {
+        alert('重试策略错误：' + parsed.error.issues[0].message)
+        return
+      }
+    }
+
+    // 任务和定时任务共用的执行配置，服务端会再次校验
+    const executionOptions = {
+      workingDir: formData.working_dir?.trim() || undefined,
+      environment: formData.environment,
+      tags: formData.tags,
+      autoExecute: formData.auto_execute
+    }
+
     try {
       if (formData.is_scheduled) {
         // 创建定时任务
@@ -224,7 +277,7 @@ provide specific instructions for manual completion instead of asking for confir
           description: formData.description || '',
           cron: formData.cron_expression || '',
           type: formData.task_type,
-          workingDir: formData.working_dir
+          ...executionOptions
         })
         
         if (result.success) {
@@ -238,10 +291,16 @@ provide specific instructions for manual completion instead of asking for confir
           name: formData.name,
           description: formData.description,
           type: formData.task_type,
-          priority: formData.priority
+          priority: formData.priority,
+          ...executionOptions,
+          clonedFrom: sourceTask?.id,
+          templateId: appliedTemplateId,
+          // 不覆盖时由服务端补上该任务类型保存过的策略
+          retryPolicy: retryPolicy ?? undefined
         })
         if (result.success) {
-          router.push('/tasks')
+          // 复制的任务直接进入新任务的详情页，便于对比两次运行
+          router.push(sourceTask && result.taskId ? `/tasks/${result.taskId}` : '/tasks')
         } else {
           alert('创建任务失败：' + result.error)
         }
@@ -293,6 +352,7 @@ provide specific instructions for manual completion instead of asking for confir
   }
 
   const selectedTaskType = TASK_TYPES.find(t => t.value === formData.task_type)
+  const defaultRetryPolicy = formData.task_type ? retryPolicies?.[formData.task_type] : undefined
 
   // 处理模版选择
   const handleTemplateSelect = (template: TaskTemplate) => {
@@ -308,6 +368,7 @@ provide specific instructions for manual completion instead of asking for confir
         ...formData,
         description: template.prompt_template
       })
+      setAppliedTemplateId(template.id)
     }
   }
 
@@ -317,6 +378,7 @@ provide specific instructions for manual completion instead of asking for confir
       ...formData,
       description: renderedDescription
     })
+    setAppliedTemplateId(selectedTemplate?.id)
     setShowVariableForm(false)
     setSelectedTemplate(null)
   }
@@ -333,12 +395,36 @@ provide specific instructions for manual completion instead of asking for confir
             </Button>
           </Link>
           <div>
-            <h1 className="text-2xl font-bold text-foreground">创建新任务</h1>
-            <p className="text-muted-foreground">配置Claude代码任务或定时任务参数</p>
+            <h1 className="text-2xl font-bold text-foreground">{cloneFrom ? '复制任务' : '创建新任务'}</h1>
+            <p className="text-muted-foreground">
+              {cloneFrom ? (
+                <>
+                  基于任务{' '}
+                  <Link href={`/tasks/${cloneFrom}`} className="font-mono hover:text-primary">{cloneFrom}</Link>
+                  {' '}的配置，修改后提交为新任务
+                </>
+              ) : '配置Claude代码任务或定时任务参数'}
+            </p>
           </div>
         </div>
       </div>
 
+      {/* 来源任务加载中或不存在 */}
+      {cloneFrom && !sourceTask && (
+        <Card className={sourceTaskLoading ? '' : 'border-destructive/50 bg-destructive/10'}>
+          <CardContent className="pt-6 flex items-center space-x-2 text-sm">
+            {sourceTaskLoading ? (
+              <span className="text-muted-foreground">正在加载来源任务...</span>
+            ) : (
+              <>
+                <AlertCircle className="h-4 w-4 text-destructive" />
+                <span className="text-destructive">未找到来源任务 {cloneFrom}，提交后将创建一个普通任务</span>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-4">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
           {/* 基本信息 */}
@@ -635,6 +721,35 @@ provide specific instructions for manual completion instead of asking for confir
                   </div>
                 )}
               </div>
+
+              {/* 重试策略：定时任务使用任务类型的默认策略 */}
+              {!formData.is_scheduled && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground block">
+                    重试策略
+                  </label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="override_retry_policy"
+                      checked={retryPolicy !== null}
+                      disabled={retryPolicy === null && !defaultRetryPolicy}
+                      onChange={(e) => setRetryPolicy(e.target.checked && defaultRetryPolicy ? defaultRetryPolicy : null)}
+                      className="rounded"
+                    />
+                    <label htmlFor="override_retry_policy" className="text-sm text-foreground cursor-pointer">
+                      为这个任务单独设置
+                    </label>
+                  </div>
+                  {retryPolicy ? (
+                    <RetryPolicyFields idPrefix="task-retry" policy={retryPolicy} onChange={setRetryPolicy} />
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      使用{selectedTaskType?.label}的默认策略{defaultRetryPolicy ? `：${describeRetryPolicy(defaultRetryPolicy)}` : ''}，可以在系统设置中修改
+                    </p>
+                  )}
+                </div>
+              )}
             </CardContent>
           )}
         </Card>
@@ -745,4 +860,12 @@ provide specific instructions for manual completion instead of asking for confir
       />
     </div>
   )
-}
\ No newline at end of file
+}
+
+export default function CreateTaskPage() {
+  return (
+    <Suspense fallback={null}>
+      <CreateTaskForm />
+    </Suspense>
+  )
+}
@@ -0,0 +1,300 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Progress } from '@/components/ui/progress'
+import { ArrowLeft, Upload, CheckCircle, XCircle, AlertCircle, HelpCircle, Square } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  previewTaskImport,
+  detectImportFormat,
+  TaskImportError,
+  TASK_IMPORT_MAX_ROWS,
+  type TaskImportFormat,
+  type TaskImportPreview
+} from '@/lib/task-import'
+import { useTaskTemplates } from '@/hooks/use-task-templates'
+import { useCLIImportTasks } from '@/hooks/use-cli-tasks'
+
+const FORMATS: Array<{ value: TaskImportFormat; label: string }> = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'yaml', label: 'YAML' }
+]
+
+const CSV_EXAMPLE = `name,description,type,priority,tags,template,var.项目名称,env.API_BASE
+周报整理,整理本周的提交记录,lightweight,normal,report;weekly,,,
+项目分析,,medium_context,high,analysis,<模版ID>,cc-agent,https://example.com`
+
+const YAML_EXAMPLE = `tasks:
+  - name: 周报整理
+    description: |
+      整理本周的提交记录
+      按模块分类
+    type: lightweight
+    tags: [report, weekly]
+  - name: 项目分析
+    template: <模版ID或名称>
+    variables:
+      项目名称: cc-agent
+    environment:
+      API_BASE: https://example.com
+    auto_execute: false`
+
+export default function ImportTasksPage() {
+  const [text, setText] = useState('')
+  const [format, setFormat] = useState<TaskImportFormat>('csv')
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [showHelp, setShowHelp] = useState(false)
+  const { templates, isLoading: templatesLoading } = useTaskTemplates()
+  const { run, stop, reset, progress, results, isRunning } = useCLIImportTasks()
+
+  // 内容变化时重新解析和校验
+  const { preview, parseError } = useMemo((): { preview: TaskImportPreview | null; parseError: string | null } => {
+    if (!text.trim() || templatesLoading) return { preview: null, parseError: null }
+    try {
+      return { preview: previewTaskImport(text, format, templates), parseError: null }
+    } catch (error) {
+      if (!(error instanceof TaskImportError)) throw error
+      return { preview: null, parseError: error.message }
+    }
+  }, [text, format, templates, templatesLoading])
+
+  const validRows = preview?.rows.filter(row => row.args) ?? []
+  const invalidRows = preview?.rows.filter(row => !row.args) ?? []
+  const started = isRunning || results.length > 0
+  const succeeded = results.filter(result => result.success)
+  const failed = results.filter(result => !result.success)
+
+  const handleFile = async (file: File) => {
+    if (isRunning) return
+    setFileName(file.name)
+    setFormat(detectImportFormat(file.name) ?? format)
+    setText(await file.text())
+    reset()
+  }
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return
+    if (invalidRows.length > 0 && !window.confirm(`有 ${invalidRows.length} 行校验失败，将只导入 ${validRows.length} 个有效任务，继续吗？`)) {
+      return
+    }
+    await run(validRows.map(row => ({ line: row.line, args: row.args! })))
+  }
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Link href="/tasks">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              返回任务列表
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">导入任务</h1>
+            <p className="text-muted-foreground">从 CSV 或 YAML 清单批量创建任务，每次最多 {TASK_IMPORT_MAX_ROWS} 个</p>
+          </div>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="py-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-base">清单</CardTitle>
+              <CardDescription className="text-xs">选择文件或直接粘贴内容，列名对应创建任务的字段</CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              {FORMATS.map(item => (
+                <Button
+                  key={item.value}
+                  size="sm"
+                  variant={format === item.value ? 'default' : 'outline'}
+                  onClick={() => setFormat(item.value)}
+                  disabled={isRunning}
+                >
+                  {item.label}
+                </Button>
+              ))}
+              <Button size="sm" variant="outline" asChild disabled={isRunning}>
+                <label className="cursor-pointer">
+                  <Upload className="h-4 w-4 mr-2" />
+                  选择文件
+                  <input
+                    type="file"
+                    accept=".csv,.yaml,.yml,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) handleFile(file)
+                      e.target.value = ''
+                    }}
+                  />
+                </label>
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setShowHelp(!showHelp)} title="清单格式">
+                <HelpCircle className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3 pt-0">
+          {showHelp && (
+            <div className="text-xs text-muted-foreground bg-muted p-3 rounded space-y-2">
+              <p>
+                字段：name（必填）、description、type、priority、auto_execute、working_dir、tags、environment、template、variables。
+                使用模版时填写模版 ID 或名称和模版变量，不需要填写 description。
+                CSV 中环境变量和模版变量分别写成 <code>env.变量名</code> 和 <code>var.变量名</code> 列，多个标签用逗号或分号分隔。
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <pre className="bg-background p-2 rounded overflow-x-auto text-foreground">{CSV_EXAMPLE}</pre>
+                <pre className="bg-background p-2 rounded overflow-x-auto text-foreground">{YAML_EXAMPLE}</pre>
+              </div>
+            </div>
+          )}
+          {fileName && <div className="text-xs text-muted-foreground">文件: {fileName}</div>}
+          <Textarea
+            className="font-mono text-xs min-h-48"
+            placeholder={format === 'csv' ? CSV_EXAMPLE : YAML_EXAMPLE}
+            value={text}
+            disabled={isRunning}
+            onChange={(e) => {
+              setText(e.target.value)
+              setFileName(null)
+            }}
+          />
+          {parseError && (
+            <div className="flex items-start space-x-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{parseError}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {preview && !started && (
+        <Card>
+          <CardHeader className="py-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-base">预览</CardTitle>
+                <CardDescription className="text-xs">
+                  共 {preview.rows.length} 个任务，{validRows.length} 个有效
+                  {invalidRows.length > 0 && `，${invalidRows.length} 个有错误将被跳过`}
+                  {preview.ignoredColumns.length > 0 && `；忽略未知列: ${preview.ignoredColumns.join(', ')}`}
+                </CardDescription>
+              </div>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                导入 {validRows.length} 个任务
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <div className="max-h-[28rem] overflow-y-auto space-y-1">
+              {preview.rows.map((row, index) => (
+                <div
+                  key={index}
+                  className={cn('flex items-start space-x-2 p-2 rounded text-sm', row.args ? 'bg-muted' : 'bg-destructive/10')}
+                >
+                  {row.args
+                    ? <CheckCircle className="h-4 w-4 text-success mt-0.5 flex-shrink-0" />
+                    : <XCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />}
+                  <span className="text-xs text-muted-foreground font-mono w-14 flex-shrink-0 mt-0.5">
+                    {row.line > 0 ? `第${row.line}行` : `#${index + 1}`}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-1">
+                      <span className="font-medium truncate">{row.name || '(未命名)'}</span>
+                      {row.args?.type && <Badge variant="outline">{row.args.type}</Badge>}
+                      {row.args?.priority && <Badge variant="outline">{row.args.priority}</Badge>}
+                      {row.template && <Badge variant="secondary">模版: {row.template}</Badge>}
+                      {row.args?.tags?.map(tag => <Badge key={tag} variant="secondary">{tag}</Badge>)}
+                    </div>
+                    {row.args && (
+                      <div className="text-xs text-muted-foreground truncate">{row.args.description}</div>
+                    )}
+                    {row.errors.map(error => (
+                      <div key={error} className="text-xs text-destructive break-all">{error}</div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {started && (
+        <Card>
+          <CardHeader className="py-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-base">{isRunning ? '正在导入...' : '导入结果'}</CardTitle>
+                <CardDescription className="text-xs">
+                  {progress.done} / {progress.total}
+                  {!isRunning && progress.done < progress.total && `，已停止，${progress.total - progress.done} 个任务未提交`}
+                </CardDescription>
+              </div>
+              {isRunning ? (
+                <Button variant="outline" onClick={stop}>
+                  <Square className="h-4 w-4 mr-2" />
+                  停止
+                </Button>
+              ) : (
+                <div className="flex items-center space-x-2">
+                  <Button variant="outline" onClick={reset}>返回预览</Button>
+                  <Link href="/tasks">
+                    <Button>查看任务</Button>
+                  </Link>
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3 pt-0">
+            <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+
+            {!isRunning && (
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="success">成功 {succeeded.length}</Badge>
+                <Badge variant={failed.length > 0 ? 'destructive' : 'outline'}>失败 {failed.length}</Badge>
+                {invalidRows.length > 0 && <Badge variant="secondary">校验未通过 {invalidRows.length}</Badge>}
+              </div>
+            )}
+
+            <div className="max-h-[28rem] overflow-y-auto space-y-1">
+              {[...failed, ...succeeded].map(result => (
+                <div key={result.line} className="flex items-start space-x-2 p-2 bg-muted rounded text-sm">
+                  {result.success
+                    ? <CheckCircle className="h-4 w-4 text-success mt-0.5 flex-shrink-0" />
+                    : <XCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />}
+                  <span className="text-xs text-muted-foreground font-mono w-14 flex-shrink-0 mt-0.5">
+                    {result.line > 0 ? `第${result.line}行` : ''}
+                  </span>
+                  <div className="min-w-0">
+                    <div className="truncate">
+                      {result.name}
+                      {result.taskId && (
+                        <Link href={`/tasks/${result.taskId}`} className="ml-2 text-xs text-muted-foreground font-mono hover:text-primary">
+                          {result.taskId}
+                        </Link>
+                      )}
+                    </div>
+                    {!result.success && result.message && (
+                      <div className="text-xs text-destructive break-all">{result.message}</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
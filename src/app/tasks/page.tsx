@@ -1,23 +1,36 @@
 'use client'
 
-import { useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { useState, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { List, ListColumn } from '@/components/ui/list'
+import { CLIContractAlert } from '@/components/cli-contract-alert'
+import { BulkTaskDialog, BULK_TASK_ACTIONS } from '@/components/bulk-task-dialog'
+import { TaskSearchBar } from '@/components/task-search-bar'
+import { TaskExportMenu } from '@/components/task-export-menu'
+import { UnbanCountdown } from '@/components/rate-limit-panel'
+import { TaskBoard } from '@/components/task-board'
 import { 
   Plus,
   Play,
   Pause,
   Square,
   RotateCcw,
-  RefreshCw
+  RefreshCw,
+  Zap,
+  Upload,
+  GitCompare,
+  LayoutList,
+  SquareKanban,
+  MessageSquare
 } from 'lucide-react'
 import { formatBeijingDateTimeSimple, getTaskStateColor, getPriorityColor } from '@/lib/utils'
-import { useCLITasks, useCLITaskStats, useCLITaskAction, useCLIAvailability } from '@/hooks/use-cli-tasks'
+import { useCLISnapshot, useCLITaskSearch, useCLITaskAction, useCLIAvailability, useCLITaskCommentCounts, type CLIBulkTaskAction } from '@/hooks/use-cli-tasks'
 import type { CLITask } from '@/services/cli-service'
+import { TaskQueryError } from '@/lib/task-query'
 import { toast } from '@/components/ui/sonner'
 
 const TASK_STATES = [
@@ -39,22 +52,70 @@ const PRIORITIES = [
   { value: 'low', label: '低' }
 ]
 
-export default function TasksPage() {
+const BULK_ACTION_ICONS: Record<CLIBulkTaskAction, typeof Play> = {
+  cancel: Square,
+  retry: RotateCcw,
+  force_retry: Zap,
+  pause: Pause,
+  resume: Play
+}
+
+// 对比两个任务时较早创建的放在左侧
+function compareHref(tasks: CLITask[]): string {
+  const [a, b] = [...tasks].sort((x, y) => x.created_at.localeCompare(y.created_at))
+  return `/tasks/compare?a=${encodeURIComponent(a.id)}&b=${encodeURIComponent(b.id)}`
+}
+
+type TasksView = 'list' | 'board'
+
+// 查询和视图都保存在 URL 中
+function tasksHref(query: string, view: TasksView): string {
+  const params = new URLSearchParams()
+  if (query) params.set('q', query)
+  if (view === 'board') params.set('view', 'board')
+  const search = params.toString()
+  return search ? `/tasks?${search}` : '/tasks'
+}
+
+function TasksPageContent() {
   const router = useRouter()
+  const searchParams = useSearchParams()
+  // 查询保存在 URL 中，可以直接分享链接
+  const query = searchParams.get('q') ?? ''
+  const view: TasksView = searchParams.get('view') === 'board' ? 'board' : 'list'
+  // 看板需要及时反映状态变化，缩短刷新间隔
+  const refetchInterval = view === 'board' ? 5000 : 30000
   const [currentPage, setCurrentPage] = useState(1)
   const [pageSize, setPageSize] = useState(10)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([])
+  // 打开批量操作时固定任务列表，执行过程中快照刷新不影响确认和结果汇总
+  const [bulkRequest, setBulkRequest] = useState<{ action: CLIBulkTaskAction; tasks: CLITask[] } | null>(null)
   
   // 检查CLI可用性
   const { data: isCliAvailable, isLoading: checkingCli } = useCLIAvailability()
   
-  // 获取任务数据
-  const { data: tasks = [], isLoading: tasksLoading, error: tasksError, refetch: refetchTasks } = useCLITasks({ enabled: isCliAvailable })
-  const { data: taskStats, isLoading: statsLoading, refetch: refetchStats } = useCLITaskStats()
+  // 获取任务数据（任务列表和统计来自同一个聚合快照）
+  const { data: snapshot, isLoading: snapshotLoading, error: snapshotError, refetch: refetchSnapshot, dataUpdatedAt: snapshotUpdatedAt } = useCLISnapshot(isCliAvailable === true, refetchInterval)
+  const taskStats = snapshot?.stats
+
+  // 有查询时由服务端按查询过滤任务
+  const isSearching = query.trim().length > 0
+  const { data: searchResults, isLoading: searchLoading, error: searchError, refetch: refetchSearch, dataUpdatedAt: searchUpdatedAt } = useCLITaskSearch(query, isCliAvailable === true, refetchInterval)
+  const tasks = isSearching ? searchResults ?? [] : snapshot?.tasks ?? []
+  const tasksLoading = snapshotLoading || (isSearching && searchLoading)
+  const tasksError = snapshotError ?? (isSearching ? searchError : null)
   
+  // 每个任务的评论数，列表中显示并可以排序
+  const { data: commentCounts = {} } = useCLITaskCommentCounts(isCliAvailable === true && view === 'list')
+  const listItems = tasks.map(task => ({ ...task, comment_count: commentCounts[task.id] ?? 0 }))
+
   // 任务操作
   const taskActionMutation = useCLITaskAction()
 
+  // 已选择的任务（快照刷新后已不存在的任务不再计入）
+  const selectedTasks = tasks.filter(task => selectedTaskIds.includes(task.id))
+
   const getTaskStateLabel = (state: string) => {
     const labels = {
       pending: '等待中',
@@ -102,6 +163,11 @@ export default function TasksPage() {
     }
   }
 
+  const handleQueryChange = (value: string) => {
+    setCurrentPage(1)
+    router.replace(tasksHref(value, view))
+  }
+
   const handlePageChange = (page: number, size: number) => {
     setCurrentPage(page)
     setPageSize(size)
@@ -113,10 +179,7 @@ export default function TasksPage() {
     
     setIsRefreshing(true)
     try {
-      await Promise.all([
-        refetchTasks(),
-        refetchStats()
-      ])
+      await Promise.all([refetchSnapshot(), isSearching ? refetchSearch() : undefined])
       
       toast.success('数据刷新成功')
     } catch (error) {
@@ -174,6 +237,11 @@ export default function TasksPage() {
       key: 'created_at',
       title: '创建时间',
       sortable: true
+    },
+    {
+      key: 'comment_count',
+      title: '评论数',
+      sortable: true
     }
   ]
 
@@ -219,6 +287,15 @@ export default function TasksPage() {
                   <span>重试: {task.retry_count}次</span>
                 </>
               )}
+              {commentCounts[task.id] > 0 && (
+                <>
+                  <span>•</span>
+                  <Link href={`/tasks/${task.id}#comments`} className="flex items-center hover:text-primary">
+                    <MessageSquare className="h-3 w-3 mr-1" />
+                    {commentCounts[task.id]} 条评论
+                  </Link>
+                </>
+              )}
             </div>
 
             {/* Tags */}
@@ -242,7 +319,7 @@ export default function TasksPage() {
             {/* Wait Time */}
             {task.next_allowed_at && new Date(task.next_allowed_at) > new Date() && (
               <div className="text-xs text-warning bg-warning/10 p-2 rounded mb-3">
-                等待至: {formatBeijingDateTimeSimple(task.next_allowed_at)}
+                等待至: {formatBeijingDateTimeSimple(task.next_allowed_at)}（<UnbanCountdown until={task.next_allowed_at} />）
               </div>
             )}
           </div>
@@ -332,15 +409,42 @@ export default function TasksPage() {
           <p className="text-muted-foreground">创建、管理和监控Claude代码任务</p>
         </div>
         <div className="flex items-center space-x-2">
+          <div className="flex items-center rounded-md border p-0.5">
+            <Button
+              size="sm"
+              variant={view === 'list' ? 'secondary' : 'ghost'}
+              onClick={() => router.replace(tasksHref(query, 'list'))}
+              title="列表"
+            >
+              <LayoutList className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant={view === 'board' ? 'secondary' : 'ghost'}
+              onClick={() => router.replace(tasksHref(query, 'board'))}
+              title="看板"
+            >
+              <SquareKanban className="h-4 w-4" />
+            </Button>
+          </div>
           <Button 
             variant="outline" 
             onClick={handleRefresh}
-            disabled={isRefreshing || tasksLoading || statsLoading}
+            disabled={isRefreshing || tasksLoading}
             className={isRefreshing ? 'opacity-75' : ''}
           >
-            <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing || tasksLoading || statsLoading ? 'animate-spin' : ''}`} />
+            <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing || tasksLoading ? 'animate-spin' : ''}`} />
             {isRefreshing ? '刷新中...' : '刷新'}
           </Button>
+          {isCliAvailable && (
+            <TaskExportMenu query={query} disabled={isSearching && searchError instanceof TaskQueryError} />
+          )}
+          <Link href="/tasks/import">
+            <Button variant="outline">
+              <Upload className="h-4 w-4 mr-2" />
+              导入
+            </Button>
+          </Link>
           <Link href="/tasks/create">
             <Button>
               <Plus className="h-4 w-4 mr-2" />
@@ -357,25 +461,25 @@ export default function TasksPage() {
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
               <div>
                 <div className="text-2xl font-bold">
-                  {statsLoading ? '-' : (taskStats?.pending || 0)}
+                  {tasksLoading ? '-' : (taskStats?.pending || 0)}
                 </div>
                 <div className="text-sm text-muted-foreground">等待中</div>
               </div>
               <div>
                 <div className="text-2xl font-bold">
-                  {statsLoading ? '-' : (taskStats?.processing || 0)}
+                  {tasksLoading ? '-' : (taskStats?.processing || 0)}
                 </div>
                 <div className="text-sm text-muted-foreground">处理中</div>
               </div>
               <div>
                 <div className="text-2xl font-bold">
-                  {statsLoading ? '-' : (taskStats?.completed || 0)}
+                  {tasksLoading ? '-' : (taskStats?.completed || 0)}
                 </div>
                 <div className="text-sm text-muted-foreground">已完成</div>
               </div>
               <div>
                 <div className="text-2xl font-bold">
-                  {statsLoading ? '-' : (taskStats?.failed || 0)}
+                  {tasksLoading ? '-' : (taskStats?.failed || 0)}
                 </div>
                 <div className="text-sm text-muted-foreground">失败</div>
               </div>
@@ -416,10 +520,63 @@ export default function TasksPage() {
         </Card>
       )}
 
-      {/* 使用新的List组件 */}
+      {/* taskctl 输出格式不符合约定 */}
+      {isCliAvailable && <CLIContractAlert error={tasksError} />}
+
+      {/* 查询 */}
       {isCliAvailable && (
+        <TaskSearchBar query={query} onQueryChange={handleQueryChange} error={isSearching ? searchError : null} />
+      )}
+
+      {/* 批量操作 */}
+      {isCliAvailable && selectedTasks.length > 0 && (
+        <Card>
+          <CardContent className="py-3 flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground mr-2">对已选择的 {selectedTasks.length} 个任务:</span>
+            {(Object.keys(BULK_TASK_ACTIONS) as CLIBulkTaskAction[]).map(action => {
+              const count = selectedTasks.filter(task => BULK_TASK_ACTIONS[action].states.includes(task.task_state)).length
+              const Icon = BULK_ACTION_ICONS[action]
+              return (
+                <Button
+                  key={action}
+                  size="sm"
+                  variant="outline"
+                  disabled={count === 0}
+                  onClick={() => setBulkRequest({ action, tasks: selectedTasks })}
+                >
+                  <Icon className="h-3 w-3 mr-1" />
+                  {BULK_TASK_ACTIONS[action].label} ({count})
+                </Button>
+              )
+            })}
+            {selectedTasks.length === 2 && (
+              <Link href={compareHref(selectedTasks)}>
+                <Button size="sm" variant="outline">
+                  <GitCompare className="h-3 w-3 mr-1" />
+                  对比
+                </Button>
+              </Link>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 看板：拖动卡片到其他列执行对应操作 */}
+      {isCliAvailable && view === 'board' && (
+        tasksLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+            <span className="text-sm text-muted-foreground">加载中...</span>
+          </div>
+        ) : (
+          <TaskBoard tasks={tasks} updatedAt={isSearching ? searchUpdatedAt : snapshotUpdatedAt} />
+        )
+      )}
+
+      {/* 使用新的List组件 */}
+      {isCliAvailable && view === 'list' && (
         <List
-          data={tasks as unknown as Record<string, unknown>[]}
+          data={listItems as unknown as Record<string, unknown>[]}
           loading={tasksLoading}
           columns={columns as unknown as ListColumn<Record<string, unknown>>[]}
           renderItem={(task) => renderTaskItem(task as unknown as CLITask)}
@@ -436,11 +593,29 @@ export default function TasksPage() {
           }}
           emptyText={tasksError ? `加载任务失败: ${tasksError.message}` : '没有找到符合条件的任务'}
           rowKey="id"
+          selection={{
+            selectedKeys: selectedTaskIds,
+            onSelectionChange: setSelectedTaskIds
+          }}
           onItemClick={(task) => router.push(`/tasks/${task.id}`)}
           layout="list"
         />
       )}
 
+      <BulkTaskDialog
+        action={bulkRequest?.action ?? null}
+        tasks={bulkRequest?.tasks ?? []}
+        onClose={() => setBulkRequest(null)}
+        onFinished={() => setSelectedTaskIds([])}
+      />
     </div>
   )
-}
\ No newline at end of file
+}
+
+export default function TasksPage() {
+  return (
+    <Suspense fallback={null}>
+      <TasksPageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ChartGantt, RefreshCw } from 'lucide-react'
+import { CLIContractAlert } from '@/components/cli-contract-alert'
+import { TaskTimeline } from '@/components/task-timeline'
+import { useCLISnapshot } from '@/hooks/use-cli-tasks'
+import { buildTimeline, IDLE_GAP_MS } from '@/lib/task-timeline'
+
+// 执行中的任务随时间变长，定时刷新当前时间
+const CLOCK_INTERVAL_MS = 30000
+
+export default function TimelinePage() {
+  const { data: snapshot, isLoading, error, refetch, isFetching } = useCLISnapshot()
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  const timeline = useMemo(() => buildTimeline(snapshot?.tasks ?? [], now), [snapshot, now])
+  const plotted = timeline.lanes.reduce((count, lane) => count + lane.bars.length, 0)
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">执行时间线</h1>
+          <p className="text-muted-foreground">按工作器查看任务在各时间段的执行情况、空闲时段和限流等待</p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+          刷新
+        </Button>
+      </div>
+
+      <CLIContractAlert error={error} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ChartGantt className="h-5 w-5" />
+            <span>工作器泳道</span>
+          </CardTitle>
+          <CardDescription>
+            {timeline.lanes.length} 个工作器，{plotted} 个任务；任务只记录最近一次执行，
+            空闲指超过 {IDLE_GAP_MS / 60000} 分钟没有执行任务
+            {timeline.skipped > 0 && `，${timeline.skipped} 个任务暂停或等待审核，无法确定结束时间，未显示`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+              <span className="text-sm text-muted-foreground">加载中...</span>
+            </div>
+          ) : timeline.lanes.length === 0 ? (
+            <div className="text-center text-sm text-muted-foreground p-8">
+              还没有开始执行的任务
+            </div>
+          ) : (
+            <TaskTimeline timeline={timeline} now={now} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
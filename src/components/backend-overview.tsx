@@ -0,0 +1,83 @@
+'use client'
+
+import { Server, RefreshCw } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { useCLIBackend } from '@/lib/cli-backend-context'
+import { useCLIBackendsStatus } from '@/hooks/use-cli-tasks'
+import { CLIContractError } from '@/lib/cli-schemas'
+import { cn } from '@/lib/utils'
+import type { CLISystemStatus } from '@/services/cli-service'
+
+const STATUS_BADGES: Record<CLISystemStatus['status'], { label: string; variant: 'success' | 'warning' | 'destructive' }> = {
+  healthy: { label: '运行中', variant: 'success' },
+  warning: { label: '警告', variant: 'warning' },
+  critical: { label: '异常', variant: 'destructive' }
+}
+
+/**
+ * 所有后端的健康状态汇总，点击某一行切换到该后端
+ */
+export function BackendOverview() {
+  const { backend, backends, setBackend } = useCLIBackend()
+  const statuses = useCLIBackendsStatus(backends.length > 1)
+
+  if (backends.length <= 1) return null
+
+  const currentBackend = backend ?? backends[0].id
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Server className="h-5 w-5 text-primary" />
+          <span>所有后端</span>
+          <Badge variant="outline">{backends.length}</Badge>
+        </CardTitle>
+        <CardDescription>各 cc-agent 后端的运行状态，点击切换当前后端</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {backends.map((item, index) => {
+            const { data: status, isLoading, error } = statuses[index] ?? {}
+            const badge = status ? STATUS_BADGES[status.status] : null
+
+            return (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => setBackend(item.id)}
+                className={cn(
+                  'w-full flex items-center justify-between p-3 rounded-lg border text-left transition-colors hover:border-primary/20',
+                  item.id === currentBackend && 'border-primary bg-primary/5'
+                )}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-sm truncate">{item.name}</span>
+                    <span className="text-xs text-muted-foreground font-mono">{item.id}</span>
+                    {item.type === 'remote' && <Badge variant="info">远程</Badge>}
+                  </div>
+                  {status && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      工作器: {status.active_workers} | 待处理: {status.pending_tasks} | 处理中: {status.processing_tasks}
+                    </div>
+                  )}
+                </div>
+                {isLoading ? (
+                  <RefreshCw className="h-4 w-4 animate-spin text-muted-foreground" />
+                ) : error instanceof CLIContractError ? (
+                  <Badge variant="destructive">格式不符</Badge>
+                ) : badge ? (
+                  <Badge variant={badge.variant}>{badge.label}</Badge>
+                ) : (
+                  <Badge variant="secondary">不可达</Badge>
+                )}
+              </button>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
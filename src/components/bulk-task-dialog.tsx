@@ -0,0 +1,180 @@
+'use client'
+
+import { useEffect } from 'react'
+import { CheckCircle, XCircle, MinusCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { useCLIBulkTaskAction, type CLIBulkTaskAction } from '@/hooks/use-cli-tasks'
+import type { CLITask } from '@/services/cli-service'
+
+// 批量操作及其适用的任务状态，与列表中单个任务的操作按钮保持一致
+export const BULK_TASK_ACTIONS: Record<CLIBulkTaskAction, { label: string; states: string[] }> = {
+  cancel: { label: '取消', states: ['pending', 'processing', 'paused', 'waiting_unban', 'retrying'] },
+  retry: { label: '重试', states: ['failed'] },
+  force_retry: { label: '强制重试', states: ['failed', 'completed'] },
+  pause: { label: '暂停', states: ['pending', 'processing'] },
+  resume: { label: '恢复', states: ['paused'] }
+}
+
+const STATE_LABELS: Record<string, string> = {
+  pending: '等待中',
+  processing: '处理中',
+  completed: '已完成',
+  failed: '失败',
+  paused: '暂停',
+  waiting_unban: '等待解封',
+  retrying: '重试中',
+  needs_human_review: '需要审核',
+  awaiting_confirmation: '等待确认'
+}
+
+interface BulkTaskDialogProps {
+  action: CLIBulkTaskAction | null
+  tasks: CLITask[]
+  onClose: () => void
+  // 执行完成后调用，用于清除已选择的任务
+  onFinished?: () => void
+}
+
+export function BulkTaskDialog({ action, tasks, onClose, onFinished }: BulkTaskDialogProps) {
+  const { run, reset, progress, results, isRunning } = useCLIBulkTaskAction()
+
+  // 每次打开时清除上一次的结果
+  useEffect(() => {
+    if (action) reset()
+  }, [action, reset])
+
+  if (!action) return null
+
+  const config = BULK_TASK_ACTIONS[action]
+  const applicable = tasks.filter(task => config.states.includes(task.task_state))
+  const skipped = tasks.filter(task => !config.states.includes(task.task_state))
+  const started = isRunning || results.length > 0
+  const finished = started && !isRunning
+
+  // 按状态汇总受影响的任务
+  const stateCounts = applicable.reduce<Record<string, number>>((counts, task) => {
+    counts[task.task_state] = (counts[task.task_state] || 0) + 1
+    return counts
+  }, {})
+
+  const succeeded = results.filter(result => result.success)
+  const failed = results.filter(result => !result.success)
+
+  const handleConfirm = async () => {
+    await run(applicable, action)
+    onFinished?.()
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isRunning && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>批量{config.label}任务</DialogTitle>
+          <DialogDescription>
+            已选择 {tasks.length} 个任务，其中 {applicable.length} 个可以{config.label}
+            {skipped.length > 0 && `，${skipped.length} 个状态不适用将被跳过`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!started && (
+          <div className="space-y-3">
+            {Object.keys(stateCounts).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(stateCounts).map(([state, count]) => (
+                  <Badge key={state} variant="outline">
+                    {STATE_LABELS[state] || state}: {count}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {applicable.map(task => (
+                <div key={task.id} className="flex items-center justify-between p-2 bg-muted rounded text-sm">
+                  <span className="truncate">{task.name}</span>
+                  <span className="text-xs text-muted-foreground font-mono ml-2">{task.id}</span>
+                </div>
+              ))}
+              {skipped.map(task => (
+                <div key={task.id} className="flex items-center justify-between p-2 rounded text-sm text-muted-foreground">
+                  <span className="truncate line-through">{task.name}</span>
+                  <span className="text-xs ml-2">跳过（{STATE_LABELS[task.task_state] || task.task_state}）</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {started && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span>{isRunning ? '正在处理...' : '处理完成'}</span>
+              <span className="text-muted-foreground">
+                {progress.done} / {progress.total}
+              </span>
+            </div>
+            <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+
+            {finished && (
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="success">成功 {succeeded.length}</Badge>
+                <Badge variant={failed.length > 0 ? 'destructive' : 'outline'}>失败 {failed.length}</Badge>
+                {skipped.length > 0 && <Badge variant="secondary">跳过 {skipped.length}</Badge>}
+              </div>
+            )}
+
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {[...failed, ...succeeded].map(result => (
+                <div key={result.taskId} className="flex items-start space-x-2 p-2 bg-muted rounded text-sm">
+                  {result.success
+                    ? <CheckCircle className="h-4 w-4 text-success mt-0.5 flex-shrink-0" />
+                    : <XCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />}
+                  <div className="min-w-0">
+                    <div className="truncate">{result.name} <span className="text-xs text-muted-foreground font-mono">{result.taskId}</span></div>
+                    {!result.success && result.message && (
+                      <div className="text-xs text-destructive break-all">{result.message}</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {finished && skipped.map(task => (
+                <div key={task.id} className="flex items-start space-x-2 p-2 rounded text-sm text-muted-foreground">
+                  <MinusCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span className="truncate">{task.name}（{STATE_LABELS[task.task_state] || task.task_state}，已跳过）</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {!started ? (
+            <>
+              <Button variant="outline" onClick={onClose}>取消</Button>
+              <Button
+                variant={action === 'cancel' ? 'destructive' : 'default'}
+                disabled={applicable.length === 0}
+                onClick={handleConfirm}
+              >
+                确认{config.label} {applicable.length} 个任务
+              </Button>
+            </>
+          ) : (
+            <Button onClick={onClose} disabled={isRunning}>
+              关闭
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
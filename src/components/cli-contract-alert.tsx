@@ -0,0 +1,40 @@
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { CLIContractError } from '@/lib/cli-schemas'
+
+interface CLIContractAlertProps {
+  // 查询返回的错误，只有输出格式不符合约定时才显示
+  error: unknown
+}
+
+export function CLIContractAlert({ error }: CLIContractAlertProps) {
+  if (!(error instanceof CLIContractError)) return null
+
+  return (
+    <Card className="border-destructive/50 bg-destructive/5">
+      <CardContent className="pt-6">
+        <div className="flex items-start space-x-3">
+          <AlertTriangle className="h-5 w-5 text-destructive mt-0.5 flex-shrink-0" />
+          <div className="space-y-2 min-w-0">
+            <div className="font-semibold text-destructive">taskctl 输出格式与前端约定不一致</div>
+            <p className="text-sm text-muted-foreground">
+              cc-agent 的输出格式可能已变更，以下数据无法正确显示。请升级前端或检查 taskctl.py 版本。
+            </p>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">操作</dt>
+              <dd className="font-mono">{error.operation}</dd>
+              <dt className="text-muted-foreground">字段</dt>
+              <dd className="font-mono break-all">{error.field}</dd>
+              <dt className="text-muted-foreground">原因</dt>
+              <dd className="break-all">{error.detail}</dd>
+              <dt className="text-muted-foreground">taskctl 版本</dt>
+              <dd className="font-mono">{error.taskctlVersion}</dd>
+            </dl>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,199 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Coins, Download, RefreshCw } from 'lucide-react'
+import { useCLIUsageReport } from '@/hooks/use-cli-tasks'
+import { useTaskTemplates } from '@/hooks/use-task-templates'
+import { utcToBeijingTime } from '@/lib/utils'
+import { formatCsvRow } from '@/lib/csv'
+import { addTaskUsage, formatCost, formatTokens, EMPTY_TASK_USAGE, type TaskUsage } from '@/lib/task-usage'
+import type { UsageReportEntry } from '@/lib/usage-report'
+
+type GroupBy = 'day' | 'task_type' | 'template' | 'tag'
+
+const GROUP_OPTIONS: Array<{ value: GroupBy; label: string }> = [
+  { value: 'day', label: '按天' },
+  { value: 'task_type', label: '按任务类型' },
+  { value: 'template', label: '按模版' },
+  { value: 'tag', label: '按标签' }
+]
+
+const TASK_TYPE_LABELS: Record<string, string> = {
+  lightweight: '轻量级',
+  medium_context: '中等上下文',
+  heavy_context: '重上下文'
+}
+
+interface CostGroup {
+  key: string
+  label: string
+  tasks: number
+  usage: TaskUsage
+}
+
+/**
+ * 按维度汇总用量；按标签汇总时，有多个标签的任务计入每个标签
+ */
+function groupEntries(entries: UsageReportEntry[], groupBy: GroupBy, templateNames: Map<string, string>): CostGroup[] {
+  const groups = new Map<string, CostGroup>()
+
+  const add = (key: string, label: string, entry: UsageReportEntry) => {
+    const group = groups.get(key) ?? { key, label, tasks: 0, usage: EMPTY_TASK_USAGE }
+    groups.set(key, { ...group, tasks: group.tasks + 1, usage: addTaskUsage(group.usage, entry.usage) })
+  }
+
+  for (const entry of entries) {
+    switch (groupBy) {
+      case 'day': {
+        const day = format(utcToBeijingTime(entry.completed_at), 'yyyy-MM-dd')
+        add(day, day, entry)
+        break
+      }
+      case 'task_type':
+        add(entry.task_type, TASK_TYPE_LABELS[entry.task_type] ?? entry.task_type, entry)
+        break
+      case 'template':
+        if (entry.template_id) {
+          add(entry.template_id, templateNames.get(entry.template_id) ?? `已删除的模版 (${entry.template_id})`, entry)
+        } else {
+          add('', '未使用模版', entry)
+        }
+        break
+      case 'tag':
+        if (entry.tags.length === 0) add('', '无标签', entry)
+        for (const tag of new Set(entry.tags)) add(tag, tag, entry)
+        break
+    }
+  }
+
+  // 按天从近到远，其他维度按费用从高到低
+  return Array.from(groups.values()).sort((a, b) =>
+    groupBy === 'day' ? b.key.localeCompare(a.key) : b.usage.total_cost_usd - a.usage.total_cost_usd
+  )
+}
+
+function downloadCsv(groups: CostGroup[], groupBy: GroupBy) {
+  const header = ['group', 'tasks', 'runs', 'input_tokens', 'output_tokens', 'cache_creation_input_tokens', 'cache_read_input_tokens', 'num_turns', 'total_cost_usd']
+  // BOM 让 Excel 按 UTF-8 打开中文
+  const csv = '\uFEFF' + formatCsvRow(header) + groups.map(group => formatCsvRow([
+    group.label,
+    group.tasks,
+    group.usage.runs,
+    group.usage.input_tokens,
+    group.usage.output_tokens,
+    group.usage.cache_creation_input_tokens,
+    group.usage.cache_read_input_tokens,
+    group.usage.num_turns,
+    group.usage.total_cost_usd.toFixed(6)
+  ])).join('')
+
+  const url = window.URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `cost-by-${groupBy.replace('_', '-')}-${new Date().toISOString().split('T')[0]}.csv`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
+
+/**
+ * 费用报表：按天、任务类型、模版或标签汇总已结束任务的 token 用量和费用
+ */
+export function CostReport() {
+  const { data: entries = [], isLoading, isFetching, refetch } = useCLIUsageReport()
+  const { templates } = useTaskTemplates()
+  const [groupBy, setGroupBy] = useState<GroupBy>('day')
+
+  const groups = useMemo(
+    () => groupEntries(entries, groupBy, new Map(templates.map(template => [template.id, template.name]))),
+    [entries, groupBy, templates]
+  )
+  const total = useMemo(() => entries.reduce((sum, entry) => addTaskUsage(sum, entry.usage), EMPTY_TASK_USAGE), [entries])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2">
+              <Coins className="h-5 w-5 text-warning" />
+              <span>费用报表</span>
+            </CardTitle>
+            <CardDescription>
+              {entries.length > 0
+                ? `最近 30 天内 ${entries.length} 个已结束任务，共 ${formatCost(total.total_cost_usd)}，输入 ${formatTokens(total.input_tokens)} / 输出 ${formatTokens(total.output_tokens)} token`
+                : '根据任务日志中的 claude 执行结果统计最近 30 天内结束的任务（最多 200 个）'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} title="刷新">
+              <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => downloadCsv(groups, groupBy)} disabled={groups.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {GROUP_OPTIONS.map(option => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={groupBy === option.value ? 'default' : 'outline'}
+              onClick={() => setGroupBy(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+            <span className="text-sm text-muted-foreground">读取任务日志中...</span>
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="text-center text-sm text-muted-foreground p-8">
+            暂无用量数据
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-auto rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted text-muted-foreground sticky top-0">
+                <tr>
+                  <th className="text-left font-medium px-3 py-2">分组</th>
+                  <th className="text-right font-medium px-3 py-2">任务</th>
+                  <th className="text-right font-medium px-3 py-2">输入</th>
+                  <th className="text-right font-medium px-3 py-2">输出</th>
+                  <th className="text-right font-medium px-3 py-2">缓存读取</th>
+                  <th className="text-right font-medium px-3 py-2">轮数</th>
+                  <th className="text-right font-medium px-3 py-2">费用</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {groups.map(group => (
+                  <tr key={group.key}>
+                    <td className="px-3 py-2 truncate max-w-xs" title={group.label}>{group.label}</td>
+                    <td className="px-3 py-2 text-right">{group.tasks}</td>
+                    <td className="px-3 py-2 text-right">{formatTokens(group.usage.input_tokens)}</td>
+                    <td className="px-3 py-2 text-right">{formatTokens(group.usage.output_tokens)}</td>
+                    <td className="px-3 py-2 text-right">{formatTokens(group.usage.cache_read_input_tokens)}</td>
+                    <td className="px-3 py-2 text-right">{group.usage.num_turns}</td>
+                    <td className="px-3 py-2 text-right font-medium">{formatCost(group.usage.total_cost_usd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
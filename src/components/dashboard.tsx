@@ -16,13 +16,17 @@ import {
   Calendar
 } from 'lucide-react'
 import { 
-  useCLITasks,
-  useCLISystemStatus,
-  useCLIScheduledTasks
+  useCLISnapshot,
+  useCLISystemStatus
 } from '@/hooks/use-cli-tasks'
 import { formatBeijingDateTimeSimple, formatDuration, getPriorityColor } from '@/lib/utils'
 import Link from 'next/link'
 import { toast } from '@/components/ui/sonner'
+import { CLIContractAlert } from '@/components/cli-contract-alert'
+import { CLIContractError } from '@/lib/cli-schemas'
+import { BackendOverview } from '@/components/backend-overview'
+import { CostReport } from '@/components/cost-report'
+import { useCLIBackend } from '@/lib/cli-backend-context'
 
 // 模拟系统状态数据 - 在实际API完成后会被替换
 const mockSystemStatus = {
@@ -91,10 +95,13 @@ export default function Dashboard() {
   // 状态管理
   const [isTogglingService, setIsTogglingService] = useState(false)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const { backend } = useCLIBackend()
   
   // 获取系统状态
-  const { data: systemStatusData, isLoading: systemLoading, refetch: refetchSystem } = useCLISystemStatus()
+  const { data: systemStatusData, isLoading: systemLoading, error: systemStatusError, refetch: refetchSystem } = useCLISystemStatus()
   const systemStatus = systemStatusData || mockSystemStatus
+  // 状态输出不符合约定时不显示模拟数据
+  const hasStatusContractError = systemStatusError instanceof CLIContractError
   
   // 服务控制函数
   const handleServiceToggle = async () => {
@@ -103,7 +110,9 @@ export default function Dashboard() {
     setIsTogglingService(true)
     try {
       const action = systemStatus.status === 'healthy' ? 'stop' : 'start'
-      const response = await fetch('/api/service', {
+      const basePath = process.env.NEXT_PUBLIC_BASE_PATH || ''
+      const query = backend ? `?backend=${encodeURIComponent(backend)}` : ''
+      const response = await fetch(`${basePath}/api/service${query}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -130,14 +139,13 @@ export default function Dashboard() {
     }
   }
   
-  // 获取不同状态的任务列表
-  const { data: pendingTasks = [], isLoading: pendingLoading, error: pendingError, refetch: refetchPending } = useCLITasks({ state: 'pending' })
-  const { data: processingTasks = [], isLoading: processingLoading, error: processingError, refetch: refetchProcessing } = useCLITasks({ state: 'processing' })
-  const { data: allCompletedTasks = [], isLoading: completedLoading, error: completedError, refetch: refetchCompleted } = useCLITasks({ state: 'completed' })
-  const { data: allFailedTasks = [], isLoading: failedLoading, error: failedError, refetch: refetchFailed } = useCLITasks({ state: 'failed' })
-  
-  // 获取定时任务列表
-  const { data: scheduledTasks = [], isLoading: scheduledLoading, error: scheduledError, refetch: refetchScheduled } = useCLIScheduledTasks()
+  // 获取聚合快照：任务按状态分组、定时任务一次返回
+  const { data: snapshot, isLoading: snapshotLoading, error: snapshotError, refetch: refetchSnapshot } = useCLISnapshot()
+  const pendingTasks = snapshot?.tasks_by_state.pending ?? []
+  const processingTasks = snapshot?.tasks_by_state.processing ?? []
+  const allCompletedTasks = snapshot?.tasks_by_state.completed ?? []
+  const allFailedTasks = snapshot?.tasks_by_state.failed ?? []
+  const scheduledTasks = snapshot?.scheduled_tasks ?? []
   
   // 过滤已完成任务（24小时内）和失败任务（5天内）
   const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000)
@@ -155,23 +163,14 @@ export default function Dashboard() {
   
   // 调试信息
   console.log('Dashboard data:', {
-    pendingTasks: pendingTasks?.length,
-    pendingLoading,
-    pendingError: pendingError?.message,
-    processingTasks: processingTasks?.length,
-    processingLoading,
-    processingError: processingError?.message,
-    allCompletedTasks: allCompletedTasks?.length,
-    completedLoading,
-    completedError: completedError?.message,
+    generatedAt: snapshot?.generated_at,
+    snapshotLoading,
+    snapshotError: snapshotError?.message,
+    pendingTasks: pendingTasks.length,
+    processingTasks: processingTasks.length,
     completedTasks: completedTasks.length,
-    allFailedTasks: allFailedTasks?.length,
-    failedLoading,
-    failedError: failedError?.message,
     failedTasks: failedTasks.length,
-    scheduledTasks: scheduledTasks?.length,
-    scheduledLoading,
-    scheduledError: scheduledError?.message
+    scheduledTasks: scheduledTasks.length
   })
   
   // 全局刷新函数
@@ -182,11 +181,7 @@ export default function Dashboard() {
     try {
       await Promise.all([
         refetchSystem?.(),
-        refetchPending(),
-        refetchProcessing(),
-        refetchCompleted(),
-        refetchFailed(),
-        refetchScheduled()
+        refetchSnapshot()
       ])
       
       toast.success('数据刷新成功')
@@ -198,7 +193,7 @@ export default function Dashboard() {
     }
   }
 
-  const isAnyLoading = isRefreshing || systemLoading || pendingLoading || processingLoading || completedLoading || failedLoading || scheduledLoading
+  const isAnyLoading = isRefreshing || systemLoading || snapshotLoading
 
   return (
     <div className="flex-1 space-y-6 p-6">
@@ -228,81 +223,93 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* taskctl 输出格式不符合约定 */}
+      <CLIContractAlert error={systemStatusError} />
+      <CLIContractAlert error={snapshotError} />
+
       {/* System Status Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Auto-Claude 服务</CardTitle>
-            <Power className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-3">
-                <div className="relative">
-                  <Switch
-                    checked={systemStatus.status === 'healthy'}
-                    disabled={isTogglingService || systemLoading}
-                    onCheckedChange={handleServiceToggle}
-                    className={systemStatus.status === 'healthy'
-                      ? 'data-[state=checked]:bg-success'
-                      : 'data-[state=unchecked]:bg-destructive/30'
-                    }
-                  />
-                  {isTogglingService && (
-                    <div className="absolute inset-0 flex items-center justify-center">
-                      <RefreshCw className="h-3 w-3 animate-spin text-muted-foreground" />
+      {!hasStatusContractError && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Auto-Claude 服务</CardTitle>
+              <Power className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <div className="relative">
+                    <Switch
+                      checked={systemStatus.status === 'healthy'}
+                      disabled={isTogglingService || systemLoading}
+                      onCheckedChange={handleServiceToggle}
+                      className={systemStatus.status === 'healthy'
+                        ? 'data-[state=checked]:bg-success'
+                        : 'data-[state=unchecked]:bg-destructive/30'
+                      }
+                    />
+                    {isTogglingService && (
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        <RefreshCw className="h-3 w-3 animate-spin text-muted-foreground" />
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    <div className={`text-sm font-medium ${
+                      systemStatus.status === 'healthy'
+                        ? 'text-success'
+                        : 'text-destructive'
+                    }`}>
+                      {isTogglingService 
+                        ? (systemStatus.status === 'healthy' ? '正在停止...' : '正在启动...')
+                        : (systemStatus.status === 'healthy' ? '运行中' : '已停止')
+                      }
                     </div>
-                  )}
-                </div>
-                <div>
-                  <div className={`text-sm font-medium ${
-                    systemStatus.status === 'healthy'
-                      ? 'text-success'
-                      : 'text-destructive'
-                  }`}>
-                    {isTogglingService 
-                      ? (systemStatus.status === 'healthy' ? '正在停止...' : '正在启动...')
-                      : (systemStatus.status === 'healthy' ? '运行中' : '已停止')
-                    }
+                    <p className="text-xs text-muted-foreground">
+                      {systemStatus.status === 'healthy' 
+                        ? (systemStatus.uptime_seconds !== undefined ? `运行时间: ${formatDuration(systemStatus.uptime_seconds)}` : '运行时间未知')
+                        : '点击开关启动服务'
+                      }
+                    </p>
                   </div>
-                  <p className="text-xs text-muted-foreground">
-                    {systemStatus.status === 'healthy' 
-                      ? `运行时间: ${formatDuration(systemStatus.uptime_seconds)}`
-                      : '点击开关启动服务'
-                    }
-                  </p>
                 </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">活跃工作器</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{systemStatus.active_workers}</div>
-            <p className="text-xs text-muted-foreground">
-              CPU: 45.2% | 内存: {systemStatus.memory_usage_percent}%
-            </p>
-          </CardContent>
-        </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">活跃工作器</CardTitle>
+              <Users className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{systemStatus.active_workers}</div>
+              <p className="text-xs text-muted-foreground">
+                CPU: 45.2% | 内存: {systemStatus.memory_usage_percent !== undefined ? `${systemStatus.memory_usage_percent}%` : '未知'}
+              </p>
+            </CardContent>
+          </Card>
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">任务队列</CardTitle>
-            <Clock className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{pendingTasks.length}</div>
-            <p className="text-xs text-muted-foreground">
-              处理中: {processingTasks.length}
-            </p>
-          </CardContent>
-        </Card>
-      </div>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">任务队列</CardTitle>
+              <Clock className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{pendingTasks.length}</div>
+              <p className="text-xs text-muted-foreground">
+                处理中: {processingTasks.length}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* 多后端汇总 */}
+      <BackendOverview />
+
+      {/* 费用报表 */}
+      <CostReport />
 
       {/* Task Lists */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -318,7 +325,7 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="space-y-3 max-h-80 overflow-y-auto">
-              {pendingLoading ? (
+              {snapshotLoading ? (
                 <div className="flex items-center justify-center p-8">
                   <RefreshCw className="h-4 w-4 animate-spin mr-2" />
                   <span className="text-sm text-muted-foreground">加载中...</span>
@@ -380,7 +387,7 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="space-y-3 max-h-80 overflow-y-auto">
-              {scheduledLoading ? (
+              {snapshotLoading ? (
                 <div className="flex items-center justify-center p-8">
                   <RefreshCw className="h-4 w-4 animate-spin mr-2" />
                   <span className="text-sm text-muted-foreground">加载中...</span>
@@ -443,7 +450,7 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="space-y-3 max-h-80 overflow-y-auto">
-              {processingLoading ? (
+              {snapshotLoading ? (
                 <div className="flex items-center justify-center p-8">
                   <RefreshCw className="h-4 w-4 animate-spin mr-2" />
                   <span className="text-sm text-muted-foreground">加载中...</span>
@@ -0,0 +1,475 @@
+'use client'
+
+import { useCallback, useDeferredValue, useEffect, useLayoutEffect, useMemo, useRef, useState, type CSSProperties, type ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ArrowDownToLine, CaseSensitive, ChevronDown, ChevronUp, Download, Regex, WrapText } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { hasAnsi, parseAnsi, type AnsiSegment } from '@/lib/ansi'
+import { parseLogLines, LOG_LEVELS, type LogLevel, type ParsedLogLine } from '@/lib/log-lines'
+import { toast } from '@/components/ui/sonner'
+
+const LINE_HEIGHT = 18
+// 可见区域上下多渲染的行数，快速滚动时不出现空白
+const OVERSCAN = 30
+// 搜索结果上限，超过后只导航前面的结果
+const MAX_MATCHES = 100000
+
+const LEVEL_LABELS: Record<LogLevel, string> = {
+  debug: 'DEBUG',
+  info: 'INFO',
+  warn: 'WARN',
+  error: 'ERROR'
+}
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: 'text-gray-400',
+  info: 'text-blue-400',
+  warn: 'text-yellow-400',
+  error: 'text-red-400'
+}
+
+interface LogMatch {
+  // 在筛选后的行列表中的位置
+  row: number
+  start: number
+  end: number
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// 换行时按等宽字体估算行高，中日韩等全角字符按两个字符宽度计算
+function displayWidth(text: string): number {
+  let width = 0
+  for (let i = 0; i < text.length; i++) {
+    width += text.charCodeAt(i) >= 0x2e80 ? 2 : 1
+  }
+  return width
+}
+
+// 第一个满足 offsets[i] > target 的位置减一，即 target 所在的行
+function findRow(offsets: Float64Array, target: number): number {
+  let low = 0
+  let high = offsets.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (offsets[mid] <= target) low = mid
+    else high = mid - 1
+  }
+  return Math.min(low, offsets.length - 2)
+}
+
+// 第一个 row 不小于 target 的搜索结果
+function findMatch(matches: LogMatch[], row: number): number {
+  let low = 0
+  let high = matches.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (matches[mid].row < row) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+function segmentStyle(segment: AnsiSegment): CSSProperties | undefined {
+  if (!segment.fg && !segment.bg && !segment.bold && !segment.dim && !segment.italic && !segment.underline) return undefined
+  return {
+    color: segment.fg,
+    backgroundColor: segment.bg,
+    fontWeight: segment.bold ? 'bold' : undefined,
+    opacity: segment.dim ? 0.7 : undefined,
+    fontStyle: segment.italic ? 'italic' : undefined,
+    textDecoration: segment.underline ? 'underline' : undefined
+  }
+}
+
+/**
+ * 按 ANSI 样式渲染一行，并把搜索结果包在 mark 中
+ */
+function renderLine(raw: string, plain: string, ranges: Array<{ start: number; end: number; current: boolean }>): ReactNode {
+  const segments = hasAnsi(raw) ? parseAnsi(raw).segments : [{ text: plain }]
+  if (ranges.length === 0 && segments.length === 1 && !segmentStyle(segments[0])) return plain
+
+  const nodes: ReactNode[] = []
+  let offset = 0
+
+  for (const segment of segments) {
+    const style = segmentStyle(segment)
+    const segmentEnd = offset + segment.text.length
+    let position = offset
+
+    for (const range of ranges) {
+      if (range.end <= position || range.start >= segmentEnd) continue
+      if (range.start > position) {
+        nodes.push(<span key={nodes.length} style={style}>{plain.slice(position, range.start)}</span>)
+      }
+      const markEnd = Math.min(range.end, segmentEnd)
+      nodes.push(
+        <mark key={nodes.length} className={cn('rounded-sm text-black', range.current ? 'bg-orange-400' : 'bg-yellow-300/80')}>
+          {plain.slice(Math.max(range.start, position), markEnd)}
+        </mark>
+      )
+      position = markEnd
+    }
+    if (position < segmentEnd) {
+      nodes.push(<span key={nodes.length} style={style}>{plain.slice(position, segmentEnd)}</span>)
+    }
+    offset = segmentEnd
+  }
+
+  return nodes
+}
+
+function useElementSize(ref: React.RefObject<HTMLElement | null>) {
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  useLayoutEffect(() => {
+    const element = ref.current
+    if (!element) return
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [ref])
+  return size
+}
+
+interface LogViewerProps {
+  lines: string[]
+  // 下载时的文件名
+  fileName: string
+  emptyText?: ReactNode
+  // 日志区域的高度
+  className?: string
+  // 点击行号选中某一行时通知调用方（行号从 1 开始）
+  onSelectLine?: (line: number) => void
+}
+
+/**
+ * 日志查看器：只渲染可见的行，支持级别筛选、正则搜索、ANSI 颜色、换行切换、行链接（#L行号）和下载
+ */
+export function LogViewer({ lines, fileName, emptyText = '暂无日志', className = 'h-96', onSelectLine }: LogViewerProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const measureRef = useRef<HTMLSpanElement>(null)
+  const parsedRef = useRef<{ lines: string[]; parsed: ParsedLogLine[] }>({ lines: [], parsed: [] })
+  const { width, height } = useElementSize(scrollRef)
+  const [charWidth, setCharWidth] = useState(7.2)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [wrap, setWrap] = useState(false)
+  const [follow, setFollow] = useState(true)
+  const [hiddenLevels, setHiddenLevels] = useState<Set<LogLevel>>(new Set())
+  const [query, setQuery] = useState('')
+  const [useRegex, setUseRegex] = useState(false)
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [currentMatch, setCurrentMatch] = useState(0)
+  // 通过 #L行号 打开或点击行号选中的行（原始行号，从 1 开始）
+  const [selectedLine, setSelectedLine] = useState<number | null>(null)
+  const [pendingJump, setPendingJump] = useState<number | null>(null)
+  const deferredQuery = useDeferredValue(query)
+
+  // 日志通常只在末尾追加，复用已解析的前缀
+  const parsed = useMemo(() => {
+    const previous = parsedRef.current
+    const isAppend = previous.lines.length <= lines.length && previous.lines.length > 0 &&
+      previous.lines[0] === lines[0] && previous.lines[previous.lines.length - 1] === lines[previous.lines.length - 1]
+    const result = parseLogLines(lines, isAppend ? previous.parsed : [])
+    parsedRef.current = { lines, parsed: result }
+    return result
+  }, [lines])
+
+  const levelCounts = useMemo(() => {
+    const counts: Record<LogLevel, number> = { debug: 0, info: 0, warn: 0, error: 0 }
+    for (const line of parsed) {
+      if (line.level) counts[line.level]++
+    }
+    return counts
+  }, [parsed])
+
+  // 筛选后的行，保存原始行的下标；没有级别的行始终显示
+  const rows = useMemo(() => {
+    if (hiddenLevels.size === 0) return parsed.map((_, index) => index)
+    const result: number[] = []
+    parsed.forEach((line, index) => {
+      if (!line.level || !hiddenLevels.has(line.level)) result.push(index)
+    })
+    return result
+  }, [parsed, hiddenLevels])
+
+  const search = useMemo((): { matches: LogMatch[]; error?: string } => {
+    if (!deferredQuery) return { matches: [] }
+
+    let pattern: RegExp
+    try {
+      pattern = new RegExp(useRegex ? deferredQuery : escapeRegExp(deferredQuery), caseSensitive ? 'g' : 'gi')
+    } catch (error) {
+      return { matches: [], error: error instanceof Error ? error.message : '正则表达式无效' }
+    }
+
+    const matches: LogMatch[] = []
+    for (let row = 0; row < rows.length && matches.length < MAX_MATCHES; row++) {
+      const text = parsed[rows[row]].plain
+      pattern.lastIndex = 0
+      for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+        // 空匹配（例如 ^）不高亮，但要前进避免死循环
+        if (match[0].length === 0) {
+          pattern.lastIndex++
+          continue
+        }
+        matches.push({ row, start: match.index, end: match.index + match[0].length })
+        if (matches.length >= MAX_MATCHES) break
+      }
+    }
+    return { matches }
+  }, [deferredQuery, useRegex, caseSensitive, rows, parsed])
+
+  const gutterChars = String(lines.length).length + 1
+  const charsPerLine = Math.max(20, Math.floor((width - (gutterChars + 1) * charWidth - 16) / charWidth))
+
+  // 每行的起始位置，最后一项是总高度
+  const offsets = useMemo(() => {
+    const result = new Float64Array(rows.length + 1)
+    for (let i = 0; i < rows.length; i++) {
+      const lineCount = wrap ? Math.max(1, Math.ceil(displayWidth(parsed[rows[i]].plain) / charsPerLine)) : 1
+      result[i + 1] = result[i] + lineCount * LINE_HEIGHT
+    }
+    return result
+  }, [rows, parsed, wrap, charsPerLine])
+
+  const totalHeight = offsets[rows.length]
+  const firstRow = rows.length > 0 ? Math.max(0, findRow(offsets, scrollTop) - OVERSCAN) : 0
+  const lastRow = rows.length > 0 ? Math.min(rows.length, findRow(offsets, scrollTop + height) + 1 + OVERSCAN) : 0
+
+  const scrollToRow = useCallback((row: number) => {
+    const element = scrollRef.current
+    if (!element) return
+    element.scrollTop = Math.max(0, offsets[row] - element.clientHeight / 3)
+  }, [offsets])
+
+  const goToMatch = (index: number) => {
+    const count = search.matches.length
+    if (count === 0) return
+    const next = (index + count) % count
+    setCurrentMatch(next)
+    setFollow(false)
+    scrollToRow(search.matches[next].row)
+  }
+
+  // 等宽字体的实际字符宽度，用于估算换行后的行高
+  useLayoutEffect(() => {
+    if (measureRef.current) {
+      setCharWidth(measureRef.current.getBoundingClientRect().width / 100 || 7.2)
+    }
+  }, [])
+
+  // 跟随模式下新日志到达时滚动到底部
+  useLayoutEffect(() => {
+    const element = scrollRef.current
+    if (follow && element) {
+      element.scrollTop = element.scrollHeight
+    }
+  }, [follow, totalHeight])
+
+  // 搜索条件变化后回到第一个结果
+  useEffect(() => {
+    setCurrentMatch(0)
+  }, [deferredQuery, useRegex, caseSensitive])
+
+  // 打开带 #L行号 的链接或页面内跳转到 #L行号 时定位到该行，日志加载完成后再跳转
+  useEffect(() => {
+    const jumpToHash = () => {
+      const match = /^#L(\d+)$/.exec(window.location.hash)
+      if (match && Number(match[1]) >= 1) {
+        setSelectedLine(Number(match[1]))
+        setPendingJump(Number(match[1]))
+      }
+    }
+    jumpToHash()
+    window.addEventListener('hashchange', jumpToHash)
+    return () => window.removeEventListener('hashchange', jumpToHash)
+  }, [])
+
+  useEffect(() => {
+    if (pendingJump === null) return
+    if (pendingJump < 1) {
+      setPendingJump(null)
+      return
+    }
+    if (parsed.length < pendingJump) return
+    const row = rows.indexOf(pendingJump - 1)
+    if (row === -1) {
+      // 该行被级别筛选隐藏时先显示全部级别；已经全部显示仍找不到时放弃跳转
+      if (hiddenLevels.size > 0) {
+        setHiddenLevels(new Set())
+      } else {
+        setPendingJump(null)
+      }
+      return
+    }
+    setPendingJump(null)
+    setFollow(false)
+    scrollToRow(row)
+  }, [pendingJump, parsed.length, rows, hiddenLevels.size, scrollToRow])
+
+  const handleLineLink = (line: number) => {
+    const url = `${window.location.pathname}${window.location.search}#L${line}`
+    window.history.replaceState(null, '', url)
+    setSelectedLine(line)
+    onSelectLine?.(line)
+    navigator.clipboard?.writeText(window.location.href).then(
+      () => toast.success(`已复制第 ${line} 行的链接`),
+      () => toast.error('复制链接失败')
+    )
+  }
+
+  const handleDownload = () => {
+    const url = window.URL.createObjectURL(new Blob([lines.join('\n') + '\n'], { type: 'text/plain;charset=utf-8' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    window.URL.revokeObjectURL(url)
+  }
+
+  const toggleLevel = (level: LogLevel) => {
+    setHiddenLevels(current => {
+      const next = new Set(current)
+      if (next.has(level)) next.delete(level)
+      else next.add(level)
+      return next
+    })
+  }
+
+  const firstVisibleMatch = findMatch(search.matches, firstRow)
+  const current = search.matches[currentMatch]
+
+  return (
+    <div className="space-y-2">
+      {/* 工具栏 */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1 flex-1 min-w-64">
+          <Input
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter') {
+                event.preventDefault()
+                goToMatch(currentMatch + (event.shiftKey ? -1 : 1))
+              }
+            }}
+            placeholder={useRegex ? '正则表达式，回车跳到下一个' : '搜索日志，回车跳到下一个'}
+            className={cn('h-8 font-mono text-xs', search.error && 'border-destructive')}
+          />
+          <Button size="sm" variant={useRegex ? 'secondary' : 'ghost'} onClick={() => setUseRegex(!useRegex)} title="使用正则表达式">
+            <Regex className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant={caseSensitive ? 'secondary' : 'ghost'} onClick={() => setCaseSensitive(!caseSensitive)} title="区分大小写">
+            <CaseSensitive className="h-4 w-4" />
+          </Button>
+          <span className="text-xs text-muted-foreground whitespace-nowrap w-24 text-center">
+            {search.error
+              ? '表达式无效'
+              : deferredQuery
+                ? search.matches.length > 0
+                  ? `${currentMatch + 1}/${search.matches.length}${search.matches.length >= MAX_MATCHES ? '+' : ''}`
+                  : '无结果'
+                : ''}
+          </span>
+          <Button size="sm" variant="ghost" onClick={() => goToMatch(currentMatch - 1)} disabled={search.matches.length === 0} title="上一个">
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => goToMatch(currentMatch + 1)} disabled={search.matches.length === 0} title="下一个">
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {LOG_LEVELS.map(level => (
+            <Button
+              key={level}
+              size="sm"
+              variant={hiddenLevels.has(level) ? 'ghost' : 'outline'}
+              className={cn('font-mono text-xs', hiddenLevels.has(level) && 'line-through text-muted-foreground')}
+              onClick={() => toggleLevel(level)}
+              title={hiddenLevels.has(level) ? '显示该级别' : '隐藏该级别'}
+            >
+              {LEVEL_LABELS[level]} {levelCounts[level]}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant={wrap ? 'secondary' : 'ghost'} onClick={() => setWrap(!wrap)} title="自动换行">
+            <WrapText className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant={follow ? 'secondary' : 'ghost'} onClick={() => setFollow(!follow)} title="跟随最新日志">
+            <ArrowDownToLine className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={handleDownload} disabled={lines.length === 0} title="下载完整日志">
+            <Download className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {search.error && <div className="text-xs text-destructive">{search.error}</div>}
+
+      {/* 日志内容 */}
+      <div
+        ref={scrollRef}
+        className={cn('relative bg-black rounded-lg overflow-auto font-mono text-xs', className)}
+        onScroll={event => {
+          const element = event.currentTarget
+          setScrollTop(element.scrollTop)
+          // 滚动到底部时自动跟随，向上滚动时停止跟随
+          setFollow(element.scrollHeight - element.scrollTop - element.clientHeight < LINE_HEIGHT)
+        }}
+      >
+        <span ref={measureRef} className="invisible absolute whitespace-pre" aria-hidden>{'M'.repeat(100)}</span>
+        {lines.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-gray-500">{emptyText}</div>
+        ) : (
+          <div className={cn('py-2', !wrap && 'w-max min-w-full')} style={{ height: totalHeight + 16 }}>
+            <div style={{ height: offsets[firstRow] }} />
+            {rows.slice(firstRow, lastRow).map((lineIndex, offset) => {
+              const row = firstRow + offset
+              const line = parsed[lineIndex]
+              const lineNumber = lineIndex + 1
+              const ranges: Array<{ start: number; end: number; current: boolean }> = []
+              for (let i = firstVisibleMatch; i < search.matches.length && search.matches[i].row <= row; i++) {
+                if (search.matches[i].row === row) ranges.push({ ...search.matches[i], current: search.matches[i] === current })
+              }
+
+              return (
+                <div
+                  key={lineIndex}
+                  className={cn(
+                    'flex hover:bg-gray-800/70',
+                    selectedLine === lineNumber && 'bg-yellow-500/20',
+                    current?.row === row && 'bg-orange-500/10'
+                  )}
+                  style={{ minHeight: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px` }}
+                >
+                  <button
+                    type="button"
+                    className="flex-shrink-0 text-right pr-2 text-gray-600 hover:text-gray-300 select-none sticky left-0 bg-black"
+                    style={{ width: `${gutterChars + 1}ch` }}
+                    onClick={() => handleLineLink(lineNumber)}
+                    title="复制这一行的链接"
+                  >
+                    {lineNumber}
+                  </button>
+                  <span className={cn('pr-4', line.level ? LEVEL_COLORS[line.level] : 'text-green-400', wrap ? 'whitespace-pre-wrap break-all' : 'whitespace-pre')}>
+                    {renderLine(lines[lineIndex], line.plain, ranges)}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+import { Fragment, type ReactNode } from 'react'
+import { cn } from '@/lib/utils'
+
+/**
+ * 简单的 Markdown 渲染，覆盖 claude 回复中常见的语法：
+ * 标题、段落、列表、引用、分隔线、代码块、行内代码、粗体、斜体和链接；mentions 中的用户在 @用户名 处高亮。
+ * 只生成 React 元素，不插入 HTML，链接只允许 http(s)。
+ */
+
+type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'rule' }
+
+const INLINE_PATTERN = /(`[^`]+`)|\*\*(.+?)\*\*|\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)|(?<![\w*])\*(?!\s)(.+?)(?<!\s)\*(?![\w*])|(?<!\w)_(?!\s)(.+?)(?<!\s)_(?!\w)|(?<![\w@])@([\w.-]+)/g
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([\w+-]*)/
+const LIST_PATTERN = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/
+const RULE_PATTERN = /^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/
+
+function parseBlocks(text: string): MarkdownBlock[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    const fence = FENCE_PATTERN.exec(line)
+    if (fence) {
+      const body: string[] = []
+      i++
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i])
+        i++
+      }
+      i++
+      blocks.push({ type: 'code', lang: fence[2], text: body.join('\n') })
+      continue
+    }
+
+    const heading = HEADING_PATTERN.exec(line)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] })
+      i++
+      continue
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' })
+      i++
+      continue
+    }
+
+    if (line.trimStart().startsWith('>')) {
+      const body: string[] = []
+      while (i < lines.length && lines[i].trimStart().startsWith('>')) {
+        body.push(lines[i].trimStart().replace(/^>\s?/, ''))
+        i++
+      }
+      blocks.push({ type: 'quote', text: body.join('\n') })
+      continue
+    }
+
+    const listItem = LIST_PATTERN.exec(line)
+    if (listItem) {
+      const ordered = listItem[2] !== undefined
+      const items: string[] = []
+      while (i < lines.length) {
+        const item = LIST_PATTERN.exec(lines[i])
+        if (item && (item[2] !== undefined) === ordered) {
+          items.push(item[3])
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+          // 缩进的续行并入上一项
+          items[items.length - 1] += `\n${lines[i].trim()}`
+        } else {
+          break
+        }
+        i++
+      }
+      blocks.push({ type: 'list', ordered, items })
+      continue
+    }
+
+    const body: string[] = []
+    while (
+      i < lines.length && lines[i].trim() &&
+      !FENCE_PATTERN.test(lines[i]) && !HEADING_PATTERN.test(lines[i]) && !LIST_PATTERN.test(lines[i]) &&
+      !RULE_PATTERN.test(lines[i]) && !lines[i].trimStart().startsWith('>')
+    ) {
+      body.push(lines[i])
+      i++
+    }
+    blocks.push({ type: 'paragraph', text: body.join('\n') })
+  }
+
+  return blocks
+}
+
+function renderInline(text: string, mentions: string[]): ReactNode[] {
+  const nodes: ReactNode[] = []
+  let last = 0
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index > last) nodes.push(text.slice(last, match.index))
+    const key = nodes.length
+
+    if (match[7] !== undefined) {
+      // 用户名后面的句号等标点不算在用户名里
+      const name = match[7].replace(/[.-]+$/, '')
+      if (mentions.includes(name)) {
+        nodes.push(<span key={key} className="rounded bg-primary/10 px-1 font-medium text-primary">@{name}</span>)
+        nodes.push(match[7].slice(name.length))
+      } else {
+        nodes.push(match[0])
+      }
+    } else if (match[1]) {
+      nodes.push(<code key={key} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">{match[1].slice(1, -1)}</code>)
+    } else if (match[2]) {
+      nodes.push(<strong key={key}>{renderInline(match[2], mentions)}</strong>)
+    } else if (match[3]) {
+      nodes.push(
+        <a key={key} href={match[4]} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+          {match[3]}
+        </a>
+      )
+    } else {
+      nodes.push(<em key={key}>{renderInline(match[5] ?? match[6], mentions)}</em>)
+    }
+    last = match.index + match[0].length
+  }
+
+  if (last < text.length) nodes.push(text.slice(last))
+  return nodes
+}
+
+// 段落内的单个换行保留为换行
+function renderLines(text: string, mentions: string[]): ReactNode[] {
+  return text.split('\n').map((line, index) => (
+    <Fragment key={index}>
+      {index > 0 && <br />}
+      {renderInline(line, mentions)}
+    </Fragment>
+  ))
+}
+
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'text-sm font-semibold']
+
+export function Markdown({ text, mentions = [], className }: { text: string; mentions?: string[]; className?: string }) {
+  return (
+    <div className={cn('space-y-2 text-sm leading-relaxed break-words', className)}>
+      {parseBlocks(text).map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return <div key={index} className={HEADING_CLASSES[Math.min(block.level, 3) - 1]}>{renderInline(block.text, mentions)}</div>
+          case 'paragraph':
+            return <p key={index}>{renderLines(block.text, mentions)}</p>
+          case 'code':
+            return (
+              <pre key={index} className="rounded-md bg-muted p-3 font-mono text-xs overflow-x-auto" data-lang={block.lang || undefined}>
+                {block.text}
+              </pre>
+            )
+          case 'quote':
+            return (
+              <blockquote key={index} className="border-l-2 pl-3 text-muted-foreground">
+                {renderLines(block.text, mentions)}
+              </blockquote>
+            )
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul'
+            return (
+              <List key={index} className={cn('pl-5 space-y-1', block.ordered ? 'list-decimal' : 'list-disc')}>
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderLines(item, mentions)}</li>)}
+              </List>
+            )
+          }
+          case 'rule':
+            return <hr key={index} className="border-border" />
+        }
+      })}
+    </div>
+  )
+}
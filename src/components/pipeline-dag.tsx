@@ -0,0 +1,141 @@
+'use client'
+
+import Link from 'next/link'
+import { cn, getTaskStateColor } from '@/lib/utils'
+import type { Pipeline, PipelineStep, PipelineStepRun } from '@/lib/pipelines'
+
+const NODE_WIDTH = 200
+const NODE_HEIGHT = 64
+const COLUMN_GAP = 72
+const ROW_GAP = 20
+
+const STEP_STATUS_LABELS: Record<PipelineStepRun['status'], string> = {
+  waiting: '等待上游',
+  submitting: '提交中',
+  submitted: '已提交',
+  completed: '已完成',
+  failed: '失败',
+  skipped: '已跳过'
+}
+
+const TASK_STATE_LABELS: Record<string, string> = {
+  pending: '等待中',
+  processing: '处理中',
+  completed: '已完成',
+  failed: '失败',
+  paused: '暂停',
+  waiting_unban: '等待解封',
+  retrying: '重试中',
+  needs_human_review: '需要审核',
+  awaiting_confirmation: '等待确认'
+}
+
+// 每个步骤所在的列：最长上游路径的长度
+function computeColumns(steps: PipelineStep[]): Map<string, number> {
+  const columns = new Map<string, number>()
+  const byId = new Map(steps.map(step => [step.id, step]))
+
+  const visit = (id: string): number => {
+    const cached = columns.get(id)
+    if (cached !== undefined) return cached
+    const deps = byId.get(id)?.depends_on ?? []
+    const column = deps.length === 0 ? 0 : Math.max(...deps.map(visit)) + 1
+    columns.set(id, column)
+    return column
+  }
+
+  steps.forEach(step => visit(step.id))
+  return columns
+}
+
+interface PipelineDagProps {
+  pipeline: Pipeline
+  // 快照中的最新任务状态，比流水线记录的状态更及时
+  taskStates?: Record<string, string>
+}
+
+/**
+ * 流水线的依赖图：从左到右按依赖层级排列，节点颜色对应任务状态
+ */
+export function PipelineDag({ pipeline, taskStates = {} }: PipelineDagProps) {
+  const columns = computeColumns(pipeline.steps)
+  const rows = new Map<string, number>()
+  const columnSizes: number[] = []
+
+  for (const step of pipeline.steps) {
+    const column = columns.get(step.id) ?? 0
+    rows.set(step.id, columnSizes[column] ?? 0)
+    columnSizes[column] = (columnSizes[column] ?? 0) + 1
+  }
+
+  const position = (id: string) => ({
+    x: (columns.get(id) ?? 0) * (NODE_WIDTH + COLUMN_GAP),
+    y: (rows.get(id) ?? 0) * (NODE_HEIGHT + ROW_GAP)
+  })
+
+  const width = columnSizes.length * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP
+  const height = Math.max(...columnSizes) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="relative" style={{ width, height }}>
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+          {pipeline.steps.flatMap(step => step.depends_on.map(dep => {
+            const from = position(dep)
+            const to = position(step.id)
+            const x1 = from.x + NODE_WIDTH
+            const y1 = from.y + NODE_HEIGHT / 2
+            const x2 = to.x
+            const y2 = to.y + NODE_HEIGHT / 2
+            const midX = (x1 + x2) / 2
+
+            return (
+              <path
+                key={`${dep}-${step.id}`}
+                d={`M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`}
+                fill="none"
+                className={cn(
+                  'stroke-muted-foreground/50',
+                  step.condition === 'on_failure' && 'stroke-destructive/60'
+                )}
+                strokeWidth={1.5}
+                strokeDasharray={step.condition === 'on_success' ? undefined : '4 4'}
+              />
+            )
+          }))}
+        </svg>
+
+        {pipeline.steps.map(step => {
+          const run = pipeline.runs[step.id] ?? { status: 'waiting' }
+          const taskState = (run.task_id && taskStates[run.task_id]) || run.task_state
+          const { x, y } = position(step.id)
+          const node = (
+            <div
+              className={cn(
+                'absolute rounded-lg border px-3 py-2 text-sm transition-shadow',
+                taskState ? getTaskStateColor(taskState) : 'bg-background text-muted-foreground',
+                run.status === 'waiting' && 'border-dashed',
+                run.status === 'skipped' && 'opacity-50',
+                run.task_id && 'hover:shadow-md cursor-pointer'
+              )}
+              style={{ left: x, top: y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+              title={run.error || step.name}
+            >
+              <div className={cn('font-medium truncate', run.status === 'skipped' && 'line-through')}>{step.name}</div>
+              <div className="text-xs truncate">
+                {taskState ? TASK_STATE_LABELS[taskState] || taskState : STEP_STATUS_LABELS[run.status]}
+                {run.task_id && <span className="font-mono ml-1 opacity-75">{run.task_id}</span>}
+              </div>
+            </div>
+          )
+
+          return run.task_id ? (
+            <Link key={step.id} href={`/tasks/${run.task_id}`}>{node}</Link>
+          ) : (
+            <div key={step.id}>{node}</div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
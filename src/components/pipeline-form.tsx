@@ -0,0 +1,351 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Plus, Trash2, Save, AlertCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  PIPELINE_CONDITIONS,
+  validatePipelineDefinition,
+  PipelineError,
+  type PipelineCondition,
+} from '@/lib/pipelines'
+import { useCreateCLIPipeline } from '@/hooks/use-cli-tasks'
+import { toast } from '@/components/ui/sonner'
+
+interface StepFormData {
+  id: string
+  name: string
+  prompt: string
+  depends_on: string[]
+  condition: PipelineCondition
+  type: string
+  priority: string
+  workingDir: string
+}
+
+const TASK_TYPES = [
+  { value: 'lightweight', label: '轻量级' },
+  { value: 'medium_context', label: '中等上下文' },
+  { value: 'heavy_context', label: '重上下文' }
+]
+
+const PRIORITIES = [
+  { value: 'low', label: '低' },
+  { value: 'normal', label: '普通' },
+  { value: 'high', label: '高' },
+  { value: 'urgent', label: '紧急' }
+]
+
+function createStep(index: number, previous?: StepFormData): StepFormData {
+  return {
+    id: `step${index}`,
+    name: '',
+    prompt: '',
+    // 默认依赖上一个步骤，组成顺序执行的流水线
+    depends_on: previous ? [previous.id] : [],
+    condition: 'on_success',
+    type: 'lightweight',
+    priority: 'normal',
+    workingDir: ''
+  }
+}
+
+interface PipelineFormProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function PipelineForm({ isOpen, onClose }: PipelineFormProps) {
+  const createPipeline = useCreateCLIPipeline()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [steps, setSteps] = useState<StepFormData[]>([createStep(1)])
+  const [nextIndex, setNextIndex] = useState(2)
+  const [errors, setErrors] = useState<string[]>([])
+
+  // 每次打开时重置表单
+  useEffect(() => {
+    if (isOpen) {
+      setName('')
+      setDescription('')
+      setSteps([createStep(1)])
+      setNextIndex(2)
+      setErrors([])
+    }
+  }, [isOpen])
+
+  const updateStep = (index: number, changes: Partial<StepFormData>) => {
+    setSteps(steps.map((step, i) => {
+      if (i === index) return { ...step, ...changes }
+      // 步骤 ID 修改后同步更新其他步骤的依赖
+      if (changes.id !== undefined) {
+        return { ...step, depends_on: step.depends_on.map(dep => dep === steps[index].id ? changes.id! : dep) }
+      }
+      return step
+    }))
+  }
+
+  const addStep = () => {
+    setSteps([...steps, createStep(nextIndex, steps[steps.length - 1])])
+    setNextIndex(nextIndex + 1)
+  }
+
+  const removeStep = (index: number) => {
+    const removed = steps[index].id
+    setSteps(steps
+      .filter((_, i) => i !== index)
+      .map(step => ({ ...step, depends_on: step.depends_on.filter(dep => dep !== removed) })))
+  }
+
+  const toggleDependency = (index: number, dep: string) => {
+    const { depends_on } = steps[index]
+    updateStep(index, {
+      depends_on: depends_on.includes(dep) ? depends_on.filter(item => item !== dep) : [...depends_on, dep]
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const input = {
+      name,
+      description: description || undefined,
+      steps: steps.map(step => ({
+        ...step,
+        workingDir: step.workingDir || undefined
+      }))
+    }
+
+    try {
+      validatePipelineDefinition(input)
+    } catch (error) {
+      setErrors([error instanceof PipelineError ? error.message : '流水线定义无效'])
+      return
+    }
+
+    try {
+      await createPipeline.mutateAsync(input)
+      toast.success('流水线已创建')
+      onClose()
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : '创建流水线失败'])
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>创建流水线</DialogTitle>
+          <DialogDescription>
+            由多个任务步骤组成，上游步骤结束后按条件自动提交下游步骤
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* 基本信息 */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">基本信息</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">
+                  流水线名称 <span className="text-destructive">*</span>
+                </label>
+                <Input
+                  placeholder="例如：重构并补充测试"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">描述</label>
+                <Input
+                  placeholder="简要描述这个流水线的用途"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* 步骤 */}
+          {steps.map((step, index) => (
+            <Card key={index}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-sm">步骤 {index + 1}</CardTitle>
+                  {steps.length > 1 && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => removeStep(index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <CardDescription className="text-xs">
+                  提示词中可以使用 {'{{steps.<步骤ID>.result}}'} 引用上游步骤的执行结果，
+                  {'{{steps.<步骤ID>.task_id}}'} 和 {'{{steps.<步骤ID>.state}}'} 引用任务 ID 和状态
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="text-sm font-medium text-foreground mb-2 block">步骤ID</label>
+                    <Input
+                      value={step.id}
+                      onChange={(e) => updateStep(index, { id: e.target.value })}
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="text-sm font-medium text-foreground mb-2 block">
+                      任务名称 <span className="text-destructive">*</span>
+                    </label>
+                    <Input
+                      placeholder="例如：分析代码结构"
+                      value={step.name}
+                      onChange={(e) => updateStep(index, { name: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-foreground mb-2 block">
+                    提示词 <span className="text-destructive">*</span>
+                  </label>
+                  <Textarea
+                    rows={4}
+                    placeholder={index > 0 ? `根据上一步的结果继续处理：\n{{steps.${steps[index - 1].id}.result}}` : '详细描述要执行的任务内容...'}
+                    value={step.prompt}
+                    onChange={(e) => updateStep(index, { prompt: e.target.value })}
+                  />
+                </div>
+
+                {steps.length > 1 && (
+                  <div>
+                    <label className="text-sm font-medium text-foreground mb-2 block">依赖步骤</label>
+                    <div className="flex flex-wrap gap-2">
+                      {steps.filter(other => other.id !== step.id).map(other => (
+                        <button
+                          key={other.id}
+                          type="button"
+                          onClick={() => toggleDependency(index, other.id)}
+                          className={cn(
+                            'py-1 px-2 rounded border text-xs font-mono transition-colors',
+                            step.depends_on.includes(other.id)
+                              ? 'text-primary bg-primary/10 border-primary'
+                              : 'text-muted-foreground bg-background border-border hover:bg-accent'
+                          )}
+                        >
+                          {other.id}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="text-sm font-medium text-foreground mb-2 block">执行条件</label>
+                    <Select
+                      value={step.condition}
+                      onValueChange={(value) => updateStep(index, { condition: value as PipelineCondition })}
+                      disabled={step.depends_on.length === 0}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PIPELINE_CONDITIONS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-foreground mb-2 block">任务类型</label>
+                    <Select value={step.type} onValueChange={(value) => updateStep(index, { type: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TASK_TYPES.map(type => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-foreground mb-2 block">优先级</label>
+                    <Select value={step.priority} onValueChange={(value) => updateStep(index, { priority: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PRIORITIES.map(priority => (
+                          <SelectItem key={priority.value} value={priority.value}>{priority.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-foreground mb-2 block">工作目录</label>
+                  <Input
+                    placeholder="/path/to/project（可选）"
+                    value={step.workingDir}
+                    onChange={(e) => updateStep(index, { workingDir: e.target.value })}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          <Button type="button" variant="outline" onClick={addStep} className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            添加步骤
+          </Button>
+
+          {/* 错误信息 */}
+          {errors.length > 0 && (
+            <Card className="border-destructive/50 bg-destructive/10">
+              <CardContent className="pt-6">
+                <div className="flex items-start space-x-2">
+                  <AlertCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
+                  <div className="text-sm text-destructive">
+                    {errors.map((error, index) => (
+                      <p key={index}>{error}</p>
+                    ))}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              取消
+            </Button>
+            <Button type="submit" disabled={createPipeline.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              {createPipeline.isPending ? '创建中...' : '创建流水线'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Hourglass, AlertTriangle } from 'lucide-react'
+import { cn, formatBeijingDateTimeSimple, formatDuration } from '@/lib/utils'
+import { summarizeRateLimits, THROUGHPUT_WINDOW_MS } from '@/lib/rate-limit'
+import { useCLISnapshot } from '@/hooks/use-cli-tasks'
+
+// 每秒刷新当前时间，用于倒计时
+function useNow(intervalMs: number = 1000): number {
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(timer)
+  }, [intervalMs])
+  return now
+}
+
+function formatSpan(ms: number): string {
+  return formatDuration(Math.max(0, Math.ceil(ms / 1000)))
+}
+
+function formatTime(ms: number): string {
+  return formatBeijingDateTimeSimple(new Date(ms).toISOString())
+}
+
+/**
+ * 解封倒计时，时间到达后显示“即将恢复”
+ */
+export function UnbanCountdown({ until, className }: { until: string; className?: string }) {
+  const now = useNow()
+  const remaining = Date.parse(until) - now
+
+  return (
+    <span className={className} title={formatBeijingDateTimeSimple(until)}>
+      {remaining > 0 ? `${formatSpan(remaining)} 后解封` : '即将恢复'}
+    </span>
+  )
+}
+
+/**
+ * 限流面板：等待解封的任务、过去的限流窗口和队列清空预测
+ */
+export function RateLimitPanel() {
+  const { data: snapshot } = useCLISnapshot()
+  const now = useNow()
+  // 汇总每 10 秒重新计算一次，倒计时每秒刷新
+  const summaryTime = Math.floor(now / 10000) * 10000
+  const summary = useMemo(
+    () => snapshot ? summarizeRateLimits(snapshot.tasks, summaryTime) : null,
+    [snapshot, summaryTime]
+  )
+
+  if (!summary) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Hourglass className="h-5 w-5 text-warning" />
+          <span>用量限制</span>
+        </CardTitle>
+        <CardDescription>
+          根据任务的解封时间和限流记录推算，处理速度按最近 {THROUGHPUT_WINDOW_MS / 60000} 分钟结束的任务计算
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {summary.drain_at_risk && summary.next_window_at !== undefined && (
+          <div className="flex items-start space-x-2 rounded-md border border-warning/50 bg-warning/10 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 text-warning mt-0.5 flex-shrink-0" />
+            <span>
+              按当前速度，{summary.backlog} 个待处理任务预计在 {formatTime(summary.drain_at!)} 完成，
+              晚于预计的下一次限流（{formatTime(summary.next_window_at)}），部分任务可能要等到再下一个窗口
+            </span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <div className="space-y-1">
+            <div className="text-sm font-medium text-muted-foreground">等待解封</div>
+            <div className={cn('text-2xl font-bold', summary.waiting.length > 0 && 'text-warning')}>
+              {summary.waiting.length}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {summary.reset_at !== undefined ? `全部解封: ${formatSpan(summary.reset_at - now)} 后` : '当前没有被限流的任务'}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium text-muted-foreground">下一次解封</div>
+            <div className="text-2xl font-bold">
+              {summary.next_unban_at !== undefined ? formatSpan(summary.next_unban_at - now) : '-'}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {summary.unban_duration_ms !== undefined ? `单次限流约 ${formatSpan(summary.unban_duration_ms)}` : '暂无限流时长数据'}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium text-muted-foreground">待处理队列</div>
+            <div className="text-2xl font-bold">{summary.backlog}</div>
+            <div className="text-xs text-muted-foreground">
+              处理速度 {summary.throughput_per_hour.toFixed(1)} 个/小时
+            </div>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium text-muted-foreground">预计清空</div>
+            <div className={cn('text-2xl font-bold', summary.drain_at_risk && 'text-warning')}>
+              {summary.backlog === 0 ? '已清空' : summary.drain_at !== undefined ? formatSpan(summary.drain_at - now) : '无法估算'}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {summary.next_window_at !== undefined
+                ? `预计下一次限流: ${formatTime(summary.next_window_at)}`
+                : '限流记录不足，无法预测下一次限流'}
+            </div>
+          </div>
+        </div>
+
+        {summary.waiting.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">等待解封的任务</div>
+            <div className="divide-y rounded-md border">
+              {summary.waiting.map(task => (
+                <div key={task.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <Link href={`/tasks/${task.id}`} className="truncate hover:text-primary">
+                    {task.name} <span className="text-xs text-muted-foreground font-mono">{task.id}</span>
+                  </Link>
+                  {task.next_allowed_at
+                    ? <UnbanCountdown until={task.next_allowed_at} className="text-warning ml-2 flex-shrink-0" />
+                    : <span className="text-muted-foreground ml-2 flex-shrink-0">解封时间未知</span>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {summary.windows.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">限流记录（最近 7 天）</div>
+            <div className="divide-y rounded-md border">
+              {summary.windows.map(window => (
+                <div key={window.start} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span>
+                    {formatTime(window.start)}
+                    {window.end !== undefined && (
+                      <span className="text-muted-foreground">
+                        {' '}→ {formatTime(window.end)}{window.estimated && '（估算）'}
+                      </span>
+                    )}
+                  </span>
+                  <span className="flex items-center space-x-2 ml-2 flex-shrink-0">
+                    {window.end !== undefined && window.end > now && <Badge variant="warning">进行中</Badge>}
+                    <span className="text-muted-foreground">{window.task_ids.length} 个任务，{window.hits} 次</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
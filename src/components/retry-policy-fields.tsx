@@ -0,0 +1,185 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { formatDuration } from '@/lib/utils'
+import {
+  RETRY_BACKOFF_STRATEGIES,
+  RETRYABLE_ERROR_TYPES,
+  retryDelayRange,
+  retryPolicySchema,
+  type RetryBackoff,
+  type RetryableErrorType,
+  type RetryPolicy
+} from '@/lib/retry-policy'
+
+// 预览中最多列出的重试次数
+const MAX_PREVIEW_RETRIES = 5
+
+/**
+ * 第 retry 次重试前的等待时间，有抖动时显示范围
+ */
+export function formatRetryDelay(policy: RetryPolicy, retry: number): string {
+  const { min, max } = retryDelayRange(policy, retry)
+  return min === max ? formatDuration(min) : `${formatDuration(min)} ~ ${formatDuration(max)}`
+}
+
+/**
+ * 策略的一句话说明，例如「最多执行 4 次，指数退避 30s 起，重试执行错误」
+ */
+export function describeRetryPolicy(policy: RetryPolicy): string {
+  if (policy.max_attempts <= 1 || policy.retryable_errors.length === 0) {
+    return '不自动重试'
+  }
+  const errors = policy.retryable_errors.map(type => RETRYABLE_ERROR_TYPES[type]).join('、')
+  const backoff = policy.backoff === 'fixed'
+    ? `每次间隔 ${formatDuration(policy.delay_seconds)}`
+    : `指数退避 ${formatDuration(policy.delay_seconds)} 起，最长 ${formatDuration(policy.max_delay_seconds)}`
+  return `最多执行 ${policy.max_attempts} 次，${backoff}，重试${errors}`
+}
+
+/**
+ * 按策略计算的每次重试前的等待时间
+ */
+export function RetryDelayPreview({ policy }: { policy: RetryPolicy }) {
+  const retries = Math.min(policy.max_attempts - 1, MAX_PREVIEW_RETRIES)
+  if (retries <= 0 || policy.retryable_errors.length === 0) {
+    return <div className="text-xs text-muted-foreground">失败后不自动重试</div>
+  }
+
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+      {Array.from({ length: retries }, (_, index) => (
+        <span key={index}>第 {index + 2} 次执行前等待 {formatRetryDelay(policy, index + 1)}</span>
+      ))}
+      {policy.max_attempts - 1 > retries && <span>…</span>}
+    </div>
+  )
+}
+
+interface RetryPolicyFieldsProps {
+  policy: RetryPolicy
+  onChange: (policy: RetryPolicy) => void
+  // 同一页面有多组字段时区分 label 的 id
+  idPrefix: string
+}
+
+/**
+ * 重试策略的编辑字段：设置页面按任务类型编辑默认策略，创建任务时覆盖默认策略
+ */
+export function RetryPolicyFields({ policy, onChange, idPrefix }: RetryPolicyFieldsProps) {
+  const update = (changes: Partial<RetryPolicy>) => onChange({ ...policy, ...changes })
+  const toNumber = (value: string) => Math.max(0, Number(value) || 0)
+  const parsed = retryPolicySchema.safeParse(policy)
+
+  const toggleError = (type: RetryableErrorType, checked: boolean) => {
+    update({
+      retryable_errors: checked
+        ? [...policy.retryable_errors, type]
+        : policy.retryable_errors.filter(item => item !== type)
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label htmlFor={`${idPrefix}-max-attempts`} className="text-sm font-medium text-foreground">
+            最多执行次数
+          </label>
+          <Input
+            id={`${idPrefix}-max-attempts`}
+            type="number"
+            min={1}
+            max={20}
+            value={policy.max_attempts}
+            onChange={(e) => update({ max_attempts: Math.floor(toNumber(e.target.value)) })}
+          />
+          <p className="text-xs text-muted-foreground">包括第一次执行，1 表示不重试</p>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground">
+            退避方式
+          </label>
+          <Select value={policy.backoff} onValueChange={(value) => update({ backoff: value as RetryBackoff })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RETRY_BACKOFF_STRATEGIES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label htmlFor={`${idPrefix}-jitter`} className="text-sm font-medium text-foreground">
+            随机抖动 (%)
+          </label>
+          <Input
+            id={`${idPrefix}-jitter`}
+            type="number"
+            min={0}
+            max={100}
+            value={Math.round(policy.jitter * 100)}
+            onChange={(e) => update({ jitter: Math.min(toNumber(e.target.value), 100) / 100 })}
+          />
+          <p className="text-xs text-muted-foreground">等待时间在此比例内随机浮动</p>
+        </div>
+        <div className="space-y-2">
+          <label htmlFor={`${idPrefix}-delay`} className="text-sm font-medium text-foreground">
+            重试间隔 (秒)
+          </label>
+          <Input
+            id={`${idPrefix}-delay`}
+            type="number"
+            min={0}
+            value={policy.delay_seconds}
+            onChange={(e) => update({ delay_seconds: Math.floor(toNumber(e.target.value)) })}
+          />
+          {policy.backoff === 'exponential' && (
+            <p className="text-xs text-muted-foreground">第一次重试前的等待时间，之后每次翻倍</p>
+          )}
+        </div>
+        {policy.backoff === 'exponential' && (
+          <div className="space-y-2">
+            <label htmlFor={`${idPrefix}-max-delay`} className="text-sm font-medium text-foreground">
+              最大间隔 (秒)
+            </label>
+            <Input
+              id={`${idPrefix}-max-delay`}
+              type="number"
+              min={0}
+              value={policy.max_delay_seconds}
+              onChange={(e) => update({ max_delay_seconds: Math.floor(toNumber(e.target.value)) })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-foreground">自动重试的错误</div>
+        <div className="flex flex-wrap gap-4">
+          {Object.entries(RETRYABLE_ERROR_TYPES).map(([type, label]) => (
+            <label key={type} className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={policy.retryable_errors.includes(type as RetryableErrorType)}
+                onChange={(e) => toggleError(type as RetryableErrorType, e.target.checked)}
+                className="rounded"
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">用量限制的重试在解封后开始，不使用上面的间隔</p>
+      </div>
+
+      {parsed.success ? (
+        <RetryDelayPreview policy={policy} />
+      ) : (
+        <div className="text-xs text-destructive">{parsed.error.issues[0].message}</div>
+      )}
+    </div>
+  )
+}
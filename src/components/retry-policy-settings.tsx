@@ -0,0 +1,101 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { RetryPolicyFields, describeRetryPolicy } from '@/components/retry-policy-fields'
+import { Loader2, RotateCcw, RotateCw, Save } from 'lucide-react'
+import { TaskType } from '@/types'
+import { DEFAULT_RETRY_POLICIES, retryPolicySchema } from '@/lib/retry-policy'
+import type { RetryPolicies } from '@/lib/retry-policies'
+import { useCLIRetryPolicies, useSaveCLIRetryPolicies } from '@/hooks/use-cli-tasks'
+import { toast } from '@/components/ui/sonner'
+
+const TASK_TYPE_LABELS: Record<TaskType, string> = {
+  [TaskType.LIGHTWEIGHT]: '轻量级任务',
+  [TaskType.MEDIUM_CONTEXT]: '中等上下文任务',
+  [TaskType.HEAVY_CONTEXT]: '重型上下文任务'
+}
+
+/**
+ * 按任务类型编辑默认重试策略，保存到当前后端，之后创建的任务生效
+ */
+export function RetryPolicySettings() {
+  const { data: policies, isLoading, error } = useCLIRetryPolicies()
+  const saveMutation = useSaveCLIRetryPolicies()
+  const [draft, setDraft] = useState<RetryPolicies | null>(null)
+
+  // 加载或切换后端后用服务端的策略重置草稿
+  useEffect(() => {
+    if (policies) setDraft(policies)
+  }, [policies])
+
+  const hasChanges = !!draft && !!policies && JSON.stringify(draft) !== JSON.stringify(policies)
+  const isValid = !!draft && Object.values(draft).every(policy => retryPolicySchema.safeParse(policy).success)
+
+  const handleSave = async () => {
+    if (!draft) return
+    try {
+      await saveMutation.mutateAsync(draft)
+      toast.success('重试策略已保存')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '保存重试策略失败')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2">
+              <RotateCw className="h-5 w-5" />
+              <span>重试策略</span>
+            </CardTitle>
+            <CardDescription>
+              每种任务类型的默认重试策略，创建任务时可以单独覆盖；只对之后创建的任务生效
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => setDraft(DEFAULT_RETRY_POLICIES)} disabled={!draft}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              恢复默认
+            </Button>
+            <Button onClick={handleSave} disabled={!hasChanges || !isValid || saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              保存策略
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || (!draft && !error) ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            加载中...
+          </div>
+        ) : error || !draft ? (
+          <div className="text-sm text-destructive">加载重试策略失败: {error?.message}</div>
+        ) : (
+          Object.values(TaskType).map(type => (
+            <div key={type} className="space-y-3 rounded-lg border p-4">
+              <div>
+                <div className="font-medium">{TASK_TYPE_LABELS[type]}</div>
+                <div className="text-xs text-muted-foreground">{describeRetryPolicy(draft[type])}</div>
+              </div>
+              <RetryPolicyFields
+                idPrefix={`retry-${type}`}
+                policy={draft[type]}
+                onChange={policy => setDraft({ ...draft, [type]: policy })}
+              />
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,10 +10,19 @@ import {
   Shield, 
   Settings,
   Activity,
-  FileText
+  FileText,
+  Server,
+  Workflow,
+  Inbox,
+  Bookmark,
+  ChartGantt
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { LogoutButton } from '@/components/logout-button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useCLIBackend } from '@/lib/cli-backend-context'
+import { useCLIInbox } from '@/hooks/use-cli-tasks'
+import { useTaskViews } from '@/hooks/use-task-views'
 
 const navigation = [
   {
@@ -28,6 +37,18 @@ const navigation = [
     icon: ListTodo,
     description: '创建、管理和监控任务'
   },
+  {
+    name: '审批',
+    href: '/inbox',
+    icon: Inbox,
+    description: '处理等待确认和人工审核的任务'
+  },
+  {
+    name: '流水线',
+    href: '/pipelines',
+    icon: Workflow,
+    description: '按依赖关系串联多个任务'
+  },
   {
     name: '任务模版',
     href: '/templates',
@@ -40,6 +61,12 @@ const navigation = [
     icon: Users,
     description: '查看和管理Claude工作器'
   },
+  {
+    name: '时间线',
+    href: '/timeline',
+    icon: ChartGantt,
+    description: '按工作器查看任务执行时间线'
+  },
   {
     name: '监控',
     href: '/monitoring',
@@ -62,6 +89,9 @@ const navigation = [
 
 export default function Sidebar() {
   const pathname = usePathname()
+  const { backend, backends, setBackend } = useCLIBackend()
+  const { data: inbox } = useCLIInbox()
+  const { views } = useTaskViews()
 
   return (
     <div className="flex flex-col w-64 bg-card border-r border-border">
@@ -75,36 +105,79 @@ export default function Sidebar() {
         </div>
       </div>
 
+      {/* Backend Switcher - 只有配置了多个后端时显示 */}
+      {backends.length > 1 && (
+        <div className="px-4 py-3 border-b border-border">
+          <div className="flex items-center text-xs text-muted-foreground mb-1.5">
+            <Server className="h-3.5 w-3.5 mr-1" />
+            cc-agent 后端
+          </div>
+          <Select value={backend ?? backends[0].id} onValueChange={setBackend}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {backends.map(item => (
+                <SelectItem key={item.id} value={item.id}>
+                  {item.name}{item.type === 'remote' ? '（远程）' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* Navigation */}
       <nav className="flex-1 px-2 py-4 space-y-1 overflow-y-auto">
         {navigation.map((item) => {
           const isActive = pathname === item.href
           return (
-            <Link
-              key={item.name}
-              href={item.href}
-              className={cn(
-                'group flex items-center px-2 py-2 text-sm font-medium rounded-md transition-colors',
-                isActive
-                  ? 'bg-primary text-primary-foreground'
-                  : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
-              )}
-            >
-              <item.icon
+            <div key={item.name}>
+              <Link
+                href={item.href}
                 className={cn(
-                  'mr-3 h-5 w-5 flex-shrink-0',
-                  isActive ? 'text-primary-foreground' : 'text-muted-foreground group-hover:text-accent-foreground'
+                  'group flex items-center px-2 py-2 text-sm font-medium rounded-md transition-colors',
+                  isActive
+                    ? 'bg-primary text-primary-foreground'
+                    : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
                 )}
-              />
-              <div className="flex-1">
-                <div className="text-sm font-medium">{item.name}</div>
-                {!isActive && (
-                  <div className="text-xs text-muted-foreground mt-0.5 group-hover:text-accent-foreground/80">
-                    {item.description}
+              >
+                <item.icon
+                  className={cn(
+                    'mr-3 h-5 w-5 flex-shrink-0',
+                    isActive ? 'text-primary-foreground' : 'text-muted-foreground group-hover:text-accent-foreground'
+                  )}
+                />
+                <div className="flex-1">
+                  <div className="flex items-center justify-between text-sm font-medium">
+                    {item.name}
+                    {/* 审批收件箱的未读数 */}
+                    {item.href === '/inbox' && !!inbox?.unread && (
+                      <span className="ml-2 min-w-5 rounded-full bg-destructive px-1.5 text-center text-xs leading-5 text-destructive-foreground">
+                        {inbox.unread > 99 ? '99+' : inbox.unread}
+                      </span>
+                    )}
                   </div>
-                )}
-              </div>
-            </Link>
+                  {!isActive && (
+                    <div className="text-xs text-muted-foreground mt-0.5 group-hover:text-accent-foreground/80">
+                      {item.description}
+                    </div>
+                  )}
+                </div>
+              </Link>
+              {/* 任务管理下列出当前用户保存的视图 */}
+              {item.href === '/tasks' && views.map(view => (
+                <Link
+                  key={view.id}
+                  href={`/tasks?q=${encodeURIComponent(view.query)}`}
+                  className="flex items-center pl-10 pr-2 py-1 text-xs text-muted-foreground rounded-md hover:bg-accent hover:text-accent-foreground"
+                  title={view.query}
+                >
+                  <Bookmark className="mr-2 h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">{view.name}</span>
+                </Link>
+              ))}
+            </div>
           )
         })}
       </nav>
@@ -0,0 +1,94 @@
+import { Badge } from '@/components/ui/badge'
+import { describeRetryPolicy, formatRetryDelay } from '@/components/retry-policy-fields'
+import { CheckCircle2, Clock, Hourglass, Loader2, Pause, UserCheck, XCircle } from 'lucide-react'
+import { cn, formatDateTime, formatRelativeTime } from '@/lib/utils'
+import { buildAttemptHistory, RETRYABLE_ERROR_TYPES, type TaskAttempt, type TaskAttemptStatus } from '@/lib/retry-policy'
+import type { CLITask } from '@/services/cli-service'
+
+const STATUS_DISPLAY: Record<TaskAttemptStatus, { label: string; icon: typeof Clock; className: string }> = {
+  failed: { label: '失败', icon: XCircle, className: 'text-destructive' },
+  succeeded: { label: '成功', icon: CheckCircle2, className: 'text-success' },
+  running: { label: '执行中', icon: Loader2, className: 'text-primary animate-spin' },
+  scheduled: { label: '等待执行', icon: Clock, className: 'text-muted-foreground' },
+  awaiting_review: { label: '等待人工处理', icon: UserCheck, className: 'text-warning' },
+  paused: { label: '已暂停', icon: Pause, className: 'text-muted-foreground' }
+}
+
+function errorLabel(type: string): string {
+  return RETRYABLE_ERROR_TYPES[type as keyof typeof RETRYABLE_ERROR_TYPES] ?? type
+}
+
+/**
+ * 失败后到下一次执行之间的等待：用量限制等到解封，其他错误按策略退避
+ */
+function RetryWait({ task, attempt }: { task: CLITask; attempt: TaskAttempt }) {
+  const text = attempt.error_type === 'rate_limit'
+    ? '等待用量限制解封后重试'
+    : task.retry_policy
+      ? `按策略等待 ${formatRetryDelay(task.retry_policy, attempt.number)} 后重试`
+      : '重试'
+
+  return (
+    <div className="flex items-center gap-2 py-1 pl-7 text-xs text-muted-foreground">
+      <Hourglass className="h-3 w-3" />
+      {text}
+    </div>
+  )
+}
+
+/**
+ * 任务的每次执行：由错误记录和当前状态推导，失败的执行显示错误和是否继续重试
+ */
+export function TaskAttemptHistory({ task }: { task: CLITask }) {
+  const attempts = buildAttemptHistory(task)
+  const maxAttempts = task.retry_policy?.max_attempts ?? (task.max_retries !== undefined ? task.max_retries + 1 : undefined)
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1 text-sm">
+        <div className="flex items-center justify-between">
+          <span className="text-muted-foreground">已执行</span>
+          <span className="font-medium">
+            {attempts.filter(attempt => attempt.status !== 'scheduled').length}
+            {maxAttempts !== undefined && ` / ${maxAttempts} 次`}
+          </span>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {task.retry_policy ? describeRetryPolicy(task.retry_policy) : '创建时没有记录重试策略'}
+        </div>
+      </div>
+
+      <div className="border-t pt-3">
+        {attempts.map((attempt, index) => {
+          const display = STATUS_DISPLAY[attempt.status]
+          const Icon = display.icon
+          const retried = attempt.status === 'failed' && index < attempts.length - 1
+
+          return (
+            <div key={attempt.number}>
+              <div className="flex gap-3 py-1">
+                <Icon className={cn('h-4 w-4 mt-0.5 flex-shrink-0', display.className)} />
+                <div className="flex-1 min-w-0 space-y-0.5 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">第 {attempt.number} 次</span>
+                    <Badge variant="outline" className="text-xs">{display.label}</Badge>
+                    {attempt.error_type && <Badge variant="secondary" className="text-xs">{errorLabel(attempt.error_type)}</Badge>}
+                  </div>
+                  {attempt.at && (
+                    <div className="text-xs text-muted-foreground" title={formatDateTime(attempt.at)}>
+                      {attempt.status === 'scheduled' ? '计划于 ' : attempt.status === 'running' ? '开始于 ' : ''}
+                      {formatRelativeTime(attempt.at)}
+                    </div>
+                  )}
+                  {attempt.message && <div className="text-xs text-destructive break-words">{attempt.message}</div>}
+                  {attempt.stop_reason && <div className="text-xs text-muted-foreground">未重试：{attempt.stop_reason}</div>}
+                </div>
+              </div>
+              {retried && <RetryWait task={task} attempt={attempt} />}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
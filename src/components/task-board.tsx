@@ -0,0 +1,254 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { BulkTaskDialog } from '@/components/bulk-task-dialog'
+import { UnbanCountdown } from '@/components/rate-limit-panel'
+import { GripVertical } from 'lucide-react'
+import { cn, formatBeijingDateTimeSimple, getPriorityColor } from '@/lib/utils'
+import { useCLITaskAction } from '@/hooks/use-cli-tasks'
+import { useWebSocketMessage } from '@/hooks/use-websocket'
+import type { TaskStatusMessage } from '@/services/websocket'
+import type { CLITask } from '@/services/cli-service'
+import { toast } from '@/components/ui/sonner'
+
+type BoardColumnId =
+  | 'pending'
+  | 'processing'
+  | 'paused'
+  | 'waiting_unban'
+  | 'retrying'
+  | 'awaiting_confirmation'
+  | 'completed'
+  | 'failed'
+
+const BOARD_COLUMNS: Array<{ id: BoardColumnId; label: string; states: string[] }> = [
+  { id: 'pending', label: '等待中', states: ['pending'] },
+  { id: 'processing', label: '处理中', states: ['processing'] },
+  { id: 'paused', label: '暂停', states: ['paused'] },
+  { id: 'waiting_unban', label: '等待解封', states: ['waiting_unban'] },
+  { id: 'retrying', label: '重试中', states: ['retrying'] },
+  { id: 'awaiting_confirmation', label: '等待确认', states: ['awaiting_confirmation', 'needs_human_review'] },
+  { id: 'completed', label: '已完成', states: ['completed'] },
+  { id: 'failed', label: '失败', states: ['failed'] }
+]
+
+type BoardAction = 'pause' | 'resume' | 'retry' | 'cancel'
+
+interface BoardTransition {
+  from: string[]
+  to: BoardColumnId[]
+  action: BoardAction
+  force?: boolean
+  // 操作成功后任务预期进入的状态，在下一次刷新前先按这个状态显示
+  expected: string
+}
+
+// 拖动到其他列时允许的操作，与 taskctl 对各状态的限制一致，不在表中的移动一律拒绝
+const BOARD_TRANSITIONS: BoardTransition[] = [
+  { from: ['pending', 'processing'], to: ['paused'], action: 'pause', expected: 'paused' },
+  { from: ['paused'], to: ['pending'], action: 'resume', expected: 'pending' },
+  { from: ['failed'], to: ['pending', 'retrying'], action: 'retry', expected: 'retrying' },
+  { from: ['completed'], to: ['pending', 'retrying'], action: 'retry', force: true, expected: 'retrying' },
+  { from: ['pending', 'processing', 'paused', 'waiting_unban', 'retrying'], to: ['failed'], action: 'cancel', expected: 'failed' }
+]
+
+const ACTION_LABELS: Record<BoardAction, string> = {
+  pause: '暂停',
+  resume: '恢复',
+  retry: '重试',
+  cancel: '取消'
+}
+
+const PRIORITY_LABELS: Record<string, string> = {
+  urgent: '紧急',
+  high: '高',
+  normal: '普通',
+  low: '低'
+}
+
+// WebSocket 推送的状态与 taskctl 的状态名称不同
+const REALTIME_STATES: Record<TaskStatusMessage['data']['status'], string> = {
+  pending: 'pending',
+  running: 'processing',
+  completed: 'completed',
+  failed: 'failed',
+  cancelled: 'failed'
+}
+
+// 每列最多显示的卡片数，已完成和失败的任务较多时只显示最近的
+const COLUMN_LIMIT = 50
+
+function findTransition(state: string, column: BoardColumnId): BoardTransition | undefined {
+  return BOARD_TRANSITIONS.find(transition => transition.from.includes(state) && transition.to.includes(column))
+}
+
+function columnOf(state: string): BoardColumnId | undefined {
+  return BOARD_COLUMNS.find(column => column.states.includes(state))?.id
+}
+
+interface TaskBoardProps {
+  tasks: CLITask[]
+  // 任务数据的更新时间，比它早的本地状态覆盖不再生效
+  updatedAt: number
+}
+
+/**
+ * 任务看板：每个状态一列，把卡片拖到其他列执行对应的操作
+ */
+export function TaskBoard({ tasks, updatedAt }: TaskBoardProps) {
+  const taskActionMutation = useCLITaskAction()
+  const [dragging, setDragging] = useState<CLITask | null>(null)
+  const [dropTarget, setDropTarget] = useState<BoardColumnId | null>(null)
+  const [cancelTask, setCancelTask] = useState<CLITask | null>(null)
+  // 操作成功或收到实时推送后先在本地移动卡片，直到下一次刷新拿到新数据
+  const [overrides, setOverrides] = useState<Record<string, { state: string; at: number }>>({})
+
+  const overrideState = useCallback((taskId: string, state: string) => {
+    setOverrides(prev => ({ ...prev, [taskId]: { state, at: Date.now() } }))
+  }, [])
+
+  const handleTaskStatus = useCallback((message: TaskStatusMessage) => {
+    overrideState(message.data.taskId, REALTIME_STATES[message.data.status] ?? message.data.status)
+  }, [overrideState])
+
+  useWebSocketMessage('task_status', handleTaskStatus, [handleTaskStatus])
+
+  const boardTasks = tasks.map(task => {
+    const override = overrides[task.id]
+    return override && override.at > updatedAt ? { ...task, task_state: override.state } : task
+  })
+
+  const handleDrop = async (column: BoardColumnId) => {
+    const task = dragging
+    setDragging(null)
+    setDropTarget(null)
+    if (!task || columnOf(task.task_state) === column) return
+
+    const transition = findTransition(task.task_state, column)
+    if (!transition) {
+      const from = BOARD_COLUMNS.find(item => item.id === columnOf(task.task_state))?.label ?? task.task_state
+      const to = BOARD_COLUMNS.find(item => item.id === column)?.label
+      toast.error(`不能把任务从“${from}”移到“${to}”`)
+      return
+    }
+
+    // 取消任务无法撤销，先确认
+    if (transition.action === 'cancel') {
+      setCancelTask(task)
+      return
+    }
+
+    const result = await taskActionMutation.mutateAsync({ taskId: task.id, action: transition.action, force: transition.force })
+    if (result.success) {
+      overrideState(task.id, transition.expected)
+      toast.success(`已${ACTION_LABELS[transition.action]}任务 ${task.name}`)
+    } else {
+      toast.error(`${ACTION_LABELS[transition.action]}任务失败: ${result.message}`)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {BOARD_COLUMNS.map(column => {
+          const columnTasks = boardTasks
+            .filter(task => column.states.includes(task.task_state))
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          const allowed = dragging ? !!findTransition(dragging.task_state, column.id) : false
+          const isSource = dragging ? columnOf(dragging.task_state) === column.id : false
+
+          return (
+            <div
+              key={column.id}
+              className={cn(
+                'flex flex-col w-72 flex-shrink-0 rounded-lg border bg-muted/40 transition-colors',
+                dragging && !isSource && !allowed && 'opacity-50',
+                dropTarget === column.id && allowed && 'border-primary bg-primary/5'
+              )}
+              onDragOver={event => {
+                if (!dragging || isSource) return
+                // 不允许的列也接收放下，放下时提示不能移动的原因
+                event.preventDefault()
+                setDropTarget(column.id)
+              }}
+              onDragLeave={() => setDropTarget(current => current === column.id ? null : current)}
+              onDrop={event => {
+                event.preventDefault()
+                handleDrop(column.id)
+              }}
+            >
+              <div className="flex items-center justify-between px-3 py-2 border-b">
+                <span className="text-sm font-medium">{column.label}</span>
+                <Badge variant="outline">{columnTasks.length}</Badge>
+              </div>
+              <div className="flex-1 space-y-2 p-2 max-h-[calc(100vh-22rem)] min-h-32 overflow-y-auto">
+                {columnTasks.slice(0, COLUMN_LIMIT).map(task => (
+                  // 状态变化时卡片在新的列中重新挂载，淡入提示移动
+                  <div
+                    key={`${task.id}:${task.task_state}`}
+                    draggable
+                    onDragStart={event => {
+                      event.dataTransfer.effectAllowed = 'move'
+                      event.dataTransfer.setData('text/plain', task.id)
+                      setDragging(task)
+                    }}
+                    onDragEnd={() => {
+                      setDragging(null)
+                      setDropTarget(null)
+                    }}
+                    className={cn(
+                      'animate-fade-in rounded-md border bg-card p-3 text-sm shadow-sm cursor-grab active:cursor-grabbing',
+                      dragging?.id === task.id && 'opacity-50'
+                    )}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <Link href={`/tasks/${task.id}`} className="font-medium hover:text-primary line-clamp-2" draggable={false}>
+                        {task.name}
+                      </Link>
+                      <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    </div>
+                    <div className="mt-1 text-xs text-muted-foreground font-mono truncate">{task.id}</div>
+                    <div className="mt-2 flex flex-wrap items-center gap-1">
+                      <Badge className={cn('text-xs', getPriorityColor(task.priority))}>
+                        {PRIORITY_LABELS[task.priority] ?? task.priority}
+                      </Badge>
+                      {task.task_state === 'needs_human_review' && <Badge variant="warning" className="text-xs">需要审核</Badge>}
+                      {task.retry_count > 0 && <Badge variant="outline" className="text-xs">重试 {task.retry_count} 次</Badge>}
+                      {task.tags?.map(tag => <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>)}
+                    </div>
+                    {task.task_state === 'waiting_unban' && task.next_allowed_at ? (
+                      <UnbanCountdown until={task.next_allowed_at} className="mt-2 block text-xs text-warning" />
+                    ) : (
+                      <div className="mt-2 text-xs text-muted-foreground">
+                        {formatBeijingDateTimeSimple(task.completed_at ?? task.started_at ?? task.created_at)}
+                      </div>
+                    )}
+                    {task.task_state === 'failed' && task.last_error && (
+                      <div className="mt-2 text-xs text-destructive line-clamp-2" title={task.last_error}>{task.last_error}</div>
+                    )}
+                  </div>
+                ))}
+                {columnTasks.length > COLUMN_LIMIT && (
+                  <Link
+                    href={`/tasks?q=${encodeURIComponent(`state:${column.states.join(',')}`)}`}
+                    className="block text-center text-xs text-muted-foreground hover:text-primary py-1"
+                  >
+                    还有 {columnTasks.length - COLUMN_LIMIT} 个任务，在列表中查看
+                  </Link>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <BulkTaskDialog
+        action={cancelTask ? 'cancel' : null}
+        tasks={cancelTask ? [cancelTask] : []}
+        onClose={() => setCancelTask(null)}
+      />
+    </>
+  )
+}
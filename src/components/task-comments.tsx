@@ -0,0 +1,223 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Markdown } from '@/components/markdown'
+import { Link2, Loader2, Send, Trash2, X } from 'lucide-react'
+import { formatDateTime, formatRelativeTime } from '@/lib/utils'
+import { stripAnsi } from '@/lib/ansi'
+import { useCLITaskComments, useAddCLITaskComment, useDeleteCLITaskComment } from '@/hooks/use-cli-tasks'
+import { toast } from '@/components/ui/sonner'
+
+// @ 后面最多提示的用户数
+const MAX_SUGGESTIONS = 6
+
+interface TaskCommentsProps {
+  taskId: string
+  // 任务日志，用于保存关联行的内容
+  logs: string[]
+  // 在日志查看器中选中的行，发表评论时关联到这一行
+  selectedLine: number | null
+  onClearSelectedLine: () => void
+}
+
+/**
+ * 光标前正在输入的 @用户名，没有时返回 null
+ */
+function mentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = /(?:^|[^\w@])@([\w.-]*)$/.exec(text.slice(0, caret))
+  return match ? { query: match[1], start: caret - match[1].length - 1 } : null
+}
+
+// 跳转到日志中的某一行；hash 没有变化时也要重新定位
+function jumpToLogLine(line: number) {
+  const hash = `#L${line}`
+  if (window.location.hash === hash) {
+    window.dispatchEvent(new HashChangeEvent('hashchange'))
+  } else {
+    window.location.hash = hash
+  }
+}
+
+/**
+ * 任务评论：Markdown 正文、@ 提到用户、关联到日志行
+ */
+export function TaskComments({ taskId, logs, selectedLine, onClearSelectedLine }: TaskCommentsProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [body, setBody] = useState('')
+  const [caret, setCaret] = useState(0)
+  const [preview, setPreview] = useState(false)
+  const { data: thread, isLoading, error } = useCLITaskComments(taskId)
+  const addMutation = useAddCLITaskComment()
+  const deleteMutation = useDeleteCLITaskComment()
+
+  const users = thread?.users ?? []
+  const comments = thread?.comments ?? []
+  const selectedText = selectedLine !== null && logs[selectedLine - 1] !== undefined ? stripAnsi(logs[selectedLine - 1]) : undefined
+
+  const mention = mentionQuery(body, caret)
+  const suggestions = mention
+    ? users.filter(user => user.toLowerCase().startsWith(mention.query.toLowerCase())).slice(0, MAX_SUGGESTIONS)
+    : []
+
+  const insertMention = (user: string) => {
+    if (!mention) return
+    const next = `${body.slice(0, mention.start)}@${user} ${body.slice(caret)}`
+    const position = mention.start + user.length + 2
+    setBody(next)
+    setCaret(position)
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(position, position)
+    })
+  }
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return
+    try {
+      await addMutation.mutateAsync({
+        taskId,
+        body,
+        ...(selectedLine !== null ? { log_line: selectedLine, log_text: selectedText } : {})
+      })
+      setBody('')
+      setPreview(false)
+      onClearSelectedLine()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '发表评论失败')
+    }
+  }
+
+  const handleDelete = async (commentId: string) => {
+    if (!window.confirm('确定要删除这条评论吗？')) return
+    try {
+      await deleteMutation.mutateAsync({ taskId, commentId })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '删除评论失败')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* 评论列表 */}
+      {isLoading ? (
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          加载中...
+        </div>
+      ) : error ? (
+        <div className="text-sm text-destructive">加载评论失败: {error.message}</div>
+      ) : comments.length === 0 ? (
+        <div className="text-sm text-muted-foreground">还没有评论</div>
+      ) : (
+        <div className="space-y-3">
+          {comments.map(comment => (
+            <div key={comment.id} className="flex gap-3">
+              <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-primary/10 text-sm font-medium text-primary">
+                {comment.author.slice(0, 1).toUpperCase()}
+              </div>
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">{comment.author}</span>
+                  <span className="text-xs text-muted-foreground" title={formatDateTime(comment.created_at)}>
+                    {formatRelativeTime(comment.created_at)}
+                  </span>
+                  {thread?.username === comment.author && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto h-6 px-2 text-muted-foreground"
+                      onClick={() => handleDelete(comment.id)}
+                      disabled={deleteMutation.isPending}
+                      title="删除评论"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+                {comment.log_line !== undefined && (
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 rounded bg-muted px-2 py-1 text-left font-mono text-xs text-muted-foreground hover:bg-accent"
+                    onClick={() => jumpToLogLine(comment.log_line!)}
+                    title="跳转到日志中的这一行"
+                  >
+                    <Link2 className="h-3 w-3 flex-shrink-0" />
+                    <span className="flex-shrink-0">L{comment.log_line}</span>
+                    {comment.log_text && <span className="truncate">{comment.log_text}</span>}
+                  </button>
+                )}
+                <Markdown text={comment.body} mentions={comment.mentions} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* 发表评论 */}
+      <div className="space-y-2 border-t pt-4">
+        {selectedLine !== null ? (
+          <div className="flex items-center gap-2 rounded bg-muted px-2 py-1 font-mono text-xs text-muted-foreground">
+            <Link2 className="h-3 w-3 flex-shrink-0" />
+            <span className="flex-shrink-0">关联日志第 {selectedLine} 行</span>
+            {selectedText && <span className="truncate">{selectedText}</span>}
+            <button type="button" className="ml-auto flex-shrink-0 hover:text-foreground" onClick={onClearSelectedLine} title="取消关联">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ) : (
+          <div className="text-xs text-muted-foreground">点击日志的行号可以把评论关联到那一行</div>
+        )}
+
+        {preview ? (
+          <div className="min-h-[80px] rounded-md border px-3 py-2">
+            {body.trim() ? <Markdown text={body} mentions={users} /> : <span className="text-sm text-muted-foreground">没有内容</span>}
+          </div>
+        ) : (
+          <Textarea
+            ref={textareaRef}
+            value={body}
+            onChange={event => {
+              setBody(event.target.value)
+              setCaret(event.target.selectionStart)
+            }}
+            onSelect={event => setCaret(event.currentTarget.selectionStart)}
+            onKeyDown={event => {
+              if (event.key === 'Tab' && suggestions.length > 0) {
+                event.preventDefault()
+                insertMention(suggestions[0])
+              } else if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+                event.preventDefault()
+                handleSubmit()
+              }
+            }}
+            placeholder="支持 Markdown，输入 @ 提到其他用户，Ctrl+Enter 发表"
+            rows={3}
+          />
+        )}
+
+        {!preview && suggestions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 text-xs">
+            <span className="text-muted-foreground">提到：</span>
+            {suggestions.map(user => (
+              <Button key={user} variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => insertMention(user)}>
+                @{user}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setPreview(!preview)}>
+            {preview ? '编辑' : '预览'}
+          </Button>
+          <Button size="sm" onClick={handleSubmit} disabled={!body.trim() || addMutation.isPending}>
+            {addMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+            发表评论
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
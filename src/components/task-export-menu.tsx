@@ -0,0 +1,75 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuCheckboxItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from '@/components/ui/dropdown-menu'
+import { Download } from 'lucide-react'
+import { CLIService } from '@/services/cli-service'
+import { useCLIBackend } from '@/lib/cli-backend-context'
+
+const EXPORT_FORMATS = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'ndjson', label: 'NDJSON' }
+] as const
+
+interface TaskExportMenuProps {
+  // 任务页当前的查询，导出与列表相同的任务
+  query?: string
+  // 只导出指定任务（任务详情页）
+  taskIds?: string[]
+  disabled?: boolean
+  size?: React.ComponentProps<typeof Button>['size']
+}
+
+/**
+ * 导出按钮：选择格式后由浏览器直接下载，勾选日志时下载 zip
+ */
+export function TaskExportMenu({ query, taskIds, disabled, size }: TaskExportMenuProps) {
+  const { backend } = useCLIBackend()
+  const [withLogs, setWithLogs] = useState(false)
+
+  const handleExport = (format: typeof EXPORT_FORMATS[number]['value']) => {
+    const link = document.createElement('a')
+    link.href = CLIService.getExportUrl(backend, { format, query, taskIds, withLogs })
+    link.download = ''
+    link.click()
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} disabled={disabled}>
+          <Download className="h-4 w-4 mr-2" />
+          导出
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{taskIds ? '导出任务' : query ? '导出查询结果' : '导出全部任务'}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map(format => (
+          <DropdownMenuItem key={format.value} onSelect={() => handleExport(format.value)}>
+            {format.label}{withLogs ? ' + 日志 (zip)' : ''}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={withLogs}
+          onCheckedChange={(checked) => setWithLogs(checked === true)}
+          // 切换选项时保持菜单打开
+          onSelect={(e) => e.preventDefault()}
+        >
+          包含日志
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Search, X, Bookmark, HelpCircle, AlertCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { TASK_QUERY_FIELDS, TaskQueryError } from '@/lib/task-query'
+import { useTaskViews, useSaveTaskView, useDeleteTaskView } from '@/hooks/use-task-views'
+import { toast } from '@/components/ui/sonner'
+
+interface TaskSearchBarProps {
+  // 当前生效的查询（来自 URL）
+  query: string
+  onQueryChange: (query: string) => void
+  // 服务端返回的查询错误
+  error?: Error | null
+}
+
+/**
+ * 任务查询输入框：回车后生效，可以把当前查询保存为视图
+ */
+export function TaskSearchBar({ query, onQueryChange, error }: TaskSearchBarProps) {
+  const [input, setInput] = useState(query)
+  const [showHelp, setShowHelp] = useState(false)
+  const [viewName, setViewName] = useState<string | null>(null)
+  const { views } = useTaskViews()
+  const saveView = useSaveTaskView()
+  const deleteView = useDeleteTaskView()
+
+  // 通过链接或侧边栏切换视图时同步输入框
+  useEffect(() => {
+    setInput(query)
+  }, [query])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onQueryChange(input.trim())
+  }
+
+  const handleSaveView = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!viewName?.trim()) return
+
+    try {
+      await saveView.mutateAsync({ name: viewName.trim(), query })
+      toast.success('视图已保存')
+      setViewName(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '保存视图失败')
+    }
+  }
+
+  const handleDeleteView = async (id: string, name: string) => {
+    if (!window.confirm(`确定要删除视图 "${name}" 吗？`)) return
+    try {
+      await deleteView.mutateAsync(id)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '删除视图失败')
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-3">
+        <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              className="pl-9 font-mono"
+              placeholder='state:failed type:heavy_context tag:twitter created:>2026-10-01 "error text"'
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+            />
+          </div>
+          <Button type="submit">搜索</Button>
+          {query && (
+            <Button type="button" variant="outline" onClick={() => onQueryChange('')}>
+              <X className="h-4 w-4 mr-1" />
+              清除
+            </Button>
+          )}
+          {query && !error && (
+            <Button type="button" variant="outline" onClick={() => setViewName(viewName === null ? '' : null)}>
+              <Bookmark className="h-4 w-4 mr-1" />
+              保存视图
+            </Button>
+          )}
+          <Button type="button" variant="ghost" size="sm" onClick={() => setShowHelp(!showHelp)} title="查询语法">
+            <HelpCircle className="h-4 w-4" />
+          </Button>
+        </form>
+
+        {viewName !== null && (
+          <form onSubmit={handleSaveView} className="flex items-center space-x-2">
+            <Input
+              autoFocus
+              placeholder="视图名称，同名视图会被覆盖"
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+            />
+            <Button type="submit" disabled={!viewName.trim() || saveView.isPending}>保存</Button>
+          </form>
+        )}
+
+        {error && (
+          <div className="flex items-start space-x-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{error instanceof TaskQueryError ? `查询语法错误: ${error.message}` : error.message}</span>
+          </div>
+        )}
+
+        {showHelp && (
+          <div className="text-xs text-muted-foreground bg-muted p-3 rounded space-y-1">
+            <p>多个条件用空格分隔，全部满足才匹配；字段取值用逗号分隔表示“或”，前面加 <code>-</code> 表示排除，其他内容在名称、描述、错误信息和 ID 中查找。</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+              {Object.entries(TASK_QUERY_FIELDS).map(([field, { description }]) => (
+                <div key={field}>
+                  <code className="text-foreground">{field}:</code> {description}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {views.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground">保存的视图:</span>
+            {views.map(view => (
+              <span
+                key={view.id}
+                className={cn(
+                  'inline-flex items-center rounded border text-xs transition-colors',
+                  view.query === query ? 'text-primary bg-primary/10 border-primary' : 'bg-background border-border hover:bg-accent'
+                )}
+              >
+                <button type="button" className="py-1 pl-2 pr-1" onClick={() => onQueryChange(view.query)} title={view.query}>
+                  {view.name}
+                </button>
+                <button
+                  type="button"
+                  className="py-1 pr-2 pl-1 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDeleteView(view.id, view.name)}
+                  title="删除视图"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,305 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { ZoomIn, ZoomOut, ChevronLeft, ChevronRight, LocateFixed } from 'lucide-react'
+import { cn, formatBeijingDateTimeSimple, formatDuration, utcToBeijingTime } from '@/lib/utils'
+import type { Timeline, TimelineBar } from '@/lib/task-timeline'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+// 北京时间相对 UTC 的偏移，刻度按北京时间的整点和零点对齐
+const BEIJING_OFFSET = 8 * HOUR
+
+const MIN_SPAN = 5 * MINUTE
+const MAX_SPAN = 30 * DAY
+const TICK_STEPS = [MINUTE, 5 * MINUTE, 15 * MINUTE, 30 * MINUTE, HOUR, 3 * HOUR, 6 * HOUR, 12 * HOUR, DAY, 2 * DAY, 7 * DAY]
+const MAX_TICKS = 10
+
+const PRESETS = [
+  { label: '1 小时', span: HOUR },
+  { label: '6 小时', span: 6 * HOUR },
+  { label: '1 天', span: DAY },
+  { label: '7 天', span: 7 * DAY }
+]
+
+const BAR_COLORS: Record<string, string> = {
+  completed: 'bg-success/70 border-success',
+  failed: 'bg-destructive/70 border-destructive',
+  processing: 'bg-info/70 border-info',
+  waiting_unban: 'bg-warning/70 border-warning'
+}
+
+const STATE_LABELS: Record<string, string> = {
+  pending: '等待中',
+  processing: '处理中',
+  completed: '已完成',
+  failed: '失败',
+  paused: '暂停',
+  waiting_unban: '等待解封',
+  retrying: '重试中',
+  needs_human_review: '需要审核',
+  awaiting_confirmation: '等待确认'
+}
+
+// 等待解封时段用斜线填充
+const WAIT_PATTERN = 'repeating-linear-gradient(45deg, hsl(var(--warning) / 0.35) 0 4px, transparent 4px 8px)'
+
+interface Range {
+  start: number
+  end: number
+}
+
+function clampRange(start: number, end: number): Range {
+  const span = Math.min(MAX_SPAN, Math.max(MIN_SPAN, end - start))
+  const center = (start + end) / 2
+  return { start: center - span / 2, end: center + span / 2 }
+}
+
+function formatTime(ms: number, pattern: string): string {
+  return format(utcToBeijingTime(new Date(ms).toISOString()), pattern)
+}
+
+function buildTicks({ start, end }: Range): Array<{ at: number; label: string }> {
+  const step = TICK_STEPS.find(candidate => (end - start) / candidate <= MAX_TICKS) ?? TICK_STEPS[TICK_STEPS.length - 1]
+  const ticks: Array<{ at: number; label: string }> = []
+
+  for (let at = Math.ceil((start + BEIJING_OFFSET) / step) * step - BEIJING_OFFSET; at <= end; at += step) {
+    const isMidnight = (at + BEIJING_OFFSET) % DAY === 0
+    ticks.push({
+      at,
+      label: step >= DAY ? formatTime(at, 'MM-dd') : isMidnight || ticks.length === 0 ? formatTime(at, 'MM-dd HH:mm') : formatTime(at, 'HH:mm')
+    })
+  }
+
+  return ticks
+}
+
+function barTitle(bar: TimelineBar): string {
+  const { task } = bar
+  return [
+    `${task.name} (${task.id})`,
+    `状态: ${STATE_LABELS[task.task_state] ?? task.task_state}`,
+    `开始: ${formatBeijingDateTimeSimple(new Date(bar.start).toISOString())}`,
+    bar.running ? '执行中' : `结束: ${formatBeijingDateTimeSimple(new Date(bar.end).toISOString())}`,
+    `时长: ${formatDuration(Math.round((bar.end - bar.start) / 1000))}`
+  ].join('\n')
+}
+
+interface TaskTimelineProps {
+  timeline: Timeline
+  now: number
+}
+
+/**
+ * 按工作器分泳道的执行时间线：拖动平移，按住 Ctrl 滚动缩放
+ */
+export function TaskTimeline({ timeline, now }: TaskTimelineProps) {
+  const trackRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ x: number; range: Range } | null>(null)
+  const [range, setRange] = useState<Range>(() => ({ start: now - 6 * HOUR, end: now + 15 * MINUTE }))
+  const span = range.end - range.start
+
+  const position = (at: number) => ((at - range.start) / span) * 100
+  const visible = (start: number, end: number) => end > range.start && start < range.end
+  const placement = (start: number, end: number) => {
+    const left = Math.max(0, position(start))
+    return { left: `${left}%`, width: `${Math.max(0.2, Math.min(100, position(end)) - left)}%` }
+  }
+
+  const zoom = (factor: number, anchor: number = (range.start + range.end) / 2) => {
+    setRange(current => {
+      const ratio = (anchor - current.start) / (current.end - current.start)
+      const nextSpan = Math.min(MAX_SPAN, Math.max(MIN_SPAN, (current.end - current.start) * factor))
+      return { start: anchor - nextSpan * ratio, end: anchor + nextSpan * (1 - ratio) }
+    })
+  }
+
+  const pan = (fraction: number) => {
+    setRange(current => {
+      const offset = (current.end - current.start) * fraction
+      return { start: current.start + offset, end: current.end + offset }
+    })
+  }
+
+  const showLatest = (presetSpan: number) => setRange({ start: now - presetSpan, end: now + presetSpan / 24 })
+
+  const fitAll = () => {
+    if (timeline.start === undefined) return
+    const padding = (timeline.end - timeline.start) * 0.02
+    setRange(clampRange(timeline.start - padding, timeline.end + padding))
+  }
+
+  // React 的 wheel 事件是被动监听，无法阻止页面滚动，这里直接注册
+  useEffect(() => {
+    const track = trackRef.current
+    if (!track) return
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return
+      event.preventDefault()
+      const rect = track.getBoundingClientRect()
+      setRange(current => {
+        const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width))
+        const anchor = current.start + (current.end - current.start) * ratio
+        const nextSpan = Math.min(MAX_SPAN, Math.max(MIN_SPAN, (current.end - current.start) * (event.deltaY > 0 ? 1.25 : 0.8)))
+        return { start: anchor - nextSpan * ratio, end: anchor + nextSpan * (1 - ratio) }
+      })
+    }
+
+    track.addEventListener('wheel', handleWheel, { passive: false })
+    return () => track.removeEventListener('wheel', handleWheel)
+  }, [])
+
+  const ticks = buildTicks(range)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {PRESETS.map(preset => (
+          <Button
+            key={preset.label}
+            size="sm"
+            variant={Math.abs(span - preset.span - preset.span / 24) < MINUTE ? 'default' : 'outline'}
+            onClick={() => showLatest(preset.span)}
+          >
+            最近 {preset.label}
+          </Button>
+        ))}
+        <Button size="sm" variant="outline" onClick={fitAll} disabled={timeline.start === undefined}>
+          全部
+        </Button>
+        <div className="flex items-center gap-1 ml-auto">
+          <Button size="sm" variant="outline" onClick={() => pan(-0.5)} title="向前">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => pan(0.5)} title="向后">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => zoom(0.5)} title="放大" disabled={span <= MIN_SPAN}>
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => zoom(2)} title="缩小" disabled={span >= MAX_SPAN}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setRange({ start: now - span * 0.9, end: now + span * 0.1 })} title="回到现在">
+            <LocateFixed className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex rounded-md border text-sm select-none">
+        {/* 泳道名称 */}
+        <div className="w-36 flex-shrink-0 border-r">
+          <div className="h-8 border-b" />
+          {timeline.lanes.map(lane => (
+            <div key={lane.worker} className="h-10 px-3 flex items-center border-b last:border-b-0 font-mono text-xs truncate" title={lane.worker}>
+              {lane.worker}
+            </div>
+          ))}
+        </div>
+
+        <div
+          ref={trackRef}
+          className="relative flex-1 overflow-hidden cursor-grab active:cursor-grabbing"
+          onPointerDown={event => {
+            if ((event.target as HTMLElement).closest('a')) return
+            dragRef.current = { x: event.clientX, range }
+            event.currentTarget.setPointerCapture(event.pointerId)
+          }}
+          onPointerMove={event => {
+            const drag = dragRef.current
+            if (!drag || !trackRef.current) return
+            const offset = ((drag.x - event.clientX) / trackRef.current.clientWidth) * (drag.range.end - drag.range.start)
+            setRange({ start: drag.range.start + offset, end: drag.range.end + offset })
+          }}
+          onPointerUp={() => {
+            dragRef.current = null
+          }}
+        >
+          {/* 时间刻度 */}
+          <div className="relative h-8 border-b">
+            {ticks.map(tick => (
+              <div key={tick.at} className="absolute top-0 h-full border-l pl-1 text-xs text-muted-foreground whitespace-nowrap" style={{ left: `${position(tick.at)}%` }}>
+                {tick.label}
+              </div>
+            ))}
+          </div>
+
+          <div className="relative">
+            {/* 刻度线和全局限流窗口 */}
+            {ticks.map(tick => (
+              <div key={tick.at} className="absolute inset-y-0 border-l border-dashed border-border/60" style={{ left: `${position(tick.at)}%` }} />
+            ))}
+            {timeline.windows.filter(window => visible(window.start, window.end ?? window.last_hit)).map(window => (
+              <div
+                key={window.start}
+                className="absolute inset-y-0 bg-warning/10 border-x border-warning/40"
+                style={placement(window.start, window.end ?? window.last_hit)}
+                title={`限流窗口：${window.task_ids.length} 个任务，${window.hits} 次${window.estimated ? '（结束时间为估算）' : ''}`}
+              />
+            ))}
+
+            {timeline.lanes.map(lane => (
+              <div key={lane.worker} className="relative h-10 border-b last:border-b-0">
+                {lane.idle.filter(span => visible(span.start, span.end)).map(span => (
+                  <div
+                    key={span.start}
+                    className="absolute inset-y-2 rounded border border-dashed border-muted-foreground/30 bg-muted/60 text-[10px] text-muted-foreground flex items-center justify-center overflow-hidden"
+                    style={placement(span.start, span.end)}
+                    title={`空闲 ${formatDuration(Math.round((span.end - span.start) / 1000))}`}
+                  >
+                    空闲
+                  </div>
+                ))}
+                {lane.waits.filter(span => visible(span.start, span.end)).map(span => (
+                  <Link
+                    key={`${span.task_id}:${span.start}`}
+                    href={`/tasks/${span.task_id}`}
+                    className="absolute inset-y-1 rounded border border-warning/60"
+                    style={{ ...placement(span.start, span.end), backgroundImage: WAIT_PATTERN }}
+                    title={`${span.task_id} 等待解封 ${formatDuration(Math.round((span.end - span.start) / 1000))}${span.estimated ? '（估算）' : ''}`}
+                  />
+                ))}
+                {lane.bars.filter(bar => visible(bar.start, bar.end)).map(bar => (
+                  <Link
+                    key={bar.task.id}
+                    href={`/tasks/${bar.task.id}`}
+                    className={cn(
+                      'absolute inset-y-2 rounded border px-1 text-xs leading-6 text-white truncate hover:ring-2 hover:ring-ring',
+                      BAR_COLORS[bar.task.task_state] ?? 'bg-muted-foreground/60 border-muted-foreground',
+                      bar.running && 'animate-pulse'
+                    )}
+                    style={placement(bar.start, bar.end)}
+                    title={barTitle(bar)}
+                  >
+                    {bar.task.name}
+                  </Link>
+                ))}
+              </div>
+            ))}
+
+            {/* 当前时间 */}
+            {visible(now, now + 1) && (
+              <div className="absolute inset-y-0 border-l-2 border-primary pointer-events-none" style={{ left: `${position(now)}%` }} />
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="h-3 w-5 rounded bg-success/70" />已完成</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-5 rounded bg-destructive/70" />失败</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-5 rounded bg-info/70" />执行中</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-5 rounded bg-warning/70" />被限流</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-5 rounded border border-warning/60" style={{ backgroundImage: WAIT_PATTERN }} />等待解封</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-5 rounded bg-warning/10 border-x border-warning/40" />限流窗口</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-5 rounded border border-dashed border-muted-foreground/30 bg-muted/60" />空闲</span>
+        <span>拖动平移，按住 Ctrl 滚动缩放</span>
+      </div>
+    </div>
+  )
+}
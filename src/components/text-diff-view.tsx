@@ -0,0 +1,86 @@
+'use client'
+
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+import type { DiffLine, TextDiff } from '@/lib/text-diff'
+
+interface TextDiffViewProps {
+  diff: TextDiff
+  // 只显示差异附近的行数，不设置时显示全部内容
+  context?: number
+  className?: string
+}
+
+type DiffBlock = { type: 'lines'; lines: DiffLine[] } | { type: 'collapsed'; lines: DiffLine[] }
+
+// 把离差异较远的相同行折叠起来
+function collapse(lines: DiffLine[], context: number): DiffBlock[] {
+  const keep = lines.map(() => false)
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') return
+    for (let i = Math.max(0, index - context); i <= Math.min(lines.length - 1, index + context); i++) keep[i] = true
+  })
+
+  const blocks: DiffBlock[] = []
+  lines.forEach((line, index) => {
+    const type = keep[index] ? 'lines' : 'collapsed'
+    const last = blocks[blocks.length - 1]
+    if (last?.type === type) {
+      last.lines.push(line)
+    } else {
+      blocks.push({ type, lines: [line] })
+    }
+  })
+  return blocks
+}
+
+const LINE_STYLES: Record<DiffLine['type'], { prefix: string; className: string }> = {
+  equal: { prefix: ' ', className: '' },
+  removed: { prefix: '-', className: 'bg-destructive/10 text-destructive' },
+  added: { prefix: '+', className: 'bg-success/10 text-success' }
+}
+
+function DiffRow({ line }: { line: DiffLine }) {
+  const style = LINE_STYLES[line.type]
+  return (
+    <div className={cn('flex', style.className)}>
+      <span className="w-12 flex-shrink-0 text-right pr-2 text-muted-foreground select-none">{line.a ?? ''}</span>
+      <span className="w-12 flex-shrink-0 text-right pr-2 text-muted-foreground select-none">{line.b ?? ''}</span>
+      <span className="w-4 flex-shrink-0 select-none">{style.prefix}</span>
+      <span className="whitespace-pre-wrap break-all">{line.text}</span>
+    </div>
+  )
+}
+
+/**
+ * 统一格式显示按行比较的结果，左侧两列分别是两边的行号
+ */
+export function TextDiffView({ diff, context, className }: TextDiffViewProps) {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set())
+  const blocks: DiffBlock[] = context === undefined ? [{ type: 'lines', lines: diff.lines }] : collapse(diff.lines, context)
+
+  if (diff.lines.length === 0) {
+    return <div className="text-sm text-muted-foreground">两边都没有内容</div>
+  }
+
+  return (
+    <div className={cn('font-mono text-xs rounded border overflow-x-auto', className)}>
+      {blocks.map((block, index) =>
+        block.type === 'collapsed' && !expanded.has(index) ? (
+          <button
+            key={index}
+            type="button"
+            className="w-full text-left px-2 py-1 bg-muted text-muted-foreground hover:bg-accent"
+            onClick={() => setExpanded(new Set(expanded).add(index))}
+          >
+            ⋯ {block.lines.length} 行相同，点击展开
+          </button>
+        ) : (
+          <div key={index}>
+            {block.lines.map((line, lineIndex) => <DiffRow key={lineIndex} line={line} />)}
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,255 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Markdown } from '@/components/markdown'
+import { TextDiffView } from '@/components/text-diff-view'
+import {
+  AlertTriangle,
+  Bot,
+  Brain,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  FilePen,
+  FileText,
+  Globe,
+  Plug,
+  Search,
+  SquareTerminal,
+  User,
+  Wrench
+} from 'lucide-react'
+import { cn, formatDuration } from '@/lib/utils'
+import { formatCost } from '@/lib/task-usage'
+import { diffLines } from '@/lib/text-diff'
+import {
+  describeToolCall,
+  getToolEdits,
+  parseMcpToolName,
+  type TranscriptEntry,
+  type TranscriptRun
+} from '@/lib/transcript'
+
+// 工具输出超过这个长度时只显示开头，完整内容在日志中查看
+const MAX_OUTPUT_CHARS = 20000
+
+const RESULT_SUBTYPE_LABELS: Record<string, string> = {
+  success: '成功',
+  error_max_turns: '达到最大轮数',
+  error_during_execution: '执行出错'
+}
+
+function toolIcon(name: string) {
+  if (parseMcpToolName(name)) return Plug
+  switch (name) {
+    case 'Read':
+      return FileText
+    case 'Write':
+    case 'Edit':
+    case 'MultiEdit':
+    case 'NotebookEdit':
+      return FilePen
+    case 'Bash':
+      return SquareTerminal
+    case 'Glob':
+    case 'Grep':
+      return Search
+    case 'WebFetch':
+    case 'WebSearch':
+      return Globe
+    default:
+      return Wrench
+  }
+}
+
+function ToolInput({ name, input }: { name: string; input: Record<string, unknown> }) {
+  // 只在展开时渲染，不需要缓存差异
+  const diffs = getToolEdits(name, input)?.map(edit => diffLines(
+    edit.old_string ? edit.old_string.split('\n') : [],
+    edit.new_string ? edit.new_string.split('\n') : []
+  ))
+
+  if (diffs && diffs.length > 0) {
+    return (
+      <div className="space-y-2">
+        {diffs.map((diff, index) => <TextDiffView key={index} diff={diff} context={3} />)}
+      </div>
+    )
+  }
+
+  if (name === 'Bash' && typeof input.command === 'string') {
+    return <pre className="rounded bg-black text-green-400 p-2 font-mono text-xs whitespace-pre-wrap break-all">$ {input.command}</pre>
+  }
+
+  return (
+    <pre className="rounded bg-muted p-2 font-mono text-xs whitespace-pre-wrap break-all">
+      {JSON.stringify(input, null, 2)}
+    </pre>
+  )
+}
+
+function ToolCall({ entry }: { entry: Extract<TranscriptEntry, { kind: 'tool' }> }) {
+  const isError = entry.result?.is_error === true
+  // 出错的工具调用默认展开
+  const [open, setOpen] = useState(isError)
+  const Icon = toolIcon(entry.name)
+  const mcp = parseMcpToolName(entry.name)
+  const description = describeToolCall(entry.name, entry.input)
+  const output = entry.result?.content ?? ''
+
+  return (
+    <div className={cn('rounded-md border', isError && 'border-destructive/50 bg-destructive/5')}>
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-accent/50"
+        onClick={() => setOpen(!open)}
+      >
+        {open ? <ChevronDown className="h-4 w-4 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 flex-shrink-0" />}
+        <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+        {mcp ? (
+          <>
+            <Badge variant="outline" className="text-xs">MCP</Badge>
+            <span className="font-medium">{mcp.server} · {mcp.tool}</span>
+          </>
+        ) : (
+          <span className="font-medium">{entry.name}</span>
+        )}
+        <span className="flex-1 truncate font-mono text-xs text-muted-foreground">{description}</span>
+        {isError ? (
+          <span className="flex items-center text-xs text-destructive">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            出错
+          </span>
+        ) : !entry.result && (
+          <span className="text-xs text-muted-foreground">无结果</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="space-y-2 border-t px-3 py-2">
+          <div className="text-xs text-muted-foreground">输入</div>
+          <ToolInput name={entry.name} input={entry.input} />
+          {entry.result && (
+            <>
+              <div className="text-xs text-muted-foreground">输出</div>
+              <pre className={cn(
+                'max-h-64 overflow-auto rounded p-2 font-mono text-xs whitespace-pre-wrap break-all',
+                isError ? 'bg-destructive/10 text-destructive' : 'bg-muted'
+              )}>
+                {output ? output.slice(0, MAX_OUTPUT_CHARS) : '（无输出）'}
+                {output.length > MAX_OUTPUT_CHARS && `\n… 还有 ${output.length - MAX_OUTPUT_CHARS} 个字符，完整内容请查看日志`}
+              </pre>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function Thinking({ text }: { text: string }) {
+  const [open, setOpen] = useState(false)
+  return (
+    <div className="text-sm text-muted-foreground">
+      <button type="button" className="flex items-center gap-2 hover:text-foreground" onClick={() => setOpen(!open)}>
+        <Brain className="h-4 w-4" />
+        {open ? '收起思考过程' : '展开思考过程'}
+      </button>
+      {open && <div className="mt-1 whitespace-pre-wrap border-l-2 pl-3 italic">{text}</div>}
+    </div>
+  )
+}
+
+function Entry({ entry }: { entry: TranscriptEntry }) {
+  switch (entry.kind) {
+    case 'text':
+      return (
+        <div className="flex gap-3">
+          <Bot className="h-4 w-4 mt-0.5 flex-shrink-0 text-primary" />
+          <Markdown text={entry.text} className="flex-1 min-w-0" />
+        </div>
+      )
+    case 'thinking':
+      return <Thinking text={entry.text} />
+    case 'prompt':
+      return (
+        <div className="flex gap-3 rounded-md bg-muted/50 p-2">
+          <User className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+          <div className="flex-1 min-w-0 text-sm whitespace-pre-wrap break-words">{entry.text}</div>
+        </div>
+      )
+    case 'tool':
+      return <ToolCall entry={entry} />
+  }
+}
+
+function RunSummary({ run, index, total }: { run: TranscriptRun; index: number; total: number }) {
+  const { result } = run
+  const tools = run.entries.filter(entry => entry.kind === 'tool')
+  const toolErrors = tools.filter(entry => entry.kind === 'tool' && entry.result?.is_error).length
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {total > 1 && <span className="font-medium">第 {index + 1} 次执行</span>}
+      {!result ? (
+        <Badge variant="secondary">未结束</Badge>
+      ) : result.is_error ? (
+        <Badge variant="destructive">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          {RESULT_SUBTYPE_LABELS[result.subtype] ?? result.subtype}
+        </Badge>
+      ) : (
+        <Badge variant="success">
+          <CheckCircle2 className="h-3 w-3 mr-1" />
+          {RESULT_SUBTYPE_LABELS[result.subtype] ?? result.subtype}
+        </Badge>
+      )}
+      {result?.num_turns !== undefined && <span className="text-muted-foreground">{result.num_turns} 轮</span>}
+      {result?.duration_ms !== undefined && (
+        <span className="text-muted-foreground">耗时 {formatDuration(Math.round(result.duration_ms / 1000))}</span>
+      )}
+      {result?.total_cost_usd !== undefined && <span className="text-muted-foreground">{formatCost(result.total_cost_usd)}</span>}
+      <span className="text-muted-foreground">{tools.length} 次工具调用</span>
+      {toolErrors > 0 && <span className="text-destructive">{toolErrors} 次出错</span>}
+      {run.model && <Badge variant="outline" className="font-mono text-xs">{run.model}</Badge>}
+    </div>
+  )
+}
+
+/**
+ * 以对话形式显示 claude 的执行记录：回复按 Markdown 渲染，工具调用可以展开查看输入、输出和文件修改
+ */
+export function TranscriptView({ runs }: { runs: TranscriptRun[] }) {
+  return (
+    <div className="space-y-6">
+      {runs.map((run, index) => (
+        <div key={index} className="space-y-3">
+          <RunSummary run={run} index={index} total={runs.length} />
+
+          {run.result && (run.result.result || run.result.is_error) && (
+            <div className={cn(
+              'rounded-md border p-3',
+              run.result.is_error ? 'border-destructive/50 bg-destructive/5' : 'border-success/40 bg-success/5'
+            )}>
+              <div className="text-xs text-muted-foreground mb-1">最终结果</div>
+              {run.result.result
+                ? <Markdown text={run.result.result} />
+                : <div className="text-sm text-destructive">{RESULT_SUBTYPE_LABELS[run.result.subtype] ?? run.result.subtype}，没有返回结果</div>}
+            </div>
+          )}
+
+          {run.entries.length > 0 ? (
+            <div className="space-y-3">
+              {run.entries.map((entry, entryIndex) => <Entry key={entryIndex} entry={entry} />)}
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">
+              日志中只有最终结果；使用 --verbose 执行时会记录完整的对话过程
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
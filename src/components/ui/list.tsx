@@ -66,6 +66,11 @@ export interface ListProps<T> {
   showFilters?: boolean
   layout?: 'list' | 'grid'
   gridCols?: 1 | 2 | 3 | 4 | 6
+  // 多选：以 rowKey 作为选择的键
+  selection?: {
+    selectedKeys: string[]
+    onSelectionChange: (keys: string[]) => void
+  }
 }
 
 function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
@@ -87,7 +92,8 @@ export function List<T extends Record<string, unknown>>({
   itemClassName,
   showFilters = true,
   layout = 'list',
-  gridCols = 1
+  gridCols = 1,
+  selection
 }: ListProps<T>) {
   const [currentSort, setCurrentSort] = useState<ListSort | null>(sorting?.defaultSort || null)
   const [filters, setFilters] = useState<ListFilter[]>([])
@@ -234,6 +240,31 @@ export function List<T extends Record<string, unknown>>({
     return String(record[rowKey] || index)
   }
 
+  // 选择状态
+  const selectedKeySet = new Set(selection?.selectedKeys ?? [])
+  const pageKeys = paginatedData.map((item, index) => getRowKey(item, index))
+  const matchingKeys = processedData.map((item, index) => getRowKey(item, index))
+  const pageSelectedCount = pageKeys.filter(key => selectedKeySet.has(key)).length
+  const allMatchingSelected = matchingKeys.length > 0 && matchingKeys.every(key => selectedKeySet.has(key))
+
+  const toggleSelected = (key: string) => {
+    if (!selection) return
+    selection.onSelectionChange(
+      selectedKeySet.has(key)
+        ? selection.selectedKeys.filter(item => item !== key)
+        : [...selection.selectedKeys, key]
+    )
+  }
+
+  const togglePageSelected = () => {
+    if (!selection) return
+    if (pageSelectedCount === pageKeys.length) {
+      selection.onSelectionChange(selection.selectedKeys.filter(key => !pageKeys.includes(key)))
+    } else {
+      selection.onSelectionChange([...new Set([...selection.selectedKeys, ...pageKeys])])
+    }
+  }
+
   const getGridClass = () => {
     const gridClasses = {
       1: 'grid-cols-1',
@@ -399,6 +430,39 @@ export function List<T extends Record<string, unknown>>({
         </div>
       )}
 
+      {/* 选择工具栏 */}
+      {selection && processedData.length > 0 && (
+        <div className="flex items-center justify-between text-sm">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pageKeys.length > 0 && pageSelectedCount === pageKeys.length}
+              ref={(el) => {
+                if (el) el.indeterminate = pageSelectedCount > 0 && pageSelectedCount < pageKeys.length
+              }}
+              onChange={togglePageSelected}
+              className="rounded border-border text-primary focus:ring-primary"
+            />
+            <span className="text-muted-foreground">选择本页</span>
+          </label>
+          <div className="flex items-center space-x-2">
+            {selection.selectedKeys.length > 0 && (
+              <span className="text-muted-foreground">已选择 {selection.selectedKeys.length} 项</span>
+            )}
+            {!allMatchingSelected && (
+              <Button size="sm" variant="ghost" onClick={() => selection.onSelectionChange(matchingKeys)}>
+                选择全部 {processedData.length} 条{filters.length > 0 ? '匹配' : ''}记录
+              </Button>
+            )}
+            {selection.selectedKeys.length > 0 && (
+              <Button size="sm" variant="ghost" onClick={() => selection.onSelectionChange([])}>
+                清除选择
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* 列表内容 */}
       {paginatedData.length === 0 ? (
         <Card>
@@ -421,7 +485,22 @@ export function List<T extends Record<string, unknown>>({
               `}
               onClick={() => onItemClick?.(item, index)}
             >
-              {renderItem(item, index)}
+              {selection ? (
+                <div className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={selectedKeySet.has(getRowKey(item, index))}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => toggleSelected(getRowKey(item, index))}
+                    className="mt-7 rounded border-border text-primary focus:ring-primary"
+                  />
+                  <div className="flex-1 min-w-0">
+                    {renderItem(item, index)}
+                  </div>
+                </div>
+              ) : (
+                renderItem(item, index)
+              )}
             </div>
           ))}
         </div>
@@ -1,133 +1,310 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { CLIService } from '@/services/cli-service'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useQuery, useQueries, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import { CLIService, type CLITask } from '@/services/cli-service'
+import { CLIContractError } from '@/lib/cli-schemas'
+import { TaskQueryError } from '@/lib/task-query'
+import type { CLICommandArgs } from '@/lib/cli-commands'
+import type { PipelineDefinitionInput } from '@/lib/pipelines'
+import type { RetryPolicies } from '@/lib/retry-policies'
+import { useCLIBackend } from '@/lib/cli-backend-context'
 
 interface TaskListParams {
-  state?: string;
-  priority?: string;
+  state?: CLICommandArgs<'task.list'>['state'];
+  priority?: CLICommandArgs<'task.list'>['priority'];
   enabled?: boolean;
 }
 
+type BackendId = string | null
+
 // Query Keys
+// 除执行池指标外都按后端区分，切换后端时不会混用缓存；null 表示服务端默认后端
 export const CLI_QUERY_KEYS = {
   all: ['cli'] as const,
-  tasks: () => [...CLI_QUERY_KEYS.all, 'tasks'] as const,
-  taskList: (params?: TaskListParams) => [...CLI_QUERY_KEYS.tasks(), 'list', params] as const,
-  task: (id: string) => [...CLI_QUERY_KEYS.tasks(), 'detail', id] as const,
-  taskLogs: (id: string) => [...CLI_QUERY_KEYS.tasks(), 'logs', id] as const,
-  scheduledTasks: () => [...CLI_QUERY_KEYS.all, 'scheduled-tasks'] as const,
-  scheduledTaskList: () => [...CLI_QUERY_KEYS.scheduledTasks(), 'list'] as const,
-  workers: () => [...CLI_QUERY_KEYS.all, 'workers'] as const,
-  workerList: () => [...CLI_QUERY_KEYS.workers(), 'list'] as const,
-  worker: (id: string) => [...CLI_QUERY_KEYS.workers(), 'detail', id] as const,
-  systemStatus: () => [...CLI_QUERY_KEYS.all, 'system', 'status'] as const,
-  taskStats: () => [...CLI_QUERY_KEYS.all, 'stats'] as const,
+  backend: (backend: BackendId) => [...CLI_QUERY_KEYS.all, 'backend', backend] as const,
+  tasks: (backend: BackendId) => [...CLI_QUERY_KEYS.backend(backend), 'tasks'] as const,
+  task: (backend: BackendId, id: string) => [...CLI_QUERY_KEYS.tasks(backend), 'detail', id] as const,
+  taskSearch: (backend: BackendId, query: string) => [...CLI_QUERY_KEYS.tasks(backend), 'search', query] as const,
+  taskLogs: (backend: BackendId, id: string) => [...CLI_QUERY_KEYS.tasks(backend), 'logs', id] as const,
+  scheduledTasks: (backend: BackendId) => [...CLI_QUERY_KEYS.backend(backend), 'scheduled-tasks'] as const,
+  scheduledTaskList: (backend: BackendId) => [...CLI_QUERY_KEYS.scheduledTasks(backend), 'list'] as const,
+  workers: (backend: BackendId) => [...CLI_QUERY_KEYS.backend(backend), 'workers'] as const,
+  workerList: (backend: BackendId) => [...CLI_QUERY_KEYS.workers(backend), 'list'] as const,
+  worker: (backend: BackendId, id: string) => [...CLI_QUERY_KEYS.workers(backend), 'detail', id] as const,
+  systemStatus: (backend: BackendId) => [...CLI_QUERY_KEYS.backend(backend), 'system', 'status'] as const,
+  executionMetrics: () => [...CLI_QUERY_KEYS.all, 'system', 'execution-metrics'] as const,
+  snapshot: (backend: BackendId) => [...CLI_QUERY_KEYS.backend(backend), 'snapshot'] as const,
+  pipelines: (backend: BackendId) => [...CLI_QUERY_KEYS.backend(backend), 'pipelines'] as const,
+  pipeline: (backend: BackendId, id: string) => [...CLI_QUERY_KEYS.pipelines(backend), 'detail', id] as const,
+  inbox: (backend: BackendId) => [...CLI_QUERY_KEYS.backend(backend), 'inbox'] as const,
+  usage: (backend: BackendId) => [...CLI_QUERY_KEYS.backend(backend), 'usage'] as const,
+  serviceLog: (backend: BackendId) => [...CLI_QUERY_KEYS.backend(backend), 'service-log'] as const,
+  comments: (backend: BackendId) => [...CLI_QUERY_KEYS.backend(backend), 'comments'] as const,
+  commentCounts: (backend: BackendId) => [...CLI_QUERY_KEYS.comments(backend), 'counts'] as const,
+  taskComments: (backend: BackendId, id: string) => [...CLI_QUERY_KEYS.comments(backend), 'task', id] as const,
+  retryPolicies: (backend: BackendId) => [...CLI_QUERY_KEYS.backend(backend), 'retry-policies'] as const,
+}
+
+// 输出格式不符合约定时重试也不会成功，直接把错误交给页面显示
+function retryUnlessContractError(limit: number) {
+  return (failureCount: number, error: Error) => !(error instanceof CLIContractError) && failureCount < limit
+}
+
+// Snapshot Hooks
+// 任务列表、统计、工作器和定时任务共用同一个快照查询，多个组件挂载也只请求一次
+// refetchInterval 默认 30 秒，看板等需要实时反映状态变化的页面可以缩短
+export function useCLISnapshot(enabled: boolean = true, refetchInterval: number = 30000) {
+  const { backend, ready } = useCLIBackend()
+  return useQuery({
+    queryKey: CLI_QUERY_KEYS.snapshot(backend),
+    queryFn: () => CLIService.getSnapshot(backend),
+    enabled: ready && enabled,
+    staleTime: 10000, // 10 seconds
+    refetchInterval,
+    retry: (failureCount, error) => {
+      console.error('获取快照失败:', error)
+      return retryUnlessContractError(2)(failureCount, error)
+    }
+  })
+}
+
+// 费用报表需要读取每个已结束任务的日志，刷新间隔比快照长
+export function useCLIUsageReport(enabled: boolean = true) {
+  const { backend, ready } = useCLIBackend()
+  return useQuery({
+    queryKey: CLI_QUERY_KEYS.usage(backend),
+    queryFn: () => CLIService.getUsageReport(backend),
+    enabled: ready && enabled,
+    staleTime: 60000, // 1 minute
+    refetchInterval: 300000, // 5 minutes
+    retry: retryUnlessContractError(1)
+  })
+}
+
+// 服务日志默认定时刷新，关闭自动刷新后内容保持不变便于查看
+export function useCLIServiceLog(autoRefresh: boolean = true) {
+  const { backend, ready } = useCLIBackend()
+  return useQuery({
+    queryKey: CLI_QUERY_KEYS.serviceLog(backend),
+    queryFn: () => CLIService.getServiceLog(backend),
+    enabled: ready,
+    staleTime: 5000,
+    refetchInterval: autoRefresh ? 5000 : false,
+    retry: 1
+  })
 }
 
 // Task Hooks
-export function useCLITasks(params?: {
-  state?: string
-  priority?: string
-  enabled?: boolean
-}) {
-  return useQuery({
-    queryKey: CLI_QUERY_KEYS.taskList(params),
-    queryFn: () => CLIService.listTasks({
-      state: params?.state,
-      priority: params?.priority,
-      format: 'json'
-    }),
-    enabled: params?.enabled !== false,
+export function useCLITasks(params?: TaskListParams) {
+  const { backend, ready } = useCLIBackend()
+  return useQuery({
+    queryKey: CLI_QUERY_KEYS.snapshot(backend),
+    queryFn: () => CLIService.getSnapshot(backend),
+    select: (snapshot) => snapshot.tasks.filter(task =>
+      (!params?.state || task.task_state === params.state) &&
+      (!params?.priority || task.priority === params.priority)
+    ),
+    enabled: ready && params?.enabled !== false,
     staleTime: 10000, // 10 seconds
     refetchInterval: 30000, // 30 seconds
     retry: (failureCount, error) => {
       console.error('获取任务列表失败:', error)
-      return failureCount < 2
+      return retryUnlessContractError(2)(failureCount, error)
     }
   })
 }
 
+// 按查询语言在服务端过滤任务；查询为空时不请求，切换查询时保留上一次的结果
+export function useCLITaskSearch(query: string, enabled: boolean = true, refetchInterval: number = 30000) {
+  const { backend, ready } = useCLIBackend()
+  return useQuery({
+    queryKey: CLI_QUERY_KEYS.taskSearch(backend, query),
+    queryFn: () => CLIService.searchTasks(backend, query),
+    enabled: ready && enabled && query.trim().length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 10000, // 10 seconds
+    refetchInterval,
+    retry: (failureCount, error) => !(error instanceof TaskQueryError) && retryUnlessContractError(2)(failureCount, error)
+  })
+}
+
 export function useCLITask(taskId: string, enabled: boolean = true) {
+  const { backend, ready } = useCLIBackend()
   return useQuery({
-    queryKey: CLI_QUERY_KEYS.task(taskId),
-    queryFn: () => CLIService.getTask(taskId),
-    enabled: enabled && !!taskId,
+    queryKey: CLI_QUERY_KEYS.task(backend, taskId),
+    queryFn: () => CLIService.getTask(backend, taskId),
+    enabled: ready && enabled && !!taskId,
     staleTime: 5000, // 5 seconds
     refetchInterval: 15000, // 15 seconds
-    retry: 1
+    retry: retryUnlessContractError(1)
   })
 }
 
 export function useCLITaskLogs(taskId: string, enabled: boolean = true) {
+  const { backend, ready } = useCLIBackend()
   return useQuery({
-    queryKey: CLI_QUERY_KEYS.taskLogs(taskId),
-    queryFn: () => CLIService.getTaskLogs(taskId),
-    enabled: enabled && !!taskId,
+    queryKey: CLI_QUERY_KEYS.taskLogs(backend, taskId),
+    queryFn: () => CLIService.getTaskLogs(backend, taskId),
+    enabled: ready && enabled && !!taskId,
     staleTime: 2000, // 2 seconds
     refetchInterval: 5000, // 5 seconds for real-time feel
     retry: 1
   })
 }
 
+// 通过 SSE 实时跟踪任务日志，替代定时轮询
+// 流式日志批量追加的间隔
+const LOG_STREAM_FLUSH_MS = 100
+
+export function useCLITaskLogStream(taskId: string, enabled: boolean = true) {
+  const { backend, ready } = useCLIBackend()
+  const [lines, setLines] = useState<string[]>([])
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [exitCode, setExitCode] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!ready || !enabled || !taskId) return
+
+    setLines([])
+    setExitCode(null)
+    setError(null)
+    setIsStreaming(true)
+
+    // 日志输出很快时逐行 setState 会每行重新渲染一次，先缓存起来定时批量追加
+    let pending: string[] = []
+    let flushTimer: ReturnType<typeof setTimeout> | null = null
+    const flush = () => {
+      if (flushTimer) {
+        clearTimeout(flushTimer)
+        flushTimer = null
+      }
+      if (pending.length === 0) return
+      const batch = pending
+      pending = []
+      setLines(prev => [...prev, ...batch])
+    }
+
+    const close = CLIService.streamCommand(backend, 'task.logs', { taskId, follow: true }, {
+      onLine: (line) => {
+        if (line.trim()) {
+          pending.push(line)
+          flushTimer ??= setTimeout(flush, LOG_STREAM_FLUSH_MS)
+        }
+      },
+      onExit: (code) => {
+        flush()
+        setExitCode(code)
+        setIsStreaming(false)
+      },
+      onError: (message) => {
+        flush()
+        console.error('任务日志流中断:', message)
+        setError(message)
+        setIsStreaming(false)
+      }
+    })
+
+    return () => {
+      close()
+      if (flushTimer) clearTimeout(flushTimer)
+      setIsStreaming(false)
+    }
+  }, [taskId, enabled, backend, ready])
+
+  const clearLines = useCallback(() => setLines([]), [])
+
+  return { lines, isStreaming, exitCode, error, clearLines }
+}
+
 export function useCLITaskStats() {
+  const { backend, ready } = useCLIBackend()
   return useQuery({
-    queryKey: CLI_QUERY_KEYS.taskStats(),
-    queryFn: CLIService.getTaskStats,
+    queryKey: CLI_QUERY_KEYS.snapshot(backend),
+    queryFn: () => CLIService.getSnapshot(backend),
+    enabled: ready,
+    select: (snapshot) => snapshot.stats,
     staleTime: 15000, // 15 seconds
     refetchInterval: 30000, // 30 seconds
-    retry: 2
+    retry: retryUnlessContractError(2)
   })
 }
 
 // Worker Hooks
 export function useCLIWorkers(enabled: boolean = true) {
+  const { backend, ready } = useCLIBackend()
   return useQuery({
-    queryKey: CLI_QUERY_KEYS.workerList(),
-    queryFn: CLIService.listWorkers,
-    enabled,
+    queryKey: CLI_QUERY_KEYS.workerList(backend),
+    queryFn: () => CLIService.listWorkers(backend),
+    enabled: ready && enabled,
     staleTime: 10000, // 10 seconds
     refetchInterval: 20000, // 20 seconds
-    retry: 2
+    retry: retryUnlessContractError(2)
   })
 }
 
 export function useCLIWorker(workerId: string, enabled: boolean = true) {
+  const { backend, ready } = useCLIBackend()
   return useQuery({
-    queryKey: CLI_QUERY_KEYS.worker(workerId),
-    queryFn: () => CLIService.getWorker(workerId),
-    enabled: enabled && !!workerId,
+    queryKey: CLI_QUERY_KEYS.worker(backend, workerId),
+    queryFn: () => CLIService.getWorker(backend, workerId),
+    enabled: ready && enabled && !!workerId,
     staleTime: 5000, // 5 seconds
     refetchInterval: 15000, // 15 seconds
-    retry: 1
+    retry: retryUnlessContractError(1)
   })
 }
 
 // System Hooks
 export function useCLISystemStatus(enabled: boolean = true) {
+  const { backend, ready } = useCLIBackend()
   return useQuery({
-    queryKey: CLI_QUERY_KEYS.systemStatus(),
-    queryFn: CLIService.getSystemStatus,
-    enabled,
+    queryKey: CLI_QUERY_KEYS.systemStatus(backend),
+    queryFn: () => CLIService.getSystemStatus(backend),
+    enabled: ready && enabled,
     staleTime: 10000, // 10 seconds
     refetchInterval: 30000, // 30 seconds
-    retry: 2
+    retry: retryUnlessContractError(2)
+  })
+}
+
+// 所有后端的系统状态，用于概览页的汇总视图；不可达的后端返回 null
+export function useCLIBackendsStatus(enabled: boolean = true) {
+  const { backends } = useCLIBackend()
+
+  return useQueries({
+    queries: backends.map(item => ({
+      queryKey: CLI_QUERY_KEYS.systemStatus(item.id),
+      queryFn: () => CLIService.getSystemStatus(item.id),
+      enabled,
+      staleTime: 10000, // 10 seconds
+      refetchInterval: 30000, // 30 seconds
+      retry: retryUnlessContractError(1)
+    }))
+  })
+}
+
+export function useCLIExecutionMetrics(enabled: boolean = true) {
+  return useQuery({
+    queryKey: CLI_QUERY_KEYS.executionMetrics(),
+    queryFn: CLIService.getExecutionMetrics,
+    enabled,
+    staleTime: 2000, // 2 seconds
+    refetchInterval: 5000, // 5 seconds
+    retry: 1
   })
 }
 
 // Mutation Hooks
 export function useCreateCLITask() {
+  const { backend } = useCLIBackend()
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (params: {
-      name: string
-      description: string
-      type?: 'lightweight' | 'medium_context' | 'heavy_context'
-      priority?: 'low' | 'normal' | 'high' | 'urgent'
-    }) => CLIService.createTask(params),
+    mutationFn: (params: CLICommandArgs<'task.create'>) => CLIService.createTask(backend, params),
     onSuccess: () => {
       // Invalidate tasks lists and stats
-      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.tasks() })
-      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.taskStats() })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.tasks(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
     },
     onError: (error) => {
       console.error('创建任务失败:', error)
@@ -135,7 +312,25 @@ export function useCreateCLITask() {
   })
 }
 
+// 使用相同输入重新运行任务
+export function useRerunCLITask() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (task: CLITask) => CLIService.rerunTask(backend, task),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.tasks(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
+    },
+    onError: (error) => {
+      console.error('重新运行任务失败:', error)
+    }
+  })
+}
+
 export function useCLITaskAction() {
+  const { backend } = useCLIBackend()
   const queryClient = useQueryClient()
 
   return useMutation({
@@ -143,12 +338,12 @@ export function useCLITaskAction() {
       taskId: string; 
       action: 'cancel' | 'retry' | 'pause' | 'resume';
       force?: boolean;
-    }) => CLIService.taskAction(taskId, action, { force }),
+    }) => CLIService.taskAction(backend, taskId, action, { force }),
     onSuccess: (_, { taskId }) => {
       // Invalidate specific task and related queries
-      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.task(taskId) })
-      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.tasks() })
-      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.taskStats() })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.task(backend, taskId) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.tasks(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
     },
     onError: (error) => {
       console.error('任务操作失败:', error)
@@ -156,16 +351,146 @@ export function useCLITaskAction() {
   })
 }
 
+export type CLIBulkTaskAction = 'cancel' | 'retry' | 'force_retry' | 'pause' | 'resume'
+
+export interface CLIBulkTaskResult {
+  taskId: string
+  name: string
+  success: boolean
+  message?: string
+}
+
+// 与执行池的默认并发数一致，避免批量操作占满队列
+const BULK_CONCURRENCY = 4
+
+// 批量任务操作：逐个调用 taskctl，报告进度和每个任务的结果
+export function useCLIBulkTaskAction() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [results, setResults] = useState<CLIBulkTaskResult[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+
+  const run = useCallback(async (tasks: CLITask[], action: CLIBulkTaskAction) => {
+    setIsRunning(true)
+    setResults([])
+    setProgress({ done: 0, total: tasks.length })
+
+    const collected: CLIBulkTaskResult[] = []
+    let next = 0
+
+    const worker = async () => {
+      while (next < tasks.length) {
+        const task = tasks[next++]
+        const result = action === 'force_retry'
+          ? await CLIService.taskAction(backend, task.id, 'retry', { force: true })
+          : await CLIService.taskAction(backend, task.id, action)
+
+        collected.push({ taskId: task.id, name: task.name, success: result.success, message: result.message })
+        setResults([...collected])
+        setProgress({ done: collected.length, total: tasks.length })
+      }
+    }
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, tasks.length) }, worker))
+    } finally {
+      setIsRunning(false)
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.tasks(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
+    }
+
+    return collected
+  }, [backend, queryClient])
+
+  const reset = useCallback(() => {
+    setResults([])
+    setProgress({ done: 0, total: 0 })
+  }, [])
+
+  return { run, reset, progress, results, isRunning }
+}
+
+export interface CLIImportTaskResult {
+  line: number
+  name: string
+  success: boolean
+  taskId?: string
+  message?: string
+}
+
+// 导入时限速：较低的并发，每个任务提交后间隔一段时间，避免大批任务同时进入队列
+const IMPORT_CONCURRENCY = 2
+const IMPORT_INTERVAL_MS = 500
+
+// 批量创建任务（导入）：按限速逐个提交，可以中途停止，未提交的任务不会创建
+export function useCLIImportTasks() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [results, setResults] = useState<CLIImportTaskResult[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const stopRequested = useRef(false)
+
+  const run = useCallback(async (rows: Array<{ line: number; args: CLICommandArgs<'task.create'> }>) => {
+    stopRequested.current = false
+    setIsRunning(true)
+    setResults([])
+    setProgress({ done: 0, total: rows.length })
+
+    const collected: CLIImportTaskResult[] = []
+    let next = 0
+
+    const worker = async () => {
+      while (next < rows.length && !stopRequested.current) {
+        const { line, args } = rows[next++]
+        const result = await CLIService.createTask(backend, args)
+
+        collected.push({ line, name: args.name, success: result.success, taskId: result.taskId, message: result.error })
+        setResults([...collected])
+        setProgress({ done: collected.length, total: rows.length })
+
+        if (next < rows.length) {
+          await new Promise(resolve => setTimeout(resolve, IMPORT_INTERVAL_MS))
+        }
+      }
+    }
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(IMPORT_CONCURRENCY, rows.length) }, worker))
+    } finally {
+      setIsRunning(false)
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.tasks(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
+    }
+
+    return collected
+  }, [backend, queryClient])
+
+  const stop = useCallback(() => {
+    stopRequested.current = true
+  }, [])
+
+  const reset = useCallback(() => {
+    setResults([])
+    setProgress({ done: 0, total: 0 })
+  }, [])
+
+  return { run, stop, reset, progress, results, isRunning }
+}
+
 export function useRestartCLIWorker() {
+  const { backend } = useCLIBackend()
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (workerId: string) => CLIService.restartWorker(workerId),
+    mutationFn: (workerId: string) => CLIService.restartWorker(backend, workerId),
     onSuccess: (_, workerId) => {
       // Invalidate worker queries
-      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.worker(workerId) })
-      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.workers() })
-      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.systemStatus() })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.worker(backend, workerId) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.workers(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.systemStatus(backend) })
     },
     onError: (error) => {
       console.error('重启工作器失败:', error)
@@ -175,30 +500,27 @@ export function useRestartCLIWorker() {
 
 // Scheduled Tasks Hooks
 export function useCLIScheduledTasks(enabled: boolean = true) {
+  const { backend, ready } = useCLIBackend()
   return useQuery({
-    queryKey: CLI_QUERY_KEYS.scheduledTaskList(),
-    queryFn: CLIService.listScheduledTasks,
-    enabled,
+    queryKey: CLI_QUERY_KEYS.scheduledTaskList(backend),
+    queryFn: () => CLIService.listScheduledTasks(backend),
+    enabled: ready && enabled,
     staleTime: 30000, // 30 seconds - scheduled tasks don't change frequently
     refetchInterval: 60000, // 1 minute
-    retry: 2
+    retry: retryUnlessContractError(2)
   })
 }
 
 export function useAddCLIScheduledTask() {
+  const { backend } = useCLIBackend()
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (params: {
-      name: string
-      description: string
-      cron: string
-      type?: 'lightweight' | 'medium_context' | 'heavy_context'
-      workingDir?: string
-    }) => CLIService.addScheduledTask(params),
+    mutationFn: (params: CLICommandArgs<'schedule.add'>) => CLIService.addScheduledTask(backend, params),
     onSuccess: () => {
       // Invalidate scheduled tasks list
-      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.scheduledTasks() })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.scheduledTasks(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
     },
     onError: (error) => {
       console.error('创建定时任务失败:', error)
@@ -207,13 +529,15 @@ export function useAddCLIScheduledTask() {
 }
 
 export function useRemoveCLIScheduledTask() {
+  const { backend } = useCLIBackend()
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (taskId: string) => CLIService.removeScheduledTask(taskId),
+    mutationFn: (taskId: string) => CLIService.removeScheduledTask(backend, taskId),
     onSuccess: () => {
       // Invalidate scheduled tasks list
-      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.scheduledTasks() })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.scheduledTasks(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
     },
     onError: (error) => {
       console.error('删除定时任务失败:', error)
@@ -222,14 +546,16 @@ export function useRemoveCLIScheduledTask() {
 }
 
 export function useToggleCLIScheduledTask() {
+  const { backend } = useCLIBackend()
   const queryClient = useQueryClient()
 
   return useMutation({
     mutationFn: ({ taskId, enable }: { taskId: string; enable: boolean }) => 
-      CLIService.toggleScheduledTask(taskId, enable),
+      CLIService.toggleScheduledTask(backend, taskId, enable),
     onSuccess: () => {
       // Invalidate scheduled tasks list
-      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.scheduledTasks() })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.scheduledTasks(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
     },
     onError: (error) => {
       console.error('切换定时任务状态失败:', error)
@@ -237,11 +563,223 @@ export function useToggleCLIScheduledTask() {
   })
 }
 
+// Pipeline Hooks
+export function useCLIPipelines(enabled: boolean = true) {
+  const { backend, ready } = useCLIBackend()
+  return useQuery({
+    queryKey: CLI_QUERY_KEYS.pipelines(backend),
+    queryFn: () => CLIService.listPipelines(backend),
+    enabled: ready && enabled,
+    staleTime: 5000, // 5 seconds
+    refetchInterval: 10000, // 10 seconds - 步骤由服务端推进
+    retry: 1
+  })
+}
+
+export function useCreateCLIPipeline() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (definition: PipelineDefinitionInput) => CLIService.createPipeline(backend, definition),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.pipelines(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
+    },
+    onError: (error) => {
+      console.error('创建流水线失败:', error)
+    }
+  })
+}
+
+export function useCancelCLIPipeline() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (pipelineId: string) => CLIService.cancelPipeline(backend, pipelineId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.pipelines(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
+    },
+    onError: (error) => {
+      console.error('取消流水线失败:', error)
+    }
+  })
+}
+
+export function useDeleteCLIPipeline() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (pipelineId: string) => CLIService.deletePipeline(backend, pipelineId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.pipelines(backend) })
+    },
+    onError: (error) => {
+      console.error('删除流水线失败:', error)
+    }
+  })
+}
+
+// Inbox Hooks
+export function useCLIInbox(enabled: boolean = true) {
+  const { backend, ready } = useCLIBackend()
+  return useQuery({
+    queryKey: CLI_QUERY_KEYS.inbox(backend),
+    queryFn: () => CLIService.getInbox(backend),
+    enabled: ready && enabled,
+    staleTime: 10000, // 10 seconds
+    refetchInterval: 30000, // 30 seconds - 侧边栏的未读数也依赖这个查询
+    retry: 1
+  })
+}
+
+// 批准、拒绝或回复审批项
+export function useCLIReviewAction() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ taskId, action, text }: {
+      taskId: string;
+      action: 'approve' | 'reject' | 'reply';
+      text?: string;
+    }) => CLIService.reviewTask(backend, taskId, action, text),
+    onSuccess: (_, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.inbox(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.task(backend, taskId) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.tasks(backend) })
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.snapshot(backend) })
+    },
+    onError: (error) => {
+      console.error('审批操作失败:', error)
+    }
+  })
+}
+
+export function useAssignCLIInboxItem() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ taskId, assignee }: { taskId: string; assignee: string | null }) =>
+      CLIService.assignInboxItem(backend, taskId, assignee),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.inbox(backend) })
+    },
+    onError: (error) => {
+      console.error('指派审批项失败:', error)
+    }
+  })
+}
+
+export function useMarkCLIInboxRead() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (taskIds: string[]) => CLIService.markInboxRead(backend, taskIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.inbox(backend) })
+    },
+    onError: (error) => {
+      console.error('标记已读失败:', error)
+    }
+  })
+}
+
+// Comment Hooks
+export function useCLITaskCommentCounts(enabled: boolean = true) {
+  const { backend, ready } = useCLIBackend()
+  return useQuery({
+    queryKey: CLI_QUERY_KEYS.commentCounts(backend),
+    queryFn: () => CLIService.getTaskCommentCounts(backend),
+    enabled: ready && enabled,
+    staleTime: 30000, // 30 seconds
+    retry: 1
+  })
+}
+
+export function useCLITaskComments(taskId: string) {
+  const { backend, ready } = useCLIBackend()
+  return useQuery({
+    queryKey: CLI_QUERY_KEYS.taskComments(backend, taskId),
+    queryFn: () => CLIService.getTaskComments(backend, taskId),
+    enabled: ready && !!taskId,
+    staleTime: 10000, // 10 seconds
+    refetchInterval: 30000, // 30 seconds - 看到其他人的新评论
+    retry: 1
+  })
+}
+
+export function useAddCLITaskComment() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ taskId, ...comment }: { taskId: string; body: string; log_line?: number; log_text?: string }) =>
+      CLIService.addTaskComment(backend, taskId, comment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.comments(backend) })
+    },
+    onError: (error) => {
+      console.error('发表评论失败:', error)
+    }
+  })
+}
+
+export function useDeleteCLITaskComment() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ taskId, commentId }: { taskId: string; commentId: string }) =>
+      CLIService.deleteTaskComment(backend, taskId, commentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CLI_QUERY_KEYS.comments(backend) })
+    },
+    onError: (error) => {
+      console.error('删除评论失败:', error)
+    }
+  })
+}
+
+// Retry Policy Hooks
+export function useCLIRetryPolicies() {
+  const { backend, ready } = useCLIBackend()
+  return useQuery({
+    queryKey: CLI_QUERY_KEYS.retryPolicies(backend),
+    queryFn: () => CLIService.getRetryPolicies(backend),
+    enabled: ready,
+    staleTime: 60000, // 1 minute
+    retry: 1
+  })
+}
+
+export function useSaveCLIRetryPolicies() {
+  const { backend } = useCLIBackend()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (policies: RetryPolicies) => CLIService.saveRetryPolicies(backend, policies),
+    onSuccess: (policies) => {
+      queryClient.setQueryData(CLI_QUERY_KEYS.retryPolicies(backend), policies)
+    },
+    onError: (error) => {
+      console.error('保存重试策略失败:', error)
+    }
+  })
+}
+
 // Utility hook for checking CLI availability
 export function useCLIAvailability() {
+  const { backend, ready } = useCLIBackend()
   return useQuery({
-    queryKey: [...CLI_QUERY_KEYS.all, 'availability'],
-    queryFn: CLIService.checkAvailability,
+    queryKey: [...CLI_QUERY_KEYS.backend(backend), 'availability'],
+    queryFn: () => CLIService.checkAvailability(backend),
+    enabled: ready,
     staleTime: 60000, // 1 minute
     refetchInterval: 120000, // 2 minutes
     retry: 1
@@ -1,12 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import SecurityService from '@/services/security'
-
-interface SecurityLogParams {
-  type?: string;
-  user?: string;
-  limit?: number;
-  offset?: number;
-}
+import SecurityService, { type SecurityLogParams } from '@/services/security'
 
 // Query Keys
 export const SECURITY_QUERY_KEYS = {
@@ -29,12 +22,7 @@ export function useSecurityReport(enabled: boolean = true) {
   })
 }
 
-export function useSecurityLogs(params?: {
-  type?: string
-  user?: string
-  limit?: number
-  offset?: number
-}, enabled: boolean = true) {
+export function useSecurityLogs(params?: SecurityLogParams, enabled: boolean = true) {
   return useQuery({
     queryKey: SECURITY_QUERY_KEYS.logsList(params),
     queryFn: () => SecurityService.getSecurityLogs(params),
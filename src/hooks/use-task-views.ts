@@ -0,0 +1,41 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getTaskViews, saveTaskView, deleteTaskView } from '@/services/task-views'
+
+// Query Keys
+export const TASK_VIEW_QUERY_KEYS = {
+  all: ['task-views'] as const,
+  list: () => [...TASK_VIEW_QUERY_KEYS.all, 'list'] as const,
+}
+
+// 当前用户保存的任务视图，侧边栏和任务页共用
+export function useTaskViews() {
+  const { data: views = [], isLoading, error } = useQuery({
+    queryKey: TASK_VIEW_QUERY_KEYS.list(),
+    queryFn: getTaskViews,
+    staleTime: 60000, // 1 minute
+  })
+
+  return { views, isLoading, error }
+}
+
+export function useSaveTaskView() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: saveTaskView,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TASK_VIEW_QUERY_KEYS.all })
+    },
+  })
+}
+
+export function useDeleteTaskView() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: deleteTaskView,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TASK_VIEW_QUERY_KEYS.all })
+    },
+  })
+}
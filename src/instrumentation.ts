@@ -0,0 +1,9 @@
+/**
+ * 服务启动时执行：启动流水线调度，服务重启后继续推进运行中的流水线
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startPipelineDriver } = await import('@/lib/pipeline-runner')
+    startPipelineDriver()
+  }
+}
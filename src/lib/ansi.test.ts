@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { parseAnsi, stripAnsi, hasAnsi } from '@/lib/ansi'
+
+describe('stripAnsi', () => {
+  it('去掉颜色、光标控制、OSC 和字符集序列', () => {
+    expect(stripAnsi('\x1b[1;31mError\x1b[0m: \x1b[2K\x1b[1Gdone')).toBe('Error: done')
+    expect(stripAnsi('\x1b]0;title\x07\x1b(Btext\x1b]8;;http://x\x1b\\link')).toBe('textlink')
+    expect(stripAnsi('\x1b[?25lhidden cursor')).toBe('hidden cursor')
+  })
+
+  it('没有转义字符时原样返回', () => {
+    expect(hasAnsi('plain')).toBe(false)
+    expect(stripAnsi('plain [1m')).toBe('plain [1m')
+  })
+})
+
+describe('parseAnsi', () => {
+  it('按样式拆分片段', () => {
+    const { segments, style } = parseAnsi('ok \x1b[1;32mPASS\x1b[22m tests\x1b[0m end')
+    expect(segments).toEqual([
+      { text: 'ok ' },
+      { text: 'PASS', bold: true, fg: '#4ade80' },
+      { text: ' tests', bold: false, dim: false, fg: '#4ade80' },
+      { text: ' end' }
+    ])
+    expect(style).toEqual({})
+  })
+
+  it('样式可以跨行延续', () => {
+    const first = parseAnsi('\x1b[33mwarning')
+    expect(first.style).toEqual({ fg: '#facc15' })
+    expect(parseAnsi('continued', first.style).segments).toEqual([{ text: 'continued', fg: '#facc15' }])
+  })
+
+  it('支持亮色、背景色、256 色和真彩色', () => {
+    expect(parseAnsi('\x1b[91;104mx').style).toEqual({ fg: '#fca5a5', bg: '#93c5fd' })
+    expect(parseAnsi('\x1b[38;5;196mx').style).toEqual({ fg: 'rgb(255, 0, 0)' })
+    expect(parseAnsi('\x1b[38;5;232mx').style).toEqual({ fg: 'rgb(8, 8, 8)' })
+    // 扩展颜色的参数不会被当作其他样式
+    expect(parseAnsi('\x1b[48;2;10;20;30;4mx').style).toEqual({ bg: 'rgb(10, 20, 30)', underline: true })
+    expect(parseAnsi('\x1b[31m\x1b[39mx').style).toEqual({ fg: undefined })
+  })
+
+  it('空参数等同于重置', () => {
+    expect(parseAnsi('\x1b[1m\x1b[mx').segments).toEqual([{ text: 'x' }])
+  })
+})
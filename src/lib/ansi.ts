@@ -0,0 +1,113 @@
+/**
+ * ANSI 转义序列解析
+ *
+ * 只处理 SGR（颜色和字体样式），其他控制序列（光标移动、清屏等）直接去掉。
+ * 颜色统一转换成 CSS 颜色值，由调用方决定如何渲染。
+ */
+
+export interface AnsiStyle {
+  fg?: string
+  bg?: string
+  bold?: boolean
+  dim?: boolean
+  italic?: boolean
+  underline?: boolean
+}
+
+export interface AnsiSegment extends AnsiStyle {
+  text: string
+}
+
+// 终端常见的 16 色，针对深色背景调整了亮度
+const PALETTE = [
+  '#4b5563', '#f87171', '#4ade80', '#facc15', '#60a5fa', '#c084fc', '#22d3ee', '#e5e7eb',
+  '#9ca3af', '#fca5a5', '#86efac', '#fde047', '#93c5fd', '#d8b4fe', '#67e8f9', '#ffffff'
+]
+
+const ESCAPE_PATTERN = /\x1b\[([0-9;?]*)([A-Za-z])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][A-Za-z0-9]/g
+
+// 日志中没有转义字符时跳过解析
+export function hasAnsi(text: string): boolean {
+  return text.includes('\x1b')
+}
+
+export function stripAnsi(text: string): string {
+  return hasAnsi(text) ? text.replace(ESCAPE_PATTERN, '') : text
+}
+
+// 256 色：0-15 为基本色，16-231 为 6x6x6 色块，232-255 为灰度
+function color256(index: number): string | undefined {
+  if (index < 0 || index > 255) return undefined
+  if (index < 16) return PALETTE[index]
+  if (index >= 232) {
+    const level = 8 + (index - 232) * 10
+    return `rgb(${level}, ${level}, ${level})`
+  }
+  const cube = index - 16
+  const channel = (value: number) => value === 0 ? 0 : 55 + value * 40
+  return `rgb(${channel(Math.floor(cube / 36))}, ${channel(Math.floor(cube / 6) % 6)}, ${channel(cube % 6)})`
+}
+
+/**
+ * 按 SGR 参数更新样式，38/48 后面的扩展颜色参数会被一起消费
+ */
+function applySgr(style: AnsiStyle, params: number[]): AnsiStyle {
+  let next = { ...style }
+
+  for (let i = 0; i < params.length; i++) {
+    const code = params[i]
+    if (code === 0) next = {}
+    else if (code === 1) next.bold = true
+    else if (code === 2) next.dim = true
+    else if (code === 3) next.italic = true
+    else if (code === 4) next.underline = true
+    else if (code === 22) next.bold = next.dim = false
+    else if (code === 23) next.italic = false
+    else if (code === 24) next.underline = false
+    else if (code >= 30 && code <= 37) next.fg = PALETTE[code - 30]
+    else if (code >= 90 && code <= 97) next.fg = PALETTE[code - 90 + 8]
+    else if (code === 39) next.fg = undefined
+    else if (code >= 40 && code <= 47) next.bg = PALETTE[code - 40]
+    else if (code >= 100 && code <= 107) next.bg = PALETTE[code - 100 + 8]
+    else if (code === 49) next.bg = undefined
+    else if (code === 38 || code === 48) {
+      let color: string | undefined
+      if (params[i + 1] === 5) {
+        color = color256(params[i + 2])
+        i += 2
+      } else if (params[i + 1] === 2) {
+        color = `rgb(${params[i + 2] ?? 0}, ${params[i + 3] ?? 0}, ${params[i + 4] ?? 0})`
+        i += 4
+      }
+      if (code === 38) next.fg = color
+      else next.bg = color
+    }
+  }
+
+  return next
+}
+
+/**
+ * 把一行文本拆成样式相同的片段；initial 是上一行结束时的样式，颜色可以跨行延续
+ */
+export function parseAnsi(text: string, initial: AnsiStyle = {}): { segments: AnsiSegment[]; style: AnsiStyle } {
+  if (!hasAnsi(text)) {
+    return { segments: text ? [{ ...initial, text }] : [], style: initial }
+  }
+
+  const segments: AnsiSegment[] = []
+  let style = initial
+  let last = 0
+
+  for (const match of text.matchAll(ESCAPE_PATTERN)) {
+    if (match.index > last) segments.push({ ...style, text: text.slice(last, match.index) })
+    last = match.index + match[0].length
+    if (match[2] === 'm') {
+      const params = match[1] ? match[1].split(';').map(value => Number(value) || 0) : [0]
+      style = applySgr(style, params)
+    }
+  }
+  if (last < text.length) segments.push({ ...style, text: text.slice(last) })
+
+  return { segments, style }
+}
@@ -0,0 +1,171 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { NextRequest } from 'next/server'
+import { getRequestUsername } from '@/lib/auth-config'
+import type { SecurityLog } from '@/services/security'
+
+/**
+ * 审计日志
+ *
+ * 每次写操作（任务、工作器、定时任务、服务启停）以 JSON 行的形式追加到本地文件，
+ * 只追加不修改，安全页面通过 /api/security/logs 分页查询。
+ */
+
+const AUDIT_LOG_FILE = process.env.AUDIT_LOG_PATH || path.join(process.cwd(), 'data', 'audit.log')
+
+// 输出只保留开头部分，避免日志文件膨胀
+const MAX_OUTPUT_LENGTH = 2000
+
+export interface AuditLogQuery {
+  type?: string
+  user?: string
+  action?: string
+  success?: boolean
+  from?: string
+  to?: string
+  limit?: number
+  offset?: number
+}
+
+export interface AuditResult {
+  success: boolean
+  output?: string
+  error?: string
+}
+
+// 串行写入，保证并发请求的行不会交错
+let writeQueue: Promise<void> = Promise.resolve()
+
+function appendEntry(entry: SecurityLog): Promise<void> {
+  writeQueue = writeQueue
+    .then(async () => {
+      await fs.mkdir(path.dirname(AUDIT_LOG_FILE), { recursive: true })
+      await fs.appendFile(AUDIT_LOG_FILE, `${JSON.stringify(entry)}\n`, { encoding: 'utf-8', flag: 'a' })
+    })
+    .catch(error => {
+      console.error('写入审计日志失败:', error)
+    })
+  return writeQueue
+}
+
+function generateId(): string {
+  return `audit_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+}
+
+function getClientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')
+  return forwarded?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown'
+}
+
+// 环境变量常用来传递 API 密钥和令牌，审计日志只记录变量名
+const MASKED_VALUE = '******'
+
+/**
+ * 去掉参数中的敏感值：任意层级的 environment 只保留键名
+ */
+function maskSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(maskSecrets)
+  if (typeof value !== 'object' || value === null) return value
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    key === 'environment' && typeof item === 'object' && item !== null && !Array.isArray(item)
+      ? Object.fromEntries(Object.keys(item).map(name => [name, MASKED_VALUE]))
+      : maskSecrets(item)
+  ]))
+}
+
+function truncate(value: string | undefined): string | undefined {
+  if (!value || value.length <= MAX_OUTPUT_LENGTH) return value
+  return `${value.slice(0, MAX_OUTPUT_LENGTH)}...`
+}
+
+/**
+ * 开始记录一次操作：立即读取调用者信息并开始计时，操作结束后调用 finish 写入日志
+ * （只有第一次调用生效）；backend 为操作所在的 cc-agent 后端 ID，args 中环境变量的值不会写入日志
+ */
+export async function beginAudit(
+  request: NextRequest,
+  type: SecurityLog['type'],
+  action: string,
+  args: unknown,
+  backend?: string
+): Promise<{ finish: (result: AuditResult) => Promise<void> }> {
+  const startedAt = Date.now()
+  const user = await getRequestUsername(request) ?? 'anonymous'
+  const ipAddress = getClientIp(request)
+  const userAgent = request.headers.get('user-agent') || ''
+  let finished = false
+
+  return {
+    finish: async ({ success, output, error }) => {
+      if (finished) return
+      finished = true
+      await appendEntry({
+        id: generateId(),
+        type,
+        user,
+        action,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        timestamp: new Date(startedAt).toISOString(),
+        success,
+        duration_ms: Date.now() - startedAt,
+        details: {
+          ...(backend ? { backend } : {}),
+          args: maskSecrets(args ?? {}),
+          ...(output ? { output: truncate(output) } : {}),
+          ...(error ? { error: truncate(error) } : {})
+        }
+      })
+    }
+  }
+}
+
+async function readEntries(): Promise<SecurityLog[]> {
+  let content: string
+  try {
+    content = await fs.readFile(AUDIT_LOG_FILE, 'utf-8')
+  } catch (error) {
+    // 还没有任何记录
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+
+  const entries: SecurityLog[] = []
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      entries.push(JSON.parse(line))
+    } catch {
+      console.warn('跳过无法解析的审计日志行:', line.slice(0, 200))
+    }
+  }
+  return entries
+}
+
+/**
+ * 按条件查询审计日志，按时间倒序分页返回
+ */
+export async function queryAuditLog(query: AuditLogQuery): Promise<{ items: SecurityLog[]; total: number }> {
+  const { type, user, action, success, from, to, limit = 50, offset = 0 } = query
+  const fromTime = from ? new Date(from).getTime() : -Infinity
+  const toTime = to ? new Date(to).getTime() : Infinity
+
+  const matched = (await readEntries())
+    .filter(entry =>
+      (!type || entry.type === type) &&
+      (!user || entry.user === user) &&
+      (!action || entry.action.includes(action)) &&
+      (success === undefined || entry.success === success) &&
+      new Date(entry.timestamp).getTime() >= fromTime &&
+      new Date(entry.timestamp).getTime() <= toTime
+    )
+    .reverse()
+
+  return {
+    items: matched.slice(offset, offset + limit),
+    total: matched.length
+  }
+}
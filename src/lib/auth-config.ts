@@ -1,5 +1,7 @@
 import fs from 'fs'
 import path from 'path'
+import { jwtVerify } from 'jose'
+import type { NextRequest } from 'next/server'
 
 interface User {
   username: string
@@ -38,3 +40,21 @@ export function findUser(username: string): User | undefined {
 export function clearAuthConfigCache(): void {
   cachedConfig = null
 }
+
+/**
+ * 从请求的 auth_token cookie 中解析用户名，token 缺失或无效时返回 null
+ */
+export async function getRequestUsername(request: NextRequest): Promise<string | null> {
+  const token = request.cookies.get('auth_token')?.value
+  const jwtSecret = process.env.AUTH_JWT_SECRET
+  if (!token || !jwtSecret) {
+    return null
+  }
+
+  try {
+    const { payload } = await jwtVerify(token, new TextEncoder().encode(jwtSecret))
+    return typeof payload.username === 'string' ? payload.username : null
+  } catch {
+    return null
+  }
+}
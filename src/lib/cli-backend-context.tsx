@@ -0,0 +1,69 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { CLIService } from '@/services/cli-service'
+import type { CLIBackendInfo } from '@/lib/cli-backends'
+
+// 选中的后端保存在本地，刷新页面后保持不变
+const STORAGE_KEY = 'cc-agent-backend'
+
+export const CLI_BACKENDS_QUERY_KEY = ['cli', 'backends'] as const
+
+interface CLIBackendContextValue {
+  // 当前后端 ID，null 表示使用服务端的第一个后端
+  backend: string | null
+  backends: CLIBackendInfo[]
+  // 本地保存的选择已读取；在此之前查询不发出，避免先按默认后端请求一次
+  ready: boolean
+  setBackend: (backend: string) => void
+}
+
+const CLIBackendContext = createContext<CLIBackendContextValue | null>(null)
+
+export function CLIBackendProvider({ children }: { children: React.ReactNode }) {
+  const [backend, setBackendState] = useState<string | null>(null)
+  const [ready, setReady] = useState(false)
+
+  const { data: backends = [] } = useQuery({
+    queryKey: CLI_BACKENDS_QUERY_KEY,
+    queryFn: CLIService.listBackends,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 1
+  })
+
+  const setBackend = useCallback((id: string) => {
+    localStorage.setItem(STORAGE_KEY, id)
+    setBackendState(id)
+  }, [])
+
+  useEffect(() => {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (saved) {
+      setBackendState(saved)
+    }
+    setReady(true)
+  }, [])
+
+  // 保存的后端已从配置中移除时回到默认后端
+  useEffect(() => {
+    if (backend && backends.length > 0 && !backends.some(item => item.id === backend)) {
+      localStorage.removeItem(STORAGE_KEY)
+      setBackendState(null)
+    }
+  }, [backend, backends])
+
+  return (
+    <CLIBackendContext.Provider value={{ backend, backends, ready, setBackend }}>
+      {children}
+    </CLIBackendContext.Provider>
+  )
+}
+
+export function useCLIBackend(): CLIBackendContextValue {
+  const context = useContext(CLIBackendContext)
+  if (!context) {
+    throw new Error('useCLIBackend must be used within CLIBackendProvider')
+  }
+  return context
+}
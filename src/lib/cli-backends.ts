@@ -0,0 +1,151 @@
+import fs from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * cc-agent 后端注册表
+ *
+ * 从 config/backends.json 读取命名的后端：本地后端直接调用 taskctl.py，
+ * 远程后端是另一台主机上部署的本前端，请求会转发到它的 /api 接口。
+ * 没有配置文件时，使用环境变量生成一个默认的本地后端。
+ */
+
+export class CLIBackendError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CLIBackendError'
+  }
+}
+
+const backendIdSchema = z.string().regex(/^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/, '后端ID格式无效')
+
+const localBackendSchema = z.object({
+  id: backendIdSchema,
+  name: z.string().min(1),
+  type: z.literal('local'),
+  ccAgentPath: z.string().min(1),
+  pythonCmd: z.string().min(1).default('python3.11'),
+  // local 调用真实的 taskctl.py，simulated 使用内存模拟后端
+  executor: z.enum(['local', 'simulated']).default('local'),
+  simulatorSeed: z.number().int().optional()
+})
+
+const remoteBackendSchema = z.object({
+  id: backendIdSchema,
+  name: z.string().min(1),
+  type: z.literal('remote'),
+  // 远程前端的地址，包含 basePath，例如 http://agent-02:3000/cc
+  url: z.url(),
+  // 远程前端签发的 JWT，作为 auth_token cookie 发送
+  token: z.string().optional()
+})
+
+const backendsConfigSchema = z.object({
+  backends: z.array(z.discriminatedUnion('type', [localBackendSchema, remoteBackendSchema])).min(1)
+})
+
+export type LocalBackendConfig = z.output<typeof localBackendSchema>
+export type RemoteBackendConfig = z.output<typeof remoteBackendSchema>
+export type CLIBackendConfig = LocalBackendConfig | RemoteBackendConfig
+
+// 返回给前端的信息，不包含路径和凭据
+export interface CLIBackendInfo {
+  id: string
+  name: string
+  type: CLIBackendConfig['type']
+}
+
+const BACKENDS_CONFIG_FILE = process.env.CLI_BACKENDS_CONFIG || path.join(process.cwd(), 'config', 'backends.json')
+
+let cachedBackends: CLIBackendConfig[] | null = null
+
+function defaultBackend(): LocalBackendConfig {
+  return {
+    id: 'default',
+    name: '本地',
+    type: 'local',
+    ccAgentPath: process.env.CC_AGENT_PATH || '/root/agent-platform/cc-agent',
+    pythonCmd: process.env.PYTHON_CMD || 'python3.11',
+    executor: process.env.CLI_EXECUTOR === 'simulated' ? 'simulated' : 'local',
+    simulatorSeed: Number(process.env.CLI_SIMULATOR_SEED) || undefined
+  }
+}
+
+export function getBackends(): CLIBackendConfig[] {
+  if (cachedBackends) {
+    return cachedBackends
+  }
+
+  let content: string
+  try {
+    content = fs.readFileSync(BACKENDS_CONFIG_FILE, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read backends config:', error)
+    }
+    cachedBackends = [defaultBackend()]
+    return cachedBackends
+  }
+
+  const parsed = backendsConfigSchema.safeParse(JSON.parse(content))
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new Error(`后端配置无效 (${issue.path.join('.')}): ${issue.message}`)
+  }
+
+  const ids = new Set<string>()
+  for (const backend of parsed.data.backends) {
+    if (ids.has(backend.id)) {
+      throw new Error(`后端配置无效: 重复的后端ID ${backend.id}`)
+    }
+    ids.add(backend.id)
+  }
+
+  cachedBackends = parsed.data.backends
+  return cachedBackends
+}
+
+/**
+ * 按 ID 查找后端，未指定时使用第一个
+ */
+export function resolveBackend(id: string | null | undefined): CLIBackendConfig {
+  const backends = getBackends()
+  if (!id) {
+    return backends[0]
+  }
+
+  const backend = backends.find(item => item.id === id)
+  if (!backend) {
+    throw new CLIBackendError(`未知的后端: ${id}`)
+  }
+  return backend
+}
+
+/**
+ * 从请求的 ?backend= 参数解析后端
+ */
+export function resolveRequestBackend(request: NextRequest): CLIBackendConfig {
+  return resolveBackend(request.nextUrl.searchParams.get('backend'))
+}
+
+/**
+ * 后端解析失败时的响应：未知后端返回 400，配置文件无效返回 500
+ */
+export function backendErrorResponse(error: unknown): NextResponse {
+  console.error('解析后端失败:', error)
+  return NextResponse.json({
+    success: false,
+    output: '',
+    error: error instanceof Error ? error.message : '解析后端失败'
+  }, { status: error instanceof CLIBackendError ? 400 : 500 })
+}
+
+export function toBackendInfo(backend: CLIBackendConfig): CLIBackendInfo {
+  return { id: backend.id, name: backend.name, type: backend.type }
+}
+
+// 清除缓存（用于热重载）
+export function clearBackendsCache(): void {
+  cachedBackends = null
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildCommandArgv,
+  parseCommandArgs,
+  isCLIOperation,
+  isMutatingOperation,
+  getCommandWorkingDir,
+  CLICommandError
+} from '@/lib/cli-commands'
+
+describe('buildCommandArgv', () => {
+  it('生成只读命令的 argv', () => {
+    expect(buildCommandArgv('task.list', { state: 'pending', format: 'json' }))
+      .toEqual(['taskctl.py', 'task', 'list', '--state', 'pending', '--format', 'json'])
+    expect(buildCommandArgv('task.logs', { taskId: 'task_01', follow: true }))
+      .toEqual(['taskctl.py', 'task', 'show', 'task_01', '--show-logs', '--follow'])
+  })
+
+  it('把创建任务的执行配置转换为参数', () => {
+    expect(buildCommandArgv('task.create', {
+      name: '构建',
+      description: '运行构建',
+      priority: 'high',
+      workingDir: '/srv/app',
+      environment: { NODE_ENV: 'production' },
+      tags: ['ci', 'build'],
+      autoExecute: false
+    })).toEqual([
+      'taskctl.py', 'task', 'create', '构建',
+      '--description=运行构建',
+      '--priority', 'high',
+      '--working-dir=/srv/app',
+      '--env=NODE_ENV=production',
+      '--tags=ci,build',
+      '--no-auto-execute'
+    ])
+  })
+
+  it('拒绝未知操作', () => {
+    expect(() => buildCommandArgv('task.delete', {})).toThrow(CLICommandError)
+    expect(() => buildCommandArgv(undefined, {})).toThrow('未知的操作')
+  })
+
+  it('拒绝未注册的参数', () => {
+    expect(() => buildCommandArgv('task.cancel', { taskId: 'a1', force: true })).toThrow(CLICommandError)
+  })
+
+  it('拒绝无效的 ID 和以 "-" 开头的文本', () => {
+    expect(() => buildCommandArgv('task.show', { taskId: '--help' })).toThrow('参数 taskId 无效')
+    expect(() => buildCommandArgv('task.show', { taskId: 'a/b' })).toThrow('参数 taskId 无效')
+    expect(() => buildCommandArgv('task.create', { name: '--rm', description: 'x' })).toThrow('参数 name 无效')
+  })
+
+  it('校验工作目录、环境变量和 cron 表达式', () => {
+    const base = { name: 'n', description: 'd' }
+    expect(() => buildCommandArgv('task.create', { ...base, workingDir: 'relative/dir' })).toThrow('参数 workingDir 无效')
+    expect(() => buildCommandArgv('task.create', { ...base, environment: { '1BAD': 'x' } })).toThrow('参数 environment 无效')
+    expect(() => buildCommandArgv('task.create', { ...base, description: '   ' })).toThrow('任务描述不能为空')
+    expect(() => buildCommandArgv('schedule.add', { ...base, cron: '* * *' })).toThrow('Cron表达式格式无效')
+    expect(buildCommandArgv('schedule.add', { ...base, cron: ' */5 * * * 1-5 ' }))
+      .toContain('--cron=*/5 * * * 1-5')
+  })
+})
+
+describe('parseCommandArgs', () => {
+  it('返回校验后的参数', () => {
+    expect(parseCommandArgs('schedule.add', { name: 'n', description: 'd', cron: ' 0 * * * * ' }))
+      .toEqual({ name: 'n', description: 'd', cron: '0 * * * *' })
+  })
+
+  it('参数为空时按空对象校验', () => {
+    expect(parseCommandArgs('worker.list', undefined)).toEqual({})
+  })
+})
+
+describe('操作属性', () => {
+  it('区分已注册的操作和会修改状态的操作', () => {
+    expect(isCLIOperation('task.list')).toBe(true)
+    expect(isCLIOperation('toString')).toBe(false)
+    expect(isMutatingOperation('task.list')).toBe(false)
+    expect(isMutatingOperation('task.cancel')).toBe(true)
+  })
+
+  it('只从创建任务和定时任务的参数中取工作目录', () => {
+    expect(getCommandWorkingDir('task.create', { workingDir: '/srv' })).toBe('/srv')
+    expect(getCommandWorkingDir('task.show', { workingDir: '/srv' })).toBeUndefined()
+    expect(getCommandWorkingDir('task.create', null)).toBeUndefined()
+  })
+})
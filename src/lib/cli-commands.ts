@@ -0,0 +1,317 @@
+import { z } from 'zod'
+import { retryPolicySchema, type RetryPolicy } from '@/lib/retry-policy'
+
+/**
+ * taskctl.py 命令注册表
+ *
+ * 客户端只发送操作名和结构化参数，服务端在这里校验参数并生成 argv 数组，
+ * 只有注册过的子命令和参数才能传给 taskctl.py 进程。
+ */
+
+export class CLICommandError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CLICommandError'
+  }
+}
+
+// 任务、工作器、定时任务的 ID 只允许字母、数字、下划线和连字符
+const idSchema = z.string().regex(/^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/, 'ID格式无效')
+
+// 自由文本：不能以 "-" 开头（避免被当作参数），不能包含 NUL 字符
+const textSchema = (max: number) =>
+  z.string()
+    .max(max, `长度不能超过${max}个字符`)
+    .refine(value => !value.startsWith('-'), '不能以 "-" 开头')
+    .refine(value => !value.includes('\0'), '包含非法字符')
+
+// 工作目录必须是绝对路径，是否存在由服务端在执行前检查
+const workingDirSchema = textSchema(1024).refine(value => value.startsWith('/'), '必须是绝对路径')
+
+// 环境变量名遵循 shell 变量命名规则，值不能包含 NUL 字符
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,127}$/
+const environmentSchema = z.record(
+  z.string(),
+  z.string().max(4096, '环境变量值不能超过4096个字符').refine(value => !value.includes('\0'), '包含非法字符')
+)
+  .refine(env => Object.keys(env).every(key => ENV_KEY_PATTERN.test(key)), '环境变量名只能包含字母、数字和下划线，且不能以数字开头')
+  .refine(env => Object.keys(env).length <= 50, '环境变量不能超过50个')
+
+// 标签只允许字母（含中文）、数字、下划线、连字符、点和冒号，以逗号拼接后传给 taskctl
+const tagsSchema = z.array(
+  z.string().regex(/^[\p{L}\p{N}_.:-]{1,50}$/u, '标签只能包含字母、数字、下划线、连字符、点和冒号，且不超过50个字符')
+).max(20, '标签不能超过20个')
+
+const cronSchema = z.string()
+  .trim()
+  .refine(value => {
+    const parts = value.split(/\s+/)
+    return parts.length === 5 && parts.every(part => /^[\d*/,-]+$/.test(part))
+  }, 'Cron表达式格式无效')
+
+const taskStateSchema = z.enum([
+  'pending',
+  'processing',
+  'paused',
+  'waiting_unban',
+  'retrying',
+  'completed',
+  'failed',
+  'needs_human_review',
+  'awaiting_confirmation',
+])
+const taskTypeSchema = z.enum(['lightweight', 'medium_context', 'heavy_context'])
+const taskPrioritySchema = z.enum(['low', 'normal', 'high', 'urgent'])
+const formatSchema = z.enum(['json', 'table'])
+
+const emptyArgs = z.object({}).strict()
+const taskIdArgs = z.object({ taskId: idSchema }).strict()
+const workerIdArgs = z.object({ workerId: idSchema }).strict()
+
+// 任务和定时任务共用的执行配置
+const executionOptionsSchema = z.object({
+  workingDir: workingDirSchema.optional(),
+  environment: environmentSchema.optional(),
+  tags: tagsSchema.optional(),
+  autoExecute: z.boolean().optional(),
+})
+
+function buildExecutionOptions({ workingDir, environment, tags, autoExecute }: z.output<typeof executionOptionsSchema>): string[] {
+  return [
+    ...(workingDir ? [`--working-dir=${workingDir}`] : []),
+    ...Object.entries(environment ?? {}).map(([key, value]) => `--env=${key}=${value}`),
+    ...(tags && tags.length > 0 ? [`--tags=${tags.join(',')}`] : []),
+    ...(autoExecute === undefined ? [] : [autoExecute ? '--auto-execute' : '--no-auto-execute']),
+  ]
+}
+
+// taskctl 使用重试次数，策略中的最多执行次数包括第一次执行
+function buildRetryPolicyOptions(policy: RetryPolicy | undefined): string[] {
+  if (!policy) return []
+  return [
+    `--max-retries=${policy.max_attempts - 1}`,
+    `--retry-backoff=${policy.backoff}`,
+    `--retry-delay=${policy.delay_seconds}`,
+    `--retry-max-delay=${policy.max_delay_seconds}`,
+    `--retry-jitter=${policy.jitter}`,
+    `--retry-on=${policy.retryable_errors.join(',')}`,
+  ]
+}
+
+interface CLICommandDefinition<S extends z.ZodType> {
+  args: S
+  build: (args: z.output<S>) => string[]
+  // 是否会修改任务、工作器或定时任务的状态
+  mutating?: boolean
+  // 超时时间（毫秒），不设置时使用执行池的默认值
+  timeoutMs?: number
+}
+
+function defineCommand<S extends z.ZodType>(definition: CLICommandDefinition<S>) {
+  return definition
+}
+
+export const CLI_COMMANDS = {
+  'task.list': defineCommand({
+    args: z.object({
+      state: taskStateSchema.optional(),
+      priority: taskPrioritySchema.optional(),
+      format: formatSchema.optional(),
+    }).strict(),
+    build: ({ state, priority, format }) => [
+      'task', 'list',
+      ...(state ? ['--state', state] : []),
+      ...(priority ? ['--priority', priority] : []),
+      ...(format ? ['--format', format] : []),
+    ],
+  }),
+  'task.show': defineCommand({
+    args: taskIdArgs,
+    build: ({ taskId }) => ['task', 'show', taskId, '--format', 'json'],
+  }),
+  'task.logs': defineCommand({
+    args: z.object({ taskId: idSchema, follow: z.boolean().optional() }).strict(),
+    timeoutMs: 60_000,
+    build: ({ taskId, follow }) => ['task', 'show', taskId, '--show-logs', ...(follow ? ['--follow'] : [])],
+  }),
+  'task.create': defineCommand({
+    mutating: true,
+    args: executionOptionsSchema.extend({
+      name: textSchema(200),
+      description: textSchema(20000).refine(value => value.trim().length > 0, '任务描述不能为空'),
+      type: taskTypeSchema.optional(),
+      priority: taskPrioritySchema.optional(),
+      // 复制或重新运行时记录来源任务
+      clonedFrom: idSchema.optional(),
+      // 使用模版创建时记录模版，用于按模版统计
+      templateId: idSchema.optional(),
+      // 不设置时由服务端补上该任务类型保存过的策略，没有保存过则不传重试参数
+      retryPolicy: retryPolicySchema.optional(),
+    }).strict(),
+    build: ({ name, description, type, priority, clonedFrom, templateId, retryPolicy, ...options }) => [
+      'task', 'create', name,
+      `--description=${description}`,
+      ...(type ? ['--type', type] : []),
+      ...(priority ? ['--priority', priority] : []),
+      ...buildExecutionOptions(options),
+      ...(clonedFrom ? [`--cloned-from=${clonedFrom}`] : []),
+      ...(templateId ? [`--template-id=${templateId}`] : []),
+      ...buildRetryPolicyOptions(retryPolicy),
+    ],
+  }),
+  'task.cancel': defineCommand({
+    mutating: true,
+    args: taskIdArgs,
+    build: ({ taskId }) => ['task', 'cancel', taskId],
+  }),
+  'task.retry': defineCommand({
+    mutating: true,
+    args: z.object({ taskId: idSchema, force: z.boolean().optional() }).strict(),
+    build: ({ taskId, force }) => ['task', 'retry', taskId, ...(force ? ['--force'] : [])],
+  }),
+  'task.pause': defineCommand({
+    mutating: true,
+    args: taskIdArgs,
+    build: ({ taskId }) => ['task', 'pause', taskId],
+  }),
+  'task.resume': defineCommand({
+    mutating: true,
+    args: taskIdArgs,
+    build: ({ taskId }) => ['task', 'resume', taskId],
+  }),
+  // 等待确认或需要人工审核的任务：批准、拒绝或回复补充说明后继续执行
+  'task.approve': defineCommand({
+    mutating: true,
+    args: z.object({ taskId: idSchema, comment: textSchema(2000).optional() }).strict(),
+    build: ({ taskId, comment }) => ['task', 'approve', taskId, ...(comment ? [`--comment=${comment}`] : [])],
+  }),
+  'task.reject': defineCommand({
+    mutating: true,
+    args: z.object({ taskId: idSchema, reason: textSchema(2000).optional() }).strict(),
+    build: ({ taskId, reason }) => ['task', 'reject', taskId, ...(reason ? [`--reason=${reason}`] : [])],
+  }),
+  'task.reply': defineCommand({
+    mutating: true,
+    args: z.object({
+      taskId: idSchema,
+      message: textSchema(20000).refine(value => value.trim().length > 0, '回复内容不能为空'),
+    }).strict(),
+    build: ({ taskId, message }) => ['task', 'reply', taskId, `--message=${message}`],
+  }),
+  'worker.list': defineCommand({
+    args: emptyArgs,
+    build: () => ['worker', 'list', '--format', 'json'],
+  }),
+  'worker.show': defineCommand({
+    args: workerIdArgs,
+    build: ({ workerId }) => ['worker', 'show', workerId, '--format', 'json'],
+  }),
+  'worker.restart': defineCommand({
+    mutating: true,
+    args: workerIdArgs,
+    build: ({ workerId }) => ['worker', 'restart', workerId],
+  }),
+  'schedule.list': defineCommand({
+    args: emptyArgs,
+    build: () => ['schedule', 'list', '--format', 'json'],
+  }),
+  'schedule.add': defineCommand({
+    mutating: true,
+    args: executionOptionsSchema.extend({
+      name: textSchema(200),
+      description: textSchema(20000),
+      cron: cronSchema,
+      type: taskTypeSchema.optional(),
+    }).strict(),
+    build: ({ name, description, cron, type, ...options }) => [
+      'schedule', 'add', name,
+      `--description=${description}`,
+      `--cron=${cron}`,
+      ...(type ? ['--type', type] : []),
+      ...buildExecutionOptions(options),
+    ],
+  }),
+  'schedule.remove': defineCommand({
+    mutating: true,
+    args: taskIdArgs,
+    build: ({ taskId }) => ['schedule', 'remove', taskId],
+  }),
+  'schedule.enable': defineCommand({
+    mutating: true,
+    args: taskIdArgs,
+    build: ({ taskId }) => ['schedule', 'enable', taskId],
+  }),
+  'schedule.disable': defineCommand({
+    mutating: true,
+    args: taskIdArgs,
+    build: ({ taskId }) => ['schedule', 'disable', taskId],
+  }),
+  'system.status': defineCommand({
+    args: emptyArgs,
+    timeoutMs: 15_000,
+    build: () => ['system', 'status'],
+  }),
+  'system.stop': defineCommand({
+    mutating: true,
+    args: emptyArgs,
+    timeoutMs: 60_000,
+    build: () => ['system', 'stop'],
+  }),
+}
+
+export type CLIOperation = keyof typeof CLI_COMMANDS
+
+export type CLICommandArgs<O extends CLIOperation> = z.input<(typeof CLI_COMMANDS)[O]['args']>
+
+export function isCLIOperation(operation: unknown): operation is CLIOperation {
+  return typeof operation === 'string' && Object.prototype.hasOwnProperty.call(CLI_COMMANDS, operation)
+}
+
+export function isMutatingOperation(operation: CLIOperation): boolean {
+  return CLI_COMMANDS[operation].mutating === true
+}
+
+/**
+ * 取出操作参数中的工作目录（只有创建任务和定时任务有）
+ */
+export function getCommandWorkingDir(operation: CLIOperation, args: unknown): string | undefined {
+  if (operation !== 'task.create' && operation !== 'schedule.add') return undefined
+  const workingDir = (args as { workingDir?: unknown } | null)?.workingDir
+  return typeof workingDir === 'string' && workingDir ? workingDir : undefined
+}
+
+export function getCommandTimeout(operation: CLIOperation): number | undefined {
+  return (CLI_COMMANDS[operation] as CLICommandDefinition<z.ZodType>).timeoutMs
+}
+
+/**
+ * 校验操作参数，返回校验后的参数（去掉未知字段、补上默认值），无效时抛出 CLICommandError
+ */
+export function parseCommandArgs(operation: unknown, args: unknown): Record<string, unknown> {
+  return parseArgs(operation, args).args
+}
+
+function parseArgs(operation: unknown, args: unknown): { definition: CLICommandDefinition<z.ZodType>; args: Record<string, unknown> } {
+  if (!isCLIOperation(operation)) {
+    throw new CLICommandError(`未知的操作: ${String(operation)}`)
+  }
+
+  const definition = CLI_COMMANDS[operation] as CLICommandDefinition<z.ZodType>
+  const parsed = definition.args.safeParse(args ?? {})
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const field = issue.path.join('.') || 'args'
+    throw new CLICommandError(`参数 ${field} 无效: ${issue.message}`)
+  }
+
+  return { definition, args: parsed.data as Record<string, unknown> }
+}
+
+/**
+ * 校验操作参数并生成 taskctl.py 的 argv（不含解释器）
+ */
+export function buildCommandArgv(operation: unknown, args: unknown): string[] {
+  const { definition, args: parsed } = parseArgs(operation, args)
+  return ['taskctl.py', ...definition.build(parsed)]
+}
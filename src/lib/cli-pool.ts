@@ -0,0 +1,226 @@
+/**
+ * taskctl.py 执行池
+ *
+ * 限制同时运行的解释器进程数量，超出的请求排队等待，队列满时直接拒绝；
+ * 流式命令的进程会一直运行到客户端断开，单独限制数量，达到上限时直接拒绝；
+ * 同时记录排队深度、等待时间和执行时间，供监控页面展示。
+ */
+
+export type CLIExecutionFailure = 'timeout' | 'aborted' | 'queue_full'
+
+export class CLIExecutionError extends Error {
+  readonly reason: CLIExecutionFailure
+
+  constructor(reason: CLIExecutionFailure, message: string) {
+    super(message)
+    this.name = 'CLIExecutionError'
+    this.reason = reason
+  }
+}
+
+// 执行失败对应的 HTTP 状态码
+export const EXECUTION_ERROR_STATUS: Record<CLIExecutionFailure, number> = {
+  timeout: 504,
+  queue_full: 503,
+  aborted: 499
+}
+
+export interface CLIDurationSummary {
+  count: number
+  avg_ms: number
+  p50_ms: number
+  p95_ms: number
+  max_ms: number
+}
+
+export interface CLICommandMetrics {
+  command: string
+  count: number
+  avg_ms: number
+  max_ms: number
+}
+
+export interface CLIPoolMetrics {
+  max_concurrency: number
+  max_queue: number
+  active: number
+  queued: number
+  active_streams: number
+  max_streams: number
+  totals: {
+    completed: number
+    failed: number
+    timed_out: number
+    aborted: number
+    rejected: number
+  }
+  wait: CLIDurationSummary
+  run: CLIDurationSummary
+  by_command: CLICommandMetrics[]
+  generated_at: string
+}
+
+// 只保留最近的样本计算分位数
+const SAMPLE_LIMIT = 500
+
+interface Waiter {
+  resolve: () => void
+}
+
+function summarize(samples: number[]): CLIDurationSummary {
+  if (samples.length === 0) {
+    return { count: 0, avg_ms: 0, p50_ms: 0, p95_ms: 0, max_ms: 0 }
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b)
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))]
+
+  return {
+    count: sorted.length,
+    avg_ms: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50_ms: percentile(0.5),
+    p95_ms: percentile(0.95),
+    max_ms: sorted[sorted.length - 1]
+  }
+}
+
+export class ExecutionPool {
+  private active = 0
+  private activeStreams = 0
+  private queue: Waiter[] = []
+  private waitSamples: number[] = []
+  private runSamples: number[] = []
+  private commands = new Map<string, { count: number; totalMs: number; maxMs: number }>()
+  private totals = { completed: 0, failed: 0, timed_out: 0, aborted: 0, rejected: 0 }
+
+  constructor(private maxConcurrency: number, private maxQueue: number, private maxStreams: number) {}
+
+  /**
+   * 占用一个执行槽运行 task；signal 中止时从队列中移除
+   */
+  async run<T>(command: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const queuedAt = Date.now()
+    await this.acquire(signal)
+
+    const startedAt = Date.now()
+    this.record(this.waitSamples, startedAt - queuedAt)
+
+    try {
+      const result = await task()
+      this.totals.completed++
+      return result
+    } catch (error) {
+      if (error instanceof CLIExecutionError && error.reason === 'timeout') {
+        this.totals.timed_out++
+      } else if (error instanceof CLIExecutionError && error.reason === 'aborted') {
+        this.totals.aborted++
+      } else {
+        this.totals.failed++
+      }
+      throw error
+    } finally {
+      this.recordCommand(command, Date.now() - startedAt)
+      this.release()
+    }
+  }
+
+  /**
+   * 占用一个流式连接名额，返回结束时调用的函数；达到上限时抛出 queue_full
+   * （流式命令不占用执行槽，避免长时间运行的连接把普通命令堵在队列里）
+   */
+  openStream(): () => void {
+    if (this.activeStreams >= this.maxStreams) {
+      this.totals.rejected++
+      throw new CLIExecutionError('queue_full', `流式连接已达上限 (${this.maxStreams})，请稍后重试`)
+    }
+    this.activeStreams++
+    let ended = false
+    return () => {
+      if (ended) return
+      ended = true
+      this.activeStreams--
+    }
+  }
+
+  getMetrics(): CLIPoolMetrics {
+    return {
+      max_concurrency: this.maxConcurrency,
+      max_queue: this.maxQueue,
+      active: this.active,
+      queued: this.queue.length,
+      active_streams: this.activeStreams,
+      max_streams: this.maxStreams,
+      totals: { ...this.totals },
+      wait: summarize(this.waitSamples),
+      run: summarize(this.runSamples),
+      by_command: Array.from(this.commands, ([command, stats]) => ({
+        command,
+        count: stats.count,
+        avg_ms: Math.round(stats.totalMs / stats.count),
+        max_ms: stats.maxMs
+      })).sort((a, b) => b.count - a.count),
+      generated_at: new Date().toISOString()
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      this.totals.aborted++
+      return Promise.reject(new CLIExecutionError('aborted', '请求已取消'))
+    }
+
+    if (this.active < this.maxConcurrency) {
+      this.active++
+      return Promise.resolve()
+    }
+
+    if (this.queue.length >= this.maxQueue) {
+      this.totals.rejected++
+      return Promise.reject(new CLIExecutionError('queue_full', `执行队列已满 (${this.maxQueue})，请稍后重试`))
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(item => item !== waiter)
+        this.totals.aborted++
+        reject(new CLIExecutionError('aborted', '请求已取消'))
+      }
+
+      const waiter: Waiter = {
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        }
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.queue.push(waiter)
+    })
+  }
+
+  // 释放执行槽：有排队的请求时直接交给下一个，不减少 active
+  private release(): void {
+    const next = this.queue.shift()
+    if (next) {
+      next.resolve()
+    } else {
+      this.active--
+    }
+  }
+
+  private record(samples: number[], value: number): void {
+    samples.push(value)
+    if (samples.length > SAMPLE_LIMIT) {
+      samples.shift()
+    }
+  }
+
+  private recordCommand(command: string, durationMs: number): void {
+    this.record(this.runSamples, durationMs)
+    const stats = this.commands.get(command) ?? { count: 0, totalMs: 0, maxMs: 0 }
+    stats.count++
+    stats.totalMs += durationMs
+    stats.maxMs = Math.max(stats.maxMs, durationMs)
+    this.commands.set(command, stats)
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { RemoteBackendConfig } from '@/lib/cli-backends'
+
+/**
+ * 远程后端代理
+ *
+ * 远程后端是另一台主机上部署的本前端，把请求原样转发到它的接口，
+ * 状态码、响应体、Content-Type 和 Content-Disposition 原样返回，流式响应直接透传。
+ */
+
+/**
+ * 把请求转发到远程后端的 apiPath（例如 /api/cli/snapshot），去掉 backend 参数；
+ * body 为空时不发送请求体
+ */
+export async function proxyToBackend(
+  backend: RemoteBackendConfig,
+  request: NextRequest,
+  apiPath: string,
+  body?: string
+): Promise<Response> {
+  const target = new URL(`${backend.url.replace(/\/+$/, '')}${apiPath}`)
+  request.nextUrl.searchParams.forEach((value, key) => {
+    if (key !== 'backend') {
+      target.searchParams.append(key, value)
+    }
+  })
+
+  const headers: Record<string, string> = {}
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json'
+  }
+  if (backend.token) {
+    headers.Cookie = `auth_token=${backend.token}`
+  }
+
+  try {
+    const response = await fetch(target, {
+      method: request.method,
+      headers,
+      body,
+      signal: request.signal,
+      cache: 'no-store',
+      // 远程中间件在未认证时重定向到登录页，不跟随
+      redirect: 'manual'
+    })
+
+    if (response.status >= 300 && response.status < 400) {
+      return NextResponse.json({
+        success: false,
+        output: '',
+        error: `远程后端 ${backend.name} 认证失败，请检查 token 配置`
+      }, { status: 502 })
+    }
+
+    const contentDisposition = response.headers.get('content-disposition')
+    return new Response(response.body, {
+      status: response.status,
+      headers: {
+        'Content-Type': response.headers.get('content-type') || 'application/json',
+        'Cache-Control': 'no-cache, no-transform',
+        // 导出等下载接口需要保留文件名
+        ...(contentDisposition ? { 'Content-Disposition': contentDisposition } : {})
+      }
+    })
+  } catch (error) {
+    console.error(`转发到远程后端 ${backend.id} 失败:`, error)
+
+    return NextResponse.json({
+      success: false,
+      output: '',
+      error: `无法连接远程后端 ${backend.name}: ${error instanceof Error ? error.message : '未知错误'}`
+    }, { status: 502 })
+  }
+}
@@ -0,0 +1,384 @@
+import { execFile, spawn } from 'child_process'
+import { EventEmitter, once } from 'events'
+import { closeSync, openSync } from 'fs'
+import { open, stat } from 'fs/promises'
+import { PassThrough, type Readable } from 'stream'
+import { promisify } from 'util'
+import { TaskctlSimulator } from '@/lib/cli-simulator'
+import { CLIContractError } from '@/lib/cli-schemas'
+import { CLICommandError } from '@/lib/cli-commands'
+import { ExecutionPool, CLIExecutionError, type CLIPoolMetrics } from '@/lib/cli-pool'
+import type { LocalBackendConfig } from '@/lib/cli-backends'
+
+const execFileAsync = promisify(execFile)
+
+// 执行池：默认超时、最大并发进程数和排队上限
+const CLI_COMMAND_TIMEOUT_MS = Number(process.env.CLI_COMMAND_TIMEOUT_MS) || 30_000
+const CLI_MAX_CONCURRENCY = Number(process.env.CLI_MAX_CONCURRENCY) || 4
+const CLI_MAX_QUEUE = Number(process.env.CLI_MAX_QUEUE) || 50
+// 流式命令：同时运行的进程数、最长运行时间和没有输出时的超时
+const CLI_MAX_STREAMS = Number(process.env.CLI_MAX_STREAMS) || 8
+const CLI_STREAM_MAX_MS = Number(process.env.CLI_STREAM_MAX_MS) || 30 * 60_000
+const CLI_STREAM_IDLE_MS = Number(process.env.CLI_STREAM_IDLE_MS) || 5 * 60_000
+const CLI_MAX_BUFFER_BYTES = 16 * 1024 * 1024
+
+const SIMULATED_FOLLOW_INTERVAL_MS = 1000
+
+// 服务日志只读取文件末尾这么多字节，更早的内容需要到服务器上查看
+const SERVICE_LOG_MAX_BYTES = 16 * 1024 * 1024
+
+/**
+ * 流式执行的进程接口，真实子进程和模拟进程都满足
+ */
+export interface TaskctlProcess {
+  stdout: Readable
+  stderr: Readable
+  kill(): void
+  on(event: 'close', listener: (code: number | null, signal: NodeJS.Signals | null) => void): this
+  on(event: 'error', listener: (error: Error) => void): this
+}
+
+export interface TaskctlRunOptions {
+  // 请求中止时从队列中移除，已开始执行的子进程同时被终止
+  signal?: AbortSignal
+  timeoutMs?: number
+  // 写操作开始执行后不随请求中止，避免只执行了一半
+  killOnAbort?: boolean
+}
+
+interface TaskctlExecutor {
+  run(argv: string[], options: { signal?: AbortSignal; timeoutMs: number }): Promise<{ stdout: string; stderr: string }>
+  spawn(argv: string[]): TaskctlProcess
+  startAutoClaude(): void
+  readServiceLog(): Promise<ServiceLog>
+}
+
+export interface ServiceLog {
+  lines: string[]
+  // 日志超过读取上限，开头的内容被截掉
+  truncated: boolean
+}
+
+function createLocalExecutor({ id, ccAgentPath, pythonCmd }: LocalBackendConfig): TaskctlExecutor {
+  // 默认后端沿用原来的日志路径，其他后端按 ID 区分
+  const autoClaudeLog = id === 'default' ? '/tmp/auto_claude.log' : `/tmp/auto_claude_${id}.log`
+
+  return {
+    async run(argv, { signal, timeoutMs }) {
+      try {
+        const { stdout, stderr } = await execFileAsync(pythonCmd, argv, {
+          cwd: ccAgentPath,
+          timeout: timeoutMs,
+          maxBuffer: CLI_MAX_BUFFER_BYTES,
+          killSignal: 'SIGKILL',
+          signal
+        })
+        return { stdout, stderr }
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new CLIExecutionError('aborted', '请求已取消')
+        }
+        if ((error as { killed?: boolean }).killed) {
+          throw new CLIExecutionError('timeout', `命令执行超时 (${timeoutMs}ms): ${argv.slice(1).join(' ')}`)
+        }
+        throw error
+      }
+    },
+
+    spawn(argv) {
+      return spawn(pythonCmd, argv, { cwd: ccAgentPath, stdio: ['ignore', 'pipe', 'pipe'] })
+    },
+
+    startAutoClaude() {
+      const logFd = openSync(autoClaudeLog, 'a')
+      const child = spawn(pythonCmd, ['auto_claude.py'], {
+        cwd: ccAgentPath,
+        detached: true,
+        stdio: ['ignore', logFd, logFd]
+      })
+      closeSync(logFd)
+      child.on('error', (error) => {
+        console.error('auto_claude.py 启动失败:', error)
+      })
+      child.unref()
+    },
+
+    async readServiceLog() {
+      let file
+      try {
+        file = await open(autoClaudeLog, 'r')
+      } catch (error) {
+        // 服务从未启动过时还没有日志文件
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { lines: [], truncated: false }
+        throw error
+      }
+
+      try {
+        const { size } = await file.stat()
+        const length = Math.min(size, SERVICE_LOG_MAX_BYTES)
+        const buffer = Buffer.alloc(length)
+        await file.read(buffer, 0, length, size - length)
+        const lines = buffer.toString('utf8').split('\n')
+        // 截断时第一行可能不完整
+        if (size > length) lines.shift()
+        if (lines[lines.length - 1] === '') lines.pop()
+        return { lines, truncated: size > length }
+      } finally {
+        await file.close()
+      }
+    }
+  }
+}
+
+// 模拟后端在开发服务器热重载之间保持同一个实例，每个后端一个
+const globalForSimulator = globalThis as unknown as { taskctlSimulators?: Map<string, TaskctlSimulator> }
+
+function getSimulator({ id, simulatorSeed }: LocalBackendConfig): TaskctlSimulator {
+  const simulators = globalForSimulator.taskctlSimulators ??= new Map()
+  let simulator = simulators.get(id)
+  if (!simulator) {
+    const seed = simulatorSeed ?? 42
+    console.log(`使用模拟 taskctl 后端 ${id} (seed: ${seed})`)
+    simulator = new TaskctlSimulator(seed)
+    simulators.set(id, simulator)
+  }
+  return simulator
+}
+
+class SimulatedProcess extends EventEmitter implements TaskctlProcess {
+  stdout = new PassThrough()
+  stderr = new PassThrough()
+  private timer?: NodeJS.Timeout
+  private finished = false
+
+  constructor(private simulator: TaskctlSimulator, argv: string[]) {
+    super()
+    // 等待调用方挂好监听器后再输出
+    setImmediate(() => this.run(argv))
+  }
+
+  kill(): void {
+    this.finish(null, 'SIGTERM')
+  }
+
+  private run(argv: string[]): void {
+    if (this.finished) return
+    const simulator = this.simulator
+    const follow = argv.includes('--show-logs') && argv.includes('--follow')
+
+    if (!follow) {
+      const result = simulator.execute(argv)
+      if (result.stdout) this.stdout.write(`${result.stdout}\n`)
+      if (result.stderr) this.stderr.write(`${result.stderr}\n`)
+      this.finish(result.exitCode, null)
+      return
+    }
+
+    const taskId = argv[argv.indexOf('show') + 1]
+    let cursor = 0
+    const poll = () => {
+      const result = simulator.readLogs(taskId, cursor)
+      cursor = result.cursor
+      for (const line of result.lines) {
+        this.stdout.write(`${line}\n`)
+      }
+      if (result.done) {
+        this.finish(0, null)
+      }
+    }
+
+    poll()
+    if (!this.finished) {
+      this.timer = setInterval(poll, SIMULATED_FOLLOW_INTERVAL_MS)
+    }
+  }
+
+  private finish(code: number | null, signal: NodeJS.Signals | null): void {
+    if (this.finished) return
+    this.finished = true
+    clearInterval(this.timer)
+
+    // 与真实子进程一致：被读取的输出流结束后才触发 close
+    const drained = [this.stdout, this.stderr]
+      .filter(stream => stream.readableFlowing)
+      .map(stream => once(stream, 'end'))
+    Promise.all(drained).then(() => this.emit('close', code, signal))
+    this.stdout.end()
+    this.stderr.end()
+  }
+}
+
+function createSimulatedExecutor(backend: LocalBackendConfig): TaskctlExecutor {
+  return {
+    async run(argv, { signal }) {
+      if (signal?.aborted) {
+        throw new CLIExecutionError('aborted', '请求已取消')
+      }
+      const result = getSimulator(backend).execute(argv)
+      if (result.exitCode !== 0) {
+        throw new Error(`Command failed: ${argv.join(' ')}\n${result.stderr}`)
+      }
+      return { stdout: result.stdout, stderr: result.stderr }
+    },
+
+    spawn(argv) {
+      return new SimulatedProcess(getSimulator(backend), argv)
+    },
+
+    startAutoClaude() {
+      getSimulator(backend).start()
+    },
+
+    async readServiceLog() {
+      return { lines: getSimulator(backend).serviceLog(), truncated: false }
+    }
+  }
+}
+
+const executors = new Map<string, TaskctlExecutor>()
+
+function getExecutor(backend: LocalBackendConfig): TaskctlExecutor {
+  let executor = executors.get(backend.id)
+  if (!executor) {
+    executor = backend.executor === 'simulated' ? createSimulatedExecutor(backend) : createLocalExecutor(backend)
+    executors.set(backend.id, executor)
+  }
+  return executor
+}
+
+// 执行池同样在热重载之间保持同一个实例，保证并发计数准确
+const globalForPool = globalThis as unknown as { taskctlPool?: ExecutionPool }
+const pool = globalForPool.taskctlPool ??= new ExecutionPool(CLI_MAX_CONCURRENCY, CLI_MAX_QUEUE, CLI_MAX_STREAMS)
+
+// 指标按后端和子命令分组，例如 "[default] task list"
+function commandLabel(backend: LocalBackendConfig, argv: string[]): string {
+  const words = argv.slice(1, 3).filter(arg => !arg.startsWith('-'))
+  return `[${backend.id}] ${words.join(' ') || argv.slice(1).join(' ')}`
+}
+
+/**
+ * 以 argv 数组执行 taskctl.py（不经过 shell），在执行池中排队并受超时限制
+ */
+export function runTaskctl(
+  backend: LocalBackendConfig,
+  argv: string[],
+  options: TaskctlRunOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+  const { signal, timeoutMs = CLI_COMMAND_TIMEOUT_MS, killOnAbort = true } = options
+  return pool.run(
+    commandLabel(backend, argv),
+    () => getExecutor(backend).run(argv, { signal: killOnAbort ? signal : undefined, timeoutMs }),
+    signal
+  )
+}
+
+/**
+ * 任务的工作目录必须在本地后端所在的主机上存在，否则 taskctl 要到执行时才失败；
+ * 目录不存在时抛出 CLICommandError（远程后端由远程前端检查）
+ */
+export async function assertWorkingDirExists(workingDir: string | undefined): Promise<void> {
+  if (!workingDir) return
+  const exists = await stat(workingDir).then(stats => stats.isDirectory(), () => false)
+  if (!exists) {
+    throw new CLICommandError(`参数 workingDir 无效: 目录不存在 (${workingDir})`)
+  }
+}
+
+/**
+ * 以 argv 数组启动 taskctl.py 子进程，用于流式读取输出。
+ * 流式连接数达到上限时抛出 CLIExecutionError；运行超过最长时间或长时间没有输出时终止子进程，
+ * 终止前调用 onTimeout 说明原因
+ */
+export function spawnTaskctl(
+  backend: LocalBackendConfig,
+  argv: string[],
+  options: { onTimeout?: (message: string) => void } = {}
+): TaskctlProcess {
+  const release = pool.openStream()
+  let child: TaskctlProcess
+  try {
+    child = getExecutor(backend).spawn(argv)
+  } catch (error) {
+    release()
+    throw error
+  }
+
+  const stop = (message: string) => {
+    options.onTimeout?.(message)
+    child.kill()
+  }
+  const startIdleTimer = () => setTimeout(() => stop(`${Math.round(CLI_STREAM_IDLE_MS / 1000)} 秒没有输出，已终止`), CLI_STREAM_IDLE_MS)
+  const lifetimeTimer = setTimeout(() => stop(`流式执行超过 ${Math.round(CLI_STREAM_MAX_MS / 1000)} 秒，已终止`), CLI_STREAM_MAX_MS)
+  let idleTimer = startIdleTimer()
+  const resetIdle = () => {
+    clearTimeout(idleTimer)
+    idleTimer = startIdleTimer()
+  }
+  const finish = () => {
+    clearTimeout(lifetimeTimer)
+    clearTimeout(idleTimer)
+    release()
+  }
+
+  child.stdout.on('data', resetIdle)
+  child.stderr.on('data', resetIdle)
+  child.on('close', finish)
+  child.on('error', finish)
+  return child
+}
+
+/**
+ * 获取执行池的运行指标
+ */
+export function getExecutionMetrics(): CLIPoolMetrics {
+  return pool.getMetrics()
+}
+
+const taskctlVersions = new Map<string, Promise<string>>()
+
+/**
+ * 获取 taskctl.py 版本号，成功后按后端缓存；获取失败返回 unknown
+ */
+export function getTaskctlVersion(backend: LocalBackendConfig): Promise<string> {
+  let version = taskctlVersions.get(backend.id)
+  if (!version) {
+    version = runTaskctl(backend, ['taskctl.py', '--version'], { timeoutMs: 10_000 }).then(
+      ({ stdout }) => stdout.match(/\d+\.\d+(?:\.\d+)?(?:[-+][\w.]+)?/)?.[0] || stdout.trim() || 'unknown',
+      (error) => {
+        console.error('获取 taskctl 版本失败:', error)
+        taskctlVersions.delete(backend.id)
+        return 'unknown'
+      }
+    )
+    taskctlVersions.set(backend.id, version)
+  }
+  return version
+}
+
+/**
+ * 执行输出校验；不符合约定时附上 taskctl 版本后继续抛出
+ */
+export async function validateTaskctlOutput<T>(backend: LocalBackendConfig, parse: () => T): Promise<T> {
+  try {
+    return parse()
+  } catch (error) {
+    if (error instanceof CLIContractError) {
+      error.taskctlVersion = await getTaskctlVersion(backend)
+    }
+    throw error
+  }
+}
+
+/**
+ * 后台启动 auto_claude.py，输出写入日志文件
+ */
+export function startAutoClaude(backend: LocalBackendConfig): void {
+  getExecutor(backend).startAutoClaude()
+}
+
+/**
+ * 读取 auto_claude.py 的服务日志
+ */
+export function readServiceLog(backend: LocalBackendConfig): Promise<ServiceLog> {
+  return getExecutor(backend).readServiceLog()
+}
@@ -0,0 +1,313 @@
+import { z } from 'zod'
+import { TaskState, TaskType, TaskPriority, ProcessState } from '@/types'
+import type { CLIOperation, CLICommandArgs } from '@/lib/cli-commands'
+import { taskRetryPolicySchema } from '@/lib/retry-policy'
+import type { CLITask, CLIWorker, CLIScheduledTask, CLISystemStatus } from '@/services/cli-service'
+
+/**
+ * 约定的 taskctl.py 输出格式
+ *
+ * 服务端在返回数据前按这里的 schema 校验 taskctl 的输出，
+ * 不符合约定时抛出 CLIContractError，前端据此提示，而不是显示空列表或 0。
+ */
+
+export interface CLIContractErrorInfo {
+  operation: string
+  field: string
+  detail: string
+  taskctlVersion: string
+}
+
+export class CLIContractError extends Error {
+  readonly operation: string
+  readonly field: string
+  readonly detail: string
+  taskctlVersion: string
+
+  constructor({ operation, field, detail, taskctlVersion = 'unknown' }: Omit<CLIContractErrorInfo, 'taskctlVersion'> & { taskctlVersion?: string }) {
+    super(`taskctl 输出与约定不一致 (${operation}): 字段 ${field} ${detail}`)
+    this.name = 'CLIContractError'
+    this.operation = operation
+    this.field = field
+    this.detail = detail
+    this.taskctlVersion = taskctlVersion
+  }
+
+  toJSON(): CLIContractErrorInfo {
+    return {
+      operation: this.operation,
+      field: this.field,
+      detail: this.detail,
+      taskctlVersion: this.taskctlVersion
+    }
+  }
+
+  static fromJSON(info: CLIContractErrorInfo): CLIContractError {
+    return new CLIContractError(info)
+  }
+}
+
+// Python 端可能输出 null，统一转成 undefined
+const optionalString = z.string().nullish().transform(value => value ?? undefined)
+const optionalNumber = z.number().nullish().transform(value => value ?? undefined)
+const optionalBoolean = z.boolean().nullish().transform(value => value ?? undefined)
+const optionalTags = z.array(z.string()).nullish().transform(value => value ?? undefined)
+const optionalEnvironment = z.record(z.string(), z.string()).nullish().transform(value => value ?? undefined)
+const count = z.number().int().nonnegative()
+const optionalErrorHistory = z.array(z.object({
+  timestamp: z.string(),
+  type: z.string(),
+  message: z.string()
+})).nullish().transform(value => value ?? undefined)
+const optionalRetryPolicy = taskRetryPolicySchema.nullish().transform(value => value ?? undefined)
+
+export const cliTaskSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: optionalString,
+  task_state: z.enum(TaskState),
+  priority: z.enum(TaskPriority),
+  task_type: z.enum(TaskType),
+  command: optionalString,
+  created_at: z.string().min(1),
+  started_at: optionalString,
+  completed_at: optionalString,
+  assigned_worker: optionalString,
+  retry_count: count,
+  max_retries: count.nullish().transform(value => value ?? undefined),
+  retry_policy: optionalRetryPolicy,
+  tags: optionalTags,
+  working_dir: optionalString,
+  environment: optionalEnvironment,
+  auto_execute: optionalBoolean,
+  cloned_from: optionalString,
+  template_id: optionalString,
+  confirmation_prompt: optionalString,
+  last_error: optionalString,
+  error_history: optionalErrorHistory,
+  next_allowed_at: optionalString
+})
+
+export const cliWorkerSchema = z.object({
+  worker_id: z.string().min(1),
+  process_id: optionalNumber,
+  state: z.enum(ProcessState),
+  current_task_id: optionalString,
+  last_heartbeat: z.string().min(1),
+  cpu_usage: optionalNumber,
+  memory_usage: optionalNumber,
+  uptime_seconds: z.number().nonnegative(),
+  tasks_completed: count,
+  tasks_failed: count
+})
+
+export const cliScheduledTaskSchema = z.object({
+  task_id: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  cron_expression: z.string().min(1),
+  task_type: z.enum(TaskType),
+  working_dir: optionalString,
+  environment: optionalEnvironment,
+  tags: optionalTags,
+  auto_execute: optionalBoolean,
+  enabled: z.boolean(),
+  created_at: z.string().min(1)
+})
+
+// taskctl status 的取值，映射为前端的健康状态
+const STATUS_LEVELS = {
+  running: 'healthy',
+  healthy: 'healthy',
+  degraded: 'warning',
+  warning: 'warning',
+  stopped: 'critical',
+  critical: 'critical',
+  error: 'critical'
+} as const
+
+export const cliSystemStatusSchema = z.object({
+  status: z.enum(Object.keys(STATUS_LEVELS) as [keyof typeof STATUS_LEVELS]),
+  active_workers: count,
+  pending_tasks: count,
+  processing_tasks: count,
+  // 较早版本的 taskctl 不输出磁盘、内存和运行时间
+  disk_space_gb: z.number().nonnegative().optional(),
+  memory_usage_percent: z.number().min(0).max(100).optional(),
+  uptime_seconds: z.number().nonnegative().optional(),
+  auto_claude_running: z.boolean().optional()
+})
+
+// 文本格式的 status 输出：标签 -> 字段和取值规则
+const STATUS_TEXT_FIELDS: Array<{ field: keyof z.input<typeof cliSystemStatusSchema>; labels: string[]; parse: (value: string) => unknown }> = [
+  { field: 'status', labels: ['overall status', 'system status'], parse: value => value.split(/\s+/)[0].toLowerCase() },
+  { field: 'active_workers', labels: ['active workers', 'workers'], parse: value => matchNumber(value, /^(\d+)/) },
+  { field: 'pending_tasks', labels: ['pending tasks', 'pending'], parse: value => matchNumber(value, /^(\d+)/) },
+  { field: 'processing_tasks', labels: ['processing tasks', 'processing'], parse: value => matchNumber(value, /^(\d+)/) },
+  { field: 'disk_space_gb', labels: ['disk free'], parse: value => matchNumber(value, /^([\d.]+)\s*GB/i) },
+  { field: 'memory_usage_percent', labels: ['memory usage'], parse: value => matchNumber(value, /^([\d.]+)\s*%/) },
+  { field: 'uptime_seconds', labels: ['uptime'], parse: value => matchNumber(value, /^(\d+)\s*seconds/i) }
+]
+
+function matchNumber(value: string, pattern: RegExp): number | string {
+  const match = value.match(pattern)
+  // 格式不符时保留原文，交给 schema 报出具体字段
+  return match ? parseFloat(match[1]) : value
+}
+
+function formatPath(path: PropertyKey[]): string {
+  if (path.length === 0) return '(root)'
+  return path.reduce<string>((result, key) =>
+    typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${String(key)}` : String(key)
+  , '')
+}
+
+function validate<S extends z.ZodType>(operation: CLIOperation, schema: S, data: unknown, prefix: PropertyKey[] = []): z.output<S> {
+  const result = schema.safeParse(data)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new CLIContractError({
+      operation,
+      field: formatPath([...prefix, ...issue.path]),
+      detail: issue.message
+    })
+  }
+  return result.data
+}
+
+function parseJson(operation: CLIOperation, stdout: string): unknown {
+  try {
+    return JSON.parse(stdout)
+  } catch {
+    throw new CLIContractError({ operation, field: '(output)', detail: '不是有效的 JSON' })
+  }
+}
+
+// 列表既可能是数组，也可能包在 { [field]: [...] } 中
+function parseList<S extends z.ZodType>(operation: CLIOperation, schema: S, stdout: string, field: string): z.output<S>[] {
+  const data = parseJson(operation, stdout)
+  if (Array.isArray(data)) {
+    return validate(operation, z.array(schema), data)
+  }
+  return validate(operation, z.array(schema), (data as Record<string, unknown> | null)?.[field], [field])
+}
+
+export function parseTaskList(stdout: string): CLITask[] {
+  return parseList('task.list', cliTaskSchema, stdout, 'tasks')
+}
+
+export function parseWorkerList(stdout: string): CLIWorker[] {
+  return parseList('worker.list', cliWorkerSchema, stdout, 'workers')
+}
+
+export function parseScheduledTaskList(stdout: string): CLIScheduledTask[] {
+  return parseList('schedule.list', cliScheduledTaskSchema, stdout, 'scheduled_tasks')
+}
+
+/**
+ * 从 task create 的输出中取出新任务 ID：支持 "Task <id> created" 文本，或包含 id / task_id 的 JSON
+ */
+export function parseCreatedTaskId(stdout: string): string {
+  const output = stdout.trim()
+  const match = output.match(/Task\s+([A-Za-z0-9_-]+)\s+created/i)
+  if (match) return match[1]
+
+  if (output.startsWith('{')) {
+    const data = parseJson('task.create', output) as Record<string, unknown>
+    return validate('task.create', z.string().min(1), data.id ?? data.task_id, ['id'])
+  }
+
+  throw new CLIContractError({ operation: 'task.create', field: '(output)', detail: '没有包含新任务的 ID' })
+}
+
+/**
+ * 从 schedule add 的输出中取出定时任务 ID：支持 "Task ID: <id>" 文本，或包含 id / task_id 的 JSON
+ */
+export function parseScheduledTaskId(stdout: string): string {
+  const output = stdout.trim()
+  const match = output.match(/Task\s+ID:\s+([A-Za-z0-9_-]+)/i)
+  if (match) return match[1]
+
+  if (output.startsWith('{')) {
+    const data = parseJson('schedule.add', output) as Record<string, unknown>
+    return validate('schedule.add', z.string().min(1), data.id ?? data.task_id, ['id'])
+  }
+
+  throw new CLIContractError({ operation: 'schedule.add', field: '(output)', detail: '没有包含定时任务的 ID' })
+}
+
+/**
+ * 解析 system status 输出：支持 JSON，或每行 "标签: 值" 的文本
+ */
+export function parseSystemStatus(stdout: string): CLISystemStatus {
+  let raw: Record<string, unknown>
+
+  if (stdout.startsWith('{')) {
+    raw = parseJson('system.status', stdout) as Record<string, unknown>
+  } else {
+    const lines = new Map<string, string>()
+    for (const line of stdout.split('\n')) {
+      const match = line.match(/^\s*([^:]+?)\s*:\s*(.*?)\s*$/)
+      if (match && !lines.has(match[1].toLowerCase())) {
+        lines.set(match[1].toLowerCase(), match[2])
+      }
+    }
+
+    raw = {}
+    for (const { field, labels, parse } of STATUS_TEXT_FIELDS) {
+      const label = labels.find(candidate => lines.has(candidate))
+      if (label) raw[field] = parse(lines.get(label)!)
+    }
+    raw.auto_claude_running = /auto-claude system is running|worker services: active|auto_claude\.py.*running/i.test(stdout)
+  }
+
+  const status = validate('system.status', cliSystemStatusSchema, raw)
+  const level = STATUS_LEVELS[status.status]
+
+  return {
+    ...status,
+    status: level,
+    auto_claude_running: status.auto_claude_running ?? level === 'healthy',
+    last_updated: new Date().toISOString()
+  }
+}
+
+interface CLIParsedOutputs {
+  'task.list': CLITask[]
+  'task.show': CLITask
+  'worker.list': CLIWorker[]
+  'worker.show': CLIWorker
+  'schedule.list': CLIScheduledTask[]
+  'system.status': CLISystemStatus
+}
+
+export type CLIParsedOutput<O extends CLIOperation> = O extends keyof CLIParsedOutputs ? CLIParsedOutputs[O] : undefined
+
+/**
+ * 按操作校验 taskctl 输出，返回结构化数据；没有约定格式的操作返回 undefined
+ */
+export function parseCommandOutput<O extends CLIOperation>(
+  operation: O,
+  args: CLICommandArgs<O>,
+  stdout: string
+): CLIParsedOutput<O> {
+  const output = stdout.trim()
+
+  switch (operation) {
+    case 'task.list':
+      // 只有 JSON 格式有约定，表格输出原样返回
+      return ((args as CLICommandArgs<'task.list'>).format === 'json' ? parseTaskList(output) : undefined) as CLIParsedOutput<O>
+    case 'task.show':
+      return validate(operation, cliTaskSchema, parseJson(operation, output)) as CLIParsedOutput<O>
+    case 'worker.list':
+      return parseWorkerList(output) as CLIParsedOutput<O>
+    case 'worker.show':
+      return validate(operation, cliWorkerSchema, parseJson(operation, output)) as CLIParsedOutput<O>
+    case 'schedule.list':
+      return parseScheduledTaskList(output) as CLIParsedOutput<O>
+    case 'system.status':
+      return parseSystemStatus(output) as CLIParsedOutput<O>
+    default:
+      return undefined as CLIParsedOutput<O>
+  }
+}
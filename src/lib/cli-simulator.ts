@@ -0,0 +1,952 @@
+/**
+ * 模拟的 taskctl.py 后端
+ *
+ * 在内存中维护任务、工作器和定时任务，按照 TaskState 随时间推进任务状态，
+ * 输出格式与真实 taskctl.py 保持一致，供本地开发和测试使用。
+ * 相同的种子会生成相同的初始数据和任务执行结果。
+ */
+
+type SimTaskState =
+  | 'pending'
+  | 'processing'
+  | 'paused'
+  | 'waiting_unban'
+  | 'retrying'
+  | 'completed'
+  | 'failed'
+  | 'awaiting_confirmation'
+  | 'needs_human_review'
+
+type SimOutcome = 'completed' | 'failed' | 'rate_limited'
+
+type SimErrorType = 'execution_error' | 'rate_limit'
+
+// 通过 --max-retries / --retry-* 指定的重试策略
+interface SimRetryPolicy {
+  max_attempts: number
+  backoff: 'fixed' | 'exponential'
+  delay_seconds: number
+  max_delay_seconds: number
+  jitter: number
+  retryable_errors: SimErrorType[]
+}
+
+interface SimLogEntry {
+  at: number
+  level: 'INFO' | 'WARN' | 'ERROR' | 'DEBUG'
+  message: string
+}
+
+interface SimTask {
+  id: string
+  name: string
+  description: string
+  task_state: SimTaskState
+  priority: 'low' | 'normal' | 'high' | 'urgent'
+  task_type: 'lightweight' | 'medium_context' | 'heavy_context'
+  command: string
+  created_at: number
+  started_at?: number
+  completed_at?: number
+  next_allowed_at?: number
+  assigned_worker?: string
+  retry_count: number
+  max_retries: number
+  // 没有指定策略时与旧版 taskctl 一样：用量限制等待解封后继续，执行失败不自动重试
+  retry_policy?: SimRetryPolicy
+  tags: string[]
+  working_dir?: string
+  environment: Record<string, string>
+  auto_execute: boolean
+  cloned_from?: string
+  template_id?: string
+  // 等待人工处理时 agent 提出的问题
+  confirmation_prompt?: string
+  // 已经过人工批准或回复，本次执行结束后不再停下来等待
+  confirmed?: boolean
+  last_error?: string
+  error_history: Array<{ timestamp: string; type: string; message: string }>
+  // 模拟执行计划：本次执行的时长和结果
+  plan: { durationMs: number; outcome: SimOutcome }
+  logs: SimLogEntry[]
+}
+
+interface SimWorker {
+  worker_id: string
+  process_id: number
+  current_task_id?: string
+  started_at: number
+  tasks_completed: number
+  tasks_failed: number
+}
+
+interface SimScheduledTask {
+  task_id: string
+  name: string
+  description: string
+  cron_expression: string
+  task_type: string
+  working_dir?: string
+  environment: Record<string, string>
+  tags: string[]
+  auto_execute: boolean
+  enabled: boolean
+  created_at: number
+}
+
+export interface SimulatorResult {
+  stdout: string
+  stderr: string
+  exitCode: number
+}
+
+const SIMULATOR_VERSION = '1.0.0-simulated'
+const RETRY_DELAY_MS = 5000
+const UNBAN_DELAY_MS = 60000
+const ACTIVE_STATES: SimTaskState[] = ['pending', 'processing', 'retrying', 'waiting_unban']
+const REVIEW_STATES: SimTaskState[] = ['awaiting_confirmation', 'needs_human_review']
+const PRIORITY_ORDER = { urgent: 0, high: 1, normal: 2, low: 3 }
+
+const FIXTURE_NAMES = [
+  '代码重构任务',
+  '数据库优化',
+  'API接口测试',
+  '生成周报',
+  '整理推特素材',
+  '依赖升级',
+  '文档翻译',
+  '日志分析',
+  '性能基准测试',
+  '修复登录问题',
+  '清理过期分支',
+  '编写单元测试'
+]
+
+// mulberry32：小巧的可复现伪随机数生成器
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * 解析 argv：位置参数 + --key value / --key=value，布尔参数单独列出，--env 可以重复
+ */
+function parseArgs(argv: string[]): { positional: string[]; options: Record<string, string | true>; env: Record<string, string> } {
+  const booleanFlags = new Set(['force', 'show-logs', 'follow', 'help', 'version', 'auto-execute', 'no-auto-execute'])
+  const positional: string[] = []
+  const options: Record<string, string | true> = {}
+  const env: Record<string, string> = {}
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (!arg.startsWith('--')) {
+      positional.push(arg)
+      continue
+    }
+
+    const eqIndex = arg.indexOf('=')
+    if (arg.startsWith('--env=')) {
+      const [key, ...value] = arg.slice('--env='.length).split('=')
+      env[key] = value.join('=')
+    } else if (eqIndex !== -1) {
+      options[arg.slice(2, eqIndex)] = arg.slice(eqIndex + 1)
+    } else if (booleanFlags.has(arg.slice(2))) {
+      options[arg.slice(2)] = true
+    } else {
+      options[arg.slice(2)] = argv[++i] ?? ''
+    }
+  }
+
+  return { positional, options, env }
+}
+
+// 任务和定时任务共用的执行配置
+function parseExecutionOptions(options: Record<string, string | true>, env: Record<string, string>) {
+  return {
+    working_dir: typeof options['working-dir'] === 'string' ? options['working-dir'] : undefined,
+    environment: env,
+    tags: typeof options.tags === 'string' ? options.tags.split(',').filter(Boolean) : [],
+    auto_execute: !options['no-auto-execute']
+  }
+}
+
+function parseRetryPolicy(options: Record<string, string | true>): SimRetryPolicy | undefined {
+  if (typeof options['max-retries'] !== 'string') return undefined
+  const number = (key: string, fallback: number) => {
+    const value = Number(options[key])
+    return typeof options[key] === 'string' && Number.isFinite(value) && value >= 0 ? value : fallback
+  }
+  return {
+    max_attempts: Math.floor(number('max-retries', 3)) + 1,
+    backoff: options['retry-backoff'] === 'fixed' ? 'fixed' : 'exponential',
+    delay_seconds: number('retry-delay', RETRY_DELAY_MS / 1000),
+    max_delay_seconds: number('retry-max-delay', 3600),
+    jitter: Math.min(number('retry-jitter', 0), 1),
+    retryable_errors: typeof options['retry-on'] === 'string'
+      ? options['retry-on'].split(',').filter((type): type is SimErrorType => type === 'execution_error' || type === 'rate_limit')
+      : ['rate_limit']
+  }
+}
+
+class SimulatorError extends Error {}
+
+export class TaskctlSimulator {
+  private random: () => number
+  private tasks = new Map<string, SimTask>()
+  private workers: SimWorker[] = []
+  private schedules = new Map<string, SimScheduledTask>()
+  private running = true
+  private startedAt: number
+  private cursor: number
+  private taskCounter = 0
+  private scheduleCounter = 0
+
+  constructor(seed: number, now: number = Date.now()) {
+    this.random = createRandom(seed)
+    this.startedAt = now
+    this.cursor = now
+    this.seedFixtures(now)
+  }
+
+  /**
+   * 执行一条 taskctl 命令（argv[0] 为 taskctl.py）
+   */
+  execute(argv: string[], now: number = Date.now()): SimulatorResult {
+    this.advance(now)
+
+    try {
+      const stdout = this.dispatch(argv.slice(1), now)
+      return { stdout, stderr: '', exitCode: 0 }
+    } catch (error) {
+      if (error instanceof SimulatorError) {
+        return { stdout: '', stderr: `Error: ${error.message}`, exitCode: 1 }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * 读取任务日志中 since 之后的新行，供流式跟踪使用
+   */
+  readLogs(taskId: string, since: number, now: number = Date.now()): { lines: string[]; cursor: number; done: boolean } {
+    this.advance(now)
+    const task = this.tasks.get(taskId)
+    if (!task) {
+      return { lines: [], cursor: since, done: true }
+    }
+
+    const visible = task.logs.filter(entry => entry.at <= now)
+    return {
+      lines: visible.slice(since).map(entry => this.formatLog(entry)),
+      cursor: visible.length,
+      done: !ACTIVE_STATES.includes(task.task_state)
+    }
+  }
+
+  /**
+   * auto_claude.py 的服务日志：所有任务的日志按时间合并，每行带上任务 ID
+   */
+  serviceLog(now: number = Date.now()): string[] {
+    this.advance(now)
+    return Array.from(this.tasks.values())
+      .flatMap(task => task.logs.filter(entry => entry.at <= now).map(entry => ({ task, entry })))
+      .sort((a, b) => a.entry.at - b.entry.at)
+      .map(({ task, entry }) => `[${new Date(entry.at).toISOString()}] ${entry.level} [${task.id}] ${entry.message}`)
+  }
+
+  /**
+   * 启动 auto_claude.py 的模拟：恢复工作器并继续调度任务
+   */
+  start(now: number = Date.now()): void {
+    this.advance(now)
+    if (this.running) return
+
+    this.running = true
+    this.startedAt = now
+    this.cursor = now
+    for (const worker of this.workers) {
+      worker.started_at = now
+      worker.process_id = 10000 + Math.floor(this.random() * 50000)
+    }
+    this.advance(now)
+  }
+
+  private dispatch(args: string[], now: number): string {
+    const { positional, options, env } = parseArgs(args)
+    const [group, action, target] = positional
+
+    if (options.version) {
+      return `taskctl.py ${SIMULATOR_VERSION}`
+    }
+
+    if (options.help || !group) {
+      return this.helpText()
+    }
+
+    switch (`${group}.${action}`) {
+      case 'task.list': {
+        let tasks = Array.from(this.tasks.values())
+        if (typeof options.state === 'string') tasks = tasks.filter(t => t.task_state === options.state)
+        if (typeof options.priority === 'string') tasks = tasks.filter(t => t.priority === options.priority)
+        if (options.format === 'json') {
+          return JSON.stringify(tasks.map(t => this.serializeTask(t)), null, 2)
+        }
+        return this.formatTaskTable(tasks)
+      }
+
+      case 'task.show': {
+        const task = this.requireTask(target)
+        if (options['show-logs']) {
+          return task.logs.filter(entry => entry.at <= now).map(entry => this.formatLog(entry)).join('\n')
+        }
+        return JSON.stringify(this.serializeTask(task), null, 2)
+      }
+
+      case 'task.create': {
+        const task = this.createTask({
+          name: target || '',
+          description: String(options.description ?? ''),
+          task_type: (options.type as SimTask['task_type']) || 'lightweight',
+          priority: (options.priority as SimTask['priority']) || 'normal',
+          ...parseExecutionOptions(options, env),
+          cloned_from: typeof options['cloned-from'] === 'string' ? options['cloned-from'] : undefined,
+          template_id: typeof options['template-id'] === 'string' ? options['template-id'] : undefined,
+          retry_policy: parseRetryPolicy(options)
+        }, now)
+        this.advance(now)
+        return `Task ${task.id} created successfully`
+      }
+
+      case 'task.cancel': {
+        const task = this.requireTask(target)
+        if (!ACTIVE_STATES.includes(task.task_state) && !REVIEW_STATES.includes(task.task_state) && task.task_state !== 'paused') {
+          throw new SimulatorError(`Task ${task.id} is already ${task.task_state}`)
+        }
+        this.releaseWorker(task)
+        this.finishTask(task, 'failed', now, 'Cancelled by user')
+        this.advance(now)
+        return `Task ${task.id} cancelled`
+      }
+
+      case 'task.retry': {
+        const task = this.requireTask(target)
+        if (task.task_state === 'completed' && !options.force) {
+          throw new SimulatorError(`Task ${task.id} is completed, use --force to retry`)
+        }
+        if (task.task_state !== 'failed' && task.task_state !== 'completed') {
+          throw new SimulatorError(`Task ${task.id} cannot be retried in state ${task.task_state}`)
+        }
+        task.task_state = 'retrying'
+        task.retry_count += 1
+        task.completed_at = now
+        task.plan = this.rollPlan(task.task_type)
+        this.log(task, now, 'INFO', `Retry requested (attempt ${task.retry_count + 1})`)
+        return `Task ${task.id} scheduled for retry`
+      }
+
+      case 'task.pause': {
+        const task = this.requireTask(target)
+        if (task.task_state !== 'processing' && task.task_state !== 'pending') {
+          throw new SimulatorError(`Task ${task.id} cannot be paused in state ${task.task_state}`)
+        }
+        this.releaseWorker(task)
+        task.task_state = 'paused'
+        this.log(task, now, 'INFO', 'Task paused')
+        this.advance(now)
+        return `Task ${task.id} paused`
+      }
+
+      case 'task.resume': {
+        const task = this.requireTask(target)
+        if (task.task_state !== 'paused') {
+          throw new SimulatorError(`Task ${task.id} is not paused`)
+        }
+        task.task_state = 'pending'
+        this.log(task, now, 'INFO', 'Task resumed')
+        this.advance(now)
+        return `Task ${task.id} resumed`
+      }
+
+      case 'task.approve':
+      case 'task.reply': {
+        const task = this.requireReviewTask(target)
+        const message = action === 'approve'
+          ? `Approved by reviewer${typeof options.comment === 'string' ? `: ${options.comment}` : ''}`
+          : `Reviewer instructions: ${String(options.message ?? '')}`
+        this.continueAfterReview(task, now, message)
+        this.advance(now)
+        return `Task ${task.id} ${action === 'approve' ? 'approved' : 'resumed with instructions'}`
+      }
+
+      case 'task.reject': {
+        const task = this.requireReviewTask(target)
+        task.confirmation_prompt = undefined
+        this.finishTask(task, 'failed', now, `Rejected by reviewer${typeof options.reason === 'string' ? `: ${options.reason}` : ''}`)
+        return `Task ${task.id} rejected`
+      }
+
+      case 'worker.list':
+        return JSON.stringify(this.workers.map(w => this.serializeWorker(w, now)), null, 2)
+
+      case 'worker.show':
+        return JSON.stringify(this.serializeWorker(this.requireWorker(target), now), null, 2)
+
+      case 'worker.restart': {
+        const worker = this.requireWorker(target)
+        const task = worker.current_task_id ? this.tasks.get(worker.current_task_id) : undefined
+        if (task) {
+          this.releaseWorker(task)
+          task.task_state = 'pending'
+          this.log(task, now, 'WARN', `Worker ${worker.worker_id} restarted, task requeued`)
+        }
+        worker.started_at = now
+        worker.process_id = 10000 + Math.floor(this.random() * 50000)
+        this.advance(now)
+        return `Worker ${worker.worker_id} restarted`
+      }
+
+      case 'schedule.list':
+        return JSON.stringify(Array.from(this.schedules.values()).map(s => ({
+          ...s,
+          created_at: new Date(s.created_at).toISOString()
+        })), null, 2)
+
+      case 'schedule.add': {
+        const schedule = this.addSchedule({
+          name: target || '',
+          description: String(options.description ?? ''),
+          cron_expression: String(options.cron ?? ''),
+          task_type: String(options.type ?? 'lightweight'),
+          ...parseExecutionOptions(options, env),
+          enabled: true
+        }, now)
+        return `Scheduled task added\nTask ID: ${schedule.task_id}`
+      }
+
+      case 'schedule.remove': {
+        const schedule = this.requireSchedule(target)
+        this.schedules.delete(schedule.task_id)
+        return `Scheduled task ${schedule.task_id} removed`
+      }
+
+      case 'schedule.enable':
+      case 'schedule.disable': {
+        const schedule = this.requireSchedule(target)
+        schedule.enabled = action === 'enable'
+        return `Scheduled task ${target} ${schedule.enabled ? 'enabled' : 'disabled'}`
+      }
+
+      case 'system.status':
+        return this.statusText(now)
+
+      case 'system.stop': {
+        this.running = false
+        for (const task of this.tasks.values()) {
+          if (task.task_state === 'processing') {
+            this.releaseWorker(task)
+            task.task_state = 'pending'
+            this.log(task, now, 'WARN', 'System stopped, task requeued')
+          }
+        }
+        return 'Auto-Claude system stopped'
+      }
+
+      default:
+        throw new SimulatorError(`Unknown command: ${positional.join(' ')}`)
+    }
+  }
+
+  /**
+   * 推进时间：按事件先后处理任务完成、解封、重试，并给空闲工作器分配任务
+   */
+  private advance(now: number): void {
+    if (!this.running) {
+      this.cursor = now
+      return
+    }
+
+    this.assignPending(this.cursor)
+
+    for (;;) {
+      const next = this.nextEvent()
+      if (!next || next.at > now) break
+
+      this.cursor = next.at
+      next.apply()
+      this.assignPending(this.cursor)
+    }
+
+    this.cursor = now
+  }
+
+  private nextEvent(): { at: number; apply: () => void } | null {
+    let next: { at: number; apply: () => void } | null = null
+
+    for (const task of this.tasks.values()) {
+      let candidate: { at: number; apply: () => void } | null = null
+
+      if (task.task_state === 'processing' && task.started_at !== undefined) {
+        const at = task.started_at + task.plan.durationMs
+        candidate = { at, apply: () => this.completeExecution(task, at) }
+      } else if (task.task_state === 'waiting_unban' && task.next_allowed_at !== undefined) {
+        const at = task.next_allowed_at
+        candidate = { at, apply: () => this.requeue(task, at, 'Rate limit window passed, task requeued') }
+      } else if (task.task_state === 'retrying' && task.completed_at !== undefined) {
+        // 按策略自动重试的任务在 next_allowed_at 重新排队，手动重试的稍后排队
+        const at = task.next_allowed_at ?? task.completed_at + RETRY_DELAY_MS
+        candidate = { at, apply: () => this.requeue(task, at, 'Task requeued for retry') }
+      }
+
+      if (candidate && (!next || candidate.at < next.at)) {
+        next = candidate
+      }
+    }
+
+    return next
+  }
+
+  private assignPending(at: number): void {
+    const pending = Array.from(this.tasks.values())
+      .filter(t => t.task_state === 'pending')
+      .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.created_at - b.created_at)
+
+    for (const worker of this.workers) {
+      if (worker.current_task_id) continue
+      const task = pending.shift()
+      if (!task) return
+
+      worker.current_task_id = task.id
+      task.assigned_worker = worker.worker_id
+      task.task_state = 'processing'
+      task.started_at = at
+      task.completed_at = undefined
+      task.next_allowed_at = undefined
+      this.log(task, at, 'INFO', `Task started on ${worker.worker_id}`)
+
+      // 执行过程中的进度日志，时间到达后才可见
+      const steps = ['Reading project files', 'Planning changes', 'Applying edits', 'Verifying results']
+      steps.forEach((step, index) => {
+        this.log(task, at + Math.floor(task.plan.durationMs * (index + 1) / (steps.length + 1)), 'DEBUG', step)
+      })
+    }
+  }
+
+  private completeExecution(task: SimTask, at: number): void {
+    const worker = this.workers.find(w => w.worker_id === task.assigned_worker)
+    this.releaseWorker(task)
+
+    if (task.plan.outcome === 'rate_limited') {
+      if (task.retry_policy && !this.canRetry(task, 'rate_limit')) {
+        if (worker) worker.tasks_failed += 1
+        this.finishTask(task, 'failed', at, 'Claude usage limit reached', 'rate_limit')
+        return
+      }
+      task.task_state = 'waiting_unban'
+      task.next_allowed_at = at + UNBAN_DELAY_MS
+      task.retry_count += 1
+      task.error_history.push({ timestamp: new Date(at).toISOString(), type: 'rate_limit', message: 'Claude usage limit reached' })
+      task.last_error = 'Claude usage limit reached'
+      task.plan = { durationMs: task.plan.durationMs, outcome: 'completed' }
+      this.log(task, at, 'WARN', `Rate limited, waiting until ${new Date(task.next_allowed_at).toISOString()}`)
+      return
+    }
+
+    this.logResult(task, at)
+    if (this.holdForReview(task, at)) {
+      return
+    }
+
+    if (task.plan.outcome === 'failed') {
+      if (worker) worker.tasks_failed += 1
+      this.finishTask(task, 'failed', at, 'Process exited with code 1')
+      if (this.canRetry(task, 'execution_error')) {
+        this.scheduleRetry(task, at)
+      }
+      return
+    }
+
+    if (worker) worker.tasks_completed += 1
+    this.finishTask(task, 'completed', at)
+  }
+
+  private finishTask(task: SimTask, state: 'completed' | 'failed', at: number, error?: string, errorType: SimErrorType = 'execution_error'): void {
+    task.task_state = state
+    task.completed_at = at
+    task.next_allowed_at = undefined
+    if (error) {
+      task.last_error = error
+      task.error_history.push({ timestamp: new Date(at).toISOString(), type: errorType, message: error })
+      this.log(task, at, 'ERROR', error)
+    } else {
+      this.log(task, at, 'INFO', 'Task completed successfully')
+    }
+  }
+
+  // 本次执行出现 errorType 类型的错误后是否按策略自动重试
+  private canRetry(task: SimTask, errorType: SimErrorType): boolean {
+    const policy = task.retry_policy
+    return policy !== undefined && task.retry_count + 1 < policy.max_attempts && policy.retryable_errors.includes(errorType)
+  }
+
+  private scheduleRetry(task: SimTask, at: number): void {
+    const policy = task.retry_policy!
+    const retry = task.retry_count + 1
+    const base = policy.backoff === 'fixed'
+      ? policy.delay_seconds
+      : Math.min(policy.delay_seconds * 2 ** (retry - 1), policy.max_delay_seconds)
+    const delaySeconds = Math.max(0, Math.round(base * (1 + policy.jitter * (2 * this.random() - 1))))
+
+    task.task_state = 'retrying'
+    task.retry_count = retry
+    task.next_allowed_at = at + delaySeconds * 1000
+    task.plan = this.rollPlan(task.task_type)
+    this.log(task, at, 'INFO', `Retrying in ${delaySeconds}s (attempt ${retry + 1}/${policy.max_attempts})`)
+  }
+
+  /**
+   * 输出 claude --verbose --output-format json 的执行记录：读取文件、修改、运行测试，最后是结果；
+   * 内容和用量由任务 ID 和执行时长推导，不消耗随机数
+   */
+  private logResult(task: SimTask, at: number): void {
+    const seed = Array.from(task.id).reduce((hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619) >>> 0, 2166136261) % 1000
+    const turns = 2 + Math.floor(task.plan.durationMs / 10000) + (seed % 3)
+    const usage = {
+      input_tokens: 20 * turns + seed,
+      cache_creation_input_tokens: 4000 + seed * 10,
+      cache_read_input_tokens: 12000 * turns,
+      output_tokens: 300 * turns + seed * 2
+    }
+    const cost = (usage.input_tokens * 3 + usage.cache_creation_input_tokens * 3.75 +
+      usage.cache_read_input_tokens * 0.3 + usage.output_tokens * 15) / 1_000_000
+    const failed = task.plan.outcome === 'failed'
+    const sessionId = `${task.id}-${at.toString(36)}`
+    const cwd = task.working_dir ?? '/workspace'
+    const file = `${cwd}/src/tasks/handler.ts`
+    const assistant = (content: unknown[]) => ({ type: 'assistant', session_id: sessionId, message: { role: 'assistant', content } })
+    const toolResult = (id: string, content: string, isError = false) => ({
+      type: 'user',
+      session_id: sessionId,
+      message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content, is_error: isError }] }
+    })
+
+    const events = [
+      { type: 'system', subtype: 'init', session_id: sessionId, cwd, model: 'claude-sonnet-4-20250514', tools: ['Read', 'Edit', 'Bash', 'Grep'] },
+      assistant([
+        { type: 'text', text: `先查看与“${task.name}”相关的代码。` },
+        { type: 'tool_use', id: `${sessionId}-1`, name: 'Read', input: { file_path: file } }
+      ]),
+      toolResult(`${sessionId}-1`, [
+        '1\texport function handle(task: Task) {',
+        '2\t  const result = process(task)',
+        '3\t  return result',
+        '4\t}'
+      ].join('\n')),
+      assistant([
+        { type: 'tool_use', id: `${sessionId}-2`, name: 'Edit', input: {
+          file_path: file,
+          old_string: '  const result = process(task)\n  return result',
+          new_string: '  if (!task.enabled) return null\n  const result = process(task)\n  logger.info(task.id)\n  return result'
+        } }
+      ]),
+      toolResult(`${sessionId}-2`, `The file ${file} has been updated.`),
+      assistant([
+        { type: 'tool_use', id: `${sessionId}-3`, name: 'Bash', input: { command: 'npm test -- --silent', description: '运行测试' } }
+      ]),
+      failed
+        ? toolResult(`${sessionId}-3`, 'FAIL src/tasks/handler.test.ts\n  ✕ handles disabled tasks (12 ms)\n  ✕ logs handled tasks (3 ms)\n\nTests: 2 failed, 10 passed, 12 total', true)
+        : toolResult(`${sessionId}-3`, 'PASS src/tasks/handler.test.ts\n\nTests: 12 passed, 12 total'),
+      assistant([{
+        type: 'text',
+        text: failed
+          ? '修改后有 **2 个测试失败**，需要进一步确认 `handle` 对禁用任务的预期行为。'
+          : '## 完成\n\n- 修改了 `src/tasks/handler.ts`，跳过未启用的任务并记录日志\n- 测试全部通过（12 个）'
+      }]),
+      {
+        type: 'result',
+        subtype: failed ? 'error_during_execution' : 'success',
+        is_error: failed,
+        duration_ms: task.plan.durationMs,
+        num_turns: turns,
+        result: failed ? '' : `${task.name}已完成`,
+        session_id: sessionId,
+        total_cost_usd: Math.round(cost * 1_000_000) / 1_000_000,
+        usage
+      }
+    ]
+
+    this.log(task, at, 'INFO', JSON.stringify(events))
+  }
+
+  /**
+   * 未开启自动执行的任务在执行结束后停下来：成功时等待确认应用修改，失败时请求人工审核
+   */
+  private holdForReview(task: SimTask, at: number): boolean {
+    if (task.auto_execute || task.confirmed) return false
+
+    if (task.plan.outcome === 'failed') {
+      task.task_state = 'needs_human_review'
+      task.confirmation_prompt = 'Verification failed after applying edits (2 tests failing). Should I keep the edits, revert them, or try a different approach?'
+    } else {
+      task.task_state = 'awaiting_confirmation'
+      task.confirmation_prompt = `Edits for "${task.name}" are ready. Apply them to ${task.working_dir ?? 'the working directory'}?`
+    }
+    this.log(task, at, 'WARN', `Waiting for human input: ${task.confirmation_prompt}`)
+    return true
+  }
+
+  /**
+   * 批准或回复后重新排队，继续执行一小段后完成
+   */
+  private continueAfterReview(task: SimTask, at: number, message: string): void {
+    task.confirmed = true
+    task.confirmation_prompt = undefined
+    task.plan = { durationMs: Math.floor(task.plan.durationMs / 4), outcome: 'completed' }
+    this.log(task, at, 'INFO', message)
+    this.requeue(task, at, 'Task requeued after review')
+  }
+
+  private requeue(task: SimTask, at: number, message: string): void {
+    task.task_state = 'pending'
+    task.next_allowed_at = undefined
+    this.log(task, at, 'INFO', message)
+  }
+
+  private releaseWorker(task: SimTask): void {
+    const worker = this.workers.find(w => w.current_task_id === task.id)
+    if (worker) worker.current_task_id = undefined
+    // 丢弃尚未发生的进度日志
+    task.logs = task.logs.filter(entry => entry.at <= this.cursor)
+  }
+
+  private rollPlan(type: SimTask['task_type']): SimTask['plan'] {
+    const base = type === 'heavy_context' ? 90000 : type === 'medium_context' ? 45000 : 20000
+    const roll = this.random()
+    return {
+      durationMs: Math.floor(base * (0.5 + this.random())),
+      outcome: roll < 0.7 ? 'completed' : roll < 0.85 ? 'failed' : 'rate_limited'
+    }
+  }
+
+  private createTask(
+    params: Pick<SimTask, 'name' | 'description' | 'task_type' | 'priority'> & Partial<Pick<SimTask, 'working_dir' | 'environment' | 'tags' | 'auto_execute' | 'cloned_from' | 'template_id' | 'retry_policy'>>,
+    at: number
+  ): SimTask {
+    const id = `task_${String(++this.taskCounter).padStart(4, '0')}`
+    const task: SimTask = {
+      tags: [],
+      environment: {},
+      auto_execute: true,
+      ...params,
+      id,
+      task_state: 'pending',
+      command: `claude -p "${params.description}" --verbose --output-format json${params.working_dir ? ` --cwd "${params.working_dir}"` : ''}`,
+      created_at: at,
+      retry_count: 0,
+      max_retries: params.retry_policy ? params.retry_policy.max_attempts - 1 : 3,
+      error_history: [],
+      plan: this.rollPlan(params.task_type),
+      logs: []
+    }
+    this.tasks.set(id, task)
+    this.log(task, at, 'INFO', 'Task created')
+    return task
+  }
+
+  private seedFixtures(now: number): void {
+    const hour = 60 * 60 * 1000
+    const priorities: SimTask['priority'][] = ['low', 'normal', 'high', 'urgent']
+    const types: SimTask['task_type'][] = ['lightweight', 'medium_context', 'heavy_context']
+
+    for (let i = 1; i <= 3; i++) {
+      this.workers.push({
+        worker_id: `worker_${String(i).padStart(2, '0')}`,
+        process_id: 10000 + Math.floor(this.random() * 50000),
+        started_at: now,
+        tasks_completed: 0,
+        tasks_failed: 0
+      })
+    }
+
+    // 历史任务：已完成或失败
+    FIXTURE_NAMES.forEach((name, index) => {
+      const createdAt = now - Math.floor((index + 1) * hour * (1 + this.random() * 4))
+      const task = this.createTask({
+        name,
+        description: `${name}（模拟数据）`,
+        task_type: types[Math.floor(this.random() * types.length)],
+        priority: priorities[Math.floor(this.random() * priorities.length)],
+        // 两个任务停在等待人工处理的状态
+        auto_execute: index !== 6 && index !== 7
+      }, createdAt)
+
+      if (index < 8) {
+        const worker = this.workers[index % this.workers.length]
+        task.assigned_worker = worker.worker_id
+        task.started_at = createdAt + Math.floor(this.random() * 10 * 60 * 1000)
+        const endedAt = task.started_at + task.plan.durationMs
+        this.log(task, task.started_at, 'INFO', `Task started on ${worker.worker_id}`)
+        this.logResult(task, endedAt)
+        if (this.holdForReview(task, endedAt)) {
+          return
+        }
+        if (task.plan.outcome === 'failed') {
+          worker.tasks_failed += 1
+          this.finishTask(task, 'failed', endedAt, 'Process exited with code 1')
+        } else {
+          worker.tasks_completed += 1
+          this.finishTask(task, 'completed', endedAt)
+        }
+      }
+    })
+
+    this.addSchedule({
+      name: '每日代码审查',
+      description: '检查前一天合并的代码并生成报告',
+      cron_expression: '0 9 * * 1-5',
+      task_type: 'medium_context',
+      environment: {},
+      tags: [],
+      auto_execute: true,
+      enabled: true
+    }, now - 7 * 24 * hour)
+    this.addSchedule({
+      name: '清理临时文件',
+      description: '清理工作目录中的临时文件',
+      cron_expression: '30 2 * * *',
+      task_type: 'lightweight',
+      environment: {},
+      tags: [],
+      auto_execute: true,
+      enabled: false
+    }, now - 3 * 24 * hour)
+  }
+
+  private addSchedule(params: Omit<SimScheduledTask, 'task_id' | 'created_at'>, at: number): SimScheduledTask {
+    const schedule: SimScheduledTask = {
+      task_id: `sched_${String(++this.scheduleCounter).padStart(4, '0')}`,
+      ...params,
+      created_at: at
+    }
+    this.schedules.set(schedule.task_id, schedule)
+    return schedule
+  }
+
+  private log(task: SimTask, at: number, level: SimLogEntry['level'], message: string): void {
+    task.logs.push({ at, level, message })
+    task.logs.sort((a, b) => a.at - b.at)
+  }
+
+  private formatLog(entry: SimLogEntry): string {
+    return `[${new Date(entry.at).toISOString()}] ${entry.level} ${entry.message}`
+  }
+
+  private serializeTask(task: SimTask) {
+    const iso = (value?: number) => value === undefined ? undefined : new Date(value).toISOString()
+    return {
+      id: task.id,
+      name: task.name,
+      description: task.description,
+      task_state: task.task_state,
+      priority: task.priority,
+      task_type: task.task_type,
+      command: task.command,
+      created_at: iso(task.created_at),
+      started_at: iso(task.started_at),
+      completed_at: ACTIVE_STATES.includes(task.task_state) ? undefined : iso(task.completed_at),
+      next_allowed_at: iso(task.next_allowed_at),
+      assigned_worker: task.assigned_worker,
+      retry_count: task.retry_count,
+      max_retries: task.max_retries,
+      retry_policy: task.retry_policy,
+      tags: task.tags,
+      working_dir: task.working_dir,
+      environment: task.environment,
+      auto_execute: task.auto_execute,
+      cloned_from: task.cloned_from,
+      template_id: task.template_id,
+      confirmation_prompt: task.confirmation_prompt,
+      last_error: task.last_error,
+      error_history: task.error_history
+    }
+  }
+
+  private serializeWorker(worker: SimWorker, now: number) {
+    return {
+      worker_id: worker.worker_id,
+      process_id: this.running ? worker.process_id : undefined,
+      state: this.running ? 'running' : 'killed',
+      current_task_id: worker.current_task_id,
+      last_heartbeat: new Date(now).toISOString(),
+      // 资源占用由进程号推导，避免读取操作消耗随机数影响结果的可复现性
+      cpu_usage: this.running ? (worker.current_task_id ? 30 + (worker.process_id % 300) / 10 : 1.5) : 0,
+      memory_usage: this.running ? 200 + (worker.process_id % 300) : 0,
+      uptime_seconds: this.running ? Math.floor((now - worker.started_at) / 1000) : 0,
+      tasks_completed: worker.tasks_completed,
+      tasks_failed: worker.tasks_failed
+    }
+  }
+
+  private formatTaskTable(tasks: SimTask[]): string {
+    const header = 'ID          STATE         PRIORITY  TYPE            NAME'
+    const rows = tasks.map(t =>
+      `${t.id.padEnd(12)}${t.task_state.padEnd(14)}${t.priority.padEnd(10)}${t.task_type.padEnd(16)}${t.name}`
+    )
+    return [header, '-'.repeat(header.length), ...rows].join('\n')
+  }
+
+  private statusText(now: number): string {
+    const tasks = Array.from(this.tasks.values())
+    const count = (state: SimTaskState) => tasks.filter(t => t.task_state === state).length
+
+    return [
+      `Overall Status: ${this.running ? 'Running' : 'Stopped'}`,
+      this.running ? 'Auto-Claude system is running (simulated)' : 'Auto-Claude system is not running (simulated)',
+      `Active workers: ${this.running ? this.workers.length : 0}`,
+      `Pending tasks: ${count('pending')}`,
+      `Processing tasks: ${count('processing')}`,
+      'Disk free: 120.5 GB',
+      'Memory usage: 42.0%',
+      `Uptime: ${this.running ? Math.floor((now - this.startedAt) / 1000) : 0} seconds`
+    ].join('\n')
+  }
+
+  private helpText(): string {
+    return [
+      'usage: taskctl.py [-h] {task,worker,schedule,system} ...',
+      '',
+      'Simulated taskctl backend'
+    ].join('\n')
+  }
+
+  private requireTask(id: string | undefined): SimTask {
+    const task = id ? this.tasks.get(id) : undefined
+    if (!task) throw new SimulatorError(`Task ${id} not found`)
+    return task
+  }
+
+  private requireReviewTask(id: string | undefined): SimTask {
+    const task = this.requireTask(id)
+    if (!REVIEW_STATES.includes(task.task_state)) {
+      throw new SimulatorError(`Task ${task.id} is not awaiting review (state: ${task.task_state})`)
+    }
+    return task
+  }
+
+  private requireWorker(id: string | undefined): SimWorker {
+    const worker = this.workers.find(w => w.worker_id === id)
+    if (!worker) throw new SimulatorError(`Worker ${id} not found`)
+    return worker
+  }
+
+  private requireSchedule(id: string | undefined): SimScheduledTask {
+    const schedule = id ? this.schedules.get(id) : undefined
+    if (!schedule) throw new SimulatorError(`Scheduled task ${id} not found`)
+    return schedule
+  }
+}
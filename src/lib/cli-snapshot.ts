@@ -0,0 +1,140 @@
+import { buildCommandArgv } from '@/lib/cli-commands'
+import { runTaskctl, validateTaskctlOutput } from '@/lib/cli-runner'
+import { parseTaskList, parseWorkerList, parseScheduledTaskList, CLIContractError } from '@/lib/cli-schemas'
+import type { LocalBackendConfig } from '@/lib/cli-backends'
+import type { CLITask, CLIWorker, CLIScheduledTask, CLITaskStats, CLISnapshot } from '@/services/cli-service'
+
+// 快照缓存时间：窗口内所有客户端共享同一份结果
+const SNAPSHOT_TTL_MS = 3000
+
+interface CacheEntry<T> {
+  expiresAt: number
+  promise: Promise<T>
+}
+
+const cache = new Map<string, CacheEntry<unknown>>()
+
+/**
+ * 合并相同 key 的请求：进行中的请求直接复用，完成后在 ttl 内继续复用结果
+ */
+function coalesce<T>(key: string, ttlMs: number, loader: () => Promise<T>): Promise<T> {
+  const entry = cache.get(key) as CacheEntry<T> | undefined
+  if (entry && entry.expiresAt > Date.now()) {
+    return entry.promise
+  }
+
+  const promise = loader()
+  // 请求完成前不过期，完成后从完成时刻开始计算 ttl
+  cache.set(key, { expiresAt: Infinity, promise })
+
+  promise.then(
+    () => {
+      if (cache.get(key)?.promise === promise) {
+        cache.set(key, { expiresAt: Date.now() + ttlMs, promise })
+      }
+    },
+    () => {
+      if (cache.get(key)?.promise === promise) {
+        cache.delete(key)
+      }
+    }
+  )
+
+  return promise
+}
+
+async function runCommand(backend: LocalBackendConfig, argv: string[]): Promise<string> {
+  const { stdout, stderr } = await runTaskctl(backend, argv)
+  if (stderr) {
+    console.warn('Command stderr:', stderr)
+  }
+  return stdout
+}
+
+async function loadTasks(backend: LocalBackendConfig): Promise<CLITask[]> {
+  const stdout = await runCommand(backend, buildCommandArgv('task.list', { format: 'json' }))
+  return validateTaskctlOutput(backend, () => parseTaskList(stdout.trim()))
+}
+
+// 工作器和定时任务获取失败时不影响整个快照，但输出不符合约定时必须报出来
+async function loadWorkers(backend: LocalBackendConfig): Promise<CLIWorker[]> {
+  try {
+    const stdout = await runCommand(backend, buildCommandArgv('worker.list', {}))
+    return await validateTaskctlOutput(backend, () => parseWorkerList(stdout.trim()))
+  } catch (error) {
+    if (error instanceof CLIContractError) throw error
+    console.error('获取工作器列表失败:', error)
+    return []
+  }
+}
+
+async function loadScheduledTasks(backend: LocalBackendConfig): Promise<CLIScheduledTask[]> {
+  try {
+    const stdout = await runCommand(backend, buildCommandArgv('schedule.list', {}))
+    return await validateTaskctlOutput(backend, () => parseScheduledTaskList(stdout.trim()))
+  } catch (error) {
+    if (error instanceof CLIContractError) throw error
+    console.error('获取定时任务列表失败:', error)
+    return []
+  }
+}
+
+export function computeTaskStats(tasks: CLITask[]): CLITaskStats {
+  const countBy = (predicate: (task: CLITask) => boolean) => tasks.filter(predicate).length
+
+  return {
+    total: tasks.length,
+    pending: countBy(t => t.task_state === 'pending'),
+    processing: countBy(t => t.task_state === 'processing'),
+    completed: countBy(t => t.task_state === 'completed'),
+    failed: countBy(t => t.task_state === 'failed'),
+    by_priority: {
+      urgent: countBy(t => t.priority === 'urgent'),
+      high: countBy(t => t.priority === 'high'),
+      normal: countBy(t => t.priority === 'normal'),
+      low: countBy(t => t.priority === 'low'),
+    },
+    by_type: {
+      lightweight: countBy(t => t.task_type === 'lightweight'),
+      medium_context: countBy(t => t.task_type === 'medium_context'),
+      heavy_context: countBy(t => t.task_type === 'heavy_context'),
+    }
+  }
+}
+
+function groupByState(tasks: CLITask[]): Record<string, CLITask[]> {
+  const groups: Record<string, CLITask[]> = {}
+  for (const task of tasks) {
+    (groups[task.task_state] ||= []).push(task)
+  }
+  return groups
+}
+
+/**
+ * 清空指定后端的快照缓存，写操作完成后调用，保证下一次读取拿到最新状态
+ */
+export function invalidateCLISnapshot(backendId: string): void {
+  cache.delete(`snapshot:${backendId}`)
+}
+
+/**
+ * 获取聚合快照：一次 task list 加上工作器和定时任务，短时间内跨客户端复用
+ */
+export function getCLISnapshot(backend: LocalBackendConfig): Promise<CLISnapshot> {
+  return coalesce(`snapshot:${backend.id}`, SNAPSHOT_TTL_MS, async () => {
+    const [tasks, workers, scheduledTasks] = await Promise.all([
+      loadTasks(backend),
+      loadWorkers(backend),
+      loadScheduledTasks(backend)
+    ])
+
+    return {
+      generated_at: new Date().toISOString(),
+      tasks,
+      tasks_by_state: groupByState(tasks),
+      stats: computeTaskStats(tasks),
+      workers,
+      scheduled_tasks: scheduledTasks
+    }
+  })
+}
@@ -0,0 +1,22 @@
+/**
+ * CSV 格式化，任务导出和前端生成的报表共用
+ */
+
+export function formatCsvCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+
+  let text = Array.isArray(value) && value.every(item => typeof item === 'string')
+    ? value.join(',')
+    : typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+  // 以公式字符开头的文本在电子表格中会被执行，加单引号按文本处理
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function formatCsvRow(values: unknown[]): string {
+  return `${values.map(formatCsvCell).join(',')}\r\n`
+}
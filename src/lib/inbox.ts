@@ -0,0 +1,203 @@
+import path from 'path'
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthConfig } from '@/lib/auth-config'
+import { createJsonStore } from '@/lib/json-store'
+import { getCLISnapshot } from '@/lib/cli-snapshot'
+import { proxyToBackend } from '@/lib/cli-remote'
+import type { CLIBackendConfig } from '@/lib/cli-backends'
+import type { CLITask } from '@/services/cli-service'
+
+/**
+ * 审批收件箱
+ *
+ * 列出等待确认或需要人工审核的任务，并在本地 JSON 文件中记录每一项的指派人和已读用户。
+ * 批准、拒绝和回复通过 taskctl.py 命令完成，这里只保存前端自己的状态；
+ * 远程后端的任务也从它的快照读取，指派和已读状态始终按本前端的登录用户记录。
+ */
+
+const INBOX_FILE = process.env.INBOX_DATA_PATH || path.join(process.cwd(), 'data', 'inbox.json')
+
+export const REVIEW_STATES = ['awaiting_confirmation', 'needs_human_review']
+
+export class InboxError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InboxError'
+  }
+}
+
+interface InboxEntry {
+  backend: string
+  task_id: string
+  assignee?: string
+  assigned_by?: string
+  assigned_at?: string
+  read_by: string[]
+}
+
+interface InboxData {
+  entries: InboxEntry[]
+}
+
+export interface InboxItem {
+  task: CLITask
+  assignee?: string
+  assigned_by?: string
+  assigned_at?: string
+  // 分配给当前用户或未分配、且当前用户还没看过
+  unread: boolean
+}
+
+export interface InboxSummary {
+  items: InboxItem[]
+  unread: number
+  // 可以指派的用户（config/auth.json 中的用户）
+  users: string[]
+  username: string | null
+}
+
+const inboxStore = createJsonStore<InboxData>(INBOX_FILE, () => ({ entries: [] }))
+
+/**
+ * 收件箱操作失败时的响应：参数无效返回 400，其他错误返回 500
+ */
+export function inboxErrorResponse(error: unknown): NextResponse {
+  console.error('收件箱操作失败:', error)
+  return NextResponse.json({
+    success: false,
+    error: error instanceof Error ? error.message : '收件箱操作失败'
+  }, { status: error instanceof InboxError ? 400 : 500 })
+}
+
+function getUsers(): string[] {
+  return getAuthConfig().users.map(user => user.username)
+}
+
+function findEntry(data: InboxData, backendId: string, taskId: string): InboxEntry | undefined {
+  return data.entries.find(entry => entry.backend === backendId && entry.task_id === taskId)
+}
+
+function ensureEntry(data: InboxData, backendId: string, taskId: string): InboxEntry {
+  let entry = findEntry(data, backendId, taskId)
+  if (!entry) {
+    entry = { backend: backendId, task_id: taskId, read_by: [] }
+    data.entries.push(entry)
+  }
+  return entry
+}
+
+/**
+ * 读取后端的任务列表：本地后端使用快照缓存，远程后端读取远程前端的快照接口；
+ * 指派和已读请求也会读取任务列表，转发时统一使用 GET
+ */
+async function loadTasks(backend: CLIBackendConfig, request: NextRequest): Promise<CLITask[]> {
+  if (backend.type === 'local') {
+    return (await getCLISnapshot(backend)).tasks
+  }
+
+  const snapshotRequest = new NextRequest(request.url, { method: 'GET', signal: request.signal })
+  const response = await proxyToBackend(backend, snapshotRequest, '/api/cli/snapshot')
+  const result = await response.json()
+  if (!result.success) {
+    throw new Error(result.error || `远程后端返回 ${response.status}`)
+  }
+  return result.data.tasks
+}
+
+async function loadReviewTasks(backend: CLIBackendConfig, request: NextRequest): Promise<CLITask[]> {
+  return (await loadTasks(backend, request)).filter(task => REVIEW_STATES.includes(task.task_state))
+}
+
+/**
+ * 清除已经离开审批状态的任务的记录，再次进入时重新算作未读；
+ * 只在写入时执行，没有过期记录时不改变数据，也就不会写文件
+ */
+function pruneEntries(data: InboxData, backendId: string, reviewTaskIds: Set<string>): void {
+  if (data.entries.some(entry => entry.backend === backendId && !reviewTaskIds.has(entry.task_id))) {
+    data.entries = data.entries.filter(entry => entry.backend !== backendId || reviewTaskIds.has(entry.task_id))
+  }
+}
+
+/**
+ * 当前后端待处理的审批项，按进入队列的先后排列
+ */
+export async function listInbox(backend: CLIBackendConfig, request: NextRequest, username: string | null): Promise<InboxSummary> {
+  const tasks = await loadReviewTasks(backend, request)
+  const entries = (await inboxStore.read()).entries.filter(entry => entry.backend === backend.id)
+
+  const items = tasks
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(task => {
+      const entry = entries.find(item => item.task_id === task.id)
+      const visible = !entry?.assignee || entry.assignee === username
+      return {
+        task,
+        assignee: entry?.assignee,
+        assigned_by: entry?.assigned_by,
+        assigned_at: entry?.assigned_at,
+        unread: visible && !(username && entry?.read_by.includes(username))
+      }
+    })
+
+  return {
+    items,
+    unread: items.filter(item => item.unread).length,
+    users: getUsers(),
+    username
+  }
+}
+
+/**
+ * 指派审批项，assignee 为 null 时取消指派；任务必须仍在等待审批
+ */
+export async function assignInboxItem(
+  backend: CLIBackendConfig,
+  request: NextRequest,
+  taskId: string,
+  assignee: string | null,
+  assignedBy: string | null
+): Promise<void> {
+  if (assignee !== null && !getUsers().includes(assignee)) {
+    throw new InboxError(`用户不存在: ${assignee}`)
+  }
+
+  const reviewTaskIds = new Set((await loadReviewTasks(backend, request)).map(task => task.id))
+  if (!reviewTaskIds.has(taskId)) {
+    throw new InboxError(`任务不在审批队列中: ${taskId}`)
+  }
+
+  await inboxStore.update(data => {
+    pruneEntries(data, backend.id, reviewTaskIds)
+    const entry = ensureEntry(data, backend.id, taskId)
+    if (assignee === null) {
+      delete entry.assignee
+      delete entry.assigned_by
+      delete entry.assigned_at
+    } else if (entry.assignee !== assignee) {
+      entry.assignee = assignee
+      entry.assigned_by = assignedBy ?? undefined
+      entry.assigned_at = new Date().toISOString()
+      // 指派给别人后对新的处理人显示为未读
+      if (assignee !== assignedBy) {
+        entry.read_by = entry.read_by.filter(user => user !== assignee)
+      }
+    }
+  })
+}
+
+/**
+ * 把审批项标记为当前用户已读，已经离开审批状态的任务会被忽略
+ */
+export async function markInboxRead(backend: CLIBackendConfig, request: NextRequest, taskIds: string[], username: string): Promise<void> {
+  const reviewTaskIds = new Set((await loadReviewTasks(backend, request)).map(task => task.id))
+
+  await inboxStore.update(data => {
+    pruneEntries(data, backend.id, reviewTaskIds)
+    for (const taskId of taskIds.filter(id => reviewTaskIds.has(id))) {
+      const entry = ensureEntry(data, backend.id, taskId)
+      if (!entry.read_by.includes(username)) {
+        entry.read_by.push(username)
+      }
+    }
+  })
+}
@@ -0,0 +1,28 @@
+/**
+ * 从混合文本（例如带时间戳前缀的日志）中截取 JSON
+ */
+
+/**
+ * 从 start 位置的 "{" 或 "[" 开始截取一个完整的 JSON 值（跳过字符串中的括号），不完整时返回 null
+ */
+export function extractJsonValue(text: string, start: number): string | null {
+  let depth = 0
+  let inString = false
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (char === '\\') i++
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      depth++
+    } else if (char === '}' || char === ']') {
+      depth--
+      if (depth === 0) return text.slice(start, i + 1)
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,84 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * 本地 JSON 文件存储
+ *
+ * 收件箱、保存视图、任务评论、重试策略和流水线都把前端自己的状态保存在 data/ 下的 JSON 文件中。
+ * 同一个文件的读-改-写串行执行；写入时先写临时文件再重命名，进程中途退出也不会留下写了一半的文件。
+ */
+
+export class JsonStoreError extends Error {
+  constructor(message: string, public file: string) {
+    super(message)
+    this.name = 'JsonStoreError'
+  }
+}
+
+export interface JsonStore<T> {
+  read(): Promise<T>
+  // 串行执行读-改-写，内容有变化时写回文件
+  update<R>(change: (data: T) => Promise<R> | R): Promise<R>
+}
+
+// 每个文件一个队列，在热重载之间保持同一个实例
+const globalForStores = globalThis as unknown as {
+  jsonStoreQueues?: Map<string, Promise<unknown>>
+}
+const queues = globalForStores.jsonStoreQueues ??= new Map<string, Promise<unknown>>()
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+async function readJson<T>(file: string, initial: () => T): Promise<T> {
+  let content: string
+  try {
+    content = await fs.readFile(file, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return initial()
+    }
+    throw new JsonStoreError(`读取数据文件失败 (${file}): ${describeError(error)}`, file)
+  }
+
+  try {
+    return JSON.parse(content)
+  } catch (error) {
+    throw new JsonStoreError(`数据文件不是有效的 JSON (${file}): ${describeError(error)}`, file)
+  }
+}
+
+async function writeJson(file: string, data: unknown): Promise<void> {
+  const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(tempFile, JSON.stringify(data, null, 2), 'utf-8')
+    await fs.rename(tempFile, file)
+  } catch (error) {
+    await fs.rm(tempFile, { force: true }).catch(() => undefined)
+    throw new JsonStoreError(`写入数据文件失败 (${file}): ${describeError(error)}`, file)
+  }
+}
+
+/**
+ * 创建保存在 file 中的存储；文件不存在时使用 initial() 的结果
+ */
+export function createJsonStore<T>(file: string, initial: () => T): JsonStore<T> {
+  return {
+    read: () => readJson(file, initial),
+    update<R>(change: (data: T) => Promise<R> | R): Promise<R> {
+      const run = (queues.get(file) ?? Promise.resolve()).then(async () => {
+        const data = await readJson(file, initial)
+        const before = JSON.stringify(data)
+        const result = await change(data)
+        if (JSON.stringify(data) !== before) {
+          await writeJson(file, data)
+        }
+        return result
+      })
+      queues.set(file, run.catch(() => undefined))
+      return run
+    }
+  }
+}
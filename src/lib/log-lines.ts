@@ -0,0 +1,59 @@
+import { stripAnsi } from '@/lib/ansi'
+
+/**
+ * 日志行解析：时间戳和级别
+ *
+ * 支持 taskctl 的 "[ISO 时间] LEVEL 消息" 和 Python logging 的 "2025-01-01 12:00:00,123 - LEVEL - 消息"。
+ * 没有级别的行（例如异常堆栈）沿用上一行的级别，按级别筛选时不会被拆开。
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+export interface ParsedLogLine {
+  // 去掉 ANSI 转义后的文本，用于搜索
+  plain: string
+  level?: LogLevel
+  timestamp?: string
+}
+
+const TIMESTAMP_PATTERN = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)\]?/
+const LEVEL_PATTERN = /\b(DEBUG|INFO|WARN|WARNING|ERROR|CRITICAL|FATAL)\b/
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  DEBUG: 'debug',
+  INFO: 'info',
+  WARN: 'warn',
+  WARNING: 'warn',
+  ERROR: 'error',
+  CRITICAL: 'error',
+  FATAL: 'error'
+}
+
+// 级别只在行首附近查找，避免消息正文里的单词被当成级别
+const LEVEL_SEARCH_LENGTH = 40
+
+export function parseLogLine(text: string, previousLevel?: LogLevel): ParsedLogLine {
+  const plain = stripAnsi(text)
+  const timestamp = TIMESTAMP_PATTERN.exec(plain)
+  const offset = timestamp ? timestamp[0].length : 0
+  const level = LEVEL_PATTERN.exec(plain.slice(offset, offset + LEVEL_SEARCH_LENGTH))
+
+  return {
+    plain,
+    level: level ? LEVEL_ALIASES[level[1]] : previousLevel,
+    timestamp: timestamp?.[1]
+  }
+}
+
+/**
+ * 解析多行日志；previous 是已经解析过的前缀，日志只追加时只解析新增的行
+ */
+export function parseLogLines(lines: string[], previous: ParsedLogLine[] = []): ParsedLogLine[] {
+  const parsed = previous.slice(0, lines.length)
+  for (let i = parsed.length; i < lines.length; i++) {
+    parsed.push(parseLogLine(lines[i], parsed[i - 1]?.level))
+  }
+  return parsed
+}
@@ -0,0 +1,374 @@
+import path from 'path'
+import { NextResponse } from 'next/server'
+import { buildCommandArgv, CLICommandError } from '@/lib/cli-commands'
+import { runTaskctl, assertWorkingDirExists } from '@/lib/cli-runner'
+import { createJsonStore } from '@/lib/json-store'
+import { withDefaultRetryPolicy } from '@/lib/retry-policies'
+import { parseCreatedTaskId } from '@/lib/cli-schemas'
+import { getFinalResult } from '@/lib/transcript'
+import { stripAnsi } from '@/lib/ansi'
+import { getCLISnapshot, invalidateCLISnapshot } from '@/lib/cli-snapshot'
+import { resolveBackend, type LocalBackendConfig } from '@/lib/cli-backends'
+import {
+  PipelineError,
+  validatePipelineDefinition,
+  STEP_RESULT_MAX_LENGTH,
+  sortSteps,
+  evaluateStep,
+  derivePipelineStatus,
+  getStepReferences,
+  renderStepPrompt,
+  toTaskCreateArgs,
+  type Pipeline,
+  type PipelineStep,
+  type PipelineStepRun,
+  type StepReferenceField,
+} from '@/lib/pipelines'
+import type { CLITask } from '@/services/cli-service'
+
+/**
+ * 流水线存储和调度
+ *
+ * 流水线保存在本地 JSON 文件中，由前端服务端定时检查：上游任务结束后，
+ * 通过 taskctl.py 提交下游步骤。只负责本地后端，远程后端的流水线由远程前端调度。
+ */
+
+const PIPELINES_FILE = process.env.PIPELINES_DATA_PATH || path.join(process.cwd(), 'data', 'pipelines.json')
+const PIPELINE_POLL_INTERVAL_MS = Number(process.env.PIPELINE_POLL_INTERVAL_MS) || 5000
+
+interface PipelineData {
+  pipelines: Pipeline[]
+}
+
+// 调度定时器在热重载之间保持同一个实例
+const globalForPipelines = globalThis as unknown as {
+  pipelineDriver?: NodeJS.Timeout
+  pipelineTick?: Promise<void>
+  pipelineNextTick?: Promise<void>
+}
+
+const pipelineStore = createJsonStore<PipelineData>(PIPELINES_FILE, () => ({ pipelines: [] }))
+
+/**
+ * 流水线操作失败时的响应：定义无效或状态不允许返回 400，其他错误返回 500
+ */
+export function pipelineErrorResponse(error: unknown): NextResponse {
+  console.error('流水线操作失败:', error)
+  return NextResponse.json({
+    success: false,
+    error: error instanceof Error ? error.message : '流水线操作失败'
+  }, { status: error instanceof PipelineError ? 400 : 500 })
+}
+
+function generateId(): string {
+  return `pl_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+}
+
+function requirePipeline(data: PipelineData, backendId: string, id: string): Pipeline {
+  const pipeline = data.pipelines.find(item => item.id === id && item.backend === backendId)
+  if (!pipeline) {
+    throw new PipelineError(`流水线不存在: ${id}`)
+  }
+  return pipeline
+}
+
+/**
+ * 指定后端的流水线，按创建时间倒序
+ */
+export async function listPipelines(backendId: string): Promise<Pipeline[]> {
+  const { pipelines } = await pipelineStore.read()
+  return pipelines
+    .filter(pipeline => pipeline.backend === backendId)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+export async function getPipeline(backendId: string, id: string): Promise<Pipeline | null> {
+  const { pipelines } = await pipelineStore.read()
+  return pipelines.find(pipeline => pipeline.id === id && pipeline.backend === backendId) ?? null
+}
+
+/**
+ * 校验并保存流水线，随后立即提交没有依赖的步骤
+ */
+export async function createPipeline(backend: LocalBackendConfig, input: unknown): Promise<Pipeline> {
+  const definition = validatePipelineDefinition(input)
+  for (const step of definition.steps) {
+    try {
+      await assertWorkingDirExists(step.workingDir)
+    } catch (error) {
+      if (error instanceof CLICommandError) {
+        throw new PipelineError(`步骤 ${step.id} ${error.message}`)
+      }
+      throw error
+    }
+  }
+  const pipeline: Pipeline = {
+    ...definition,
+    steps: sortSteps(definition.steps),
+    id: generateId(),
+    backend: backend.id,
+    status: 'running',
+    created_at: new Date().toISOString(),
+    runs: Object.fromEntries(definition.steps.map(step => [step.id, { status: 'waiting' }]))
+  }
+
+  await pipelineStore.update(data => {
+    data.pipelines.push(pipeline)
+  })
+
+  await advancePipelines()
+  return (await getPipeline(backend.id, pipeline.id)) ?? pipeline
+}
+
+/**
+ * 取消流水线：未提交的步骤标记为跳过，已提交且未结束的任务尽量取消
+ */
+export async function cancelPipeline(backend: LocalBackendConfig, id: string): Promise<Pipeline> {
+  return pipelineStore.update(async data => {
+    const pipeline = requirePipeline(data, backend.id, id)
+    if (pipeline.status !== 'running') {
+      throw new PipelineError('流水线已结束，不能取消')
+    }
+
+    const now = new Date().toISOString()
+    for (const step of pipeline.steps) {
+      const run = pipeline.runs[step.id]
+      if (run.status === 'waiting') {
+        pipeline.runs[step.id] = { status: 'skipped', finished_at: now }
+      } else if (run.status === 'submitted' && run.task_id) {
+        try {
+          await runTaskctl(backend, buildCommandArgv('task.cancel', { taskId: run.task_id }))
+          pipeline.runs[step.id] = { ...run, status: 'failed', task_state: 'failed', finished_at: now, error: '流水线已取消' }
+        } catch (error) {
+          console.error(`取消流水线 ${id} 的任务 ${run.task_id} 失败:`, error)
+        }
+      }
+    }
+
+    pipeline.status = 'cancelled'
+    pipeline.finished_at = now
+    invalidateCLISnapshot(backend.id)
+    return pipeline
+  })
+}
+
+/**
+ * 删除已结束的流水线（不影响已创建的任务）
+ */
+export async function deletePipeline(backendId: string, id: string): Promise<void> {
+  await pipelineStore.update(data => {
+    const pipeline = requirePipeline(data, backendId, id)
+    if (pipeline.status === 'running') {
+      throw new PipelineError('流水线正在运行，请先取消')
+    }
+    data.pipelines = data.pipelines.filter(item => item.id !== id)
+  })
+}
+
+// 上游任务的执行结果：取 Claude 执行记录中最后的 result，没有时退回去掉颜色代码的日志末尾
+async function loadStepResult(backend: LocalBackendConfig, taskId: string): Promise<string> {
+  try {
+    const { stdout } = await runTaskctl(backend, buildCommandArgv('task.logs', { taskId }))
+    const output = (getFinalResult(stdout) ?? stripAnsi(stdout)).trim()
+    return output.length > STEP_RESULT_MAX_LENGTH ? output.slice(-STEP_RESULT_MAX_LENGTH) : output
+  } catch (error) {
+    console.error(`读取任务 ${taskId} 的结果失败:`, error)
+    return ''
+  }
+}
+
+// 提交中的步骤超过这个时间仍没有结果，视为提交过程中断（例如服务重启）
+const STEP_SUBMIT_TIMEOUT_MS = 10 * 60_000
+
+interface StepSubmission {
+  pipeline: Pipeline
+  step: PipelineStep
+}
+
+/**
+ * 提交一个步骤，返回新任务 ID；在存储锁之外执行，读取上游结果和创建任务都可能较慢
+ */
+async function submitStep(backend: LocalBackendConfig, { pipeline, step }: StepSubmission): Promise<string | undefined> {
+  const values: Record<string, Partial<Record<StepReferenceField, string>>> = {}
+  for (const { stepId, field } of getStepReferences(step.prompt)) {
+    const upstream = pipeline.runs[stepId]
+    const entry = values[stepId] ??= {}
+    if (field === 'task_id') entry.task_id = upstream?.task_id ?? ''
+    if (field === 'state') entry.state = upstream?.task_state ?? upstream?.status ?? ''
+    if (field === 'result' && entry.result === undefined) {
+      entry.result = upstream?.task_id ? await loadStepResult(backend, upstream.task_id) : ''
+    }
+  }
+
+  // 创建流水线后目录可能被删除，提交前再检查一次
+  await assertWorkingDirExists(step.workingDir)
+  const args = await withDefaultRetryPolicy(backend.id, toTaskCreateArgs(step, renderStepPrompt(step.prompt, values)))
+  const argv = buildCommandArgv('task.create', args)
+  const { stdout } = await runTaskctl(backend, argv)
+  return parseCreatedTaskId(stdout)
+}
+
+/**
+ * 推进一条流水线：同步已提交任务的状态，跳过条件不满足的步骤，
+ * 把条件满足的步骤标记为提交中并返回，由调用方在存储锁之外提交
+ */
+function advancePipeline(pipeline: Pipeline, tasks: Map<string, CLITask>): PipelineStep[] {
+  const now = new Date().toISOString()
+
+  for (const step of pipeline.steps) {
+    const run = pipeline.runs[step.id]
+    if (run.status === 'submitting' && Date.now() - new Date(run.submitted_at ?? 0).getTime() > STEP_SUBMIT_TIMEOUT_MS) {
+      pipeline.runs[step.id] = { status: 'failed', finished_at: now, error: '提交过程中断，任务可能已经创建，请在任务列表中确认' }
+      continue
+    }
+    if (run.status !== 'submitted' || !run.task_id) continue
+
+    const task = tasks.get(run.task_id)
+    if (!task) continue
+
+    run.task_state = task.task_state
+    if (task.task_state === 'completed' || task.task_state === 'failed') {
+      run.status = task.task_state
+      run.finished_at = task.completed_at ?? now
+      if (task.task_state === 'failed' && task.last_error) run.error = task.last_error
+    }
+  }
+
+  // 步骤已按依赖排序，同一轮中跳过的步骤会继续影响后面的步骤
+  const claimed: PipelineStep[] = []
+  for (const step of pipeline.steps) {
+    if (pipeline.runs[step.id].status !== 'waiting') continue
+
+    const decision = evaluateStep(step, pipeline.runs)
+    if (decision === 'skip') {
+      pipeline.runs[step.id] = { status: 'skipped', finished_at: now }
+    } else if (decision === 'run') {
+      pipeline.runs[step.id] = { status: 'submitting', submitted_at: now }
+      claimed.push(step)
+    }
+  }
+
+  updatePipelineStatus(pipeline)
+  return claimed
+}
+
+function updatePipelineStatus(pipeline: Pipeline): void {
+  const status = derivePipelineStatus(pipeline)
+  if (pipeline.status === 'running' && status !== 'running') {
+    pipeline.status = status
+    pipeline.finished_at = new Date().toISOString()
+  }
+}
+
+/**
+ * 推进一个后端的流水线，分三步，避免在提交任务期间占用存储锁：
+ * 先在锁内把要提交的步骤标记为提交中并写回，再在锁外逐个创建任务，最后在锁内保存任务 ID。
+ * 标记先落盘，即使创建任务后进程退出，下一轮也不会重复提交同一个步骤
+ */
+async function advanceBackend(backendId: string, runningIds: string[]): Promise<void> {
+  const backend = resolveBackend(backendId)
+  if (backend.type !== 'local') return
+
+  const snapshot = await getCLISnapshot(backend)
+  const tasks = new Map(snapshot.tasks.map(task => [task.id, task]))
+
+  const submissions = await pipelineStore.update(data => {
+    const claimed: StepSubmission[] = []
+    for (const pipeline of data.pipelines) {
+      if (pipeline.status === 'running' && runningIds.includes(pipeline.id)) {
+        claimed.push(...advancePipeline(pipeline, tasks).map(step => ({ pipeline, step })))
+      }
+    }
+    return claimed
+  })
+  if (submissions.length === 0) return
+
+  const results = new Map<StepSubmission, PipelineStepRun>()
+  for (const submission of submissions) {
+    const submittedAt = new Date().toISOString()
+    try {
+      const taskId = await submitStep(backend, submission)
+      results.set(submission, { status: 'submitted', task_id: taskId, task_state: 'pending', submitted_at: submittedAt })
+    } catch (error) {
+      console.error(`提交流水线 ${submission.pipeline.id} 的步骤 ${submission.step.id} 失败:`, error)
+      results.set(submission, {
+        status: 'failed',
+        finished_at: new Date().toISOString(),
+        error: error instanceof Error ? error.message : '提交任务失败'
+      })
+    }
+  }
+  invalidateCLISnapshot(backend.id)
+
+  const cancelled = await pipelineStore.update(data => {
+    const taskIds: string[] = []
+    for (const [{ pipeline: { id }, step }, run] of results) {
+      const pipeline = data.pipelines.find(item => item.id === id)
+      if (!pipeline || pipeline.runs[step.id]?.status !== 'submitting') continue
+      pipeline.runs[step.id] = run
+      updatePipelineStatus(pipeline)
+      // 提交期间流水线被取消：记录任务 ID 并取消刚创建的任务
+      if (pipeline.status === 'cancelled' && run.task_id) taskIds.push(run.task_id)
+    }
+    return taskIds
+  })
+
+  for (const taskId of cancelled) {
+    try {
+      await runTaskctl(backend, buildCommandArgv('task.cancel', { taskId }))
+    } catch (error) {
+      console.error(`取消已取消流水线的任务 ${taskId} 失败:`, error)
+    }
+  }
+}
+
+/**
+ * 检查所有运行中的流水线；同一时间只有一轮检查在进行。
+ * 检查进行中时再次调用，会在这一轮结束后再检查一轮（进行中的一轮可能在新流水线保存之前就读取了列表），
+ * 返回的是后一轮的结果；这期间的多次调用共用同一轮
+ */
+export function advancePipelines(): Promise<void> {
+  if (globalForPipelines.pipelineTick) {
+    return globalForPipelines.pipelineNextTick ??= globalForPipelines.pipelineTick
+      .catch(() => undefined)
+      .then(() => {
+        globalForPipelines.pipelineNextTick = undefined
+        return advancePipelines()
+      })
+  }
+
+  const tick = (async () => {
+    const { pipelines } = await pipelineStore.read()
+    const running = new Map<string, string[]>()
+    for (const pipeline of pipelines) {
+      if (pipeline.status === 'running') {
+        running.set(pipeline.backend, [...(running.get(pipeline.backend) ?? []), pipeline.id])
+      }
+    }
+
+    for (const [backendId, ids] of running) {
+      try {
+        await advanceBackend(backendId, ids)
+      } catch (error) {
+        console.error(`推进后端 ${backendId} 的流水线失败:`, error)
+      }
+    }
+  })()
+
+  globalForPipelines.pipelineTick = tick.finally(() => {
+    globalForPipelines.pipelineTick = undefined
+  })
+  return globalForPipelines.pipelineTick
+}
+
+/**
+ * 启动定时调度（重复调用无副作用）
+ */
+export function startPipelineDriver(): void {
+  if (globalForPipelines.pipelineDriver) return
+
+  globalForPipelines.pipelineDriver = setInterval(() => {
+    advancePipelines().catch(error => console.error('流水线调度失败:', error))
+  }, PIPELINE_POLL_INTERVAL_MS)
+  globalForPipelines.pipelineDriver.unref?.()
+}
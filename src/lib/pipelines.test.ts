@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import {
+  sortSteps,
+  evaluateStep,
+  validatePipelineDefinition,
+  derivePipelineStatus,
+  renderStepPrompt,
+  getStepReferences,
+  PipelineError,
+  type PipelineStep,
+  type PipelineStepRun
+} from '@/lib/pipelines'
+
+function step(id: string, depends_on: string[] = [], condition: PipelineStep['condition'] = 'on_success'): PipelineStep {
+  return { id, name: id, prompt: `执行 ${id}`, depends_on, condition }
+}
+
+describe('sortSteps', () => {
+  it('上游步骤排在前面', () => {
+    const sorted = sortSteps([step('deploy', ['build', 'test']), step('test', ['build']), step('build')])
+    expect(sorted.map(item => item.id)).toEqual(['build', 'test', 'deploy'])
+  })
+
+  it('存在环时抛出 PipelineError', () => {
+    expect(() => sortSteps([step('a', ['b']), step('b', ['a']), step('c')])).toThrow(PipelineError)
+    expect(() => sortSteps([step('a', ['b']), step('b', ['a'])])).toThrow('a, b')
+  })
+})
+
+describe('evaluateStep', () => {
+  const runs = (statuses: Record<string, PipelineStepRun['status']>) =>
+    Object.fromEntries(Object.entries(statuses).map(([id, status]) => [id, { status }]))
+
+  it('上游没有全部结束时继续等待', () => {
+    expect(evaluateStep(step('c', ['a', 'b']), runs({ a: 'completed', b: 'submitted' }))).toBe('wait')
+    expect(evaluateStep(step('c', ['a']), runs({ a: 'submitting' }))).toBe('wait')
+    expect(evaluateStep(step('c', ['a']), {})).toBe('wait')
+  })
+
+  it('没有上游的步骤直接执行', () => {
+    expect(evaluateStep(step('a'), {})).toBe('run')
+  })
+
+  it('按条件决定执行或跳过', () => {
+    const done = runs({ a: 'completed', b: 'failed' })
+    expect(evaluateStep(step('c', ['a']), done)).toBe('run')
+    expect(evaluateStep(step('c', ['a', 'b']), done)).toBe('skip')
+    expect(evaluateStep(step('c', ['a', 'b'], 'on_failure'), done)).toBe('run')
+    expect(evaluateStep(step('c', ['a'], 'on_failure'), done)).toBe('skip')
+    expect(evaluateStep(step('c', ['a', 'b'], 'always'), runs({ a: 'skipped', b: 'failed' }))).toBe('run')
+  })
+})
+
+describe('derivePipelineStatus', () => {
+  it('所有步骤结束后才结束，有失败步骤为 failed', () => {
+    const steps = [step('a'), step('b', ['a'])]
+    expect(derivePipelineStatus({ steps, runs: { a: { status: 'completed' }, b: { status: 'waiting' } } })).toBe('running')
+    expect(derivePipelineStatus({ steps, runs: { a: { status: 'completed' }, b: { status: 'skipped' } } })).toBe('succeeded')
+    expect(derivePipelineStatus({ steps, runs: { a: { status: 'failed' }, b: { status: 'skipped' } } })).toBe('failed')
+  })
+})
+
+describe('步骤引用', () => {
+  it('取出并替换提示词中的引用', () => {
+    const prompt = '根据 {{ steps.build.result }} 部署 {{steps.build.task_id}}，缺失: {{steps.other.state}}'
+    expect(getStepReferences(prompt)).toEqual([
+      { stepId: 'build', field: 'result' },
+      { stepId: 'build', field: 'task_id' },
+      { stepId: 'other', field: 'state' }
+    ])
+    expect(renderStepPrompt(prompt, { build: { result: 'ok', task_id: 't1' } })).toBe('根据 ok 部署 t1，缺失: ')
+  })
+})
+
+describe('validatePipelineDefinition', () => {
+  const definition = (steps: unknown[]) => ({ name: '发布', steps })
+
+  it('补上默认的依赖和条件', () => {
+    const result = validatePipelineDefinition(definition([{ id: 'a', name: 'A', prompt: 'p' }]))
+    expect(result.steps[0]).toMatchObject({ depends_on: [], condition: 'on_success' })
+  })
+
+  it('拒绝重复 ID、不存在的依赖和自身依赖', () => {
+    expect(() => validatePipelineDefinition(definition([step('a'), step('a')]))).toThrow('步骤ID重复')
+    expect(() => validatePipelineDefinition(definition([step('a', ['x'])]))).toThrow('依赖的步骤不存在')
+    expect(() => validatePipelineDefinition(definition([step('a', ['a'])]))).toThrow('不能依赖自身')
+    expect(() => validatePipelineDefinition(definition([step('a', ['b']), step('b', ['a'])]))).toThrow('循环依赖')
+  })
+
+  it('只能引用上游步骤', () => {
+    const steps = [step('a'), { ...step('b'), prompt: '使用 {{steps.a.result}}' }]
+    expect(() => validatePipelineDefinition(definition(steps))).toThrow('引用了非上游步骤: a')
+    steps[1] = { ...steps[1], depends_on: ['a'] }
+    expect(validatePipelineDefinition(definition(steps)).steps).toHaveLength(2)
+  })
+
+  it('按 task.create 的规则校验步骤参数', () => {
+    expect(() => validatePipelineDefinition(definition([{ ...step('a'), workingDir: 'relative' }])))
+      .toThrow('步骤 a 参数 workingDir 无效')
+    // 引用替换为空后提示词不能为空
+    const steps = [step('a'), { ...step('b', ['a']), prompt: '{{steps.a.result}}' }]
+    expect(() => validatePipelineDefinition(definition(steps))).toThrow('步骤 b 参数 description 无效')
+  })
+})
@@ -0,0 +1,256 @@
+import { z } from 'zod'
+import { buildCommandArgv, CLICommandError } from '@/lib/cli-commands'
+
+/**
+ * 流水线定义
+ *
+ * 流水线由多个任务步骤组成，步骤之间通过 depends_on 构成有向无环图。
+ * 上游步骤全部结束后按条件决定是否提交下游步骤，提交时可以在提示词中
+ * 通过 {{steps.<步骤ID>.result}} 引用上游任务的执行结果。
+ * 这里只包含校验和状态推导，存储和提交在 pipeline-runner.ts 中。
+ */
+
+export class PipelineError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PipelineError'
+  }
+}
+
+// 步骤的执行条件：上游全部成功 / 任一上游失败 / 上游结束即可
+export const PIPELINE_CONDITIONS = {
+  on_success: '上游全部成功',
+  on_failure: '任一上游失败',
+  always: '上游结束后总是执行'
+} as const
+
+export type PipelineCondition = keyof typeof PIPELINE_CONDITIONS
+
+const stepIdSchema = z.string().regex(/^[A-Za-z][A-Za-z0-9_-]{0,63}$/, '步骤ID只能包含字母、数字、下划线和连字符，且以字母开头')
+
+// 任务相关字段的具体规则由 task.create 的参数校验负责
+const pipelineStepSchema = z.object({
+  id: stepIdSchema,
+  name: z.string().trim().min(1, '步骤名称不能为空'),
+  prompt: z.string().refine(value => value.trim().length > 0, '提示词不能为空'),
+  depends_on: z.array(stepIdSchema).default([]),
+  condition: z.enum(Object.keys(PIPELINE_CONDITIONS) as [PipelineCondition]).default('on_success'),
+  type: z.string().optional(),
+  priority: z.string().optional(),
+  workingDir: z.string().optional(),
+  environment: z.record(z.string(), z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  autoExecute: z.boolean().optional(),
+}).strict()
+
+export const pipelineDefinitionSchema = z.object({
+  name: z.string().trim().min(1, '流水线名称不能为空').max(200, '流水线名称不能超过200个字符'),
+  description: z.string().max(2000, '描述不能超过2000个字符').optional(),
+  steps: z.array(pipelineStepSchema).min(1, '至少需要一个步骤').max(50, '步骤不能超过50个'),
+}).strict()
+
+export type PipelineStep = z.output<typeof pipelineStepSchema>
+export type PipelineDefinition = z.output<typeof pipelineDefinitionSchema>
+export type PipelineDefinitionInput = z.input<typeof pipelineDefinitionSchema>
+
+// waiting: 等待上游；submitting: 正在提交（已占用，不会重复提交）；submitted: 已提交为任务；其余为结束状态
+export type PipelineStepStatus = 'waiting' | 'submitting' | 'submitted' | 'completed' | 'failed' | 'skipped'
+export type PipelineStatus = 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface PipelineStepRun {
+  status: PipelineStepStatus
+  task_id?: string
+  // 最近一次看到的任务状态（TaskState）
+  task_state?: string
+  submitted_at?: string
+  finished_at?: string
+  error?: string
+}
+
+export interface Pipeline extends PipelineDefinition {
+  id: string
+  backend: string
+  status: PipelineStatus
+  created_at: string
+  finished_at?: string
+  runs: Record<string, PipelineStepRun>
+}
+
+// 提示词中引用上游步骤：{{steps.<步骤ID>.result|task_id|state}}
+const STEP_REFERENCE_PATTERN = /\{\{\s*steps\.([A-Za-z][A-Za-z0-9_-]*)\.(result|task_id|state)\s*\}\}/g
+
+export type StepReferenceField = 'result' | 'task_id' | 'state'
+
+// 传给下游提示词的执行结果只保留最后一部分
+export const STEP_RESULT_MAX_LENGTH = 4000
+
+// 校验时代入引用的值：上游没有输出时的空值，以及各字段可能的最长值
+const EMPTY_REFERENCE_VALUE: Record<StepReferenceField, string> = { result: '', task_id: '', state: '' }
+const LONGEST_REFERENCE_VALUE: Record<StepReferenceField, string> = {
+  result: 'x'.repeat(STEP_RESULT_MAX_LENGTH),
+  task_id: 'x'.repeat(64),
+  state: 'awaiting_confirmation'
+}
+
+export function isStepFinished(status: PipelineStepStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'skipped'
+}
+
+/**
+ * 提示词中引用的上游步骤及字段
+ */
+export function getStepReferences(prompt: string): Array<{ stepId: string; field: StepReferenceField }> {
+  return Array.from(prompt.matchAll(STEP_REFERENCE_PATTERN), match => ({
+    stepId: match[1],
+    field: match[2] as StepReferenceField
+  }))
+}
+
+/**
+ * 用上游步骤的值替换提示词中的引用
+ */
+export function renderStepPrompt(prompt: string, values: Record<string, Partial<Record<StepReferenceField, string>>>): string {
+  return prompt.replace(STEP_REFERENCE_PATTERN, (_, stepId: string, field: StepReferenceField) => values[stepId]?.[field] ?? '')
+}
+
+/**
+ * 按依赖关系排序（上游在前），存在环时抛出 PipelineError
+ */
+export function sortSteps<T extends Pick<PipelineStep, 'id' | 'depends_on'>>(steps: T[]): T[] {
+  const remaining = new Map(steps.map(step => [step.id, new Set(step.depends_on)]))
+  const byId = new Map(steps.map(step => [step.id, step]))
+  const sorted: T[] = []
+
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining.entries()).filter(([, deps]) => deps.size === 0).map(([id]) => id)
+    if (ready.length === 0) {
+      throw new PipelineError(`步骤之间存在循环依赖: ${Array.from(remaining.keys()).join(', ')}`)
+    }
+    for (const id of ready) {
+      remaining.delete(id)
+      sorted.push(byId.get(id)!)
+      for (const deps of remaining.values()) deps.delete(id)
+    }
+  }
+
+  return sorted
+}
+
+// 所有直接和间接上游步骤
+function collectAncestors(stepId: string, byId: Map<string, PipelineStep>, result = new Set<string>()): Set<string> {
+  for (const dep of byId.get(stepId)?.depends_on ?? []) {
+    if (!result.has(dep)) {
+      result.add(dep)
+      collectAncestors(dep, byId, result)
+    }
+  }
+  return result
+}
+
+/**
+ * 生成步骤对应的 task.create 参数
+ */
+export function toTaskCreateArgs(step: PipelineStep, prompt: string = step.prompt) {
+  return {
+    name: step.name,
+    description: prompt,
+    type: step.type,
+    priority: step.priority,
+    workingDir: step.workingDir || undefined,
+    environment: step.environment,
+    tags: step.tags,
+    autoExecute: step.autoExecute
+  }
+}
+
+/**
+ * 校验流水线定义：步骤 ID 唯一、依赖存在且无环、引用的步骤是上游、任务参数有效
+ */
+export function validatePipelineDefinition(input: unknown): PipelineDefinition {
+  const parsed = pipelineDefinitionSchema.safeParse(input)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const field = issue.path.join('.') || 'pipeline'
+    throw new PipelineError(`参数 ${field} 无效: ${issue.message}`)
+  }
+
+  const definition = parsed.data
+  const byId = new Map<string, PipelineStep>()
+
+  for (const step of definition.steps) {
+    if (byId.has(step.id)) {
+      throw new PipelineError(`步骤ID重复: ${step.id}`)
+    }
+    byId.set(step.id, step)
+  }
+
+  for (const step of definition.steps) {
+    for (const dep of step.depends_on) {
+      if (dep === step.id) {
+        throw new PipelineError(`步骤 ${step.id} 不能依赖自身`)
+      }
+      if (!byId.has(dep)) {
+        throw new PipelineError(`步骤 ${step.id} 依赖的步骤不存在: ${dep}`)
+      }
+    }
+  }
+
+  sortSteps(definition.steps)
+
+  for (const step of definition.steps) {
+    const ancestors = collectAncestors(step.id, byId)
+    for (const { stepId } of getStepReferences(step.prompt)) {
+      if (!ancestors.has(stepId)) {
+        throw new PipelineError(`步骤 ${step.id} 的提示词引用了非上游步骤: ${stepId}`)
+      }
+    }
+
+    // 提交时提示词中的引用会被替换，按替换后最短和最长的提示词分别校验
+    const references = getStepReferences(step.prompt)
+    const renderWith = (value: Record<StepReferenceField, string>) => renderStepPrompt(
+      step.prompt,
+      Object.fromEntries(references.map(({ stepId }) => [stepId, value]))
+    )
+    try {
+      buildCommandArgv('task.create', toTaskCreateArgs(step, renderWith(EMPTY_REFERENCE_VALUE)))
+      buildCommandArgv('task.create', toTaskCreateArgs(step, renderWith(LONGEST_REFERENCE_VALUE)))
+    } catch (error) {
+      if (error instanceof CLICommandError) {
+        throw new PipelineError(`步骤 ${step.id} ${error.message}`)
+      }
+      throw error
+    }
+  }
+
+  return definition
+}
+
+/**
+ * 根据上游步骤的状态决定步骤下一步：继续等待、提交执行或跳过
+ */
+export function evaluateStep(step: PipelineStep, runs: Record<string, PipelineStepRun>): 'wait' | 'run' | 'skip' {
+  const upstream = step.depends_on.map(dep => runs[dep]?.status ?? 'waiting')
+  if (!upstream.every(isStepFinished)) {
+    return 'wait'
+  }
+
+  switch (step.condition) {
+    case 'on_success':
+      return upstream.every(status => status === 'completed') ? 'run' : 'skip'
+    case 'on_failure':
+      return upstream.some(status => status === 'failed') ? 'run' : 'skip'
+    case 'always':
+      return 'run'
+  }
+}
+
+/**
+ * 所有步骤结束后的流水线状态：有失败步骤为 failed，否则为 succeeded；未结束返回 running
+ */
+export function derivePipelineStatus(pipeline: Pick<Pipeline, 'steps' | 'runs'>): PipelineStatus {
+  const statuses = pipeline.steps.map(step => pipeline.runs[step.id]?.status ?? 'waiting')
+  if (!statuses.every(isStepFinished)) {
+    return 'running'
+  }
+  return statuses.includes('failed') ? 'failed' : 'succeeded'
+}
@@ -0,0 +1,173 @@
+import type { CLITask } from '@/services/cli-service'
+
+/**
+ * 限流概况
+ *
+ * 根据快照中的任务推算 Claude 用量限制的情况：
+ * - 正在等待解封（waiting_unban）的任务和解封时间
+ * - 从 error_history 中的限流记录还原过去的限流窗口
+ * - 按最近的完成速度估算待处理队列需要多久清空，以及能否在下一次限流前完成
+ * 只做推算，不依赖 taskctl 之外的数据。
+ */
+
+// 间隔不超过这个时长的限流记录归为同一个窗口
+const WINDOW_MERGE_MS = 10 * 60 * 1000
+// 按最近一段时间内结束的任务计算处理速度
+export const THROUGHPUT_WINDOW_MS = 60 * 60 * 1000
+// 只统计最近一段时间的限流窗口
+const HISTORY_MS = 7 * 24 * 60 * 60 * 1000
+
+// 仍会被执行的任务状态，用于估算队列
+const BACKLOG_STATES = ['pending', 'processing', 'retrying', 'waiting_unban']
+
+export interface RateLimitWindow {
+  // 第一次和最后一次触发限流的时间
+  start: number
+  last_hit: number
+  // 解封时间：正在等待的窗口取任务的 next_allowed_at，过去的窗口按观测到的时长估算
+  end?: number
+  estimated: boolean
+  hits: number
+  task_ids: string[]
+}
+
+export interface RateLimitSummary {
+  waiting: CLITask[]
+  // 最早和最晚的解封时间
+  next_unban_at?: number
+  reset_at?: number
+  windows: RateLimitWindow[]
+  // 单次限流到解封的典型时长
+  unban_duration_ms?: number
+  // 相邻两次限流之间的典型间隔
+  window_interval_ms?: number
+  // 预计下一次触发限流的时间（根据历史间隔推算）
+  next_window_at?: number
+  backlog: number
+  // 最近一小时结束的任务数（每小时）
+  throughput_per_hour: number
+  // 预计清空队列的时间；没有吞吐量时无法估算
+  drain_at?: number
+  // 按当前速度，队列在下一次限流前清空不了
+  drain_at_risk: boolean
+}
+
+export function isRateLimitError(entry: { type: string; message: string }): boolean {
+  return entry.type === 'rate_limit' || /usage limit|rate limit/i.test(entry.message)
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+function toTime(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? undefined : time
+}
+
+/**
+ * 合并所有任务的限流记录，得到按时间排序的限流窗口
+ */
+function collectWindows(tasks: CLITask[], now: number): { windows: RateLimitWindow[]; unbanDuration?: number } {
+  const hits: Array<{ at: number; task: CLITask }> = []
+  const durations: number[] = []
+
+  for (const task of tasks) {
+    const taskHits = (task.error_history ?? [])
+      .filter(isRateLimitError)
+      .map(entry => toTime(entry.timestamp))
+      .filter((at): at is number => at !== undefined && at >= now - HISTORY_MS)
+    hits.push(...taskHits.map(at => ({ at, task })))
+
+    // 正在等待的任务：最近一次限流到解封的时长
+    const nextAllowed = toTime(task.next_allowed_at)
+    if (task.task_state === 'waiting_unban' && nextAllowed !== undefined && taskHits.length > 0) {
+      durations.push(nextAllowed - Math.max(...taskHits))
+    }
+  }
+
+  const unbanDuration = median(durations.filter(duration => duration > 0))
+  const windows: RateLimitWindow[] = []
+
+  for (const { at, task } of hits.sort((a, b) => a.at - b.at)) {
+    const current = windows[windows.length - 1]
+    if (current && at - current.last_hit <= WINDOW_MERGE_MS) {
+      current.last_hit = at
+      current.hits++
+      if (!current.task_ids.includes(task.id)) current.task_ids.push(task.id)
+    } else {
+      windows.push({ start: at, last_hit: at, estimated: true, hits: 1, task_ids: [task.id] })
+    }
+  }
+
+  for (const window of windows) {
+    const waitingUntil = tasks
+      .filter(task => task.task_state === 'waiting_unban' && window.task_ids.includes(task.id))
+      .map(task => toTime(task.next_allowed_at))
+      .filter((at): at is number => at !== undefined)
+
+    if (waitingUntil.length > 0) {
+      window.end = Math.max(...waitingUntil)
+      window.estimated = false
+    } else if (unbanDuration !== undefined) {
+      window.end = window.last_hit + unbanDuration
+    }
+  }
+
+  return { windows, unbanDuration }
+}
+
+export function summarizeRateLimits(tasks: CLITask[], now: number = Date.now()): RateLimitSummary {
+  const waiting = tasks
+    .filter(task => task.task_state === 'waiting_unban')
+    .sort((a, b) => (toTime(a.next_allowed_at) ?? Infinity) - (toTime(b.next_allowed_at) ?? Infinity))
+
+  const unbanTimes = waiting
+    .map(task => toTime(task.next_allowed_at))
+    .filter((at): at is number => at !== undefined && at > now)
+  const nextUnbanAt = unbanTimes.length > 0 ? Math.min(...unbanTimes) : undefined
+  const resetAt = unbanTimes.length > 0 ? Math.max(...unbanTimes) : undefined
+
+  const { windows, unbanDuration } = collectWindows(tasks, now)
+
+  const intervals = windows.slice(1).map((window, index) => window.start - windows[index].start)
+  const windowInterval = median(intervals)
+  let nextWindowAt: number | undefined
+  if (windowInterval !== undefined && windows.length > 0) {
+    nextWindowAt = windows[windows.length - 1].start + windowInterval
+    // 推算的时间已经过去时顺延到下一个周期
+    while (nextWindowAt <= Math.max(now, resetAt ?? now)) nextWindowAt += windowInterval
+  }
+
+  const backlog = tasks.filter(task => BACKLOG_STATES.includes(task.task_state)).length
+  const finishedRecently = tasks.filter(task => {
+    const completedAt = toTime(task.completed_at)
+    return completedAt !== undefined && completedAt > now - THROUGHPUT_WINDOW_MS && completedAt <= now &&
+      (task.task_state === 'completed' || task.task_state === 'failed')
+  }).length
+  const throughputPerHour = finishedRecently * (60 * 60 * 1000) / THROUGHPUT_WINDOW_MS
+
+  // 等待解封期间不会处理任务，从解封后开始计算
+  const drainAt = backlog === 0
+    ? now
+    : throughputPerHour > 0
+      ? (resetAt ?? now) + backlog / throughputPerHour * 60 * 60 * 1000
+      : undefined
+
+  return {
+    waiting,
+    next_unban_at: nextUnbanAt,
+    reset_at: resetAt,
+    windows: windows.reverse(),
+    unban_duration_ms: unbanDuration,
+    window_interval_ms: windowInterval,
+    next_window_at: nextWindowAt,
+    backlog,
+    throughput_per_hour: throughputPerHour,
+    drain_at: drainAt,
+    drain_at_risk: drainAt !== undefined && nextWindowAt !== undefined && drainAt > nextWindowAt
+  }
+}
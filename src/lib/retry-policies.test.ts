@@ -0,0 +1,61 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { DEFAULT_RETRY_POLICIES } from '@/lib/retry-policy'
+import { TaskType } from '@/types'
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'retry-policies-'))
+
+// 数据文件路径在模块加载时读取，设置环境变量后再导入
+let policies: typeof import('@/lib/retry-policies')
+
+beforeAll(async () => {
+  process.env.RETRY_POLICIES_DATA_PATH = path.join(dataDir, 'retry-policies.json')
+  policies = await import('@/lib/retry-policies')
+})
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+const heavy = { ...DEFAULT_RETRY_POLICIES[TaskType.HEAVY_CONTEXT], max_attempts: 2, retryable_errors: ['execution_error' as const] }
+
+describe('重试策略的合并', () => {
+  it('没有保存过时使用内置默认值，创建任务时不补重试参数', async () => {
+    expect(await policies.getRetryPolicies('local')).toEqual(DEFAULT_RETRY_POLICIES)
+    expect(await policies.withDefaultRetryPolicy('local', { name: 'n', type: 'heavy_context' })).toEqual({ name: 'n', type: 'heavy_context' })
+  })
+
+  it('只保存与默认值不同的任务类型，按后端分别保存', async () => {
+    const saved = await policies.saveRetryPolicies('local', {
+      ...DEFAULT_RETRY_POLICIES,
+      // 顺序不同但内容相同时视为默认值
+      [TaskType.LIGHTWEIGHT]: { ...DEFAULT_RETRY_POLICIES[TaskType.LIGHTWEIGHT], retryable_errors: ['rate_limit'] },
+      [TaskType.HEAVY_CONTEXT]: heavy
+    })
+    expect(saved).toEqual({ ...DEFAULT_RETRY_POLICIES, [TaskType.HEAVY_CONTEXT]: heavy })
+    expect(await policies.getRetryPolicies('local')).toEqual(saved)
+    expect(await policies.getRetryPolicies('remote')).toEqual(DEFAULT_RETRY_POLICIES)
+  })
+
+  it('只给保存过策略的任务类型补上策略，已指定的策略不变', async () => {
+    expect(await policies.withDefaultRetryPolicy('local', { type: 'heavy_context' })).toEqual({ type: 'heavy_context', retryPolicy: heavy })
+    expect(await policies.withDefaultRetryPolicy('local', { type: 'lightweight' })).toEqual({ type: 'lightweight' })
+    // 没有指定类型时按 lightweight 处理
+    expect(await policies.withDefaultRetryPolicy('local', {})).toEqual({})
+
+    const explicit = { ...heavy, max_attempts: 5 }
+    expect(await policies.withDefaultRetryPolicy('local', { type: 'heavy_context', retryPolicy: explicit }))
+      .toEqual({ type: 'heavy_context', retryPolicy: explicit })
+  })
+
+  it('拒绝无效的策略', async () => {
+    await expect(policies.saveRetryPolicies('local', { ...DEFAULT_RETRY_POLICIES, unknown: heavy }))
+      .rejects.toThrow(policies.RetryPolicyError)
+    await expect(policies.saveRetryPolicies('local', {
+      ...DEFAULT_RETRY_POLICIES,
+      [TaskType.MEDIUM_CONTEXT]: { ...heavy, max_attempts: 0 }
+    })).rejects.toThrow('medium_context.max_attempts: 最多执行次数至少为1')
+  })
+})
@@ -0,0 +1,92 @@
+import path from 'path'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { TaskType } from '@/types'
+import { createJsonStore } from '@/lib/json-store'
+import type { CLICommandArgs } from '@/lib/cli-commands'
+import { DEFAULT_RETRY_POLICIES, retryPolicySchema, type RetryPolicy } from '@/lib/retry-policy'
+
+/**
+ * 按任务类型设置的默认重试策略
+ *
+ * 每个后端的策略保存在本地 JSON 文件中，只保存与 DEFAULT_RETRY_POLICIES 不同的任务类型。
+ * 创建任务时没有指定策略、但该任务类型保存过策略的，服务端在生成 argv 前补上，
+ * 任务页面、批量导入和流水线创建的任务都使用同一套设置；没有保存过的类型不传重试参数，由 taskctl 按自己的默认行为处理。
+ */
+
+const POLICIES_FILE = process.env.RETRY_POLICIES_DATA_PATH || path.join(process.cwd(), 'data', 'retry-policies.json')
+
+export class RetryPolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RetryPolicyError'
+  }
+}
+
+export type RetryPolicies = Record<TaskType, RetryPolicy>
+
+interface RetryPolicyData {
+  // 后端 ID -> 任务类型 -> 策略
+  backends: Record<string, Partial<RetryPolicies>>
+}
+
+const retryPoliciesSchema = z.object(
+  Object.fromEntries(Object.values(TaskType).map(type => [type, retryPolicySchema])) as Record<TaskType, typeof retryPolicySchema>
+).strict()
+
+const policyStore = createJsonStore<RetryPolicyData>(POLICIES_FILE, () => ({ backends: {} }))
+
+/**
+ * 重试策略操作失败时的响应：参数无效返回 400，其他错误返回 500
+ */
+export function retryPolicyErrorResponse(error: unknown): NextResponse {
+  console.error('重试策略操作失败:', error)
+  return NextResponse.json({
+    success: false,
+    error: error instanceof Error ? error.message : '重试策略操作失败'
+  }, { status: error instanceof RetryPolicyError ? 400 : 500 })
+}
+
+export async function getRetryPolicies(backendId: string): Promise<RetryPolicies> {
+  const { backends } = await policyStore.read()
+  return { ...DEFAULT_RETRY_POLICIES, ...backends[backendId] }
+}
+
+export async function saveRetryPolicies(backendId: string, input: unknown): Promise<RetryPolicies> {
+  const parsed = retryPoliciesSchema.safeParse(input)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new RetryPolicyError(issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+  }
+
+  // 与内置默认值相同的类型不保存，创建任务时也就不传重试参数
+  const changed = Object.fromEntries(
+    Object.values(TaskType)
+      .filter(type => !isSamePolicy(parsed.data[type], DEFAULT_RETRY_POLICIES[type]))
+      .map(type => [type, parsed.data[type]])
+  ) as Partial<RetryPolicies>
+
+  await policyStore.update(data => {
+    data.backends[backendId] = changed
+  })
+  return { ...DEFAULT_RETRY_POLICIES, ...changed }
+}
+
+function isSamePolicy(a: RetryPolicy, b: RetryPolicy): boolean {
+  const normalize = (policy: RetryPolicy) => JSON.stringify({ ...policy, retryable_errors: [...policy.retryable_errors].sort() })
+  return normalize(a) === normalize(b)
+}
+
+/**
+ * 没有指定重试策略的 task.create 参数补上该任务类型保存过的策略；没有保存过时参数不变。
+ * 没有指定类型时与 taskctl 一样按 lightweight 处理
+ */
+export async function withDefaultRetryPolicy<T extends Pick<CLICommandArgs<'task.create'>, 'retryPolicy'> & { type?: string }>(
+  backendId: string,
+  args: T
+): Promise<T> {
+  if (args.retryPolicy) return args
+  const { backends } = await policyStore.read()
+  const saved = backends[backendId]?.[(args.type as TaskType | undefined) ?? TaskType.LIGHTWEIGHT]
+  return saved ? { ...args, retryPolicy: saved } : args
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { buildAttemptHistory, retryDelayRange, retryPolicySchema, DEFAULT_RETRY_POLICIES, type RetryPolicy } from '@/lib/retry-policy'
+import { buildCommandArgv } from '@/lib/cli-commands'
+import type { CLITask } from '@/services/cli-service'
+
+const policy: RetryPolicy = {
+  max_attempts: 3,
+  backoff: 'exponential',
+  delay_seconds: 30,
+  max_delay_seconds: 100,
+  jitter: 0.5,
+  retryable_errors: ['execution_error']
+}
+
+function task(overrides: Partial<CLITask>): CLITask {
+  return {
+    id: 'task_1',
+    name: '任务',
+    task_state: 'pending',
+    priority: 'normal',
+    task_type: 'lightweight',
+    created_at: '2026-10-01T00:00:00Z',
+    retry_count: 0,
+    ...overrides
+  }
+}
+
+const errors = (...types: string[]) => types.map((type, index) => ({ timestamp: `2026-10-01T0${index}:00:00Z`, type, message: `错误 ${index + 1}` }))
+
+describe('retryPolicySchema', () => {
+  it('指数退避的最大间隔不能小于重试间隔', () => {
+    expect(retryPolicySchema.safeParse({ ...policy, max_delay_seconds: 10 }).success).toBe(false)
+    expect(retryPolicySchema.safeParse({ ...policy, backoff: 'fixed', max_delay_seconds: 10 }).success).toBe(true)
+  })
+
+  it('默认策略都是有效的', () => {
+    for (const value of Object.values(DEFAULT_RETRY_POLICIES)) {
+      expect(retryPolicySchema.safeParse(value).success).toBe(true)
+    }
+  })
+})
+
+describe('retryDelayRange', () => {
+  it('指数退避逐次翻倍，不超过最大间隔，并按抖动比例浮动', () => {
+    expect(retryDelayRange(policy, 1)).toEqual({ min: 15, max: 45 })
+    expect(retryDelayRange(policy, 2)).toEqual({ min: 30, max: 90 })
+    expect(retryDelayRange(policy, 3)).toEqual({ min: 50, max: 150 })
+  })
+
+  it('固定间隔每次相同', () => {
+    expect(retryDelayRange({ ...policy, backoff: 'fixed', jitter: 0 }, 5)).toEqual({ min: 30, max: 30 })
+  })
+})
+
+describe('task.create 的重试参数', () => {
+  it('最多执行次数转换为重试次数', () => {
+    expect(buildCommandArgv('task.create', { name: 'n', description: 'd', retryPolicy: policy })).toEqual(expect.arrayContaining([
+      '--max-retries=2',
+      '--retry-backoff=exponential',
+      '--retry-delay=30',
+      '--retry-max-delay=100',
+      '--retry-jitter=0.5',
+      '--retry-on=execution_error'
+    ]))
+  })
+})
+
+describe('buildAttemptHistory', () => {
+  it('每条错误对应一次失败的执行，当前状态对应最后一次执行', () => {
+    expect(buildAttemptHistory(task({ task_state: 'completed', completed_at: '2026-10-01T05:00:00Z', error_history: errors('rate_limit') })))
+      .toEqual([
+        { number: 1, status: 'failed', at: '2026-10-01T00:00:00Z', error_type: 'rate_limit', message: '错误 1' },
+        { number: 2, status: 'succeeded', at: '2026-10-01T05:00:00Z' }
+      ])
+    expect(buildAttemptHistory(task({ task_state: 'waiting_unban', next_allowed_at: '2026-10-01T06:00:00Z', error_history: errors('rate_limit') }))[1])
+      .toEqual({ number: 2, status: 'scheduled', at: '2026-10-01T06:00:00Z' })
+    expect(buildAttemptHistory(task({ task_state: 'pending' }))).toEqual([{ number: 1, status: 'scheduled', at: undefined }])
+  })
+
+  it('失败结束时最后一条错误就是最后一次执行，并说明不再重试的原因', () => {
+    const exhausted = buildAttemptHistory(task({ task_state: 'failed', retry_policy: policy, error_history: errors('execution_error', 'execution_error', 'execution_error') }))
+    expect(exhausted).toHaveLength(3)
+    expect(exhausted[2].stop_reason).toBe('已达到最多执行次数（3 次）')
+
+    const notRetryable = buildAttemptHistory(task({ task_state: 'failed', retry_policy: policy, error_history: errors('rate_limit') }))
+    expect(notRetryable[0].stop_reason).toBe('该类型的错误不自动重试')
+  })
+
+  it('没有错误记录的失败任务使用 last_error', () => {
+    expect(buildAttemptHistory(task({ task_state: 'failed', completed_at: '2026-10-01T01:00:00Z', last_error: '崩溃' })))
+      .toEqual([{ number: 1, status: 'failed', at: '2026-10-01T01:00:00Z', message: '崩溃' }])
+  })
+})
@@ -0,0 +1,168 @@
+import { z } from 'zod'
+import { TaskType } from '@/types'
+import type { CLITask } from '@/services/cli-service'
+
+/**
+ * 任务重试策略
+ *
+ * 策略决定执行失败后是否自动重试、最多执行几次以及每次重试前等待多久。
+ * 每种任务类型有一个默认策略（保存在 retry-policies.ts），创建任务时可以整体覆盖，
+ * 通过 task create 的 --max-retries / --retry-* 参数交给 taskctl。
+ * 这里只包含校验、延迟计算和尝试记录的推导，前后端共用。
+ */
+
+export const RETRY_BACKOFF_STRATEGIES = {
+  fixed: '固定间隔',
+  exponential: '指数退避'
+} as const
+
+export type RetryBackoff = keyof typeof RETRY_BACKOFF_STRATEGIES
+
+// 可以自动重试的错误，对应 error_history 中的 type
+export const RETRYABLE_ERROR_TYPES = {
+  execution_error: '执行错误',
+  rate_limit: '用量限制'
+} as const
+
+export type RetryableErrorType = keyof typeof RETRYABLE_ERROR_TYPES
+
+// 指数退避时每次重试的延迟倍数
+export const BACKOFF_MULTIPLIER = 2
+
+const MAX_DELAY_SECONDS = 24 * 60 * 60
+
+const retryPolicyFields = z.object({
+  // 最多执行次数，包括第一次执行
+  max_attempts: z.number().int().min(1, '最多执行次数至少为1').max(20, '最多执行次数不能超过20'),
+  backoff: z.enum(Object.keys(RETRY_BACKOFF_STRATEGIES) as [RetryBackoff]),
+  // 第一次重试前的等待时间；指数退避时之后每次翻倍，不超过 max_delay_seconds
+  delay_seconds: z.number().int().min(0, '重试间隔不能为负数').max(MAX_DELAY_SECONDS, '重试间隔不能超过一天'),
+  max_delay_seconds: z.number().int().min(0, '最大间隔不能为负数').max(MAX_DELAY_SECONDS, '最大间隔不能超过一天'),
+  // 随机抖动的比例：实际等待时间在 ±jitter 范围内浮动，避免大量任务同时重试
+  jitter: z.number().min(0, '抖动比例不能为负数').max(1, '抖动比例不能超过1'),
+  retryable_errors: z.array(z.enum(Object.keys(RETRYABLE_ERROR_TYPES) as [RetryableErrorType]))
+})
+
+export const retryPolicySchema = retryPolicyFields.strict().refine(
+  policy => policy.backoff === 'fixed' || policy.max_delay_seconds >= policy.delay_seconds,
+  { message: '最大间隔不能小于重试间隔', path: ['max_delay_seconds'] }
+)
+
+// taskctl 输出的任务策略：只校验已知字段
+export const taskRetryPolicySchema = retryPolicyFields
+
+export type RetryPolicy = z.output<typeof retryPolicySchema>
+
+// 默认只自动重试用量限制（等待解封后继续），与没有策略时 taskctl 的行为一致
+export const DEFAULT_RETRY_POLICIES: Record<TaskType, RetryPolicy> = {
+  [TaskType.LIGHTWEIGHT]: {
+    max_attempts: 4,
+    backoff: 'exponential',
+    delay_seconds: 30,
+    max_delay_seconds: 600,
+    jitter: 0.1,
+    retryable_errors: ['rate_limit']
+  },
+  [TaskType.MEDIUM_CONTEXT]: {
+    max_attempts: 4,
+    backoff: 'exponential',
+    delay_seconds: 60,
+    max_delay_seconds: 1800,
+    jitter: 0.1,
+    retryable_errors: ['rate_limit']
+  },
+  [TaskType.HEAVY_CONTEXT]: {
+    max_attempts: 4,
+    backoff: 'exponential',
+    delay_seconds: 120,
+    max_delay_seconds: 3600,
+    jitter: 0.1,
+    retryable_errors: ['rate_limit']
+  }
+}
+
+/**
+ * 第 retry 次重试（从 1 开始）前不加抖动的等待秒数
+ */
+function baseDelay(policy: RetryPolicy, retry: number): number {
+  if (policy.backoff === 'fixed') return policy.delay_seconds
+  return Math.min(policy.delay_seconds * BACKOFF_MULTIPLIER ** Math.max(retry - 1, 0), policy.max_delay_seconds)
+}
+
+/**
+ * 第 retry 次重试前等待秒数的范围，用于界面展示
+ */
+export function retryDelayRange(policy: RetryPolicy, retry: number): { min: number; max: number } {
+  const base = baseDelay(policy, retry)
+  return {
+    min: Math.max(0, Math.round(base * (1 - policy.jitter))),
+    max: Math.round(base * (1 + policy.jitter))
+  }
+}
+
+export type TaskAttemptStatus = 'failed' | 'succeeded' | 'running' | 'scheduled' | 'awaiting_review' | 'paused'
+
+export interface TaskAttempt {
+  // 第几次执行，从 1 开始
+  number: number
+  status: TaskAttemptStatus
+  // 结束时间；scheduled 为计划开始的时间，running 为开始时间
+  at?: string
+  error_type?: string
+  message?: string
+  // 失败后没有再执行的原因
+  stop_reason?: string
+}
+
+/**
+ * 由 error_history 和当前状态推导每次执行的结果：每条错误对应一次失败的执行，
+ * 当前状态对应最后一次执行（失败结束的任务最后一条错误就是最后一次执行）
+ */
+export function buildAttemptHistory(task: CLITask): TaskAttempt[] {
+  const attempts: TaskAttempt[] = (task.error_history ?? []).map((entry, index) => ({
+    number: index + 1,
+    status: 'failed',
+    at: entry.timestamp,
+    error_type: entry.type,
+    message: entry.message
+  }))
+  const next = (status: TaskAttemptStatus, at?: string) => attempts.push({ number: attempts.length + 1, status, at })
+
+  switch (task.task_state) {
+    case 'completed':
+      next('succeeded', task.completed_at)
+      break
+    case 'processing':
+      next('running', task.started_at)
+      break
+    case 'pending':
+    case 'retrying':
+    case 'waiting_unban':
+      next('scheduled', task.next_allowed_at)
+      break
+    case 'awaiting_confirmation':
+    case 'needs_human_review':
+      next('awaiting_review', task.completed_at)
+      break
+    case 'paused':
+      next('paused')
+      break
+    case 'failed': {
+      if (attempts.length === 0) {
+        attempts.push({ number: 1, status: 'failed', at: task.completed_at, message: task.last_error })
+      }
+      const last = attempts[attempts.length - 1]
+      const policy = task.retry_policy
+      if (policy && last.error_type) {
+        last.stop_reason = last.number >= policy.max_attempts
+          ? `已达到最多执行次数（${policy.max_attempts} 次）`
+          : !(policy.retryable_errors as string[]).includes(last.error_type)
+            ? '该类型的错误不自动重试'
+            : undefined
+      }
+      break
+    }
+  }
+
+  return attempts
+}
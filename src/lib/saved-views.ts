@@ -0,0 +1,103 @@
+import path from 'path'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createJsonStore } from '@/lib/json-store'
+import { compileTaskQuery, TaskQueryError } from '@/lib/task-query'
+import type { SavedTaskView } from '@/types'
+
+/**
+ * 任务列表的保存视图
+ *
+ * 每个用户的视图保存在本地 JSON 文件中，与后端无关：切换后端后同一个查询仍然可用。
+ */
+
+const VIEWS_FILE = process.env.SAVED_VIEWS_DATA_PATH || path.join(process.cwd(), 'data', 'saved-views.json')
+
+// 每个用户最多保存的视图数
+const MAX_VIEWS_PER_USER = 50
+
+export class SavedViewError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SavedViewError'
+  }
+}
+
+interface StoredView extends SavedTaskView {
+  user: string
+}
+
+interface SavedViewData {
+  views: StoredView[]
+}
+
+const savedViewSchema = z.object({
+  name: z.string().trim().min(1, '视图名称不能为空').max(50, '视图名称不能超过50个字符'),
+  query: z.string().trim().min(1, '查询不能为空').max(1000, '查询不能超过1000个字符')
+})
+
+const viewStore = createJsonStore<SavedViewData>(VIEWS_FILE, () => ({ views: [] }))
+
+function toView({ id, name, query, created_at }: StoredView): SavedTaskView {
+  return { id, name, query, created_at }
+}
+
+/**
+ * 视图操作失败时的响应：参数无效返回 400，其他错误返回 500
+ */
+export function savedViewErrorResponse(error: unknown): NextResponse {
+  console.error('保存视图操作失败:', error)
+  return NextResponse.json({
+    success: false,
+    error: error instanceof Error ? error.message : '保存视图操作失败'
+  }, { status: error instanceof SavedViewError || error instanceof TaskQueryError ? 400 : 500 })
+}
+
+export async function listSavedViews(user: string): Promise<SavedTaskView[]> {
+  const { views } = await viewStore.read()
+  return views.filter(view => view.user === user).map(toView)
+}
+
+/**
+ * 保存视图：查询需要能通过解析，同名视图会被覆盖
+ */
+export async function saveView(user: string, input: unknown): Promise<SavedTaskView> {
+  const parsed = savedViewSchema.safeParse(input)
+  if (!parsed.success) {
+    throw new SavedViewError(parsed.error.issues[0].message)
+  }
+  const { name, query } = parsed.data
+  compileTaskQuery(query)
+
+  return viewStore.update(data => {
+    const existing = data.views.find(view => view.user === user && view.name === name)
+    if (existing) {
+      existing.query = query
+      return toView(existing)
+    }
+
+    if (data.views.filter(view => view.user === user).length >= MAX_VIEWS_PER_USER) {
+      throw new SavedViewError(`每个用户最多保存 ${MAX_VIEWS_PER_USER} 个视图`)
+    }
+
+    const view: StoredView = {
+      id: `view_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      user,
+      name,
+      query,
+      created_at: new Date().toISOString()
+    }
+    data.views.push(view)
+    return toView(view)
+  })
+}
+
+export async function deleteSavedView(user: string, id: string): Promise<void> {
+  await viewStore.update(data => {
+    const index = data.views.findIndex(view => view.id === id && view.user === user)
+    if (index === -1) {
+      throw new SavedViewError(`视图不存在: ${id}`)
+    }
+    data.views.splice(index, 1)
+  })
+}
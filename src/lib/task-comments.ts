@@ -0,0 +1,161 @@
+import path from 'path'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getAuthConfig } from '@/lib/auth-config'
+import { createJsonStore } from '@/lib/json-store'
+
+/**
+ * 任务评论
+ *
+ * 评论按后端和任务 ID 保存在本地 JSON 文件中，作者取自登录用户。
+ * 正文支持 Markdown，@用户名 提到 config/auth.json 中的用户；评论可以关联到任务日志的某一行，
+ * 同时保存该行内容，日志被清理后仍能看到当时讨论的是哪一行。
+ * 与收件箱一样，远程后端的任务评论也保存在本前端。
+ */
+
+const COMMENTS_FILE = process.env.TASK_COMMENTS_DATA_PATH || path.join(process.cwd(), 'data', 'task-comments.json')
+
+// 保存的日志行内容的最大长度
+const MAX_LOG_TEXT_LENGTH = 500
+
+export class TaskCommentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TaskCommentError'
+  }
+}
+
+export interface TaskComment {
+  id: string
+  task_id: string
+  author: string
+  body: string
+  // 正文中提到的用户
+  mentions: string[]
+  // 关联的日志行号（从 1 开始）和当时的内容
+  log_line?: number
+  log_text?: string
+  created_at: string
+}
+
+export interface TaskCommentThread {
+  comments: TaskComment[]
+  // 可以 @ 的用户（config/auth.json 中的用户）
+  users: string[]
+  username: string | null
+}
+
+interface StoredComment extends TaskComment {
+  backend: string
+}
+
+interface TaskCommentData {
+  comments: StoredComment[]
+}
+
+const commentSchema = z.object({
+  body: z.string().trim().min(1, '评论内容不能为空').max(5000, '评论不能超过5000个字符'),
+  log_line: z.number().int().positive().optional(),
+  log_text: z.string().optional()
+})
+
+const MENTION_PATTERN = /(?<![\w@])@([\w.-]+)/g
+
+const commentStore = createJsonStore<TaskCommentData>(COMMENTS_FILE, () => ({ comments: [] }))
+
+function toComment({ id, task_id, author, body, mentions, log_line, log_text, created_at }: StoredComment): TaskComment {
+  return { id, task_id, author, body, mentions, log_line, log_text, created_at }
+}
+
+function getUsers(): string[] {
+  return getAuthConfig().users.map(user => user.username)
+}
+
+/**
+ * 正文中 @ 到的已知用户，去重后按出现顺序返回
+ */
+export function extractMentions(body: string, users: string[]): string[] {
+  const mentions = Array.from(body.matchAll(MENTION_PATTERN), match => match[1])
+    .map(name => name.replace(/[.-]+$/, ''))
+    .filter(name => users.includes(name))
+  return Array.from(new Set(mentions))
+}
+
+/**
+ * 评论操作失败时的响应：参数无效返回 400，其他错误返回 500
+ */
+export function taskCommentErrorResponse(error: unknown): NextResponse {
+  console.error('评论操作失败:', error)
+  return NextResponse.json({
+    success: false,
+    error: error instanceof Error ? error.message : '评论操作失败'
+  }, { status: error instanceof TaskCommentError ? 400 : 500 })
+}
+
+export async function listTaskComments(backendId: string, taskId: string, username: string | null): Promise<TaskCommentThread> {
+  const { comments } = await commentStore.read()
+  return {
+    comments: comments
+      .filter(comment => comment.backend === backendId && comment.task_id === taskId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(toComment),
+    users: getUsers(),
+    username
+  }
+}
+
+/**
+ * 后端中每个任务的评论数，没有评论的任务不在结果中
+ */
+export async function getTaskCommentCounts(backendId: string): Promise<Record<string, number>> {
+  const { comments } = await commentStore.read()
+  const counts: Record<string, number> = {}
+  for (const comment of comments) {
+    if (comment.backend === backendId) {
+      counts[comment.task_id] = (counts[comment.task_id] ?? 0) + 1
+    }
+  }
+  return counts
+}
+
+export async function addTaskComment(backendId: string, taskId: string, author: string, input: unknown): Promise<TaskComment> {
+  const parsed = commentSchema.safeParse(input)
+  if (!parsed.success) {
+    throw new TaskCommentError(parsed.error.issues[0].message)
+  }
+  const { body, log_line, log_text } = parsed.data
+
+  const comment: StoredComment = {
+    id: `comment_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    backend: backendId,
+    task_id: taskId,
+    author,
+    body,
+    mentions: extractMentions(body, getUsers()),
+    ...(log_line !== undefined ? { log_line, log_text: log_text?.slice(0, MAX_LOG_TEXT_LENGTH) } : {}),
+    created_at: new Date().toISOString()
+  }
+
+  await commentStore.update(data => {
+    data.comments.push(comment)
+  })
+  return toComment(comment)
+}
+
+/**
+ * 删除评论，只有作者本人可以删除
+ */
+export async function deleteTaskComment(backendId: string, taskId: string, commentId: string, username: string): Promise<void> {
+  await commentStore.update(data => {
+    const index = data.comments.findIndex(comment =>
+      comment.backend === backendId && comment.task_id === taskId && comment.id === commentId
+    )
+    if (index === -1) {
+      throw new TaskCommentError(`评论不存在: ${commentId}`)
+    }
+    if (data.comments[index].author !== username) {
+      throw new TaskCommentError('只能删除自己的评论')
+    }
+    data.comments.splice(index, 1)
+  })
+}
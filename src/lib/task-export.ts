@@ -0,0 +1,138 @@
+import { buildCommandArgv } from '@/lib/cli-commands'
+import { runTaskctl } from '@/lib/cli-runner'
+import { ZipWriter } from '@/lib/zip'
+import { formatCsvRow } from '@/lib/csv'
+import type { LocalBackendConfig } from '@/lib/cli-backends'
+import type { CLITask } from '@/services/cli-service'
+
+/**
+ * 任务导出
+ *
+ * 把任务按 CSV、JSON 或 NDJSON 格式逐条输出；需要日志时打包成 zip，
+ * 其中 tasks.<格式> 是任务数据，logs/<任务ID>.log 是每个任务的日志，日志在发送时逐个读取。
+ */
+
+export const TASK_EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' }
+}
+
+export type TaskExportFormat = keyof typeof TASK_EXPORT_FORMATS
+
+export function isTaskExportFormat(value: unknown): value is TaskExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TASK_EXPORT_FORMATS, value)
+}
+
+// CSV 的列：列出 CLITask 的全部字段，新增字段时这里会报类型错误
+const CSV_COLUMNS = Object.keys({
+  id: true,
+  name: true,
+  description: true,
+  task_state: true,
+  priority: true,
+  task_type: true,
+  command: true,
+  created_at: true,
+  started_at: true,
+  completed_at: true,
+  assigned_worker: true,
+  retry_count: true,
+  max_retries: true,
+  retry_policy: true,
+  tags: true,
+  working_dir: true,
+  environment: true,
+  auto_execute: true,
+  cloned_from: true,
+  template_id: true,
+  confirmation_prompt: true,
+  last_error: true,
+  error_history: true,
+  next_allowed_at: true
+} satisfies Record<keyof CLITask, true>) as Array<keyof CLITask>
+
+/**
+ * 逐条生成导出内容
+ */
+function* serializeTasks(tasks: CLITask[], format: TaskExportFormat): Generator<string> {
+  switch (format) {
+    case 'csv':
+      // BOM 让 Excel 按 UTF-8 打开中文
+      yield `\uFEFF${CSV_COLUMNS.join(',')}\r\n`
+      for (const task of tasks) {
+        yield formatCsvRow(CSV_COLUMNS.map(column => task[column]))
+      }
+      return
+    case 'json':
+      yield '[\n'
+      for (let i = 0; i < tasks.length; i++) {
+        yield `${i > 0 ? ',\n' : ''}${JSON.stringify(tasks[i], null, 2)}`
+      }
+      yield '\n]\n'
+      return
+    case 'ndjson':
+      for (const task of tasks) {
+        yield `${JSON.stringify(task)}\n`
+      }
+      return
+  }
+}
+
+async function loadTaskLogs(backend: LocalBackendConfig, taskId: string): Promise<string> {
+  try {
+    const { stdout } = await runTaskctl(backend, buildCommandArgv('task.logs', { taskId }))
+    return stdout
+  } catch (error) {
+    console.error(`导出任务 ${taskId} 的日志失败:`, error)
+    return `# 获取日志失败: ${error instanceof Error ? error.message : '未知错误'}\n`
+  }
+}
+
+/**
+ * 生成导出的数据流；withLogs 为 true 时输出 zip
+ */
+export function createTaskExportStream(
+  backend: LocalBackendConfig,
+  tasks: CLITask[],
+  format: TaskExportFormat,
+  withLogs: boolean
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  if (!withLogs) {
+    const chunks = serializeTasks(tasks, format)
+    return new ReadableStream({
+      pull(controller) {
+        const next = chunks.next()
+        if (next.done) {
+          controller.close()
+        } else {
+          controller.enqueue(encoder.encode(next.value))
+        }
+      }
+    })
+  }
+
+  let zip: ZipWriter
+  let index = -1
+
+  return new ReadableStream({
+    start(controller) {
+      zip = new ZipWriter(chunk => controller.enqueue(chunk))
+    },
+    // 每次读取写入一个文件：先写任务数据，再逐个写日志，最后写中央目录
+    async pull(controller) {
+      if (index === -1) {
+        zip.addFile(`tasks.${TASK_EXPORT_FORMATS[format].extension}`, Array.from(serializeTasks(tasks, format)).join(''))
+      } else if (index < tasks.length) {
+        const task = tasks[index]
+        zip.addFile(`logs/${task.id}.log`, await loadTaskLogs(backend, task.id))
+      } else {
+        zip.finish()
+        controller.close()
+      }
+      index++
+    }
+  })
+}
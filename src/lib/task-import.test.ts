@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import { previewTaskImport, detectImportFormat, TaskImportError, TASK_IMPORT_MAX_ROWS } from '@/lib/task-import'
+import type { TaskTemplate } from '@/types'
+
+const templates: TaskTemplate[] = [{
+  id: 'tpl_review',
+  name: '代码审查',
+  description: '',
+  prompt_template: '审查 {{项目}} 的 {{分支}} 分支',
+  variables: ['项目', '分支'],
+  created_at: '2026-01-01T00:00:00Z',
+  usage_count: 0
+}]
+
+describe('detectImportFormat', () => {
+  it('按扩展名识别格式', () => {
+    expect(detectImportFormat('tasks.CSV')).toBe('csv')
+    expect(detectImportFormat('tasks.yml')).toBe('yaml')
+    expect(detectImportFormat('tasks.yaml')).toBe('yaml')
+    expect(detectImportFormat('tasks.json')).toBeNull()
+  })
+})
+
+describe('CSV 清单', () => {
+  it('解析带引号的逗号、转义引号和字段内换行', () => {
+    const csv = 'name,description,tags\r\n"构建, 测试","说明 ""重要""\n第二行",ci;build\r\n下一个,描述,\r\n'
+    const { rows } = previewTaskImport(csv, 'csv', [])
+
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toMatchObject({ line: 2, name: '构建, 测试', errors: [] })
+    expect(rows[0].args).toMatchObject({ description: '说明 "重要"\n第二行', tags: ['ci', 'build'] })
+    // 字段内换行之后的记录行号仍然正确
+    expect(rows[1]).toMatchObject({ line: 4, name: '下一个' })
+  })
+
+  it('去掉 BOM 并识别列名别名和变量列', () => {
+    const csv = '﻿Name,Task_Type,WorkingDir,env.API_Key,extra\na,b,lightweight,/srv,secret,x\n'
+      .replace('Name,', 'Name,Description,')
+    const { rows, ignoredColumns } = previewTaskImport(csv, 'csv', [])
+
+    expect(ignoredColumns).toEqual(['extra'])
+    expect(rows[0].errors).toEqual([])
+    expect(rows[0].args).toMatchObject({
+      name: 'a',
+      type: 'lightweight',
+      workingDir: '/srv',
+      environment: { API_Key: 'secret' }
+    })
+  })
+
+  it('渲染模版变量', () => {
+    const csv = 'name,template,var.项目,var.分支\n审查,代码审查,frontend,main\n审查,tpl_review,frontend,\n'
+    const { rows } = previewTaskImport(csv, 'csv', templates)
+
+    expect(rows[0].args).toMatchObject({ description: '审查 frontend 的 main 分支', templateId: 'tpl_review' })
+    expect(rows[1].errors).toEqual(['variables: 缺少模版变量 分支'])
+  })
+
+  it('单行的问题记录在该行，不影响其他行', () => {
+    const csv = 'name,description,auto_execute,working_dir\nok,描述,是,\n,描述,,\nbad,描述,maybe,relative\n'
+    const { rows } = previewTaskImport(csv, 'csv', [])
+
+    expect(rows[0]).toMatchObject({ errors: [], args: { autoExecute: true } })
+    expect(rows[1].errors).toEqual(['name: 不能为空'])
+    expect(rows[2].errors).toEqual(['auto_execute: 应为 true 或 false'])
+  })
+
+  it('文件格式错误时抛出 TaskImportError', () => {
+    expect(() => previewTaskImport('', 'csv', [])).toThrow('文件为空')
+    expect(() => previewTaskImport('title,description\na,b\n', 'csv', [])).toThrow('缺少 name 列')
+    expect(() => previewTaskImport('name,description\n"a,b\n', 'csv', [])).toThrow('第 2 行: 引号没有闭合')
+    expect(() => previewTaskImport('name\n\n\n', 'csv', [])).toThrow('没有找到任务')
+    expect(() => previewTaskImport(`name\n${'a\n'.repeat(TASK_IMPORT_MAX_ROWS + 1)}`, 'csv', []))
+      .toThrow(TaskImportError)
+  })
+})
+
+describe('YAML 清单', () => {
+  it('解析映射、列表、单行集合和多行文本', () => {
+    const yaml = [
+      '# 发布任务',
+      'tasks:',
+      '  - name: "构建: 前端"',
+      '    description: |',
+      '      第一行',
+      '      第二行',
+      '    tags: [ci, "release:v1"]',
+      '    environment: {NODE_ENV: production}',
+      '    auto_execute: false',
+      "  - name: 'it''s # 不是注释'",
+      '    description: >-',
+      '      折叠',
+      '      为一行',
+      '    working_dir: /srv/app  # 注释',
+    ].join('\n')
+    const { rows } = previewTaskImport(yaml, 'yaml', [])
+
+    expect(rows.map(row => row.errors)).toEqual([[], []])
+    expect(rows[0]).toMatchObject({ line: 3, name: '构建: 前端' })
+    expect(rows[0].args).toMatchObject({
+      // 标量字段会去掉首尾空白
+      description: '第一行\n第二行',
+      tags: ['ci', 'release:v1'],
+      environment: { NODE_ENV: 'production' },
+      autoExecute: false
+    })
+    expect(rows[1]).toMatchObject({ line: 10, name: "it's # 不是注释" })
+    expect(rows[1].args).toMatchObject({ description: '折叠 为一行', workingDir: '/srv/app' })
+  })
+
+  it('支持顶层列表、BOM 和 CRLF 换行', () => {
+    const { rows } = previewTaskImport('﻿- name: 42\r\n  description: b\r\n  auto_execute: yes\r\n', 'yaml', [])
+    expect(rows[0]).toMatchObject({ name: '42', args: { name: '42', description: 'b', autoExecute: true } })
+  })
+
+  it('报告未知字段和不是映射的任务项', () => {
+    const { rows } = previewTaskImport('- name: a\n  description: b\n  unknown: 1\n- just text\n', 'yaml', [])
+    expect(rows[0].errors).toEqual(['未知的字段: unknown'])
+    expect(rows[1].errors).toEqual(['任务项应为键值映射'])
+  })
+
+  it('格式错误时抛出带行号的 TaskImportError', () => {
+    expect(() => previewTaskImport('name: a\n', 'yaml', [])).toThrow('应为任务列表')
+    expect(() => previewTaskImport('- name: "a\n', 'yaml', [])).toThrow('第 1 行: 字符串没有闭合')
+    expect(() => previewTaskImport('- name: a\n\tdescription: b\n', 'yaml', [])).toThrow('第 2 行: 不能使用 Tab 缩进')
+    expect(() => previewTaskImport('- name: a\n  name: b\n', 'yaml', [])).toThrow('第 2 行: 重复的键: name')
+    expect(() => previewTaskImport('- name: a\n      description: b\n', 'yaml', [])).toThrow('第 2 行: 缩进不正确')
+    expect(() => previewTaskImport('- name: [a, b\n', 'yaml', [])).toThrow('列表没有闭合')
+    expect(() => previewTaskImport('- name: *ref\n', 'yaml', [])).toThrow('不支持的 YAML 语法')
+    expect(() => previewTaskImport('- name: a\n---\n- name: b\n', 'yaml', [])).toThrow('不支持多个文档')
+  })
+})
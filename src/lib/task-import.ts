@@ -0,0 +1,611 @@
+import { z } from 'zod'
+import { buildCommandArgv, CLICommandError, type CLICommandArgs } from '@/lib/cli-commands'
+import { extractVariables } from '@/services/task-templates'
+import type { TaskTemplate } from '@/types'
+
+/**
+ * 批量导入任务
+ *
+ * 从 CSV 或 YAML 清单读取任务，每行（每项）对应一次 task.create：
+ *   name, description, type, priority, auto_execute, working_dir, tags, environment,
+ *   template（模版 ID 或名称）, variables（模版变量）
+ * CSV 中环境变量和模版变量分别写成 env.<变量名> 和 var.<变量名> 列，标签用逗号或分号分隔。
+ * 只在浏览器中解析和校验，通过 CLIService 逐个提交。
+ */
+
+export class TaskImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TaskImportError'
+  }
+}
+
+export type TaskImportFormat = 'csv' | 'yaml'
+
+export const TASK_IMPORT_MAX_ROWS = 500
+
+export interface TaskImportRecord {
+  // 在文件中的起始行号，用于定位错误
+  line: number
+  fields: Record<string, unknown>
+}
+
+export interface TaskImportRow {
+  line: number
+  name: string
+  template?: string
+  // 校验通过时为提交给 task.create 的参数
+  args?: CLICommandArgs<'task.create'>
+  errors: string[]
+}
+
+export interface TaskImportPreview {
+  rows: TaskImportRow[]
+  // CSV 中无法识别、被忽略的列
+  ignoredColumns: string[]
+}
+
+// 字段别名，统一为清单中的字段名
+const FIELD_ALIASES: Record<string, string> = {
+  task_type: 'type',
+  workingdir: 'working_dir',
+  autoexecute: 'auto_execute',
+  env: 'environment',
+  template_id: 'template',
+  vars: 'variables'
+}
+
+const CSV_COLUMNS = ['name', 'description', 'type', 'priority', 'auto_execute', 'working_dir', 'tags', 'template']
+
+export function detectImportFormat(fileName: string): TaskImportFormat | null {
+  if (/\.csv$/i.test(fileName)) return 'csv'
+  if (/\.ya?ml$/i.test(fileName)) return 'yaml'
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/**
+ * 按 RFC 4180 拆分 CSV，返回每条记录的单元格和起始行号
+ */
+function parseCsvRows(text: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === ',') {
+      cells.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      cells.push(cell)
+      rows.push({ line: rowLine, cells })
+      cells = []
+      cell = ''
+      rowLine = ++line
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) {
+    throw new TaskImportError(`第 ${rowLine} 行: 引号没有闭合`)
+  }
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell)
+    rows.push({ line: rowLine, cells })
+  }
+
+  // 跳过空行
+  return rows.filter(row => row.cells.some(value => value.trim() !== ''))
+}
+
+function parseCsvManifest(text: string): { records: TaskImportRecord[]; ignoredColumns: string[] } {
+  const [header, ...rows] = parseCsvRows(text)
+  if (!header) {
+    throw new TaskImportError('文件为空')
+  }
+
+  const columns = header.cells.map(value => {
+    const column = value.trim()
+    const lower = column.toLowerCase()
+    // env.* 和 var.* 保留变量名的大小写
+    if (/^(env|var)\./.test(lower)) return `${lower.slice(0, 4)}${column.slice(4)}`
+    return FIELD_ALIASES[lower] ?? lower
+  })
+  if (!columns.includes('name')) {
+    throw new TaskImportError('缺少 name 列（第一行应为列名）')
+  }
+
+  const ignoredColumns = columns.filter(column =>
+    column && !CSV_COLUMNS.includes(column) && !/^(env|var)\.[^.]+$/.test(column)
+  )
+
+  const records = rows.map(({ line, cells }) => {
+    const fields: Record<string, unknown> = {}
+    const environment: Record<string, string> = {}
+    const variables: Record<string, string> = {}
+
+    columns.forEach((column, index) => {
+      const value = cells[index]?.trim() ?? ''
+      if (!value || ignoredColumns.includes(column)) return
+
+      if (column.startsWith('env.')) {
+        environment[column.slice(4)] = value
+      } else if (column.startsWith('var.')) {
+        variables[column.slice(4)] = value
+      } else if (column === 'tags') {
+        fields.tags = value.split(/[,;]/).map(tag => tag.trim()).filter(Boolean)
+      } else {
+        fields[column] = value
+      }
+    })
+
+    if (Object.keys(environment).length > 0) fields.environment = environment
+    if (Object.keys(variables).length > 0) fields.variables = variables
+    return { line, fields }
+  })
+
+  return { records, ignoredColumns }
+}
+
+// ---------------------------------------------------------------------------
+// YAML
+// ---------------------------------------------------------------------------
+
+/**
+ * 清单用到的 YAML 子集：缩进的映射和列表、"- key: value" 形式的列表项、
+ * 引号字符串、[a, b] 和 {a: b} 形式的单行集合、| 和 > 多行文本、# 注释。
+ * 不支持锚点、标签和多文档。
+ */
+
+interface YamlLine {
+  line: number
+  indent: number
+  text: string
+}
+
+function yamlError(line: number, message: string): TaskImportError {
+  return new TaskImportError(`第 ${line} 行: ${message}`)
+}
+
+// 去掉不在引号内的注释
+function stripComment(text: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      // 单引号字符串中 '' 表示一个单引号
+      if (char === "'" && quote === "'" && text[i + 1] === "'") i++
+      else if (char === quote && !(quote === '"' && text[i - 1] === '\\')) quote = null
+    } else if ((char === '"' || char === "'") && (i === 0 || /[\s[{,:]/.test(text[i - 1]))) {
+      // 只有位于值开头的引号才是字符串，it's 之类的单引号按普通字符处理
+      quote = char
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd()
+    }
+  }
+  return text.trimEnd()
+}
+
+// 按顶层逗号拆分单行集合的内容
+function splitFlowItems(text: string, line: number): string[] {
+  const items: string[] = []
+  let depth = 0
+  let quote: string | null = null
+  let start = 0
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === "'" && quote === "'" && text[i + 1] === "'") i++
+      else if (char === quote && !(quote === '"' && text[i - 1] === '\\')) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '[' || char === '{') {
+      depth++
+    } else if (char === ']' || char === '}') {
+      depth--
+    } else if (char === ',' && depth === 0) {
+      items.push(text.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+
+  if (quote || depth !== 0) {
+    throw yamlError(line, '集合没有闭合')
+  }
+  const last = text.slice(start).trim()
+  if (last) items.push(last)
+  return items
+}
+
+// 映射的键值对：键可以加引号，冒号后必须是空白或行尾
+const YAML_PAIR_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#\-[\]{}][^:#]*?|-[^\s:][^:#]*?)\s*:(?:\s+(.*))?$/
+
+function parseYamlScalar(text: string, line: number): unknown {
+  const value = text.trim()
+
+  if (value.startsWith('"')) {
+    if (!/^"(?:[^"\\]|\\.)*"$/.test(value)) throw yamlError(line, `字符串没有闭合: ${value}`)
+    try {
+      return JSON.parse(value)
+    } catch {
+      throw yamlError(line, `无效的字符串: ${value}`)
+    }
+  }
+  if (value.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(value)) throw yamlError(line, `字符串没有闭合: ${value}`)
+    return value.slice(1, -1).replace(/''/g, "'")
+  }
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) throw yamlError(line, '列表没有闭合')
+    return splitFlowItems(value.slice(1, -1), line).map(item => parseYamlScalar(item, line))
+  }
+  if (value.startsWith('{')) {
+    if (!value.endsWith('}')) throw yamlError(line, '映射没有闭合')
+    const result: Record<string, unknown> = {}
+    for (const item of splitFlowItems(value.slice(1, -1), line)) {
+      const match = item.match(YAML_PAIR_PATTERN)
+      if (!match) throw yamlError(line, `无效的映射项: ${item}`)
+      result[parseYamlKey(match[1], line)] = parseYamlScalar(match[2] ?? '', line)
+    }
+    return result
+  }
+  if (/^[&*!|>]/.test(value)) {
+    throw yamlError(line, `不支持的 YAML 语法: ${value}`)
+  }
+
+  if (value === '' || value === '~' || value === 'null') return null
+  if (value === 'true' || value === 'false') return value === 'true'
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value)
+  return value
+}
+
+function parseYamlKey(text: string, line: number): string {
+  const key = parseYamlScalar(text, line)
+  return key === null ? '' : String(key)
+}
+
+class YamlParser {
+  private position = 0
+  // 不含空行和注释行，多行文本从 raw 中读取
+  private readonly lines: YamlLine[]
+  // 映射的起始行号，用于在错误中定位任务
+  private readonly mappingLines = new WeakMap<object, number>()
+
+  constructor(private readonly raw: string[]) {
+    this.lines = raw.flatMap((text, index) => {
+      if (/^\s*\t/.test(text)) {
+        throw yamlError(index + 1, '不能使用 Tab 缩进')
+      }
+      const content = stripComment(text)
+      if (!content.trim()) return []
+      return [{ line: index + 1, indent: content.length - content.trimStart().length, text: content.trim() }]
+    })
+  }
+
+  lineOf(value: object): number | undefined {
+    return this.mappingLines.get(value)
+  }
+
+  parse(): unknown {
+    if (this.lines.length === 0) return null
+    if (this.lines[0].text === '---') this.position++
+    const value = this.parseBlock(this.lines[this.position]?.indent ?? 0)
+    const rest = this.lines[this.position]
+    if (rest) {
+      throw yamlError(rest.line, rest.text === '---' ? '不支持多个文档' : '缩进不正确')
+    }
+    return value
+  }
+
+  private parseBlock(indent: number): unknown {
+    const current = this.lines[this.position]
+    if (!current) return null
+    return /^-(\s|$)/.test(current.text) ? this.parseSequence(indent) : this.parseMapping(indent)
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = []
+
+    while (this.lines[this.position]?.indent === indent && /^-(\s|$)/.test(this.lines[this.position].text)) {
+      const current = this.lines[this.position]
+      const rest = current.text.slice(1).trimStart()
+
+      if (!rest) {
+        this.position++
+        const next = this.lines[this.position]
+        items.push(next && next.indent > indent ? this.parseBlock(next.indent) : null)
+      } else if (YAML_PAIR_PATTERN.test(rest)) {
+        // "- key: value"：把本行剩余部分当作缩进更深的映射的第一行
+        const itemIndent = indent + (current.text.length - rest.length)
+        this.lines[this.position] = { line: current.line, indent: itemIndent, text: rest }
+        items.push(this.parseMapping(itemIndent))
+      } else {
+        this.position++
+        items.push(parseYamlScalar(rest, current.line))
+      }
+    }
+
+    return items
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    if (this.lines[this.position]) {
+      this.mappingLines.set(result, this.lines[this.position].line)
+    }
+
+    while (this.lines[this.position]?.indent === indent) {
+      const current = this.lines[this.position]
+      const match = current.text.match(YAML_PAIR_PATTERN)
+      if (!match) {
+        throw yamlError(current.line, `无法解析: ${current.text}`)
+      }
+
+      const key = parseYamlKey(match[1], current.line)
+      const value = match[2] ?? ''
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw yamlError(current.line, `重复的键: ${key}`)
+      }
+      this.position++
+
+      if (/^[|>][+-]?$/.test(value)) {
+        result[key] = this.parseBlockScalar(current, value)
+      } else if (value) {
+        result[key] = parseYamlScalar(value, current.line)
+      } else {
+        const next = this.lines[this.position]
+        if (next && next.indent > indent) {
+          result[key] = this.parseBlock(next.indent)
+        } else if (next && next.indent === indent && /^-(\s|$)/.test(next.text)) {
+          // 列表可以与键对齐
+          result[key] = this.parseSequence(indent)
+        } else {
+          result[key] = null
+        }
+      }
+    }
+
+    const next = this.lines[this.position]
+    if (next && next.indent > indent) {
+      throw yamlError(next.line, '缩进不正确')
+    }
+    return result
+  }
+
+  // | 保留换行，> 把相邻行合并为一行；"-" 去掉末尾换行
+  private parseBlockScalar(header: YamlLine, indicator: string): string {
+    const body: string[] = []
+    let blockIndent: number | null = null
+    let rawIndex = header.line
+
+    for (; rawIndex < this.raw.length; rawIndex++) {
+      const text = this.raw[rawIndex]
+      if (!text.trim()) {
+        body.push('')
+        continue
+      }
+      const lineIndent = text.length - text.trimStart().length
+      if (lineIndent <= header.indent) break
+      blockIndent ??= lineIndent
+      if (lineIndent < blockIndent) {
+        throw yamlError(rawIndex + 1, '多行文本的缩进不正确')
+      }
+      body.push(text.slice(blockIndent))
+    }
+
+    // 跳过已读取的行
+    while (this.lines[this.position] && this.lines[this.position].line <= rawIndex) {
+      this.position++
+    }
+
+    while (body.length > 0 && body[body.length - 1] === '') body.pop()
+
+    const content = indicator.startsWith('>')
+      ? body.reduce((folded, text) => {
+        if (text === '') return `${folded}\n`
+        return !folded || folded.endsWith('\n') ? `${folded}${text}` : `${folded} ${text}`
+      }, '')
+      : body.join('\n')
+
+    return indicator.endsWith('-') || !content ? content : `${content}\n`
+  }
+}
+
+/**
+ * 解析 YAML 清单：顶层是任务列表，或者包含 tasks 列表的映射
+ */
+function parseYamlManifest(text: string): TaskImportRecord[] {
+  const parser = new YamlParser(text.split(/\r?\n/))
+  const document = parser.parse()
+
+  const tasks = Array.isArray(document)
+    ? document
+    : document && typeof document === 'object' && Array.isArray((document as Record<string, unknown>).tasks)
+      ? (document as Record<string, unknown>).tasks as unknown[]
+      : null
+  if (!tasks) {
+    throw new TaskImportError('YAML 清单应为任务列表，或包含 tasks 列表')
+  }
+
+  return tasks.map(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return { line: 0, fields: { __invalid: true } }
+    }
+
+    const fields: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(item)) {
+      // 空值视为未填写
+      if (value !== null) fields[FIELD_ALIASES[key.toLowerCase()] ?? key] = value
+    }
+    return { line: parser.lineOf(item) ?? 0, fields }
+  })
+}
+
+// ---------------------------------------------------------------------------
+// 校验
+// ---------------------------------------------------------------------------
+
+// 标量统一转为字符串，数字、布尔值在 YAML 中会被解析为对应类型
+const scalarString = z.union([z.string(), z.number(), z.boolean()]).transform(value => String(value).trim())
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true, yes: true, y: true, '1': true, '是': true,
+  false: false, no: false, n: false, '0': false, '否': false
+}
+
+const importRecordSchema = z.object({
+  name: z.union([z.string(), z.number(), z.boolean()], { error: issue => issue.input === undefined ? '不能为空' : '应为文本' })
+    .transform(value => String(value).trim())
+    .pipe(z.string().min(1, '不能为空')),
+  description: scalarString.optional(),
+  type: scalarString.optional(),
+  priority: scalarString.optional(),
+  auto_execute: z.preprocess(
+    value => typeof value === 'string' ? BOOLEAN_VALUES[value.trim().toLowerCase()] ?? value : value,
+    z.boolean({ error: '应为 true 或 false' })
+  ).optional(),
+  working_dir: scalarString.optional(),
+  tags: z.union([
+    z.array(scalarString),
+    scalarString.transform(value => value.split(/[,;]/).map(tag => tag.trim()).filter(Boolean))
+  ]).optional(),
+  environment: z.record(z.string(), scalarString).optional(),
+  template: scalarString.optional(),
+  variables: z.record(z.string(), scalarString).optional()
+}).strict()
+
+type ImportRecordFields = z.output<typeof importRecordSchema>
+
+const TEMPLATE_VARIABLE_PATTERN = /\{\{([^}]+)\}\}/g
+
+function findTemplate(templates: TaskTemplate[], reference: string): TaskTemplate | undefined {
+  return templates.find(template => template.id === reference) ?? templates.find(template => template.name === reference)
+}
+
+/**
+ * 生成任务描述：使用模版时渲染模版变量，否则使用 description
+ */
+function resolveDescription(fields: ImportRecordFields, templates: TaskTemplate[], errors: string[]): string {
+  if (!fields.template) {
+    if (fields.variables) errors.push('variables: 只能与 template 一起使用')
+    return fields.description ?? ''
+  }
+
+  const template = findTemplate(templates, fields.template)
+  if (!template) {
+    errors.push(`template: 模版不存在: ${fields.template}`)
+    return ''
+  }
+  if (fields.description) {
+    errors.push('description: 使用模版时不能同时填写描述')
+  }
+
+  const variables = fields.variables ?? {}
+  const missing = extractVariables(template.prompt_template).filter(name => !variables[name])
+  if (missing.length > 0) {
+    errors.push(`variables: 缺少模版变量 ${missing.join(', ')}`)
+  }
+
+  return template.prompt_template.replace(TEMPLATE_VARIABLE_PATTERN, (placeholder, name: string) => variables[name.trim()] ?? placeholder)
+}
+
+function validateRecord({ line, fields }: TaskImportRecord, templates: TaskTemplate[]): TaskImportRow {
+  const name = typeof fields.name === 'string' || typeof fields.name === 'number' ? String(fields.name) : ''
+  if (fields.__invalid) {
+    return { line, name, errors: ['任务项应为键值映射'] }
+  }
+
+  const parsed = importRecordSchema.safeParse(fields)
+  if (!parsed.success) {
+    return {
+      line,
+      name,
+      errors: parsed.error.issues.map(issue => {
+        if (issue.code === 'unrecognized_keys') return `未知的字段: ${issue.keys.join(', ')}`
+        return `${issue.path.join('.') || '任务'}: ${issue.message}`
+      })
+    }
+  }
+
+  const record = parsed.data
+  const errors: string[] = []
+  const description = resolveDescription(record, templates, errors)
+
+  const args = {
+    name: record.name,
+    description,
+    type: record.type,
+    priority: record.priority,
+    workingDir: record.working_dir || undefined,
+    environment: record.environment,
+    tags: record.tags,
+    autoExecute: record.auto_execute,
+    templateId: record.template ? findTemplate(templates, record.template)?.id : undefined
+  } as CLICommandArgs<'task.create'>
+
+  // 与服务端使用相同的 task.create 参数校验
+  if (errors.length === 0) {
+    try {
+      buildCommandArgv('task.create', args)
+    } catch (error) {
+      if (!(error instanceof CLICommandError)) throw error
+      errors.push(error.message)
+    }
+  }
+
+  return {
+    line,
+    name: record.name,
+    template: record.template,
+    args: errors.length === 0 ? args : undefined,
+    errors
+  }
+}
+
+/**
+ * 解析并校验清单，文件格式错误时抛出 TaskImportError，单行的问题记录在该行的 errors 中
+ */
+export function previewTaskImport(text: string, format: TaskImportFormat, templates: TaskTemplate[]): TaskImportPreview {
+  const content = text.replace(/^\uFEFF/, '')
+  const { records, ignoredColumns } = format === 'csv'
+    ? parseCsvManifest(content)
+    : { records: parseYamlManifest(content), ignoredColumns: [] }
+
+  if (records.length === 0) {
+    throw new TaskImportError('没有找到任务')
+  }
+  if (records.length > TASK_IMPORT_MAX_ROWS) {
+    throw new TaskImportError(`一次最多导入 ${TASK_IMPORT_MAX_ROWS} 个任务，当前有 ${records.length} 个`)
+  }
+
+  return {
+    rows: records.map(record => validateRecord(record, templates)),
+    ignoredColumns
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { compileTaskQuery, filterTasks, TaskQueryError } from '@/lib/task-query'
+import type { CLITask } from '@/services/cli-service'
+
+function task(id: string, overrides: Partial<CLITask> = {}): CLITask {
+  return {
+    id,
+    name: `任务 ${id}`,
+    task_state: 'pending',
+    priority: 'normal',
+    task_type: 'lightweight',
+    created_at: '2026-10-01T00:00:00Z',
+    retry_count: 0,
+    ...overrides
+  }
+}
+
+const NOW = Date.parse('2026-10-10T12:00:00Z')
+
+const tasks = [
+  task('a1', { task_state: 'failed', tags: ['Twitter', 'ci'], retry_count: 3, last_error: 'Connection timed out' }),
+  task('a2', { task_state: 'paused', priority: 'high', assigned_worker: 'worker-east-1', created_at: '2026-10-09T20:00:00Z' }),
+  task('b3', { task_state: 'completed', tags: ['ci'], description: '部署 前端', working_dir: '/srv/frontend', created_at: '2026-10-10T11:30:00Z' })
+]
+
+const ids = (query: string) => filterTasks(tasks, query, NOW).map(item => item.id)
+
+describe('filterTasks', () => {
+  it('空查询返回全部任务', () => {
+    expect(ids('   ')).toEqual(['a1', 'a2', 'b3'])
+  })
+
+  it('字段条件的多个取值表示“或”，不区分大小写', () => {
+    expect(ids('state:failed,paused')).toEqual(['a1', 'a2'])
+    expect(ids('STATE:FAILED')).toEqual(['a1'])
+    expect(ids('tag:twitter')).toEqual(['a1'])
+  })
+
+  it('多个条件全部满足才匹配，"-" 表示排除', () => {
+    expect(ids('tag:ci -state:completed')).toEqual(['a1'])
+    expect(ids('-tag:ci')).toEqual(['a2'])
+  })
+
+  it('部分匹配字段', () => {
+    expect(ids('worker:east')).toEqual(['a2'])
+    expect(ids('dir:frontend')).toEqual(['b3'])
+    expect(ids('id:a')).toEqual(['a1', 'a2'])
+  })
+
+  it('自由文本在名称、描述、错误信息和 ID 中查找，引号内保留空白', () => {
+    expect(ids('"timed out"')).toEqual(['a1'])
+    expect(ids('"部署 前端"')).toEqual(['b3'])
+    expect(ids('timed out')).toEqual(['a1'])
+    expect(ids('-"timed out"')).toEqual(['a2', 'b3'])
+  })
+
+  it('数字条件', () => {
+    expect(ids('retries:>=2')).toEqual(['a1'])
+    expect(ids('retries:0')).toEqual(['a2', 'b3'])
+    expect(ids('retries:<1')).toEqual(['a2', 'b3'])
+  })
+
+  it('日期按北京时间的整天比较', () => {
+    // 2026-10-09T20:00Z 是北京时间 10 月 10 日
+    expect(ids('created:2026-10-10')).toEqual(['a2', 'b3'])
+    expect(ids('created:>2026-10-09')).toEqual(['a2', 'b3'])
+    expect(ids('created:<=2026-10-01')).toEqual(['a1'])
+    expect(ids('created:<2026-10-10')).toEqual(['a1'])
+    expect(ids('created:>=2026-10-10T04:00')).toEqual(['a2', 'b3'])
+  })
+
+  it('相对时长按当前时间计算', () => {
+    expect(ids('created:>1h')).toEqual(['b3'])
+    expect(ids('created:>1d')).toEqual(['a2', 'b3'])
+    expect(ids('created:<1w')).toEqual(['a1'])
+    // 没有该时间的任务不匹配时间条件
+    expect(ids('completed:>1w')).toEqual([])
+  })
+})
+
+describe('compileTaskQuery', () => {
+  it('语法错误时抛出 TaskQueryError', () => {
+    expect(() => compileTaskQuery('owner:me')).toThrow(TaskQueryError)
+    expect(() => compileTaskQuery('owner:me')).toThrow('未知的字段: owner')
+    expect(() => compileTaskQuery('state:')).toThrow('条件缺少取值')
+    expect(() => compileTaskQuery('retries:>many')).toThrow('无法识别的数字')
+    expect(() => compileTaskQuery('created:>yesterday')).toThrow('无法识别的时间')
+  })
+})
@@ -0,0 +1,209 @@
+import type { CLITask } from '@/services/cli-service'
+
+/**
+ * 任务查询语言
+ *
+ * 以空格分隔的条件，全部满足才匹配：
+ *   state:failed          字段条件，逗号分隔多个取值表示“或”（state:failed,paused）
+ *   -tag:twitter          前面加 "-" 表示排除
+ *   created:>2026-10-01   时间条件，支持 > >= < <=，日期按北京时间计算；7d / 24h / 30m 表示距今的时长
+ *   retries:>=2           数字条件
+ *   "error text"          其他内容（可以加引号包含空格）在名称、描述、错误信息和 ID 中查找
+ * 服务端和前端共用，服务端按它过滤快照中的任务。
+ */
+
+export class TaskQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TaskQueryError'
+  }
+}
+
+type TaskPredicate = (task: CLITask, now: number) => boolean
+
+interface TaskQueryFieldDefinition {
+  description: string
+  compile: (value: string) => TaskPredicate
+}
+
+// 日期按北京时间解析，与页面上显示的时间一致
+const BEIJING_OFFSET = '+08:00'
+const DAY_MS = 24 * 60 * 60 * 1000
+const DURATION_UNITS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: DAY_MS, w: 7 * DAY_MS }
+
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=)?(.*)$/
+
+function splitValues(value: string): string[] {
+  const values = value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean)
+  if (values.length === 0) {
+    throw new TaskQueryError('条件缺少取值')
+  }
+  return values
+}
+
+function oneOf(get: (task: CLITask) => string | undefined): (value: string) => TaskPredicate {
+  return value => {
+    const values = splitValues(value)
+    return task => values.includes((get(task) ?? '').toLowerCase())
+  }
+}
+
+function contains(get: (task: CLITask) => string | undefined): (value: string) => TaskPredicate {
+  return value => {
+    const values = splitValues(value)
+    return task => {
+      const field = (get(task) ?? '').toLowerCase()
+      return !!field && values.some(item => field.includes(item))
+    }
+  }
+}
+
+/**
+ * 把时间取值解析为区间 [start, end)：日期表示一整天，时间点和相对时长表示一个时刻
+ */
+function parseTimeRange(value: string, now: number): { start: number; end: number } {
+  const duration = value.match(/^(\d+)([mhdw])$/)
+  if (duration) {
+    const at = now - parseInt(duration[1], 10) * DURATION_UNITS[duration[2]]
+    return { start: at, end: at }
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const start = Date.parse(`${value}T00:00:00${BEIJING_OFFSET}`)
+    if (!Number.isNaN(start)) return { start, end: start + DAY_MS }
+  } else {
+    const at = Date.parse(/([zZ]|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value}${BEIJING_OFFSET}`)
+    if (!Number.isNaN(at)) return { start: at, end: at }
+  }
+
+  throw new TaskQueryError(`无法识别的时间: ${value}（例如 2026-10-01、2026-10-01T08:00 或 7d）`)
+}
+
+function timeCondition(get: (task: CLITask) => string | undefined): (value: string) => TaskPredicate {
+  return value => {
+    const [, comparator = '=', operand] = value.match(COMPARATOR_PATTERN)!
+    // 先校验一次，相对时长在匹配时按当前时间重新计算
+    parseTimeRange(operand, Date.now())
+
+    return (task, now) => {
+      const field = get(task)
+      if (!field) return false
+      const time = Date.parse(field)
+      const { start, end } = parseTimeRange(operand, now)
+
+      // 日期区间按整天比较：>2026-10-01 从次日开始，<=2026-10-01 包含当天
+      switch (comparator) {
+        case '>': return time >= end && time > start
+        case '>=': return time >= start
+        case '<': return time < start
+        case '<=': return time < end || time <= start
+        default: return time === start || (time >= start && time < end)
+      }
+    }
+  }
+}
+
+function numberCondition(get: (task: CLITask) => number): (value: string) => TaskPredicate {
+  return value => {
+    const [, comparator = '=', operand] = value.match(COMPARATOR_PATTERN)!
+    const expected = Number(operand)
+    if (operand === '' || !Number.isFinite(expected)) {
+      throw new TaskQueryError(`无法识别的数字: ${operand}`)
+    }
+
+    return task => {
+      const actual = get(task)
+      switch (comparator) {
+        case '>': return actual > expected
+        case '>=': return actual >= expected
+        case '<': return actual < expected
+        case '<=': return actual <= expected
+        default: return actual === expected
+      }
+    }
+  }
+}
+
+export const TASK_QUERY_FIELDS: Record<string, TaskQueryFieldDefinition> = {
+  state: { description: '任务状态，例如 state:failed,paused', compile: oneOf(task => task.task_state) },
+  priority: { description: '优先级：low / normal / high / urgent', compile: oneOf(task => task.priority) },
+  type: { description: '任务类型：lightweight / medium_context / heavy_context', compile: oneOf(task => task.task_type) },
+  tag: {
+    description: '包含指定标签',
+    compile: value => {
+      const values = splitValues(value)
+      return task => (task.tags ?? []).some(tag => values.includes(tag.toLowerCase()))
+    }
+  },
+  worker: { description: '分配的工作器（部分匹配）', compile: contains(task => task.assigned_worker) },
+  id: { description: '任务 ID（部分匹配）', compile: contains(task => task.id) },
+  name: { description: '任务名称（部分匹配）', compile: contains(task => task.name) },
+  dir: { description: '工作目录（部分匹配）', compile: contains(task => task.working_dir) },
+  created: { description: '创建时间，例如 created:>2026-10-01 或 created:>7d', compile: timeCondition(task => task.created_at) },
+  started: { description: '开始时间', compile: timeCondition(task => task.started_at) },
+  completed: { description: '结束时间', compile: timeCondition(task => task.completed_at) },
+  retries: { description: '重试次数，例如 retries:>=2', compile: numberCondition(task => task.retry_count) }
+}
+
+interface TaskQueryToken {
+  negate: boolean
+  field?: string
+  value: string
+}
+
+/**
+ * 拆分查询：按空白分隔，双引号内的空白保留
+ */
+function tokenize(input: string): TaskQueryToken[] {
+  const tokens: TaskQueryToken[] = []
+  // 取值可以为空，"state:" 这样的条件交给字段报错，而不是当作普通文本查找
+  const pattern = /(-?)(?:([A-Za-z_]+):)?(?:"([^"]*)"?|(\S+))?/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(input)) !== null) {
+    if (match[0] === '') {
+      pattern.lastIndex++
+      continue
+    }
+    const [, negate, field, quoted, bare] = match
+    const value = quoted ?? bare ?? ''
+    if (field || value) {
+      tokens.push({ negate: negate === '-', field: field?.toLowerCase(), value })
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * 把查询编译为任务过滤函数，语法错误时抛出 TaskQueryError
+ */
+export function compileTaskQuery(input: string): (task: CLITask, now?: number) => boolean {
+  const predicates: TaskPredicate[] = tokenize(input).map(({ negate, field, value }) => {
+    let predicate: TaskPredicate
+    if (field) {
+      const definition = TASK_QUERY_FIELDS[field]
+      if (!definition) {
+        throw new TaskQueryError(`未知的字段: ${field}（可用字段: ${Object.keys(TASK_QUERY_FIELDS).join(', ')}）`)
+      }
+      predicate = definition.compile(value)
+    } else {
+      const text = value.toLowerCase()
+      predicate = task => [task.name, task.description, task.last_error, task.confirmation_prompt, task.id]
+        .some(item => item?.toLowerCase().includes(text))
+    }
+
+    return negate ? (task, now) => !predicate(task, now) : predicate
+  })
+
+  return (task, now = Date.now()) => predicates.every(predicate => predicate(task, now))
+}
+
+/**
+ * 按查询过滤任务，空查询返回全部任务
+ */
+export function filterTasks(tasks: CLITask[], input: string, now: number = Date.now()): CLITask[] {
+  if (!input.trim()) return tasks
+  const matches = compileTaskQuery(input)
+  return tasks.filter(task => matches(task, now))
+}
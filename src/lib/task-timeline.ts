@@ -0,0 +1,180 @@
+import { isRateLimitError, summarizeRateLimits, type RateLimitWindow } from '@/lib/rate-limit'
+import type { CLITask } from '@/services/cli-service'
+
+/**
+ * 任务执行时间线
+ *
+ * 按 assigned_worker 分泳道，每个任务画成 started_at 到结束时间的一段。
+ * 任务数据只记录最近一次执行，重试过的任务只显示最后一次；
+ * 被限流的任务从限流时间到解封时间画成等待段。
+ */
+
+export interface TimelineBar {
+  task: CLITask
+  start: number
+  end: number
+  // 仍在执行，结束时间是当前时间
+  running: boolean
+}
+
+export interface TimelineSpan {
+  start: number
+  end: number
+}
+
+export interface TimelineWait extends TimelineSpan {
+  task_id: string
+  // 没有解封时间，按平均限流时长估算
+  estimated: boolean
+}
+
+export interface TimelineLane {
+  worker: string
+  bars: TimelineBar[]
+  waits: TimelineWait[]
+  // 超过 IDLE_GAP_MS 没有执行任务的空闲时段
+  idle: TimelineSpan[]
+}
+
+export interface Timeline {
+  lanes: TimelineLane[]
+  windows: RateLimitWindow[]
+  start?: number
+  end: number
+  // 开始执行过但无法确定结束时间的任务（例如暂停或等待审核）
+  skipped: number
+}
+
+export const UNASSIGNED_LANE = '未分配'
+
+// 两个任务之间间隔超过这个时长才算空闲
+export const IDLE_GAP_MS = 5 * 60 * 1000
+
+function toTime(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? undefined : time
+}
+
+function rateLimitHits(task: CLITask): number[] {
+  return (task.error_history ?? [])
+    .filter(isRateLimitError)
+    .map(entry => toTime(entry.timestamp))
+    .filter((at): at is number => at !== undefined)
+    .sort((a, b) => a - b)
+}
+
+/**
+ * 最近一次执行的结束时间：已结束的任务用 completed_at，正在等待解封的任务用最后一次限流时间
+ */
+function executionEnd(task: CLITask, start: number, now: number): { end: number; running: boolean } | null {
+  if (task.task_state === 'processing') {
+    return { end: Math.max(start, now), running: true }
+  }
+
+  const completedAt = toTime(task.completed_at)
+  if (completedAt !== undefined && completedAt >= start) {
+    return { end: completedAt, running: false }
+  }
+
+  if (task.task_state === 'waiting_unban') {
+    const lastHit = rateLimitHits(task).filter(at => at >= start).pop()
+    if (lastHit !== undefined) return { end: lastHit, running: false }
+  }
+
+  return null
+}
+
+/**
+ * 任务的等待解封时段：正在等待的任务到 next_allowed_at 结束，之后又开始执行的到开始时间结束，其余按平均时长估算
+ */
+function waitingSpans(task: CLITask, start: number | undefined, unbanDuration: number | undefined): TimelineWait[] {
+  const hits = rateLimitHits(task)
+  const nextAllowed = toTime(task.next_allowed_at)
+
+  return hits.flatMap((hit, index): TimelineWait[] => {
+    const isLast = index === hits.length - 1
+    if (isLast && task.task_state === 'waiting_unban' && nextAllowed !== undefined && nextAllowed > hit) {
+      return [{ task_id: task.id, start: hit, end: nextAllowed, estimated: false }]
+    }
+    if (isLast && start !== undefined && start > hit) {
+      return [{ task_id: task.id, start: hit, end: start, estimated: false }]
+    }
+    if (unbanDuration !== undefined) {
+      return [{ task_id: task.id, start: hit, end: hit + unbanDuration, estimated: true }]
+    }
+    return []
+  })
+}
+
+function idleSpans(bars: TimelineBar[], end: number): TimelineSpan[] {
+  const idle: TimelineSpan[] = []
+  let busyUntil: number | undefined
+
+  for (const bar of [...bars].sort((a, b) => a.start - b.start)) {
+    if (busyUntil !== undefined && bar.start - busyUntil >= IDLE_GAP_MS) {
+      idle.push({ start: busyUntil, end: bar.start })
+    }
+    busyUntil = Math.max(busyUntil ?? bar.end, bar.end)
+  }
+
+  // 最后一个任务结束后一直没有新任务
+  if (busyUntil !== undefined && end - busyUntil >= IDLE_GAP_MS) {
+    idle.push({ start: busyUntil, end })
+  }
+
+  return idle
+}
+
+export function buildTimeline(tasks: CLITask[], now: number = Date.now()): Timeline {
+  const { windows, unban_duration_ms: unbanDuration } = summarizeRateLimits(tasks, now)
+  const lanes = new Map<string, TimelineLane>()
+  let skipped = 0
+
+  const laneOf = (worker: string | undefined) => {
+    const key = worker || UNASSIGNED_LANE
+    let lane = lanes.get(key)
+    if (!lane) {
+      lane = { worker: key, bars: [], waits: [], idle: [] }
+      lanes.set(key, lane)
+    }
+    return lane
+  }
+
+  for (const task of tasks) {
+    const start = toTime(task.started_at)
+    const waits = waitingSpans(task, start, unbanDuration)
+
+    if (start !== undefined) {
+      const execution = executionEnd(task, start, now)
+      if (execution) {
+        laneOf(task.assigned_worker).bars.push({ task, start, ...execution })
+      } else {
+        skipped++
+      }
+    }
+
+    if (waits.length > 0) {
+      laneOf(task.assigned_worker).waits.push(...waits)
+    }
+  }
+
+  const spans = Array.from(lanes.values()).flatMap(lane => [...lane.bars, ...lane.waits])
+  const end = Math.max(now, ...spans.map(span => span.end))
+
+  for (const lane of lanes.values()) {
+    lane.bars.sort((a, b) => a.start - b.start)
+    lane.idle = idleSpans(lane.bars, Math.min(end, now))
+  }
+
+  return {
+    // 工作器按名称排序，未分配的任务放在最后
+    lanes: Array.from(lanes.values()).sort((a, b) =>
+      a.worker === UNASSIGNED_LANE ? 1 : b.worker === UNASSIGNED_LANE ? -1 : a.worker.localeCompare(b.worker)
+    ),
+    windows,
+    start: spans.length > 0 ? Math.min(...spans.map(span => span.start)) : undefined,
+    end,
+    skipped
+  }
+}
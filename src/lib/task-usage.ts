@@ -0,0 +1,99 @@
+import { extractJsonValue } from '@/lib/json-extract'
+
+/**
+ * 任务的 token 用量和费用
+ *
+ * 任务命令使用 claude -p --output-format json，执行结束时输出一条 type 为 result 的 JSON，
+ * 其中包含 usage、total_cost_usd 和 num_turns。这里从任务日志中找出所有结果并累加，
+ * 重试过的任务每次执行都会产生费用。前端和服务端共用。
+ */
+
+export interface TaskUsage {
+  input_tokens: number
+  output_tokens: number
+  cache_creation_input_tokens: number
+  cache_read_input_tokens: number
+  total_cost_usd: number
+  num_turns: number
+  // 日志中结果的数量，即执行次数
+  runs: number
+}
+
+export const EMPTY_TASK_USAGE: TaskUsage = {
+  input_tokens: 0,
+  output_tokens: 0,
+  cache_creation_input_tokens: 0,
+  cache_read_input_tokens: 0,
+  total_cost_usd: 0,
+  num_turns: 0,
+  runs: 0
+}
+
+const RESULT_START_PATTERN = /\{\s*"type"\s*:\s*"result"/g
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0
+}
+
+export function addTaskUsage(total: TaskUsage, usage: TaskUsage): TaskUsage {
+  return {
+    input_tokens: total.input_tokens + usage.input_tokens,
+    output_tokens: total.output_tokens + usage.output_tokens,
+    cache_creation_input_tokens: total.cache_creation_input_tokens + usage.cache_creation_input_tokens,
+    cache_read_input_tokens: total.cache_read_input_tokens + usage.cache_read_input_tokens,
+    total_cost_usd: total.total_cost_usd + usage.total_cost_usd,
+    num_turns: total.num_turns + usage.num_turns,
+    runs: total.runs + usage.runs
+  }
+}
+
+/**
+ * 解析日志中的 claude 执行结果，没有找到结果时返回 null
+ */
+export function parseTaskUsage(logs: string | string[]): TaskUsage | null {
+  const text = Array.isArray(logs) ? logs.join('\n') : logs
+  let total: TaskUsage | null = null
+
+  for (const match of text.matchAll(RESULT_START_PATTERN)) {
+    const json = extractJsonValue(text, match.index)
+    if (!json) continue
+
+    let result: Record<string, unknown>
+    try {
+      result = JSON.parse(json)
+    } catch {
+      continue
+    }
+
+    const usage = (result.usage && typeof result.usage === 'object' ? result.usage : {}) as Record<string, unknown>
+    total = addTaskUsage(total ?? EMPTY_TASK_USAGE, {
+      input_tokens: toNumber(usage.input_tokens),
+      output_tokens: toNumber(usage.output_tokens),
+      cache_creation_input_tokens: toNumber(usage.cache_creation_input_tokens),
+      cache_read_input_tokens: toNumber(usage.cache_read_input_tokens),
+      total_cost_usd: toNumber(result.total_cost_usd ?? result.cost_usd),
+      num_turns: toNumber(result.num_turns),
+      runs: 1
+    })
+  }
+
+  return total
+}
+
+/**
+ * 缓存命中率：缓存读取占全部输入 token 的比例
+ */
+export function getCacheHitRate(usage: TaskUsage): number {
+  const input = usage.input_tokens + usage.cache_creation_input_tokens + usage.cache_read_input_tokens
+  return input > 0 ? usage.cache_read_input_tokens / input : 0
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(2)}M`
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`
+  return String(tokens)
+}
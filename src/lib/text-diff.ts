@@ -0,0 +1,138 @@
+/**
+ * 按行比较文本（Myers 差分算法）
+ *
+ * 先去掉相同的开头和结尾，再计算最短编辑路径；差异过大时不再计算，
+ * 直接把两段内容作为整体替换返回，避免大量日志卡住页面。
+ */
+
+export type DiffLineType = 'equal' | 'added' | 'removed'
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+  // 在左侧（a）和右侧（b）中的行号，从 1 开始
+  a?: number
+  b?: number
+}
+
+export interface TextDiff {
+  lines: DiffLine[]
+  added: number
+  removed: number
+  // 差异超过上限，结果是整体替换而不是逐行比较
+  approximate: boolean
+}
+
+export interface DiffOptions {
+  // 比较前对每一行做的处理，例如去掉时间戳；显示时仍使用原始内容
+  normalize?: (line: string) => string
+  // 最多计算的编辑次数
+  maxEdits?: number
+}
+
+const DEFAULT_MAX_EDITS = 2000
+
+/**
+ * 计算中间部分的最短编辑路径，返回 null 表示超过上限
+ */
+function myers(a: string[], b: string[], maxEdits: number): Array<{ type: DiffLineType; a: number; b: number }> | null {
+  const n = a.length
+  const m = b.length
+  const offset = n + m + 1
+  const v = new Int32Array(2 * offset + 1)
+  // 每一步之后 v 在 [-d, d] 范围内的值，用于回溯
+  const trace: Int32Array[] = []
+  let edits = -1
+
+  for (let d = 0; d <= Math.min(n + m, maxEdits); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        edits = d
+        break
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1))
+    if (edits >= 0) break
+  }
+
+  if (edits < 0) return null
+
+  const steps: Array<{ type: DiffLineType; a: number; b: number }> = []
+  let x = n
+  let y = m
+
+  for (let d = edits; d > 0; d--) {
+    const previous = trace[d - 1]
+    const get = (k: number) => previous[k + d - 1]
+    const k = x - y
+    const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1
+    const prevX = get(prevK)
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      steps.push({ type: 'equal', a: --x, b: --y })
+    }
+    if (x === prevX) {
+      steps.push({ type: 'added', a: x, b: --y })
+    } else {
+      steps.push({ type: 'removed', a: --x, b: y })
+    }
+  }
+  while (x > 0 && y > 0) {
+    steps.push({ type: 'equal', a: --x, b: --y })
+  }
+
+  return steps.reverse()
+}
+
+export function diffLines(a: string[], b: string[], options: DiffOptions = {}): TextDiff {
+  const normalize = options.normalize ?? (line => line)
+  const keysA = a.map(normalize)
+  const keysB = b.map(normalize)
+
+  let start = 0
+  while (start < a.length && start < b.length && keysA[start] === keysB[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && keysA[endA - 1] === keysB[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const lines: DiffLine[] = []
+  for (let i = 0; i < start; i++) {
+    lines.push({ type: 'equal', text: b[i], a: i + 1, b: i + 1 })
+  }
+
+  const steps = myers(keysA.slice(start, endA), keysB.slice(start, endB), options.maxEdits ?? DEFAULT_MAX_EDITS)
+  if (steps) {
+    for (const step of steps) {
+      const indexA = start + step.a
+      const indexB = start + step.b
+      if (step.type === 'equal') lines.push({ type: 'equal', text: b[indexB], a: indexA + 1, b: indexB + 1 })
+      if (step.type === 'removed') lines.push({ type: 'removed', text: a[indexA], a: indexA + 1 })
+      if (step.type === 'added') lines.push({ type: 'added', text: b[indexB], b: indexB + 1 })
+    }
+  } else {
+    for (let i = start; i < endA; i++) lines.push({ type: 'removed', text: a[i], a: i + 1 })
+    for (let i = start; i < endB; i++) lines.push({ type: 'added', text: b[i], b: i + 1 })
+  }
+
+  for (let i = 0; i < a.length - endA; i++) {
+    lines.push({ type: 'equal', text: b[endB + i], a: endA + i + 1, b: endB + i + 1 })
+  }
+
+  return {
+    lines,
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length,
+    approximate: steps === null
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { parseTranscript, getFinalResult, parseMcpToolName, describeToolCall, getToolEdits } from '@/lib/transcript'
+
+const init = (session: string) => ({ type: 'system', subtype: 'init', session_id: session, model: 'claude-test', cwd: '/srv' })
+const text = (value: string) => ({ type: 'assistant', message: { content: [{ type: 'text', text: value }] } })
+const toolUse = (id: string, name: string, input: Record<string, unknown>) =>
+  ({ type: 'assistant', message: { content: [{ type: 'tool_use', id, name, input }] } })
+const toolResult = (id: string, content: unknown, isError = false) =>
+  ({ type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: id, content, is_error: isError }] } })
+const result = (value: string, extra: Record<string, unknown> = {}) =>
+  ({ type: 'result', subtype: 'success', is_error: false, result: value, num_turns: 2, total_cost_usd: 0.01, ...extra })
+
+describe('parseTranscript', () => {
+  it('解析 --verbose 输出的 JSON 数组，并把工具结果关联到调用', () => {
+    const logs = [
+      '[2026-10-01 08:00:00] 开始执行',
+      JSON.stringify([
+        init('s1'),
+        { type: 'user', message: { content: '修复构建' } },
+        { type: 'assistant', message: { content: [{ type: 'thinking', thinking: '先看日志' }] } },
+        toolUse('t1', 'Bash', { command: 'npm run build', description: '运行构建' }),
+        toolResult('t1', [{ type: 'text', text: 'ok' }, { type: 'image' }]),
+        text('已修复'),
+        result('构建通过')
+      ])
+    ]
+    const [run] = parseTranscript(logs)
+
+    expect(run).toMatchObject({ session_id: 's1', model: 'claude-test', cwd: '/srv' })
+    expect(run.entries).toEqual([
+      { kind: 'prompt', text: '修复构建' },
+      { kind: 'thinking', text: '先看日志' },
+      {
+        kind: 'tool',
+        id: 't1',
+        name: 'Bash',
+        input: { command: 'npm run build', description: '运行构建' },
+        result: { content: 'ok\n[image]', is_error: false }
+      },
+      { kind: 'text', text: '已修复' }
+    ])
+    expect(run.result).toMatchObject({ result: '构建通过', num_turns: 2, total_cost_usd: 0.01, is_error: false })
+  })
+
+  it('stream-json 每行一个事件，重试产生多次执行', () => {
+    const logs = [init('s1'), text('第一次'), result('失败', { is_error: true, subtype: 'error_during_execution' }), init('s2'), text('第二次'), result('成功')]
+      .map(event => `[worker] ${JSON.stringify(event)}`)
+    const runs = parseTranscript(logs.join('\n'))
+
+    expect(runs.map(run => run.session_id)).toEqual(['s1', 's2'])
+    expect(runs[0].result).toMatchObject({ is_error: true, subtype: 'error_during_execution' })
+    expect(runs[1].entries).toEqual([{ kind: 'text', text: '第二次' }])
+  })
+
+  it('没有 --verbose 时只有 result，兼容旧的 cost_usd 字段', () => {
+    const [run] = parseTranscript(`输出:\n${JSON.stringify({ type: 'result', result: '完成', cost_usd: 0.5 })}\n退出码 0`)
+    expect(run.entries).toEqual([])
+    expect(run.result).toMatchObject({ subtype: 'success', result: '完成', total_cost_usd: 0.5 })
+  })
+
+  it('忽略无效的 JSON 和普通日志', () => {
+    expect(parseTranscript('{"type":"assistant", 截断\n普通日志')).toEqual([])
+    expect(parseTranscript('')).toEqual([])
+  })
+})
+
+describe('getFinalResult', () => {
+  it('返回最后一次执行的结果', () => {
+    const logs = [init('s1'), result('第一次'), init('s2'), result('第二次'), init('s3'), text('执行中')]
+      .map(event => JSON.stringify(event))
+    expect(getFinalResult(logs)).toBe('第二次')
+  })
+
+  it('没有 result 事件时返回 undefined', () => {
+    expect(getFinalResult(['只有普通日志', JSON.stringify(text('未结束'))])).toBeUndefined()
+  })
+})
+
+describe('工具调用', () => {
+  it('识别 MCP 工具名', () => {
+    expect(parseMcpToolName('mcp__github__create_issue')).toEqual({ server: 'github', tool: 'create_issue' })
+    expect(parseMcpToolName('Bash')).toBeNull()
+  })
+
+  it('生成工具调用的简要说明', () => {
+    expect(describeToolCall('Edit', { file_path: '/srv/a.ts' })).toBe('/srv/a.ts')
+    expect(describeToolCall('Bash', { command: 'ls\npwd' })).toBe('ls')
+    expect(describeToolCall('Grep', { pattern: 'TODO', path: 'src' })).toBe('TODO · src')
+    expect(describeToolCall('TodoWrite', { todos: [{}, {}] })).toBe('2 项')
+    expect(describeToolCall('mcp__db__query', { limit: 1, sql: 'select 1\nfrom t' })).toBe('select 1')
+  })
+
+  it('取出修改文件的编辑内容', () => {
+    expect(getToolEdits('Edit', { old_string: 'a', new_string: 'b' })).toEqual([{ old_string: 'a', new_string: 'b' }])
+    expect(getToolEdits('MultiEdit', { edits: [{ old_string: 'a', new_string: 'b' }, { old_string: 'c' }] }))
+      .toEqual([{ old_string: 'a', new_string: 'b' }])
+    expect(getToolEdits('Write', { content: 'new' })).toEqual([{ old_string: '', new_string: 'new' }])
+    expect(getToolEdits('Read', { file_path: '/srv/a.ts' })).toBeNull()
+  })
+})
@@ -0,0 +1,254 @@
+import { extractJsonValue } from '@/lib/json-extract'
+
+/**
+ * Claude 执行记录解析
+ *
+ * 任务命令使用 claude -p --verbose --output-format json，执行结束时输出全部事件组成的 JSON 数组；
+ * stream-json 格式每行一个事件，不带 --verbose 时只有最后的 result。三种格式都从日志中逐个找出事件，
+ * 以 system/init 开始、result 结束划分每次执行，重试过的任务有多次执行。
+ */
+
+export interface TranscriptToolResult {
+  content: string
+  is_error: boolean
+}
+
+export type TranscriptEntry =
+  | { kind: 'text'; text: string }
+  | { kind: 'thinking'; text: string }
+  // 发给 claude 的提示词（stream-json 输入或子任务）
+  | { kind: 'prompt'; text: string }
+  | { kind: 'tool'; id: string; name: string; input: Record<string, unknown>; result?: TranscriptToolResult }
+
+export interface TranscriptResult {
+  subtype: string
+  is_error: boolean
+  result: string
+  num_turns?: number
+  duration_ms?: number
+  total_cost_usd?: number
+}
+
+export interface TranscriptRun {
+  session_id?: string
+  model?: string
+  cwd?: string
+  entries: TranscriptEntry[]
+  result?: TranscriptResult
+}
+
+export interface ToolEdit {
+  old_string: string
+  new_string: string
+}
+
+const EVENT_START_PATTERN = /(?:\[\s*)?\{\s*"type"\s*:\s*"(?:system|assistant|user|result)"/g
+
+type TranscriptEvent = Record<string, unknown>
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * 找出日志中的全部事件；JSON 数组中的事件按顺序展开
+ */
+function extractEvents(text: string): TranscriptEvent[] {
+  const events: TranscriptEvent[] = []
+  const pattern = new RegExp(EVENT_START_PATTERN)
+
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const json = extractJsonValue(text, match.index)
+    if (!json) continue
+
+    let value: unknown
+    try {
+      value = JSON.parse(json)
+    } catch {
+      continue
+    }
+
+    events.push(...(Array.isArray(value) ? value : [value]).filter(isRecord))
+    // 跳过已解析的部分，数组中的事件不再重复匹配
+    pattern.lastIndex = match.index + json.length
+  }
+
+  return events
+}
+
+/**
+ * 工具结果可以是字符串或内容块数组
+ */
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return ''
+  return content
+    .filter(isRecord)
+    .map(block => block.type === 'text' ? optionalString(block.text) ?? '' : `[${String(block.type)}]`)
+    .join('\n')
+}
+
+export function parseTranscript(logs: string | string[]): TranscriptRun[] {
+  const text = Array.isArray(logs) ? logs.join('\n') : logs
+  const runs: TranscriptRun[] = []
+  const tools = new Map<string, Extract<TranscriptEntry, { kind: 'tool' }>>()
+  let current: TranscriptRun | undefined
+
+  const currentRun = () => {
+    if (!current) {
+      current = { entries: [] }
+      runs.push(current)
+    }
+    return current
+  }
+
+  for (const event of extractEvents(text)) {
+    const message = isRecord(event.message) ? event.message : undefined
+    const content = message?.content
+
+    switch (event.type) {
+      case 'system':
+        if (event.subtype !== 'init') break
+        if (current && (current.entries.length > 0 || current.result)) current = undefined
+        Object.assign(currentRun(), {
+          session_id: optionalString(event.session_id),
+          model: optionalString(event.model),
+          cwd: optionalString(event.cwd)
+        })
+        break
+
+      case 'assistant':
+        if (!Array.isArray(content)) break
+        for (const block of content.filter(isRecord)) {
+          if (block.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+            currentRun().entries.push({ kind: 'text', text: block.text })
+          } else if (block.type === 'thinking' && typeof block.thinking === 'string') {
+            currentRun().entries.push({ kind: 'thinking', text: block.thinking })
+          } else if (block.type === 'tool_use') {
+            const entry = {
+              kind: 'tool' as const,
+              id: String(block.id ?? ''),
+              name: String(block.name ?? 'unknown'),
+              input: isRecord(block.input) ? block.input : {}
+            }
+            tools.set(entry.id, entry)
+            currentRun().entries.push(entry)
+          }
+        }
+        break
+
+      case 'user':
+        if (typeof content === 'string') {
+          currentRun().entries.push({ kind: 'prompt', text: content })
+          break
+        }
+        if (!Array.isArray(content)) break
+        for (const block of content.filter(isRecord)) {
+          if (block.type === 'tool_result') {
+            const tool = tools.get(String(block.tool_use_id ?? ''))
+            if (tool) {
+              tool.result = { content: toolResultText(block.content), is_error: block.is_error === true }
+            }
+          } else if (block.type === 'text' && typeof block.text === 'string') {
+            currentRun().entries.push({ kind: 'prompt', text: block.text })
+          }
+        }
+        break
+
+      case 'result':
+        currentRun().result = {
+          subtype: optionalString(event.subtype) ?? 'success',
+          is_error: event.is_error === true,
+          result: optionalString(event.result) ?? '',
+          num_turns: optionalNumber(event.num_turns),
+          duration_ms: optionalNumber(event.duration_ms),
+          total_cost_usd: optionalNumber(event.total_cost_usd ?? event.cost_usd)
+        }
+        current = undefined
+        break
+    }
+  }
+
+  return runs
+}
+
+/**
+ * 最后一次执行的最终结果（result 事件的 result 字段）；日志中没有 result 事件时返回 undefined
+ */
+export function getFinalResult(logs: string | string[]): string | undefined {
+  const runs = parseTranscript(logs)
+  for (let index = runs.length - 1; index >= 0; index--) {
+    const result = runs[index].result
+    if (result) return result.result
+  }
+  return undefined
+}
+
+/**
+ * MCP 工具名形如 mcp__<服务>__<工具>
+ */
+export function parseMcpToolName(name: string): { server: string; tool: string } | null {
+  const match = /^mcp__(.+?)__(.+)$/.exec(name)
+  return match ? { server: match[1], tool: match[2] } : null
+}
+
+/**
+ * 工具调用的简要说明，折叠时显示在工具名后面
+ */
+export function describeToolCall(name: string, input: Record<string, unknown>): string {
+  const value = (key: string) => optionalString(input[key])
+
+  switch (name) {
+    case 'Read':
+    case 'Write':
+    case 'Edit':
+    case 'MultiEdit':
+      return value('file_path') ?? ''
+    case 'NotebookEdit':
+      return value('notebook_path') ?? ''
+    case 'Bash':
+      return value('description') ?? value('command')?.split('\n')[0] ?? ''
+    case 'Glob':
+    case 'Grep':
+      return [value('pattern'), value('path')].filter(Boolean).join(' · ')
+    case 'WebFetch':
+      return value('url') ?? ''
+    case 'WebSearch':
+      return value('query') ?? ''
+    case 'Task':
+      return value('description') ?? ''
+    case 'TodoWrite':
+      return Array.isArray(input.todos) ? `${input.todos.length} 项` : ''
+    default:
+      // MCP 等其他工具取第一个字符串参数
+      return Object.values(input).find((item): item is string => typeof item === 'string')?.split('\n')[0] ?? ''
+  }
+}
+
+/**
+ * 修改文件的工具调用中的编辑内容，其他工具返回 null；Write 视为从空文件开始
+ */
+export function getToolEdits(name: string, input: Record<string, unknown>): ToolEdit[] | null {
+  const edit = (item: unknown): ToolEdit | null => isRecord(item) && typeof item.new_string === 'string'
+    ? { old_string: optionalString(item.old_string) ?? '', new_string: item.new_string }
+    : null
+
+  switch (name) {
+    case 'Edit':
+      return [edit(input)].filter((item): item is ToolEdit => item !== null)
+    case 'MultiEdit':
+      return Array.isArray(input.edits) ? input.edits.map(edit).filter((item): item is ToolEdit => item !== null) : []
+    case 'Write':
+      return typeof input.content === 'string' ? [{ old_string: '', new_string: input.content }] : []
+    default:
+      return null
+  }
+}
@@ -0,0 +1,116 @@
+import { buildCommandArgv } from '@/lib/cli-commands'
+import { runTaskctl } from '@/lib/cli-runner'
+import { getCLISnapshot } from '@/lib/cli-snapshot'
+import { parseTaskUsage, type TaskUsage } from '@/lib/task-usage'
+import type { LocalBackendConfig } from '@/lib/cli-backends'
+import type { CLITask } from '@/services/cli-service'
+
+/**
+ * 费用报表
+ *
+ * 读取已结束任务的日志并解析 claude 的执行结果。结束后的日志不再变化，
+ * 按结束时间缓存解析结果，任务重新执行后结束时间改变，会重新读取。
+ * 每份报表只统计最近一段时间内结束的任务，并限制任务数，避免大量任务时一次启动过多 taskctl 进程。
+ */
+
+export interface UsageReportEntry {
+  task_id: string
+  name: string
+  task_type: string
+  tags: string[]
+  template_id?: string
+  completed_at: string
+  usage: TaskUsage
+}
+
+// 同时读取日志的任务数，避免报表请求占满 taskctl
+const LOG_CONCURRENCY = 2
+
+// 默认统计最近 30 天，最多 365 天
+export const DEFAULT_USAGE_REPORT_DAYS = 30
+export const MAX_USAGE_REPORT_DAYS = 365
+
+// 每份报表最多读取的任务数（按结束时间取最近的）
+const MAX_REPORT_TASKS = 200
+
+// 缓存的解析结果数，超出后丢弃最久没有使用的
+const MAX_CACHE_ENTRIES = 2000
+
+const globalForUsage = globalThis as unknown as {
+  usageCache?: Map<string, TaskUsage | null>
+  usageReports?: Map<string, Promise<UsageReportEntry[]>>
+}
+
+const usageCache = globalForUsage.usageCache ??= new Map()
+const pendingReports = globalForUsage.usageReports ??= new Map()
+
+async function loadTaskUsage(backend: LocalBackendConfig, task: CLITask & { completed_at: string }): Promise<TaskUsage | null> {
+  const key = `${backend.id}:${task.id}:${task.completed_at}`
+  if (usageCache.has(key)) {
+    // 重新插入，使 Map 的顺序保持为最近使用的在后
+    const cached = usageCache.get(key) ?? null
+    usageCache.delete(key)
+    usageCache.set(key, cached)
+    return cached
+  }
+
+  try {
+    const { stdout } = await runTaskctl(backend, buildCommandArgv('task.logs', { taskId: task.id }))
+    const usage = parseTaskUsage(stdout)
+    usageCache.set(key, usage)
+    while (usageCache.size > MAX_CACHE_ENTRIES) {
+      usageCache.delete(usageCache.keys().next().value!)
+    }
+    return usage
+  } catch (error) {
+    // 读取失败不缓存，下次请求时重试
+    console.error(`读取任务 ${task.id} 的用量失败:`, error)
+    return null
+  }
+}
+
+async function buildUsageReport(backend: LocalBackendConfig, days: number): Promise<UsageReportEntry[]> {
+  const snapshot = await getCLISnapshot(backend)
+  const since = Date.now() - days * 24 * 60 * 60 * 1000
+  const tasks = snapshot.tasks
+    .filter((task): task is CLITask & { completed_at: string } => !!task.completed_at && new Date(task.completed_at).getTime() >= since)
+    .sort((a, b) => new Date(b.completed_at).getTime() - new Date(a.completed_at).getTime())
+    .slice(0, MAX_REPORT_TASKS)
+  const entries: Array<UsageReportEntry | null> = new Array(tasks.length).fill(null)
+  let next = 0
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++
+      const task = tasks[index]
+      const usage = await loadTaskUsage(backend, task)
+      if (usage) {
+        entries[index] = {
+          task_id: task.id,
+          name: task.name,
+          task_type: task.task_type,
+          tags: task.tags ?? [],
+          template_id: task.template_id,
+          completed_at: task.completed_at,
+          usage
+        }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(LOG_CONCURRENCY, tasks.length) }, worker))
+  return entries.filter((entry): entry is UsageReportEntry => entry !== null)
+}
+
+/**
+ * 获取后端最近 days 天内结束的任务的用量（最多 MAX_REPORT_TASKS 个），同一后端同时只生成一份相同范围的报表
+ */
+export function getUsageReport(backend: LocalBackendConfig, days: number = DEFAULT_USAGE_REPORT_DAYS): Promise<UsageReportEntry[]> {
+  const key = `${backend.id}:${days}`
+  const pending = pendingReports.get(key)
+  if (pending) return pending
+
+  const promise = buildUsageReport(backend, days).finally(() => pendingReports.delete(key))
+  pendingReports.set(key, promise)
+  return promise
+}
@@ -0,0 +1,85 @@
+import { inflateRawSync } from 'zlib'
+import { describe, expect, it } from 'vitest'
+import { ZipWriter } from '@/lib/zip'
+
+function buildZip(files: Array<{ name: string; content: string | Buffer; modified?: Date }>): { data: Buffer; chunks: number } {
+  const chunks: Uint8Array[] = []
+  const writer = new ZipWriter(chunk => chunks.push(chunk))
+  for (const file of files) writer.addFile(file.name, file.content, file.modified)
+  writer.finish()
+  return { data: Buffer.concat(chunks), chunks: chunks.length }
+}
+
+// 按结束记录和中央目录读取文件，和解压工具的读取方式一致
+function readZip(data: Buffer) {
+  const end = data.length - 22
+  expect(data.readUInt32LE(end)).toBe(0x06054b50)
+  const count = data.readUInt16LE(end + 10)
+  let position = data.readUInt32LE(end + 16)
+  expect(position + data.readUInt32LE(end + 12)).toBe(end)
+
+  const entries = []
+  for (let i = 0; i < count; i++) {
+    expect(data.readUInt32LE(position)).toBe(0x02014b50)
+    const flags = data.readUInt16LE(position + 8)
+    const time = data.readUInt16LE(position + 12)
+    const date = data.readUInt16LE(position + 14)
+    const crc = data.readUInt32LE(position + 16)
+    const compressedSize = data.readUInt32LE(position + 20)
+    const size = data.readUInt32LE(position + 24)
+    const nameLength = data.readUInt16LE(position + 28)
+    const offset = data.readUInt32LE(position + 42)
+    const name = data.subarray(position + 46, position + 46 + nameLength).toString('utf-8')
+    position += 46 + nameLength
+
+    // 本地文件头与中央目录一致
+    expect(data.readUInt32LE(offset)).toBe(0x04034b50)
+    expect(data.readUInt32LE(offset + 14)).toBe(crc)
+    const start = offset + 30 + data.readUInt16LE(offset + 26)
+    const content = inflateRawSync(data.subarray(start, start + compressedSize))
+    expect(content.length).toBe(size)
+
+    entries.push({ name, flags, time, date, crc, content })
+  }
+  return entries
+}
+
+describe('ZipWriter', () => {
+  it('写入可以按中央目录读取和解压的文件', () => {
+    const logs = Buffer.from('x'.repeat(10000))
+    const { data, chunks } = buildZip([
+      { name: 'tasks.csv', content: 'id,name\r\ntask_1,构建\r\n' },
+      { name: 'logs/task_1.log', content: logs }
+    ])
+    const entries = readZip(data)
+
+    expect(chunks).toBeGreaterThan(1)
+    expect(entries.map(entry => entry.name)).toEqual(['tasks.csv', 'logs/task_1.log'])
+    expect(entries[0].content.toString('utf-8')).toBe('id,name\r\ntask_1,构建\r\n')
+    expect(entries[1].content.equals(logs)).toBe(true)
+  })
+
+  it('计算标准的 CRC-32', () => {
+    const [entry] = readZip(buildZip([{ name: 'check.txt', content: '123456789' }]).data)
+    expect(entry.crc).toBe(0xcbf43926)
+  })
+
+  it('文件名使用 UTF-8 并设置对应标志位', () => {
+    const [entry] = readZip(buildZip([{ name: '日志/任务.log', content: '' }]).data)
+    expect(entry.name).toBe('日志/任务.log')
+    expect(entry.flags & 0x0800).toBe(0x0800)
+    expect(entry.content.length).toBe(0)
+  })
+
+  it('按 MS-DOS 格式记录修改时间', () => {
+    const [entry] = readZip(buildZip([{ name: 'a.txt', content: 'a', modified: new Date(2024, 4, 17, 13, 45, 31) }]).data)
+    expect(entry.date).toBe(((2024 - 1980) << 9) | (5 << 5) | 17)
+    expect(entry.time).toBe((13 << 11) | (45 << 5) | 15)
+  })
+
+  it('没有文件时只写入结束记录', () => {
+    const { data } = buildZip([])
+    expect(data.length).toBe(22)
+    expect(readZip(data)).toEqual([])
+  })
+})
@@ -0,0 +1,129 @@
+import { deflateRawSync } from 'zlib'
+
+/**
+ * 最小的 ZIP 写入器
+ *
+ * 逐个写入文件（deflate 压缩），写完后追加中央目录，生成的数据块交给 write 回调，
+ * 可以边生成边发送。只实现导出需要的部分：不支持 ZIP64，单个文件和总大小都不能超过 4GB。
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS 格式的修改时间和日期（本地时间，精度 2 秒）
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+interface ZipEntry {
+  name: Buffer
+  crc: number
+  compressedSize: number
+  size: number
+  offset: number
+  time: number
+  date: number
+}
+
+// 通用标志位 11：文件名使用 UTF-8 编码
+const UTF8_FLAG = 0x0800
+const METHOD_DEFLATE = 8
+const VERSION = 20
+
+export class ZipWriter {
+  private entries: ZipEntry[] = []
+  private offset = 0
+
+  constructor(private readonly write: (chunk: Uint8Array) => void) {}
+
+  addFile(name: string, content: string | Buffer, modified: Date = new Date()): void {
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content
+    const compressed = deflateRawSync(data)
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf-8'),
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.offset,
+      ...toDosDateTime(modified)
+    }
+
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(0x04034b50, 0)
+    header.writeUInt16LE(VERSION, 4)
+    header.writeUInt16LE(UTF8_FLAG, 6)
+    header.writeUInt16LE(METHOD_DEFLATE, 8)
+    header.writeUInt16LE(entry.time, 10)
+    header.writeUInt16LE(entry.date, 12)
+    header.writeUInt32LE(entry.crc, 14)
+    header.writeUInt32LE(entry.compressedSize, 18)
+    header.writeUInt32LE(entry.size, 22)
+    header.writeUInt16LE(entry.name.length, 26)
+    header.writeUInt16LE(0, 28)
+
+    this.emit(header)
+    this.emit(entry.name)
+    this.emit(compressed)
+    this.entries.push(entry)
+  }
+
+  /**
+   * 写入中央目录和结束记录，之后不能再添加文件
+   */
+  finish(): void {
+    const directoryOffset = this.offset
+
+    for (const entry of this.entries) {
+      const record = Buffer.alloc(46)
+      record.writeUInt32LE(0x02014b50, 0)
+      record.writeUInt16LE(VERSION, 4)
+      record.writeUInt16LE(VERSION, 6)
+      record.writeUInt16LE(UTF8_FLAG, 8)
+      record.writeUInt16LE(METHOD_DEFLATE, 10)
+      record.writeUInt16LE(entry.time, 12)
+      record.writeUInt16LE(entry.date, 14)
+      record.writeUInt32LE(entry.crc, 16)
+      record.writeUInt32LE(entry.compressedSize, 20)
+      record.writeUInt32LE(entry.size, 24)
+      record.writeUInt16LE(entry.name.length, 28)
+      // 扩展字段、注释、磁盘号、内部和外部属性都为 0
+      record.writeUInt32LE(entry.offset, 42)
+
+      this.emit(record)
+      this.emit(entry.name)
+    }
+
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(0x06054b50, 0)
+    end.writeUInt16LE(this.entries.length, 8)
+    end.writeUInt16LE(this.entries.length, 10)
+    end.writeUInt32LE(this.offset - directoryOffset, 12)
+    end.writeUInt32LE(directoryOffset, 16)
+    this.emit(end)
+  }
+
+  private emit(chunk: Buffer): void {
+    this.offset += chunk.length
+    this.write(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.length))
+  }
+}
@@ -92,6 +92,9 @@ export const config = {
     '/monitoring/:path*',
     '/security/:path*',
     '/settings/:path*',
+    '/pipelines/:path*',
+    '/inbox/:path*',
+    '/timeline/:path*',
     '/login/:path*',
     '/api/:path*',
   ],
@@ -1,3 +1,17 @@
+import type { CLIOperation, CLICommandArgs } from '@/lib/cli-commands'
+import { CLIContractError, parseCreatedTaskId, parseScheduledTaskId, type CLIParsedOutput } from '@/lib/cli-schemas'
+import type { CLIPoolMetrics } from '@/lib/cli-pool'
+import type { ServiceLog } from '@/lib/cli-runner'
+import type { CLIBackendInfo } from '@/lib/cli-backends'
+import type { Pipeline, PipelineDefinitionInput } from '@/lib/pipelines'
+import type { InboxSummary } from '@/lib/inbox'
+import type { TaskComment, TaskCommentThread } from '@/lib/task-comments'
+import type { RetryPolicy } from '@/lib/retry-policy'
+import type { RetryPolicies } from '@/lib/retry-policies'
+import { TaskQueryError } from '@/lib/task-query'
+import type { UsageReportEntry } from '@/lib/usage-report'
+import type { SystemStatus } from '@/types'
+
 // API 基础路径 - 需要包含 basePath
 const basePath = process.env.NEXT_PUBLIC_BASE_PATH || ''
 const API_BASE = `${basePath}/api/cli`
@@ -15,8 +29,21 @@ export interface CLITask {
   completed_at?: string
   assigned_worker?: string
   retry_count: number
+  max_retries?: number
+  // 创建任务时使用的重试策略
+  retry_policy?: RetryPolicy
   tags?: string[]
+  working_dir?: string
+  environment?: Record<string, string>
+  auto_execute?: boolean
+  // 复制或重新运行时的来源任务 ID
+  cloned_from?: string
+  // 使用模版创建时的模版 ID
+  template_id?: string
+  // 等待确认或需要人工审核时，agent 提出的问题
+  confirmation_prompt?: string
   last_error?: string
+  error_history?: Array<{ timestamp: string; type: string; message: string }>
   next_allowed_at?: string
 }
 
@@ -40,26 +67,89 @@ export interface CLIScheduledTask {
   cron_expression: string
   task_type: string
   working_dir?: string
+  environment?: Record<string, string>
+  tags?: string[]
+  auto_execute?: boolean
   enabled: boolean
   created_at: string
 }
 
+// taskctl 不一定输出磁盘、内存和运行时间，缺少时为 undefined
+export interface CLISystemStatus extends Omit<SystemStatus, 'disk_space_gb' | 'memory_usage_percent' | 'uptime_seconds'> {
+  disk_space_gb?: number
+  memory_usage_percent?: number
+  uptime_seconds?: number
+  auto_claude_running: boolean
+}
+
+export interface CLITaskStats {
+  total: number
+  pending: number
+  processing: number
+  completed: number
+  failed: number
+  by_priority: Record<'urgent' | 'high' | 'normal' | 'low', number>
+  by_type: Record<'lightweight' | 'medium_context' | 'heavy_context', number>
+}
+
+export interface CLISnapshot {
+  generated_at: string
+  tasks: CLITask[]
+  tasks_by_state: Record<string, CLITask[]>
+  stats: CLITaskStats
+  workers: CLIWorker[]
+  scheduled_tasks: CLIScheduledTask[]
+}
+
+export interface CLIStreamHandlers {
+  onLine: (line: string, stream: 'stdout' | 'stderr') => void
+  onExit?: (code: number | null) => void
+  onError?: (message: string) => void
+}
+
+export interface CLICommandResult<O extends CLIOperation> {
+  output: string
+  // 服务端按约定校验后的结构化数据
+  data: CLIParsedOutput<O>
+}
+
 export class CLIService {
   /**
-   * 执行 cc-agent 命令
+   * 生成带 backend 参数的请求地址；backend 为 null 时由服务端使用第一个后端。
+   * 后端由调用方（useCLIBackend 中的当前后端）显式传入，与查询 key 中的后端保持一致
    */
-  private static async executeCommand(command: string): Promise<string> {
+  private static url(backend: string | null, path: string, params?: URLSearchParams): string {
+    const searchParams = new URLSearchParams(params)
+    if (backend) {
+      searchParams.set('backend', backend)
+    }
+    const query = searchParams.toString()
+    return query ? `${API_BASE}${path}?${query}` : `${API_BASE}${path}`
+  }
+
+  /**
+   * 执行 cc-agent 命令（操作名 + 结构化参数，由服务端生成 argv）
+   */
+  private static async executeCommand<O extends CLIOperation>(
+    backend: string | null,
+    operation: O,
+    args: CLICommandArgs<O>
+  ): Promise<CLICommandResult<O>> {
     try {
-      const response = await fetch(API_BASE, {
+      const response = await fetch(CLIService.url(backend, ''), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ command })
+        body: JSON.stringify({ operation, args })
       })
 
       const result = await response.json()
 
+      if (result.contract) {
+        throw CLIContractError.fromJSON(result.contract)
+      }
+
       if (!result.success) {
         throw new Error(result.error || '命令执行失败')
       }
@@ -68,166 +158,77 @@ export class CLIService {
         console.warn('Command stderr:', result.error)
       }
 
-      console.log('CLI command result:', { command, outputLength: result.output?.length })
-      return result.output
+      console.log('CLI command result:', { operation, outputLength: result.output?.length })
+      return { output: result.output, data: result.data }
     } catch (error) {
       console.error('Command execution failed:', error)
+      if (error instanceof CLIContractError) {
+        throw error
+      }
       const err = error as Error
       throw new Error(`命令执行失败: ${err.message}`)
     }
   }
 
   /**
-   * 解析 JSON 输出，如果不是 JSON 则返回原文本
+   * 获取任务列表
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private static parseOutput(output: string): any {
-    if (!output || typeof output !== 'string') {
-      console.warn('Empty or invalid output received:', output)
-      return []
-    }
-
-    try {
-      const parsed = JSON.parse(output)
-      console.log('Successfully parsed JSON:', { type: typeof parsed, isArray: Array.isArray(parsed), length: parsed?.length })
-      return parsed
-    } catch (error) {
-      console.warn('Failed to parse JSON, trying table format:', error)
-      // 如果不是JSON，尝试解析为表格数据
-      return CLIService.parseTableOutput(output)
-    }
+  static async listTasks(backend: string | null, params?: Omit<CLICommandArgs<'task.list'>, 'format'>): Promise<CLITask[]> {
+    const { data } = await CLIService.executeCommand(backend, 'task.list', {
+      state: params?.state,
+      priority: params?.priority,
+      format: 'json'
+    })
+    return data
   }
 
   /**
-   * 解析系统状态文本输出
-   * 主要检测 auto_claude.py worker 服务是否运行
-   */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private static parseSystemStatus(output: string): any {
-    const lines = output.split('\n').filter(line => line.trim())
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const status: any = {
-      status: 'critical', // 默认为关键状态
-      active_workers: 0,
-      pending_tasks: 0,
-      processing_tasks: 0,
-      disk_space_gb: 0,
-      memory_usage_percent: 0,
-      uptime_seconds: 0,
-      last_updated: new Date().toISOString(),
-      auto_claude_running: false
-    }
+   * 按查询语言搜索任务（服务端在快照上过滤），查询语法错误时抛出 TaskQueryError
+   */
+  static async searchTasks(backend: string | null, query: string): Promise<CLITask[]> {
+    const response = await fetch(CLIService.url(backend, '/tasks', new URLSearchParams({ q: query })))
+    const result = await response.json()
 
-    // 检查 auto_claude.py 进程状态
-    const hasAutoClaude = output.includes('auto_claude.py') || 
-                         output.includes('Auto-Claude system is running') ||
-                         output.includes('Worker services: active')
-    
-    if (hasAutoClaude) {
-      status.auto_claude_running = true
-      status.status = 'healthy'
+    if (result.contract) {
+      throw CLIContractError.fromJSON(result.contract)
     }
 
-    // 解析其他状态信息
-    for (const line of lines) {
-      if (line.includes('auto_claude.py') && line.includes('running')) {
-        status.auto_claude_running = true
-        status.status = 'healthy'
-      } else if (line.includes('Overall Status:') || line.includes('System Status:')) {
-        const match = line.match(/Status:\s*(\w+)/)
-        if (match) {
-          const systemStatus = match[1].toLowerCase()
-          status.status = systemStatus === 'healthy' || systemStatus === 'running' ? 'healthy' : 
-                         systemStatus === 'degraded' || systemStatus === 'warning' ? 'warning' : 'critical'
-        }
-      } else if (line.includes('Active workers:') || line.includes('Workers:')) {
-        const match = line.match(/(\d+)/)
-        if (match) status.active_workers = parseInt(match[1])
-      } else if (line.includes('Pending:') || line.includes('Pending tasks:')) {
-        const match = line.match(/(\d+)/)
-        if (match) status.pending_tasks = parseInt(match[1])
-      } else if (line.includes('Processing:') || line.includes('Processing tasks:')) {
-        const match = line.match(/(\d+)/)
-        if (match) status.processing_tasks = parseInt(match[1])
-      } else if (line.includes('Disk free:')) {
-        const match = line.match(/([\d.]+)\s*GB/)
-        if (match) status.disk_space_gb = parseFloat(match[1])
-      } else if (line.includes('Memory usage:')) {
-        const match = line.match(/([\d.]+)%/)
-        if (match) status.memory_usage_percent = parseFloat(match[1])
-      } else if (line.includes('Uptime:')) {
-        const match = line.match(/(\d+)\s*seconds/)
-        if (match) status.uptime_seconds = parseInt(match[1])
+    if (!result.success) {
+      if (response.status === 400) {
+        throw new TaskQueryError(result.error)
       }
+      throw new Error(result.error || '查询任务失败')
     }
 
-    console.log('Parsed system status:', status)
-    return status
-  }
-
-  /**
-   * 解析表格格式的输出（taskctl.py的默认输出格式）
-   */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private static parseTableOutput(output: string): any[] {
-    const lines = output.split('\n').filter(line => line.trim())
-    if (lines.length <= 2) return []
-
-    // 假设第一行是标题，第二行是分隔符
-    const headers = lines[0].split(/\s+/)
-    const dataLines = lines.slice(2)
-
-    return dataLines.map(line => {
-      const values = line.split(/\s+/)
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const obj: any = {}
-      headers.forEach((header, index) => {
-        obj[header.toLowerCase()] = values[index] || ''
-      })
-      return obj
-    })
+    return result.data
   }
 
   /**
-   * 获取任务列表
+   * 导出任务的下载地址：按查询或任务 ID 过滤，withLogs 为 true 时连同日志打包成 zip
    */
-  static async listTasks(params?: {
-    state?: string
-    priority?: string
-    format?: 'json' | 'table'
-  }): Promise<CLITask[]> {
-    let command = 'taskctl.py task list'
-    
-    if (params?.state) {
-      command += ` --state ${params.state}`
-    }
-    
-    if (params?.priority) {
-      command += ` --priority ${params.priority}`
-    }
-    
-    if (params?.format === 'json') {
-      command += ' --format json'
-    }
-
-    const output = await CLIService.executeCommand(command)
-    const data = CLIService.parseOutput(output)
-
-    // 如果是数组格式，直接返回；否则提取 tasks 字段
-    return Array.isArray(data) ? data : (data.tasks || [])
+  static getExportUrl(backend: string | null, { format, query, taskIds, withLogs }: {
+    format: 'csv' | 'json' | 'ndjson'
+    query?: string
+    taskIds?: string[]
+    withLogs?: boolean
+  }): string {
+    const params = new URLSearchParams({ format })
+    if (query) params.set('q', query)
+    if (taskIds) params.set('ids', taskIds.join(','))
+    if (withLogs) params.set('logs', '1')
+    return CLIService.url(backend, '/export', params)
   }
 
   /**
    * 获取任务详情
    */
-  static async getTask(taskId: string): Promise<CLITask | null> {
+  static async getTask(backend: string | null, taskId: string): Promise<CLITask | null> {
     try {
-      const command = `taskctl.py task show ${taskId} --format json`
-      const output = await CLIService.executeCommand(command)
-      const data = CLIService.parseOutput(output)
+      const { data } = await CLIService.executeCommand(backend, 'task.show', { taskId })
       return data
     } catch (error) {
       console.error('获取任务详情失败:', error)
+      if (error instanceof CLIContractError) throw error
       return null
     }
   }
@@ -235,29 +236,24 @@ export class CLIService {
   /**
    * 创建任务
    */
-  static async createTask(params: {
-    name: string
-    description: string
-    type?: 'lightweight' | 'medium_context' | 'heavy_context'
-    priority?: 'low' | 'normal' | 'high' | 'urgent'
-  }): Promise<{ success: boolean; taskId?: string; error?: string }> {
+  static async createTask(
+    backend: string | null,
+    params: CLICommandArgs<'task.create'>
+  ): Promise<{ success: boolean; taskId?: string; error?: string }> {
     try {
-      let command = `taskctl.py task create "${params.name}" --description "${params.description}"`
-      
-      if (params.type) {
-        command += ` --type ${params.type}`
-      }
+      const { output } = await CLIService.executeCommand(backend, 'task.create', {
+        ...params,
+        workingDir: params.workingDir || undefined
+      })
       
-      if (params.priority) {
-        command += ` --priority ${params.priority}`
+      // 任务已经创建，输出中取不到 ID 时不算失败
+      let taskId: string | undefined
+      try {
+        taskId = parseCreatedTaskId(output)
+      } catch {
+        taskId = undefined
       }
 
-      const output = await CLIService.executeCommand(command)
-      
-      // 尝试从输出中提取任务ID
-      const taskIdMatch = output.match(/Task\s+([a-zA-Z0-9_]+)\s+created/i)
-      const taskId = taskIdMatch ? taskIdMatch[1] : undefined
-
       return { success: true, taskId }
     } catch (error) {
       const err = error as Error
@@ -265,23 +261,61 @@ export class CLIService {
     }
   }
 
+  /**
+   * 使用相同的输入重新运行任务，新任务记录来源任务
+   */
+  static async rerunTask(backend: string | null, task: CLITask): Promise<{ success: boolean; taskId?: string; error?: string }> {
+    return CLIService.createTask(backend, {
+      name: task.name,
+      description: task.description ?? '',
+      type: task.task_type as CLICommandArgs<'task.create'>['type'],
+      priority: task.priority as CLICommandArgs<'task.create'>['priority'],
+      workingDir: task.working_dir,
+      environment: task.environment,
+      tags: task.tags,
+      autoExecute: task.auto_execute,
+      clonedFrom: task.id,
+      templateId: task.template_id,
+      retryPolicy: task.retry_policy
+    })
+  }
+
   /**
    * 任务操作（取消、重试、暂停、恢复）
    */
   static async taskAction(
+    backend: string | null,
     taskId: string, 
     action: 'cancel' | 'retry' | 'pause' | 'resume',
     options?: { force?: boolean }
   ): Promise<{ success: boolean; message?: string }> {
     try {
-      let command = `taskctl.py task ${action} ${taskId}`
-      
       // 如果是重试操作且设置了强制标志，添加 --force 参数
-      if (action === 'retry' && options?.force) {
-        command += ' --force'
-      }
-      
-      const output = await CLIService.executeCommand(command)
+      const { output } = action === 'retry'
+        ? await CLIService.executeCommand(backend, 'task.retry', { taskId, force: options?.force })
+        : await CLIService.executeCommand(backend, `task.${action}`, { taskId })
+      return { success: true, message: output }
+    } catch (error) {
+      const err = error as Error
+      return { success: false, message: err.message }
+    }
+  }
+
+  /**
+   * 处理等待确认或需要人工审核的任务：批准（可附说明）、拒绝（可附原因）或回复补充说明
+   */
+  static async reviewTask(
+    backend: string | null,
+    taskId: string,
+    action: 'approve' | 'reject' | 'reply',
+    text?: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const { output } = action === 'approve'
+        ? await CLIService.executeCommand(backend, 'task.approve', { taskId, comment: text || undefined })
+        : action === 'reject'
+          ? await CLIService.executeCommand(backend, 'task.reject', { taskId, reason: text || undefined })
+          : await CLIService.executeCommand(backend, 'task.reply', { taskId, message: text ?? '' })
       return { success: true, message: output }
     } catch (error) {
       const err = error as Error
@@ -292,10 +326,9 @@ export class CLIService {
   /**
    * 获取任务日志
    */
-  static async getTaskLogs(taskId: string): Promise<string[]> {
+  static async getTaskLogs(backend: string | null, taskId: string): Promise<string[]> {
     try {
-      const command = `taskctl.py task show ${taskId} --show-logs`
-      const output = await CLIService.executeCommand(command)
+      const { output } = await CLIService.executeCommand(backend, 'task.logs', { taskId })
       return output.split('\n').filter(line => line.trim())
     } catch (error) {
       console.error('获取任务日志失败:', error)
@@ -306,14 +339,13 @@ export class CLIService {
   /**
    * 获取系统状态
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  static async getSystemStatus(): Promise<any> {
+  static async getSystemStatus(backend: string | null): Promise<CLISystemStatus | null> {
     try {
-      const command = 'taskctl.py system status'
-      const output = await CLIService.executeCommand(command)
-      return CLIService.parseSystemStatus(output)
+      const { data } = await CLIService.executeCommand(backend, 'system.status', {})
+      return data
     } catch (error) {
       console.error('获取系统状态失败:', error)
+      if (error instanceof CLIContractError) throw error
       return null
     }
   }
@@ -321,14 +353,13 @@ export class CLIService {
   /**
    * 获取工作器列表
    */
-  static async listWorkers(): Promise<CLIWorker[]> {
+  static async listWorkers(backend: string | null): Promise<CLIWorker[]> {
     try {
-      const command = 'taskctl.py worker list --format json'
-      const output = await CLIService.executeCommand(command)
-      const data = CLIService.parseOutput(output)
-      return Array.isArray(data) ? data : (data.workers || [])
+      const { data } = await CLIService.executeCommand(backend, 'worker.list', {})
+      return data
     } catch (error) {
       console.error('获取工作器列表失败:', error)
+      if (error instanceof CLIContractError) throw error
       return []
     }
   }
@@ -336,13 +367,13 @@ export class CLIService {
   /**
    * 获取工作器详情
    */
-  static async getWorker(workerId: string): Promise<CLIWorker | null> {
+  static async getWorker(backend: string | null, workerId: string): Promise<CLIWorker | null> {
     try {
-      const command = `taskctl.py worker show ${workerId} --format json`
-      const output = await CLIService.executeCommand(command)
-      return CLIService.parseOutput(output)
+      const { data } = await CLIService.executeCommand(backend, 'worker.show', { workerId })
+      return data
     } catch (error) {
       console.error('获取工作器详情失败:', error)
+      if (error instanceof CLIContractError) throw error
       return null
     }
   }
@@ -350,10 +381,9 @@ export class CLIService {
   /**
    * 重启工作器
    */
-  static async restartWorker(workerId: string): Promise<{ success: boolean; message?: string }> {
+  static async restartWorker(backend: string | null, workerId: string): Promise<{ success: boolean; message?: string }> {
     try {
-      const command = `taskctl.py worker restart ${workerId}`
-      const output = await CLIService.executeCommand(command)
+      const { output } = await CLIService.executeCommand(backend, 'worker.restart', { workerId })
       return { success: true, message: output }
     } catch (error) {
       const err = error as Error
@@ -362,50 +392,149 @@ export class CLIService {
   }
 
   /**
-   * 获取任务统计
+   * 获取聚合快照（任务、统计、工作器、定时任务）
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  static async getTaskStats(): Promise<any> {
+  static async getSnapshot(backend: string | null): Promise<CLISnapshot> {
     try {
-      // 通过任务列表计算统计信息
-      const tasks = await CLIService.listTasks({ format: 'json' })
-      
-      const stats = {
-        total: tasks.length,
-        pending: tasks.filter(t => t.task_state === 'pending').length,
-        processing: tasks.filter(t => t.task_state === 'processing').length,
-        completed: tasks.filter(t => t.task_state === 'completed').length,
-        failed: tasks.filter(t => t.task_state === 'failed').length,
-        by_priority: {
-          urgent: tasks.filter(t => t.priority === 'urgent').length,
-          high: tasks.filter(t => t.priority === 'high').length,
-          normal: tasks.filter(t => t.priority === 'normal').length,
-          low: tasks.filter(t => t.priority === 'low').length,
-        },
-        by_type: {
-          lightweight: tasks.filter(t => t.task_type === 'lightweight').length,
-          medium_context: tasks.filter(t => t.task_type === 'medium_context').length,
-          heavy_context: tasks.filter(t => t.task_type === 'heavy_context').length,
-        }
+      const response = await fetch(CLIService.url(backend, '/snapshot'))
+      const result = await response.json()
+
+      if (result.contract) {
+        throw CLIContractError.fromJSON(result.contract)
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || '获取快照失败')
       }
 
-      return stats
+      return result.data
     } catch (error) {
-      console.error('获取任务统计失败:', error)
-      return {
-        total: 0, pending: 0, processing: 0, completed: 0, failed: 0,
-        by_priority: { urgent: 0, high: 0, normal: 0, low: 0 },
-        by_type: { lightweight: 0, medium_context: 0, heavy_context: 0 }
+      console.error('获取快照失败:', error)
+      if (error instanceof CLIContractError) {
+        throw error
       }
+      const err = error as Error
+      throw new Error(`获取快照失败: ${err.message}`)
+    }
+  }
+
+  /**
+   * 获取已结束任务的 token 用量和费用
+   */
+  static async getUsageReport(backend: string | null): Promise<UsageReportEntry[]> {
+    const response = await fetch(CLIService.url(backend, '/usage'))
+    const result = await response.json()
+
+    if (result.contract) {
+      throw CLIContractError.fromJSON(result.contract)
+    }
+
+    if (!result.success) {
+      throw new Error(result.error || '获取用量失败')
+    }
+
+    return result.data
+  }
+
+  /**
+   * 获取 auto_claude.py 的服务日志
+   */
+  static async getServiceLog(backend: string | null): Promise<ServiceLog> {
+    const response = await fetch(CLIService.url(backend, '/service-log'))
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || '获取服务日志失败')
+    }
+
+    return result.data
+  }
+
+  /**
+   * 获取已配置的后端列表
+   */
+  static async listBackends(): Promise<CLIBackendInfo[]> {
+    const response = await fetch(`${basePath}/api/backends`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || '获取后端列表失败')
+    }
+
+    return result.data
+  }
+
+  /**
+   * 获取执行池指标（并发、排队深度、耗时）
+   */
+  static async getExecutionMetrics(): Promise<CLIPoolMetrics> {
+    const response = await fetch(`${API_BASE}/metrics`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || '获取执行指标失败')
     }
+
+    return result.data
+  }
+
+  /**
+   * 获取任务统计
+   */
+  static async getTaskStats(backend: string | null): Promise<CLITaskStats> {
+    const snapshot = await CLIService.getSnapshot(backend)
+    return snapshot.stats
+  }
+
+  /**
+   * 流式执行 cc-agent 命令，逐行回调输出，返回关闭函数
+   */
+  static streamCommand<O extends CLIOperation>(
+    backend: string | null,
+    operation: O,
+    args: CLICommandArgs<O>,
+    handlers: CLIStreamHandlers
+  ): () => void {
+    const searchParams = new URLSearchParams({ operation, args: JSON.stringify(args) })
+    const source = new EventSource(CLIService.url(backend, '/stream', searchParams))
+    let finished = false
+
+    const close = () => {
+      finished = true
+      source.close()
+    }
+
+    source.addEventListener('stdout', (event) => {
+      handlers.onLine((event as MessageEvent<string>).data, 'stdout')
+    })
+
+    source.addEventListener('stderr', (event) => {
+      handlers.onLine((event as MessageEvent<string>).data, 'stderr')
+    })
+
+    source.addEventListener('exit', (event) => {
+      const { code } = JSON.parse((event as MessageEvent<string>).data)
+      close()
+      handlers.onExit?.(code)
+    })
+
+    // 服务端发送的 error 事件带有 data，连接错误则没有
+    source.addEventListener('error', (event) => {
+      if (finished) return
+      const data = (event as MessageEvent<string>).data
+      close()
+      handlers.onError?.(data ? JSON.parse(data).message : '流式连接中断')
+    })
+
+    return close
   }
 
   /**
    * 检查 cc-agent 是否可用
    */
-  static async checkAvailability(): Promise<boolean> {
+  static async checkAvailability(backend: string | null): Promise<boolean> {
     try {
-      const response = await fetch(API_BASE, { method: 'GET' })
+      const response = await fetch(CLIService.url(backend, ''), { method: 'GET' })
       const result = await response.json()
       return result.available === true
     } catch (error) {
@@ -417,14 +546,13 @@ export class CLIService {
   /**
    * 获取定时任务列表
    */
-  static async listScheduledTasks(): Promise<CLIScheduledTask[]> {
+  static async listScheduledTasks(backend: string | null): Promise<CLIScheduledTask[]> {
     try {
-      const command = 'taskctl.py schedule list --format json'
-      const output = await CLIService.executeCommand(command)
-      const data = CLIService.parseOutput(output)
-      return Array.isArray(data) ? data : (data.scheduled_tasks || [])
+      const { data } = await CLIService.executeCommand(backend, 'schedule.list', {})
+      return data
     } catch (error) {
       console.error('获取定时任务列表失败:', error)
+      if (error instanceof CLIContractError) throw error
       return []
     }
   }
@@ -432,30 +560,24 @@ export class CLIService {
   /**
    * 添加定时任务
    */
-  static async addScheduledTask(params: {
-    name: string
-    description: string
-    cron: string
-    type?: 'lightweight' | 'medium_context' | 'heavy_context'
-    workingDir?: string
-  }): Promise<{ success: boolean; taskId?: string; error?: string }> {
+  static async addScheduledTask(
+    backend: string | null,
+    params: CLICommandArgs<'schedule.add'>
+  ): Promise<{ success: boolean; taskId?: string; error?: string }> {
     try {
-      let command = `taskctl.py schedule add "${params.name}" --description "${params.description}" --cron "${params.cron}"`
-      
-      if (params.type) {
-        command += ` --type ${params.type}`
-      }
+      const { output } = await CLIService.executeCommand(backend, 'schedule.add', {
+        ...params,
+        workingDir: params.workingDir || undefined
+      })
       
-      if (params.workingDir) {
-        command += ` --working-dir "${params.workingDir}"`
+      // 定时任务已经添加，输出中取不到 ID 时不算失败
+      let taskId: string | undefined
+      try {
+        taskId = parseScheduledTaskId(output)
+      } catch {
+        taskId = undefined
       }
 
-      const output = await CLIService.executeCommand(command)
-      
-      // 尝试从输出中提取任务ID
-      const taskIdMatch = output.match(/Task\s+ID:\s+([a-zA-Z0-9_]+)/i)
-      const taskId = taskIdMatch ? taskIdMatch[1] : undefined
-
       return { success: true, taskId }
     } catch (error) {
       const err = error as Error
@@ -466,10 +588,9 @@ export class CLIService {
   /**
    * 删除定时任务
    */
-  static async removeScheduledTask(taskId: string): Promise<{ success: boolean; message?: string }> {
+  static async removeScheduledTask(backend: string | null, taskId: string): Promise<{ success: boolean; message?: string }> {
     try {
-      const command = `taskctl.py schedule remove ${taskId}`
-      const output = await CLIService.executeCommand(command)
+      const { output } = await CLIService.executeCommand(backend, 'schedule.remove', { taskId })
       return { success: true, message: output }
     } catch (error) {
       const err = error as Error
@@ -480,15 +601,203 @@ export class CLIService {
   /**
    * 启用/禁用定时任务
    */
-  static async toggleScheduledTask(taskId: string, enable: boolean): Promise<{ success: boolean; message?: string }> {
+  static async toggleScheduledTask(backend: string | null, taskId: string, enable: boolean): Promise<{ success: boolean; message?: string }> {
     try {
-      const action = enable ? 'enable' : 'disable'
-      const command = `taskctl.py schedule ${action} ${taskId}`
-      const output = await CLIService.executeCommand(command)
+      const { output } = await CLIService.executeCommand(backend, enable ? 'schedule.enable' : 'schedule.disable', { taskId })
       return { success: true, message: output }
     } catch (error) {
       const err = error as Error
       return { success: false, message: err.message }
     }
   }
+
+  /**
+   * 请求流水线接口，失败时抛出服务端返回的错误
+   */
+  private static async requestPipelines<T>(backend: string | null, path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(CLIService.url(backend, `/pipelines${path}`), init)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || '流水线操作失败')
+    }
+
+    return result.data
+  }
+
+  /**
+   * 获取流水线列表
+   */
+  static async listPipelines(backend: string | null): Promise<Pipeline[]> {
+    return CLIService.requestPipelines(backend, '')
+  }
+
+  /**
+   * 获取流水线详情
+   */
+  static async getPipeline(backend: string | null, pipelineId: string): Promise<Pipeline> {
+    return CLIService.requestPipelines(backend, `/${encodeURIComponent(pipelineId)}`)
+  }
+
+  /**
+   * 创建流水线
+   */
+  static async createPipeline(backend: string | null, definition: PipelineDefinitionInput): Promise<Pipeline> {
+    return CLIService.requestPipelines(backend, '', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(definition)
+    })
+  }
+
+  /**
+   * 取消流水线
+   */
+  static async cancelPipeline(backend: string | null, pipelineId: string): Promise<Pipeline> {
+    return CLIService.requestPipelines(backend, `/${encodeURIComponent(pipelineId)}/cancel`, { method: 'POST' })
+  }
+
+  /**
+   * 删除流水线
+   */
+  static async deletePipeline(backend: string | null, pipelineId: string): Promise<void> {
+    await CLIService.requestPipelines(backend, `/${encodeURIComponent(pipelineId)}`, { method: 'DELETE' })
+  }
+
+  /**
+   * 请求审批收件箱接口，失败时抛出服务端返回的错误
+   */
+  private static async requestInbox<T>(backend: string | null, path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(CLIService.url(backend, `/inbox${path}`), init)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || '收件箱操作失败')
+    }
+
+    return result.data
+  }
+
+  /**
+   * 获取审批收件箱（待处理任务、指派和当前用户的未读数）
+   */
+  static async getInbox(backend: string | null): Promise<InboxSummary> {
+    return CLIService.requestInbox(backend, '')
+  }
+
+  /**
+   * 指派审批项，assignee 为 null 时取消指派
+   */
+  static async assignInboxItem(backend: string | null, taskId: string, assignee: string | null): Promise<void> {
+    await CLIService.requestInbox(backend, `/${encodeURIComponent(taskId)}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ assignee })
+    })
+  }
+
+  /**
+   * 把审批项标记为已读
+   */
+  static async markInboxRead(backend: string | null, taskIds: string[]): Promise<void> {
+    await CLIService.requestInbox(backend, '/read', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ taskIds })
+    })
+  }
+
+  /**
+   * 请求任务评论接口，失败时抛出服务端返回的错误
+   */
+  private static async requestComments<T>(backend: string | null, path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(CLIService.url(backend, `/comments${path}`), init)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || '评论操作失败')
+    }
+
+    return result.data
+  }
+
+  /**
+   * 获取每个任务的评论数
+   */
+  static async getTaskCommentCounts(backend: string | null): Promise<Record<string, number>> {
+    return CLIService.requestComments(backend, '')
+  }
+
+  /**
+   * 获取任务的评论和可以 @ 的用户
+   */
+  static async getTaskComments(backend: string | null, taskId: string): Promise<TaskCommentThread> {
+    return CLIService.requestComments(backend, `/${encodeURIComponent(taskId)}`)
+  }
+
+  /**
+   * 发表评论，可以关联到日志的某一行
+   */
+  static async addTaskComment(
+    backend: string | null,
+    taskId: string,
+    comment: { body: string; log_line?: number; log_text?: string }
+  ): Promise<TaskComment> {
+    return CLIService.requestComments(backend, `/${encodeURIComponent(taskId)}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(comment)
+    })
+  }
+
+  /**
+   * 删除自己的评论
+   */
+  static async deleteTaskComment(backend: string | null, taskId: string, commentId: string): Promise<void> {
+    await CLIService.requestComments(backend, `/${encodeURIComponent(taskId)}/${encodeURIComponent(commentId)}`, {
+      method: 'DELETE'
+    })
+  }
+
+  /**
+   * 获取各任务类型的默认重试策略
+   */
+  static async getRetryPolicies(backend: string | null): Promise<RetryPolicies> {
+    const response = await fetch(CLIService.url(backend, '/retry-policies'))
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || '获取重试策略失败')
+    }
+
+    return result.data
+  }
+
+  /**
+   * 保存各任务类型的默认重试策略，之后创建的任务生效
+   */
+  static async saveRetryPolicies(backend: string | null, policies: RetryPolicies): Promise<RetryPolicies> {
+    const response = await fetch(CLIService.url(backend, '/retry-policies'), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(policies)
+    })
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || '保存重试策略失败')
+    }
+
+    return result.data
+  }
 }
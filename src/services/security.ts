@@ -10,16 +10,31 @@ export interface SecurityReport {
 
 export interface SecurityLog {
   id: string
-  type: 'login' | 'logout' | 'permission_change' | 'api_access' | 'failed_login' | 'system_change'
+  type: 'login' | 'logout' | 'permission_change' | 'api_access' | 'failed_login' | 'system_change' | 'cli_command'
   user: string
   action: string
   ip_address: string
   user_agent: string
   timestamp: string
   success: boolean
+  duration_ms?: number
   details?: Record<string, unknown>
 }
 
+export interface SecurityLogParams {
+  type?: string
+  user?: string
+  action?: string
+  success?: boolean
+  from?: string
+  to?: string
+  limit?: number
+  offset?: number
+}
+
+// 审计日志由本地 API 提供，需要包含 basePath
+const basePath = process.env.NEXT_PUBLIC_BASE_PATH || ''
+
 export interface UserPermission {
   id: string
   username: string
@@ -47,21 +62,23 @@ export default class SecurityService {
     return apiClient.get('/api/v1/security/report')
   }
 
-  static async getSecurityLogs(params?: {
-    type?: string
-    user?: string
-    limit?: number
-    offset?: number
-  }): Promise<ApiResponse<{ items: SecurityLog[], total: number }>> {
+  static async getSecurityLogs(params?: SecurityLogParams): Promise<ApiResponse<{ items: SecurityLog[], total: number }>> {
     const searchParams = new URLSearchParams()
     
     Object.entries(params || {}).forEach(([key, value]) => {
-      if (value !== undefined) {
+      if (value !== undefined && value !== '') {
         searchParams.append(key, value.toString())
       }
     })
 
-    return apiClient.get(`/api/v1/security/logs?${searchParams}`)
+    const response = await fetch(`${basePath}/api/security/logs?${searchParams}`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || '获取审计日志失败')
+    }
+
+    return result
   }
 
   static async getUsers(): Promise<ApiResponse<UserPermission[]>> {
@@ -0,0 +1,45 @@
+import { SavedTaskView, CreateSavedTaskViewRequest } from '@/types'
+
+// 获取 basePath，在 Next.js 中需要手动处理
+const basePath = process.env.NEXT_PUBLIC_BASE_PATH || ''
+const API_BASE = `${basePath}/api/task-views`
+
+// 获取当前用户保存的视图
+export async function getTaskViews(): Promise<SavedTaskView[]> {
+  const response = await fetch(API_BASE)
+  const result = await response.json()
+
+  if (!result.success) {
+    throw new Error(result.error || '获取保存的视图失败')
+  }
+
+  return result.data
+}
+
+// 保存视图，同名视图会被覆盖
+export async function saveTaskView(request: CreateSavedTaskViewRequest): Promise<SavedTaskView> {
+  const response = await fetch(API_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  })
+  const result = await response.json()
+
+  if (!result.success) {
+    throw new Error(result.error || '保存视图失败')
+  }
+
+  return result.data
+}
+
+// 删除视图
+export async function deleteTaskView(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/${encodeURIComponent(id)}`, {
+    method: 'DELETE'
+  })
+  const result = await response.json()
+
+  if (!result.success) {
+    throw new Error(result.error || '删除视图失败')
+  }
+}
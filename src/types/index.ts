@@ -177,6 +177,19 @@ export interface ApplyTemplateRequest {
   variables: Record<string, string>; // 变量值映射
 }
 
+// 任务列表的保存视图：按用户保存的查询
+export interface SavedTaskView {
+  id: string;
+  name: string;
+  query: string; // 任务查询语言，见 lib/task-query.ts
+  created_at: string;
+}
+
+export interface CreateSavedTaskViewRequest {
+  name: string;
+  query: string;
+}
+
 // WebSocket 消息类型
 export interface WebSocketMessage {
   type: "task_updated" | "worker_status" | "system_alert" | "log_update";